@@ -0,0 +1,51 @@
+// adders.ts
+// Circle rate adders: ₹/kg on top of the resolved circle rate (item override, master, fallback),
+// by component, thickness, circle size range or circle supplier. Applied inside calculate(), so the
+// Calculator, quotes, jobs and exports all cost with the same effective rate.
+import type { AppliedAdder, AppSettings, CircleAdderRule, MaterialMaster, PressedComponent } from './types'
+import { circleMaterialFor, resolvePartCircleRatePerKg } from './materials'
+
+// The flat +3 the Calculator always added before rules existed
+export function defaultCircleAdders(): CircleAdderRule[] {
+  return [{ id: 'backend-add', name: 'Backend add', enabled: true, addPerKg: 3 }]
+}
+
+function sameNum(a: number, b: number): boolean {
+  return Math.abs(a - b) < 1e-9
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+export function adderMatches(rule: CircleAdderRule, part: PressedComponent, m: MaterialMaster): boolean {
+  if (!rule.enabled) return false
+  if (rule.part && !sameText(rule.part, part.id) && !sameText(rule.part, part.name)) return false
+  if (rule.thicknessMm !== undefined && !sameNum(rule.thicknessMm, part.thicknessMm)) return false
+  if (rule.minCircleIn !== undefined && part.circleSizeIn < rule.minCircleIn) return false
+  if (rule.maxCircleIn !== undefined && part.circleSizeIn > rule.maxCircleIn) return false
+  if (rule.supplier) {
+    const supplier = circleMaterialFor(part, m)?.supplier
+    if (!supplier || !sameText(supplier, rule.supplier)) return false
+  }
+  return true
+}
+
+export function circleAddersFor(part: PressedComponent, settings: AppSettings): AppliedAdder[] {
+  return settings.circleAdders
+    .filter(r => adderMatches(r, part, settings.materials))
+    .map(r => ({ ruleId: r.id, name: r.name, addPerKg: r.addPerKg }))
+}
+
+export type EffectiveCircleRate = { base: number; adders: AppliedAdder[]; rate: number }
+
+// `base` is given for circles blanked in-house (calc.ts)
+export function effectiveCircleRate(part: PressedComponent, settings: AppSettings, base = resolvePartCircleRatePerKg(part, settings)): EffectiveCircleRate {
+  const adders = circleAddersFor(part, settings)
+  return { base, adders, rate: adders.reduce((a, x) => a + x.addPerKg, base) }
+}
+
+// " + Backend add 3 − Supplier X 2", to follow a base rate
+export function adderText(adders: AppliedAdder[]): string {
+  return adders.map(a => ` ${a.addPerKg < 0 ? '−' : '+'} ${a.name} ${Math.abs(a.addPerKg)}`).join('')
+}
@@ -0,0 +1,85 @@
+// audit.test.ts
+import { describe, expect, it } from 'vitest'
+import type { Item, ItemAudit, PressedComponent } from './types'
+import { NO_FILTER, changedSince, filterAudit, itemAudit, revertItem, revertSettings, settingsAudit } from './audit'
+import type { Actor } from './audit'
+import { seedItems, seedSettings } from './seed'
+import { setPath } from './fields'
+import { newStage } from './stages'
+import { pressedById, replaceComponent } from './components'
+
+const ravi: Actor = { userId: 'u1', email: 'ravi@factory.in' }
+const base: Item = seedItems[0]
+const part = (it: Item, id: string) => pressedById(it, id) as PressedComponent
+
+function audit(before: Item | null, after: Item | null): ItemAudit {
+  const e = itemAudit(ravi, before, after)
+  if (!e) throw new Error('no change')
+  return e
+}
+
+describe('itemAudit', () => {
+  it('records who changed which fields', () => {
+    const after = setPath(base, 'components.box.circleRatePerKg', 181)
+    const e = audit(base, after)
+    expect(e.action).toBe('update')
+    expect(e.userEmail).toBe('ravi@factory.in')
+    expect(e.changes).toEqual([{ path: 'components.box.circleRatePerKg', from: undefined, to: 181 }])
+  })
+
+  it('skips saves that change nothing', () => {
+    expect(itemAudit(ravi, base, { ...base })).toBeNull()
+  })
+})
+
+describe('revertItem', () => {
+  it('puts back only the reverted fields and keeps later edits', () => {
+    const stage = part(base, 'box').stages[0].id
+    const v2 = setPath(base, `components.box.stages.${stage}.tutPct`, 9)
+    const e = audit(base, v2)
+    const v3 = { ...v2, name: 'Renamed later' }
+
+    const back = revertItem(v3, e) as Item
+    expect(part(back, 'box').stages[0].tutPct).toBe(part(base, 'box').stages[0].tutPct)
+    expect(back.name).toBe('Renamed later')
+    expect(changedSince(v3, e)).toEqual([])
+    expect(changedSince(setPath(v3, `components.box.stages.${stage}.tutPct`, 10), e)).toEqual([`components.box.stages.${stage}.tutPct`])
+  })
+
+  it('removes an added override and an added stage as a whole', () => {
+    const cover = part(base, 'cover')
+    const v2 = replaceComponent(base, { ...cover, circleRatePerKg: 200, stages: [...cover.stages, newStage('annealing', 'st_new')] })
+    const back = revertItem(v2, audit(base, v2)) as Item
+    expect(back).toEqual(base)
+  })
+
+  it('restores a removed stage and undoes create / delete', () => {
+    const v2 = replaceComponent(base, { ...part(base, 'box'), stages: part(base, 'box').stages.slice(1) })
+    const back = revertItem(v2, audit(base, v2)) as Item
+    expect(part(back, 'box').stages.map(s => s.id).sort()).toEqual(part(base, 'box').stages.map(s => s.id).sort())
+
+    expect(revertItem(base, audit(null, base))).toBeNull()
+    expect(revertItem(null, audit(base, null))).toEqual(base)
+    expect(() => revertItem(null, audit(base, v2))).toThrow(/deleted since/)
+  })
+})
+
+describe('settings', () => {
+  it('reverts a settings change', () => {
+    const after = { ...seedSettings, bagStandardKg: 75 }
+    const e = settingsAudit(ravi, seedSettings, after)
+    expect(e?.changes.map(c => c.path)).toEqual(['bagStandardKg'])
+    expect(revertSettings(after, e!).bagStandardKg).toBe(80)
+  })
+})
+
+describe('filterAudit', () => {
+  it('filters by item, user and date, newest first', () => {
+    const a = { ...audit(base, { ...base, name: 'A' }), at: '2026-05-01T06:00:00.000Z' }
+    const b = { ...audit(base, { ...base, name: 'B' }), at: '2026-05-03T06:00:00.000Z', userId: 'u2' }
+    expect(filterAudit([a, b], NO_FILTER).map(e => e.at)).toEqual([b.at, a.at])
+    expect(filterAudit([a, b], { ...NO_FILTER, userId: 'u2' })).toEqual([b])
+    expect(filterAudit([a, b], { ...NO_FILTER, to: '2026-05-02' })).toEqual([a])
+    expect(filterAudit([a, b], { ...NO_FILTER, refId: 'other' })).toEqual([])
+  })
+})
@@ -0,0 +1,180 @@
+// audit.ts
+// Audit log: who changed which item / settings field, and when. Entries are written next to
+// every local save (App.tsx), kept in IndexedDB and pushed append-only like price snapshots.
+// Reverting an entry puts back only the fields it changed; later edits to other fields stay.
+import type { AppSettings, AuditAction, AuditEntry, Item, ItemAudit, SettingsAudit } from './types'
+import type { FieldChange } from './fields'
+import { arrayKey, diffFields, flatten, getPath, setPath } from './fields'
+import { getAuditEntries, putAuditEntries } from './local'
+import { migrateItem } from './migrate'
+import { makeId } from './seed'
+
+export type Actor = { userId: string; email: string }
+
+function action(before: unknown, after: unknown, revertOf?: string): AuditAction {
+  if (revertOf) return 'revert'
+  if (before === null) return 'create'
+  if (after === null) return 'delete'
+  return 'update'
+}
+
+// null when nothing changed (e.g. Save pressed twice)
+export function itemAudit(actor: Actor, before: Item | null, after: Item | null, revertOf?: string): ItemAudit | null {
+  const changes = diffFields(before ?? {}, after ?? {})
+  const ref = after ?? before
+  if (!ref || !changes.length) return null
+  return {
+    id: makeId('aud'),
+    kind: 'item',
+    refId: ref.id,
+    refName: ref.name,
+    action: action(before, after, revertOf),
+    at: new Date().toISOString(),
+    userId: actor.userId,
+    userEmail: actor.email,
+    changes,
+    before,
+    after,
+    ...(revertOf ? { revertOf } : {})
+  }
+}
+
+export function settingsAudit(actor: Actor, before: AppSettings | null, after: AppSettings, revertOf?: string): SettingsAudit | null {
+  const changes = diffFields(before ?? {}, after)
+  if (!changes.length) return null
+  return {
+    id: makeId('aud'),
+    kind: 'settings',
+    refId: 'settings',
+    refName: 'Settings',
+    action: action(before, after, revertOf),
+    at: new Date().toISOString(),
+    userId: actor.userId,
+    userEmail: actor.email,
+    changes,
+    before,
+    after,
+    ...(revertOf ? { revertOf } : {})
+  }
+}
+
+export async function recordAudit(uid: string, entry: AuditEntry | null): Promise<void> {
+  if (entry) await putAuditEntries(uid, [{ ...entry, synced: false }])
+}
+
+// ---------- ACTIVITY VIEW ----------
+export type AuditFilter = {
+  refId: string                 // '' => everything
+  userId: string
+  from: string                  // YYYY-MM-DD (local), '' => open
+  to: string
+}
+
+export const NO_FILTER: AuditFilter = { refId: '', userId: '', from: '', to: '' }
+
+function localDate(iso: string): string {
+  const d = new Date(iso)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+// Newest first
+export function filterAudit(entries: AuditEntry[], f: AuditFilter): AuditEntry[] {
+  return entries
+    .filter(e => {
+      const day = localDate(e.at)
+      return (!f.refId || e.refId === f.refId) && (!f.userId || e.userId === f.userId) && (!f.from || day >= f.from) && (!f.to || day <= f.to)
+    })
+    .sort((a, b) => b.at.localeCompare(a.at))
+}
+
+export async function listAudit(uid: string): Promise<AuditEntry[]> {
+  return filterAudit(await getAuditEntries(uid), NO_FILTER)
+}
+
+// ---------- REVERT ----------
+function parentOf(path: string): string {
+  const i = path.lastIndexOf('.')
+  return i < 0 ? '' : path.slice(0, i)
+}
+
+function lastKey(path: string): string {
+  return path.slice(path.lastIndexOf('.') + 1)
+}
+
+// Outermost part of `path` missing from obj, so an added / removed stage is undone as a whole
+function missingRoot(obj: unknown, path: string): string {
+  const keys = path.split('.')
+  for (let n = 1; n < keys.length; n++) {
+    const p = keys.slice(0, n).join('.')
+    if (getPath(obj, p) === undefined) return p
+  }
+  return path
+}
+
+function setAt<T>(obj: T, path: string, value: unknown): T {
+  return path ? setPath(obj, path, value) : (value as T)
+}
+
+function removeAt<T>(obj: T, path: string): T {
+  const parentPath = parentOf(path)
+  const k = lastKey(path)
+  const parent = parentPath ? getPath(obj, parentPath) : obj
+  if (Array.isArray(parent)) return setAt(obj, parentPath, parent.filter((el, i) => arrayKey(el, i) !== k))
+  if (parent === null || typeof parent !== 'object') return obj
+  const rest = { ...(parent as Record<string, unknown>) }
+  delete rest[k]
+  return setAt(obj, parentPath, rest)
+}
+
+// Array elements that are gone again are appended
+function restoreAt<T>(obj: T, path: string, value: unknown): T {
+  const parentPath = parentOf(path)
+  const k = lastKey(path)
+  const parent = parentPath ? getPath(obj, parentPath) : obj
+  if (Array.isArray(parent) && !parent.some((el, i) => arrayKey(el, i) === k)) return setAt(obj, parentPath, [...parent, value])
+  return setPath(obj, path, value)
+}
+
+function undo<T>(current: T, before: T, after: T, changes: FieldChange[]): T {
+  const steps = new Map<string, unknown>() // path => value to put back, undefined => remove
+  for (const c of changes) {
+    if (c.from === undefined) steps.set(missingRoot(before, c.path), undefined)
+    else if (c.to === undefined) {
+      const p = missingRoot(after, c.path)
+      steps.set(p, getPath(before, p))
+    } else steps.set(c.path, c.from)
+  }
+  // Deepest / last index first, so removing one array element doesn't shift the next
+  const ordered = [...steps].sort(([a], [b]) => b.localeCompare(a, undefined, { numeric: true }))
+  return ordered.reduce((out, [p, v]) => (v === undefined ? removeAt(out, p) : restoreAt(out, p, v)), current)
+}
+
+function sameSchema(current: { schemaVersion: number }, e: { before: { schemaVersion: number } | null; after: { schemaVersion: number } | null }) {
+  const v = (e.after ?? e.before)?.schemaVersion
+  if (v !== current.schemaVersion) throw new Error('This change was made by an older app version and cannot be reverted field by field')
+}
+
+// null => revert means deleting the item (undoing its creation)
+export function revertItem(current: Item | null, e: ItemAudit): Item | null {
+  if (!e.before) return null
+  if (!e.after) {
+    if (current) throw new Error(`"${e.refName}" exists again; nothing to restore`)
+    return migrateItem(e.before)
+  }
+  if (!current) throw new Error(`"${e.refName}" was deleted since; revert the deletion first`)
+  sameSchema(current, e)
+  return undo(current, e.before, e.after, e.changes)
+}
+
+export function revertSettings(current: AppSettings, e: SettingsAudit): AppSettings {
+  if (!e.before) throw new Error('The first settings save has nothing to go back to')
+  sameSchema(current, e)
+  return undo(current, e.before, e.after, e.changes)
+}
+
+// Fields of the entry that were changed again afterwards (the revert overwrites those too)
+export function changedSince(current: unknown, e: AuditEntry): string[] {
+  if (current === null) return []
+  const now = flatten(current)
+  return e.changes.filter(c => now[c.path] !== c.to).map(c => c.path)
+}
@@ -0,0 +1,56 @@
+// blanking.ts
+// Circles cut in-house from sheet or coil: how many fit (square or hex nesting) and how much
+// sheet each one takes. Weights and costs are in calc.ts, next to the locked circle formula.
+import type { BlankingSpec } from './types'
+
+export const METRE_IN = 1000 / 25.4
+
+// Float slack so an exact fit (3 × 8" on a 24" sheet) is not lost to rounding
+const EPS = 1e-9
+
+export type Nesting = {
+  circles: number               // per sheet (coil: per metre of strip)
+  areaIn2: number               // the sheet (coil: one metre of strip)
+  areaPerCircleIn2: number
+}
+
+// n circles across need n pitches plus one more gap for the far edge
+function across(spanIn: number, pitchIn: number, gapIn: number): number {
+  return Math.max(Math.floor((spanIn - gapIn) / pitchIn + EPS), 0)
+}
+
+// Circles in one pair of rows and the strip length that pair takes
+function rowPair(spec: BlankingSpec, circleIn: number): { circles: number; lengthIn: number } {
+  const pitch = circleIn + spec.gapIn
+  if (spec.layout === 'square') return { circles: 2 * across(spec.widthIn, pitch, spec.gapIn), lengthIn: 2 * pitch }
+  const shifted = across(spec.widthIn - pitch / 2, pitch, spec.gapIn)
+  return { circles: across(spec.widthIn, pitch, spec.gapIn) + shifted, lengthIn: pitch * Math.sqrt(3) }
+}
+
+function rowsOnSheet(spec: BlankingSpec, circleIn: number): number {
+  const pitch = circleIn + spec.gapIn
+  const rowPitch = spec.layout === 'square' ? pitch : (pitch * Math.sqrt(3)) / 2
+  if (spec.lengthIn + EPS < pitch + spec.gapIn) return 0
+  return Math.floor((spec.lengthIn - pitch - spec.gapIn) / rowPitch + EPS) + 1
+}
+
+export function nestCircles(spec: BlankingSpec, circleIn: number): Nesting {
+  if (spec.source === 'coil') {
+    const pair = rowPair(spec, circleIn)
+    const areaIn2 = spec.widthIn * METRE_IN
+    return { circles: (pair.circles * METRE_IN) / pair.lengthIn, areaIn2, areaPerCircleIn2: pair.circles ? (spec.widthIn * pair.lengthIn) / pair.circles : Infinity }
+  }
+
+  const pitch = circleIn + spec.gapIn
+  const rows = rowsOnSheet(spec, circleIn)
+  const full = across(spec.widthIn, pitch, spec.gapIn)
+  const shifted = spec.layout === 'hex' ? across(spec.widthIn - pitch / 2, pitch, spec.gapIn) : full
+  const circles = Math.ceil(rows / 2) * full + Math.floor(rows / 2) * shifted
+  const areaIn2 = spec.widthIn * spec.lengthIn
+  return { circles, areaIn2, areaPerCircleIn2: circles ? areaIn2 / circles : Infinity }
+}
+
+// A 4 × 8 ft sheet, hex nested, offcuts back at the master scrap rate
+export function newBlanking(ratePerKg: number): BlankingSpec {
+  return { enabled: true, source: 'sheet', widthIn: 48, lengthIn: 96, layout: 'hex', gapIn: 0.125, ratePerKg, offcut: { enabled: true } }
+}
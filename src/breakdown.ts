@@ -0,0 +1,54 @@
+// breakdown.ts
+// Cost waterfall of one standard bag (CalcResult.breakdown) for the Calculator report:
+// each pressed component's circle, its stage charges less scrap credit, then purchased
+// components, plastic, packing and cartons, ending at the final ₹/kg.
+import type { CostBreakdown } from './types'
+import { adderText } from './adders'
+
+export type WaterfallStep = {
+  key: string
+  label: string
+  detail: string
+  amount: number                // ₹ per bag, negative => credit
+  perKg: number                 // amount over the bag kg
+  runningPerKg: number          // ₹/kg after this step
+  total?: boolean
+}
+
+function r2(n: number) { return Math.round(n * 100) / 100 }
+
+// Zero steps (free purchased parts, zero-rate packing tut) are left out
+export function waterfall(b: CostBreakdown): WaterfallStep[] {
+  const steps: Omit<WaterfallStep, 'perKg' | 'runningPerKg'>[] = []
+
+  for (const p of b.parts) {
+    const part = p.name
+    const adders = adderText(p.adders)
+    const rate = adders ? `₹${p.baseCircleRatePerKg}${adders} = ₹${p.circleRatePerKg}` : `₹${p.circleRatePerKg}`
+    const grade = p.grade ? `${p.grade} ` : ''
+    const cut = p.blanking ? `${p.blanking.sheetKgIn} kg ${p.blanking.source} − ${p.blanking.offcutKg} kg offcut → ` : ''
+    steps.push({ key: `${p.part}.circle`, label: `${part} circle`, detail: `${grade}${cut}${p.circleKgIn} kg @ ${rate}`, amount: p.circleCost })
+    for (const s of p.stages) {
+      steps.push({ key: `${p.part}.${s.stageId}`, label: `${part} ${s.name}`, detail: `${s.kgIn} → ${s.kgOut} kg`, amount: s.charge })
+    }
+    steps.push({ key: `${p.part}.scrap`, label: `${part} scrap credit`, detail: `${r2(p.stages.reduce((a, s) => a + s.tutKg, 0))} kg tut`, amount: -p.scrapCredit })
+  }
+  for (const c of b.purchased) {
+    const detail = c.basis === 'piece' ? `${c.pcs} pcs @ ₹${c.rate}` : `${c.kg} kg @ ₹${c.rate}`
+    steps.push({ key: `purchased.${c.id}`, label: c.name, detail, amount: c.cost })
+  }
+  steps.push({ key: 'plastic', label: 'Plastic', detail: `${r2(b.plastic.polybagKg + b.plastic.pipeKg)} kg film`, amount: b.plastic.cost })
+  steps.push({ key: 'packing', label: 'Packing', detail: `${b.bagKg} kg @ ₹${b.packing.ratePerKg}`, amount: b.packing.cost })
+  const inners = b.packing.inners ? `${b.packing.inners} inner packs of ${b.packing.innerPcs} + ` : ''
+  steps.push({ key: 'cartons', label: 'Cartons', detail: `${inners}master bag`, amount: b.packing.cartonCost })
+
+  let running = 0
+  const out: WaterfallStep[] = steps
+    .filter(s => s.amount !== 0)
+    .map(s => {
+      running += s.amount
+      return { ...s, perKg: r2(s.amount / b.bagKg), runningPerKg: r2(running / b.bagKg) }
+    })
+  out.push({ key: 'total', label: 'Final cost', detail: `₹${b.finalCost} per ${b.bagKg} kg bag`, amount: b.finalCost, perKg: b.perKgRate, runningPerKg: b.perKgRate, total: true })
+  return out
+}
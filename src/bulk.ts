@@ -0,0 +1,132 @@
+// bulk.ts
+// One-off bulk edits: pick items by name / field values, change one numeric field on all of them.
+// Paths are fields.ts paths; a `*` segment matches any key, e.g. `components.*.stages.polish.rate`
+// hits every pressed component.
+import type { Item } from './types'
+import type { CalcOutcome } from './calc'
+import { flatten, getPath, setPath } from './fields'
+
+export type BulkCondition = {
+  path: string
+  op: 'eq' | 'ne' | 'gt' | 'lt'
+  value: string
+}
+
+export type BulkFilter = {
+  namePattern: string           // case-insensitive substring, `*` matches anything
+  conditions: BulkCondition[]
+}
+
+export type BulkMode = 'set' | 'add' | 'pct'
+
+export type BulkChange = {
+  path: string
+  mode: BulkMode
+  value: number
+}
+
+export type BulkFieldChange = { path: string; from: number | undefined; to: number }
+
+export type BulkPreviewRow = {
+  item: Item
+  next: Item
+  changes: BulkFieldChange[]
+  before: CalcOutcome
+  after: CalcOutcome            // !ok => the change would make the item invalid
+}
+
+function wildcard(pattern: string, segment: string, anchored = true): RegExp {
+  const body = pattern
+    .split('*')
+    .map(p => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join(segment)
+  return new RegExp(anchored ? `^${body}$` : body, 'i')
+}
+
+export function matchesName(name: string, pattern: string): boolean {
+  const p = pattern.trim()
+  if (!p) return true
+  return wildcard(p, '.*', false).test(name)
+}
+
+function matchesCondition(item: Item, c: BulkCondition): boolean {
+  const v = getPath(item, c.path)
+  const n = Number(c.value)
+  const numeric = typeof v === 'number' && c.value.trim() !== '' && isFinite(n)
+
+  if (c.op === 'gt') return numeric && (v as number) > n
+  if (c.op === 'lt') return numeric && (v as number) < n
+
+  const eq = numeric ? v === n : String(v ?? '') === c.value.trim()
+  return c.op === 'eq' ? eq : !eq
+}
+
+export function filterItems(items: Item[], f: BulkFilter): Item[] {
+  return items.filter(it => matchesName(it.name, f.namePattern) && f.conditions.every(c => !c.path || matchesCondition(it, c)))
+}
+
+// Numeric leaves of the items, plus `components.*.` forms for component paths
+export function numericPaths(items: Item[]): string[] {
+  const out = new Set<string>()
+  for (const it of items) {
+    for (const [path, v] of Object.entries(flatten(it))) {
+      if (typeof v !== 'number') continue
+      out.add(path)
+      if (path.startsWith('components.')) out.add(path.replace(/^components\.[^.]+\./, 'components.*.'))
+    }
+  }
+  return [...out].sort()
+}
+
+// Concrete numeric paths a (possibly wildcard) path hits on this item.
+// A plain path that is missing on the item is still a target for 'set' (e.g. optional overrides).
+function targetPaths(item: Item, path: string, mode: BulkMode): string[] {
+  if (!path.includes('*')) {
+    const v = getPath(item, path)
+    if (typeof v === 'number' || (v === undefined && mode === 'set')) return [path]
+    return []
+  }
+  const re = wildcard(path, '[^.]+')
+  return Object.entries(flatten(item))
+    .filter(([p, v]) => typeof v === 'number' && re.test(p))
+    .map(([p]) => p)
+}
+
+function r4(n: number) { return Math.round(n * 10000) / 10000 }
+
+export function applyChange(item: Item, change: BulkChange): { next: Item; changes: BulkFieldChange[] } {
+  let next = item
+  const changes: BulkFieldChange[] = []
+
+  for (const path of targetPaths(item, change.path, change.mode)) {
+    const from = getPath(item, path) as number | undefined
+    const base = from ?? 0
+    const to =
+      change.mode === 'set' ? change.value :
+      change.mode === 'add' ? r4(base + change.value) :
+      r4(base * (1 + change.value / 100))
+
+    if (to === from) continue
+    const moved = setPath(next, path, to)
+    if (getPath(moved, path) !== to) continue    // e.g. stage id not on this item
+    next = moved
+    changes.push({ path, from, to })
+  }
+  return { next, changes }
+}
+
+// Only items the change actually touches
+export function previewBulk(
+  items: Item[],
+  filter: BulkFilter,
+  change: BulkChange,
+  costOf: (it: Item) => CalcOutcome
+): BulkPreviewRow[] {
+  const rows: BulkPreviewRow[] = []
+  for (const item of filterItems(items, filter)) {
+    const { next, changes } = applyChange(item, change)
+    if (!changes.length) continue
+    rows.push({ item, next, changes, before: costOf(item), after: costOf(next) })
+  }
+  return rows
+}
@@ -0,0 +1,408 @@
+// calc.test.ts
+// Golden numbers for every seed item + invariants over random items.
+// After an intended formula change, review and refresh the golden file with `npx vitest run -u`.
+import { describe, expect, it } from 'vitest'
+import type { AppSettings, CalcResult, Item, ItemComponent, Packaging, PressedComponent, ProcessStage, PurchasedComponent } from './types'
+import { calculate, circleWeightG, pipeWeightG, polybagWeightG } from './calc'
+import { seedItems, seedSettings } from './seed'
+import { waterfall } from './breakdown'
+import { DEFAULT_GRADE, SHOP_STEEL_DENSITY_GCC, resolveScrapRatePerKg } from './materials'
+import { METRE_IN, nestCircles, newBlanking } from './blanking'
+import { newPressedComponent, newPurchasedComponent, pressedById, pressedComponents, replaceComponent } from './components'
+
+// Every item in this file is valid; an error outcome fails the test with its reasons
+function cost(item: Item, settings: AppSettings = seedSettings): CalcResult {
+  const out = calculate(item, settings)
+  if (!out.ok) throw new Error(out.errors.map(e => e.message).join('; '))
+  return out.result
+}
+
+// ids are random per load, everything else is locked
+function golden(r: CalcResult) {
+  return { itemName: r.itemName, perPc: r.perPc, pcsPerBag: r.pcsPerBag, perKgRate: r.perKgRate, perPcRate: r.perPcRate, debug: r.debug }
+}
+
+describe('weight formulas (locked)', () => {
+  it('circleWeightG: (263/254) * D^2 scaled by (thickness + 0.003) / 0.263', () => {
+    expect(circleWeightG(7, 0.26)).toBeCloseTo((263 / 254) * 49, 10)
+    expect(circleWeightG(9, 0.33)).toBeCloseTo((263 / 254) * 81 * (0.333 / 0.263), 10)
+    expect(circleWeightG(8.5, 0.26)).toBeCloseTo(74.81, 2)
+  })
+
+  it('circleWeightG scales by density over the shop steel it was fitted to', () => {
+    expect(circleWeightG(8.5, 0.26, SHOP_STEEL_DENSITY_GCC)).toBe(circleWeightG(8.5, 0.26))
+    expect(circleWeightG(8.5, 0.26, 2.7)).toBeCloseTo(circleWeightG(8.5, 0.26) * (2.7 / 7.77), 10)
+  })
+
+  it('polybagWeightG: size * size * gauge / 3300', () => {
+    expect(polybagWeightG(8, 225)).toBeCloseTo(4.3636, 4)
+    expect(polybagWeightG(12, 100)).toBeCloseTo(4.3636, 4)
+  })
+
+  it('pipeWeightG: width * length * gauge / 3300', () => {
+    expect(pipeWeightG(7, 25, 225)).toBeCloseTo(11.9318, 4)
+    expect(pipeWeightG(12, 25, 100)).toBeCloseTo(9.0909, 4)
+  })
+})
+
+// Golden numbers are on the resolved circle rates alone; adders are checked separately
+const noAdders: AppSettings = { ...seedSettings, circleAdders: [] }
+
+describe('calculate: golden seed items', () => {
+  it.each(seedItems.map(it => [it.name, it] as const))('%s', (_name, item) => {
+    expect(golden(cost(item, noAdders))).toMatchSnapshot()
+  })
+})
+
+function part(item: Item, id: string): PressedComponent {
+  return pressedById(item, id) as PressedComponent
+}
+
+describe('circle rate adders', () => {
+  const item = seedItems.find(it => part(it, 'box').thicknessMm !== part(it, 'cover').thicknessMm) as Item
+  const withRate = (it: Item, box: number, cover: number): Item =>
+    replaceComponent(replaceComponent(it, { ...part(it, 'box'), circleRatePerKg: box }), { ...part(it, 'cover'), circleRatePerKg: cover })
+
+  it('the default rule costs like the old flat +3 on both parts', () => {
+    for (const it of seedItems) {
+      const b = cost(it).breakdown.parts
+      expect(b.map(p => p.adders.map(a => a.addPerKg))).toEqual([[3], [3]])
+      expect(golden(cost(it))).toEqual(golden(cost(withRate(it, b[0].baseCircleRatePerKg + 3, b[1].baseCircleRatePerKg + 3), noAdders)))
+    }
+  })
+
+  it('applies only matching rules and lists them per part', () => {
+    const settings: AppSettings = {
+      ...noAdders,
+      materials: { ...noAdders.materials, circles: noAdders.materials.circles.map(c => ({ ...c, supplier: 'Jindal' })) },
+      circleAdders: [
+        { id: 'thick', name: '0.33 extra', enabled: true, addPerKg: 5, thicknessMm: part(item, 'box').thicknessMm },
+        { id: 'cover', name: 'Cover only', enabled: true, addPerKg: 2, part: 'cover' },
+        { id: 'big', name: 'Big circles', enabled: true, addPerKg: 1, minCircleIn: 100 },
+        { id: 'supplier', name: 'Jindal', enabled: true, addPerKg: -1, supplier: 'jindal ' },
+        { id: 'off', name: 'Off', enabled: false, addPerKg: 50 }
+      ]
+    }
+    const [box, cover] = cost(item, settings).breakdown.parts
+    expect(box.adders.map(a => a.ruleId)).toEqual(['thick', 'supplier'])
+    expect(cover.adders.map(a => a.ruleId)).toEqual(['cover', 'supplier'])
+    expect(box.circleRatePerKg).toBe(box.baseCircleRatePerKg + 4)
+    expect(cover.circleRatePerKg).toBe(cover.baseCircleRatePerKg + 1)
+  })
+})
+
+// ---------- PROPERTY TESTS ----------
+// Small seeded PRNG so failures are reproducible (the run index is in the message)
+function prng(seed: number) {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const RUNS = 200
+
+type Rand = () => number
+
+function between(rand: Rand, lo: number, hi: number) {
+  return lo + rand() * (hi - lo)
+}
+
+function randomStage(rand: Rand, s: ProcessStage): ProcessStage {
+  const bases = ['inputKg', 'outputKg', 'perPc'] as const
+  const chargeBasis = bases[Math.floor(rand() * bases.length)]
+  return {
+    ...s,
+    enabled: rand() > 0.15,
+    chargeBasis,
+    rate: chargeBasis === 'perPc' ? between(rand, 0, 2) : between(rand, 0, 100),
+    actualWastagePct: between(rand, 0, 10),
+    jobWastagePct: between(rand, 0, 10),
+    tutPct: between(rand, 0, 10),
+    scrapReturn: { enabled: rand() > 0.3, ratePerKg: between(rand, 0, 80) }
+  }
+}
+
+// Seed item with random numbers; sometimes without its kunda, with an extra pressed part, a
+// component bought by the piece or its own floored bag of inner packs
+function randomItem(rand: Rand): Item {
+  const base = seedItems[Math.floor(rand() * seedItems.length)]
+  const pressed = (p: PressedComponent): PressedComponent => ({
+    ...p,
+    circleSizeIn: between(rand, 4, 12),
+    thicknessMm: [0.26, 0.33, 0.4][Math.floor(rand() * 3)],
+    circleRatePerKg: between(rand, 100, 300),
+    stages: p.stages.map(s => randomStage(rand, s))
+  })
+  const components: ItemComponent[] = pressedComponents(base).map(pressed)
+  if (rand() > 0.7) components.push(pressed(newPressedComponent(base, 'ring', 'Ring')))
+  if (rand() > 0.5) components.push({ kind: 'purchased', id: 'kunda', name: 'Kunda', basis: 'weight', weightG: between(rand, 0, 15), ratePerKg: between(rand, 100, 300) })
+  if (rand() > 0.7) components.push({ ...newPurchasedComponent('handle', 'Handle'), weightG: between(rand, 0, 10), ratePerPc: between(rand, 0, 5) })
+  return {
+    ...base,
+    components,
+    bagProfile: {
+      ...base.bagProfile,
+      polybag: { ...base.bagProfile.polybag, ratePerKg: between(rand, 100, 200) },
+      pipe: { ...base.bagProfile.pipe, ratePerKg: between(rand, 100, 200) }
+    },
+    packing: { packingRatePerKg: between(rand, 0, 20) },
+    ...(rand() > 0.6
+      ? {
+          packaging: {
+            target: 'kg',
+            bagKg: between(rand, 30, 80),
+            rounding: 'floor',
+            innerPcs: 1 + Math.floor(rand() * 12),
+            innerCostPerPack: between(rand, 0, 20),
+            bagCost: between(rand, 0, 50)
+          }
+        }
+      : {})
+  }
+}
+
+function mapPressed(item: Item, f: (p: PressedComponent) => PressedComponent): Item {
+  return { ...item, components: item.components.map(c => (c.kind === 'pressed' ? f(c) : c)) }
+}
+
+function forEachPart(item: Item, f: (s: ProcessStage) => ProcessStage): Item {
+  return mapPressed(item, p => ({ ...p, stages: p.stages.map(f) }))
+}
+
+function metalPackedKg(item: Item, r: CalcResult) {
+  const ids = new Set(pressedComponents(item).map(p => p.id))
+  return (r.debug.pcs * r.perPc.components.filter(c => ids.has(c.id)).reduce((a, c) => a + c.g, 0)) / 1000
+}
+
+describe('calculate: invariants', () => {
+  it('scrap credit never exceeds tut kg × scrap rate', () => {
+    const rand = prng(11)
+    for (let i = 0; i < RUNS; i++) {
+      const item = randomItem(rand)
+      const r = cost(item)
+      // Each stage's tut (kg in × tut %) at that stage's own scrap rate; kg in is rounded to grams
+      const bound = r.breakdown.parts.reduce((sum, p) => {
+        const stages = part(item, p.part).stages
+        return sum + p.stages.reduce((a, s) => {
+          const stage = stages.find(x => x.id === s.stageId)
+          if (!stage?.scrapReturn.enabled) return a
+          const tutKg = ((s.kgIn + 0.0005) * stage.tutPct) / 100
+          return a + tutKg * resolveScrapRatePerKg(stage.scrapReturn, seedSettings)
+        }, 0)
+      }, 0)
+      expect(r.debug.scrapCredit, `run ${i}`).toBeLessThanOrEqual(bound + 0.005)
+    }
+  })
+
+  it('no tut or no scrap return => no scrap credit', () => {
+    const rand = prng(12)
+    for (let i = 0; i < RUNS; i++) {
+      const item = randomItem(rand)
+      const noTut = forEachPart(item, s => ({ ...s, tutPct: 0 }))
+      const noReturn = forEachPart(item, s => ({ ...s, scrapReturn: { ...s.scrapReturn, enabled: false } }))
+      expect(cost(noTut).debug.scrapCredit, `run ${i}`).toBe(0)
+      expect(cost(noReturn).debug.scrapCredit, `run ${i}`).toBe(0)
+    }
+  })
+
+  it('zero wastage => circle-in kg equals packed kg and grams equal the circle weight', () => {
+    const rand = prng(13)
+    for (let i = 0; i < RUNS; i++) {
+      const item = forEachPart(randomItem(rand), s => ({ ...s, actualWastagePct: 0, jobWastagePct: 0, tutPct: 0 }))
+      const r = cost(item)
+      expect(r.debug.circleKgInTotal, `run ${i}`).toBeCloseTo(metalPackedKg(item, r), 1)
+      for (const p of pressedComponents(item)) {
+        const g = r.perPc.components.find(c => c.id === p.id)?.g
+        expect(g, `run ${i}`).toBeCloseTo(circleWeightG(p.circleSizeIn, p.thicknessMm), 1)
+      }
+    }
+  })
+
+  it('cost is monotonic in every rate (and falls as scrap rate rises)', () => {
+    const bump = 5
+    const knobs: [string, (it: Item) => Item][] = [
+      ['box circle rate', it => replaceComponent(it, { ...part(it, 'box'), circleRatePerKg: (part(it, 'box').circleRatePerKg ?? 0) + bump })],
+      ['cover circle rate', it => replaceComponent(it, { ...part(it, 'cover'), circleRatePerKg: (part(it, 'cover').circleRatePerKg ?? 0) + bump })],
+      ['stage rates', it => forEachPart(it, s => ({ ...s, rate: s.rate + bump }))],
+      [
+        'purchased rates',
+        it => ({
+          ...it,
+          components: it.components.map(c => (c.kind === 'purchased' ? { ...c, ratePerKg: (c.ratePerKg ?? 0) + bump, ratePerPc: (c.ratePerPc ?? 0) + bump } : c))
+        })
+      ],
+      ['polybag rate', it => ({ ...it, bagProfile: { ...it.bagProfile, polybag: { ...it.bagProfile.polybag, ratePerKg: (it.bagProfile.polybag.ratePerKg ?? 0) + bump } } })],
+      ['pipe rate', it => ({ ...it, bagProfile: { ...it.bagProfile, pipe: { ...it.bagProfile.pipe, ratePerKg: (it.bagProfile.pipe.ratePerKg ?? 0) + bump } } })],
+      ['packing rate', it => ({ ...it, packing: { packingRatePerKg: it.packing.packingRatePerKg + bump } })]
+    ]
+
+    const rand = prng(14)
+    for (let i = 0; i < RUNS; i++) {
+      const item = randomItem(rand)
+      const before = cost(item)
+
+      for (const [name, up] of knobs) {
+        const after = cost(up(item))
+        expect(after.perKgRate, `run ${i}: ${name}`).toBeGreaterThanOrEqual(before.perKgRate)
+        expect(after.perPcRate, `run ${i}: ${name}`).toBeGreaterThanOrEqual(before.perPcRate)
+      }
+
+      const scrapUp = forEachPart(item, s => ({ ...s, scrapReturn: { ...s.scrapReturn, ratePerKg: (s.scrapReturn.ratePerKg ?? 0) + bump } }))
+      expect(cost(scrapUp).perKgRate, `run ${i}: scrap rate`).toBeLessThanOrEqual(before.perKgRate)
+    }
+  })
+})
+
+describe('breakdown', () => {
+  it('adds up to the debug totals and the waterfall ends at the per-kg rate', () => {
+    const rand = prng(21)
+    for (let i = 0; i < RUNS; i++) {
+      const r = cost(randomItem(rand))
+      const b = r.breakdown
+      const parts = b.parts.reduce((a, p) => a + p.cost, 0)
+      expect(parts + b.purchased.reduce((a, c) => a + c.cost, 0) + b.plastic.cost + b.packing.cost + b.packing.cartonCost, `run ${i}`).toBeCloseTo(r.debug.finalCost, 1)
+      expect(b.parts.reduce((a, p) => a + p.circleCost, 0), `run ${i}`).toBeCloseTo(r.debug.circleCost, 1)
+      for (const p of b.parts) {
+        // Each stage takes the previous stage's output
+        p.stages.slice(1).forEach((s, j) => expect(s.kgIn, `run ${i}`).toBeCloseTo(p.stages[j].kgOut, 2))
+        expect(p.stages[0]?.kgIn ?? p.circleKgIn, `run ${i}`).toBeCloseTo(p.circleKgIn, 2)
+      }
+
+      const steps = waterfall(b)
+      expect(steps[steps.length - 1].runningPerKg, `run ${i}`).toBe(r.perKgRate)
+      expect(steps[steps.length - 2].runningPerKg, `run ${i}`).toBeCloseTo(r.perKgRate, 1)
+    }
+  })
+})
+
+describe('components', () => {
+  const base = seedItems[0]
+
+  it('costs an extra pressed component with its own circle and stages', () => {
+    const ring: PressedComponent = { ...newPressedComponent(base, 'ring', 'Ring'), circleSizeIn: 4 }
+    const before = cost(base)
+    const after = cost({ ...base, components: [...base.components, ring] })
+
+    expect(after.perPc.components.map(c => c.name)).toEqual([...before.perPc.components.map(c => c.name), 'Ring'])
+    expect(after.breakdown.parts.map(p => p.part)).toEqual(['box', 'cover', 'ring'])
+    expect(after.perPc.totalPackedG).toBeGreaterThan(before.perPc.totalPackedG)
+    expect(after.perPcRate).toBeGreaterThan(before.perPcRate)
+  })
+
+  it('costs a purchased component per piece and packs its weight', () => {
+    const handle: PurchasedComponent = { ...newPurchasedComponent('handle', 'Handle'), weightG: 6, ratePerPc: 1.5 }
+    const r = cost({ ...base, components: [...base.components, handle] })
+    const bought = r.breakdown.purchased.find(c => c.id === 'handle')
+
+    expect(bought?.cost).toBeCloseTo((bought?.pcs ?? 0) * 1.5, 2)
+    expect(r.perPc.components.find(c => c.id === 'handle')?.g).toBe(6)
+    expect(waterfall(r.breakdown).some(s => s.key === 'purchased.handle')).toBe(true)
+  })
+})
+
+describe('metal grades', () => {
+  const base = seedItems[0]
+
+  it('the shop steel grade costs exactly like no grade', () => {
+    const steel = mapPressed(base, p => ({ ...p, grade: DEFAULT_GRADE }))
+    expect(golden(cost(steel))).toEqual(golden(cost(base)))
+    expect(cost(steel).breakdown.parts[0]).toMatchObject({ grade: 'SS 202', densityGcc: SHOP_STEEL_DENSITY_GCC })
+  })
+
+  it('a lighter grade weighs less per piece and packs more pieces', () => {
+    const alu = replaceComponent(base, { ...part(base, 'box'), grade: 'aluminium' })
+    const before = cost(base)
+    const after = cost(alu)
+
+    expect(after.perPc.components[0].g).toBeCloseTo(before.perPc.components[0].g * (2.7 / 7.77), 1)
+    expect(after.pcsPerBag).toBeGreaterThan(before.pcsPerBag)
+    expect(waterfall(after.breakdown).find(s => s.key === 'box.circle')?.detail).toMatch(/^Aluminium /)
+  })
+
+  it('a part without a grade takes its circle\'s grade', () => {
+    const circles = seedSettings.materials.circles.map(c => ({ ...c, grade: 'brass' }))
+    const r = cost(base, { ...seedSettings, materials: { ...seedSettings.materials, circles } })
+    expect(r.breakdown.parts.map(p => p.grade)).toEqual(['Brass', 'Brass'])
+    expect(r.perPc.totalPackedG).toBeGreaterThan(cost(base).perPc.totalPackedG)
+  })
+})
+
+describe('blanking', () => {
+  const sheet = (widthIn: number, lengthIn: number, layout: 'square' | 'hex') => ({ ...newBlanking(180), widthIn, lengthIn, layout, gapIn: 0 })
+
+  it('nests circles on a square grid or in offset hex rows', () => {
+    expect(nestCircles(sheet(24, 24, 'square'), 8).circles).toBe(9)
+    expect(nestCircles(sheet(48, 48, 'hex'), 8).circles).toBe(33)
+    expect(nestCircles(sheet(48, 96, 'hex'), 7).circles).toBe(90)
+    expect(nestCircles(sheet(48, 96, 'square'), 7).circles).toBe(78)
+    expect(nestCircles({ ...sheet(24, 24, 'square'), gapIn: 0.1 }, 8).circles).toBe(4)
+    expect(nestCircles({ ...sheet(24, 0, 'square'), source: 'coil' }, 8).circles).toBeCloseTo((3 * METRE_IN) / 8, 10)
+  })
+
+  it('costs circles as sheet less offcut credit over the blank kg', () => {
+    const base = seedItems[0]
+    const box = part(base, 'box')
+    const cut = replaceComponent(base, { ...box, blanking: newBlanking(180) })
+    const r = cost(cut, noAdders)
+    const p = r.breakdown.parts.find(x => x.part === 'box')
+    const b = p?.blanking
+
+    expect(b).toBeDefined()
+    expect(p?.baseCircleRatePerKg).toBeCloseTo(b?.circleRatePerKg ?? 0, 2)
+    expect(p?.circleCost).toBeCloseTo((b?.sheetCost ?? 0) - (b?.offcutCredit ?? 0), 1)
+    expect(b?.sheetKgIn).toBeCloseTo(((p?.circleKgIn ?? 0) * 100) / (b?.yieldPct ?? 1), 1)
+    expect(b?.yieldPct).toBeLessThan(90.7)
+    expect(r.breakdown.parts.find(x => x.part === 'cover')?.blanking).toBeUndefined()
+
+    // Packed weight does not change, only what the circles cost
+    expect(r.perPc).toEqual(cost(base, noAdders).perPc)
+    const noCredit = cost(replaceComponent(base, { ...box, blanking: { ...newBlanking(180), offcut: { enabled: false } } }), noAdders)
+    expect(noCredit.perKgRate).toBeGreaterThan(r.perKgRate)
+    expect(cost(replaceComponent(base, { ...box, blanking: { ...newBlanking(180), enabled: false } }), noAdders)).toEqual(cost(base, noAdders))
+  })
+})
+
+describe('packaging', () => {
+  const base = seedItems[0]
+  const pack = (p: Partial<Packaging>): Item => ({ ...base, packaging: { target: 'kg', rounding: 'none', ...p } })
+
+  it('an unrounded kg target of the settings bag costs like no packaging', () => {
+    expect(golden(cost(pack({})))).toEqual(golden(cost(base)))
+  })
+
+  it('floors to whole pieces and costs per the actual bag', () => {
+    const r = cost(pack({ bagKg: 50, rounding: 'floor' }))
+    const loose = cost(pack({ bagKg: 50 }))
+
+    expect(r.pcsPerBag).toBe(Math.floor(loose.pcsPerBag))
+    expect(r.debug.bagKg).toBeCloseTo((r.pcsPerBag * r.perPc.totalPackedG) / 1000, 1)
+    expect(r.debug.bagKg).toBeLessThanOrEqual(50)
+    expect(r.perKgRate).toBeCloseTo(r.debug.finalCost / r.debug.bagKg, 1)
+    expect(r.perPcRate).toBeCloseTo(r.debug.finalCost / r.pcsPerBag, 1)
+  })
+
+  it('fills whole inner packs and adds the carton material', () => {
+    const r = cost(pack({ rounding: 'floor', innerPcs: 24, innerCostPerPack: 12, bagCost: 30 }))
+    expect(r.pcsPerBag % 24).toBe(0)
+    expect(r.breakdown.packing.inners).toBe(r.pcsPerBag / 24)
+    expect(r.debug.cartonCost).toBeCloseTo(r.breakdown.packing.inners * 12 + 30, 2)
+    expect(waterfall(r.breakdown).find(s => s.key === 'cartons')?.amount).toBe(r.debug.cartonCost)
+  })
+
+  it('packs a fixed count of pieces', () => {
+    const r = cost(pack({ target: 'pcs', pcsPerBag: 500 }))
+    expect(r.pcsPerBag).toBe(500)
+    expect(r.debug.bagKg).toBeCloseTo((500 * r.perPc.totalPackedG) / 1000, 1)
+  })
+
+  it('refuses a bag that fits no whole inner pack', () => {
+    const out = calculate(pack({ bagKg: 1, rounding: 'floor', innerPcs: 1000 }), seedSettings)
+    expect(out.ok).toBe(false)
+    if (!out.ok) expect(out.errors.map(e => e.path)).toEqual(['packaging'])
+  })
+})
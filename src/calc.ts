@@ -1,11 +1,19 @@
 // calc.ts
-import type { Item, AppSettings, CalcResult } from './types'
+import type { Item, AppSettings, BlankingCost, BlankingSpec, CalcResult, MaterialMaster, Packaging, PartCost, PressedComponent, ProcessStage, PurchasedComponent, PurchasedCost, StageCost } from './types'
+import { SHOP_STEEL_DENSITY_GCC, metalGradeFor, resolveDensityGcc, resolveFilmRatePerKg, resolveKundaRatePerKg, resolveScrapRatePerKg } from './materials'
+import { effectiveCircleRate } from './adders'
+import { pressedComponents, purchasedComponents } from './components'
+import { nestCircles } from './blanking'
+import type { EffectiveCircleRate } from './adders'
+import { validateForCalc } from './validate'
+import type { FieldIssue } from './validate'
 
 // ===========================
 // WEIGHT FORMULAS (LOCKED)
 // ===========================
 // Base grams for 0.263mm: (263/254) * D^2
 // Thickness scaling: thickness / 0.263
+// Grade scaling: density / shop steel density (materials.ts), exactly 1 for shop steel
 //
 // IMPORTANT (your rule):
 // thickness input gets +0.003 tolerance
@@ -14,10 +22,15 @@ function effectiveThicknessMm(inputMm: number): number {
   return inputMm + 0.003
 }
 
-export function circleWeightG(circleIn: number, thicknessMm: number): number {
+export function circleWeightG(circleIn: number, thicknessMm: number, densityGcc = SHOP_STEEL_DENSITY_GCC): number {
   const base = (263 / 254) * circleIn * circleIn
   const scale = effectiveThicknessMm(thicknessMm) / 0.263
-  return base * scale
+  return base * scale * (densityGcc / SHOP_STEEL_DENSITY_GCC)
+}
+
+// Sheet / coil: the same grams per square inch as a circle, (263/254)·D² over π·D²/4
+export function sheetWeightG(areaIn2: number, thicknessMm: number, densityGcc = SHOP_STEEL_DENSITY_GCC): number {
+  return (circleWeightG(1, thicknessMm, densityGcc) * areaIn2) / (Math.PI / 4)
 }
 
 // Polybag: size*size*gauge/3300
@@ -37,257 +50,277 @@ function r3(n: number) { return Math.round(n * 1000) / 1000 }
 // YOUR CORE RULE (FORWARD COSTING)
 // ===========================
 // - Actual wastage % is ONLY for grams/weight.
-// - Costing is ONLY by:
-//   Press: tut% + jobWastage%
-//   Polish: tut% + wastage%
-//   Packing: tut%
-// - Tut gives scrap return credit (₹50/kg if enabled).
-// - Pressing charge is on delivered kala (after tut & job-wastage).
-// - Polishing charge is on delivered polished (after tut & polish wastage).
-// - Packing charge is applied ONCE on final bag (bagKg), not per-part.
-//   BUT packing tut scrap credit happens on metal parts (box & cover).
-//
-// NEW:
-// - Optional Induction charge on delivered kala (after press).
-//   If induction missing/disabled => 0 (no change).
+// - Costing is ONLY by each stage's tut% + jobWastage%.
+// - Tut gives scrap return credit (master scrap rate, ₹50/kg, if enabled).
+// - Each pressed component (box, cover, ring, ...) walks its own ordered stage list
+//   (press, induction, polish, ...).
+//   Stage charge is on input kg, delivered output kg, or per piece (chargeBasis).
+//   Disabled stages are skipped entirely (no weight loss, no cost).
+// - Purchased components (kunda, handles) add their weight and cost by kg or by piece.
+// - Packing charge is applied ONCE on final bag (bagKg), not per-component.
+//   Packing tut is just a zero-rate stage at the end of each pressed component.
+// - The bag is the item's packaging (kg target or fixed pcs, floored to whole pieces /
+//   inner packs), else the settings bag with fractional pcs. Every rate is per the actual
+//   bag, plus the inner pack and master bag material.
 //
-// NEW (THIS CHANGE):
-// - Circle rate can be different for box vs cover:
-//   Use item.box.circleRatePerKg / item.cover.circleRatePerKg if present,
-//   else fallback to settings circle rate.
+// - Circle rate can be different per component:
+//   Use the component's circleRatePerKg if present,
+//   else the material master (see materials.ts), else settings circle rate,
+//   plus every matching circle rate adder rule (adders.ts).
+// - Kunda, polybag, pipe and scrap rates resolve the same way.
+// - A component blanked from sheet / coil replaces that base rate with what its circles
+//   cost to cut: sheet kg per circle × sheet rate, less the offcut at the scrap rate,
+//   over the blank's kg. Adders still apply on top.
+
+// Unrounded; CalcResult.breakdown holds the rounded copy
+export type StageFlow = StageCost
 
-type StageFlow = {
+type PartCostResult = {
+  flows: StageFlow[]
   circleKgIn: number
-  kalaKgOut: number
-  polishKgOut: number
-  packedKgOut: number
-  scrapKg: number
+  circleCost: number
+  chargeTotal: number
   scrapCredit: number
-  costPress: number
-  costPolish: number
-  costInduction: number
-}
-
-type PartCostResult = {
-  flow: StageFlow
   partCostExcludingFinalPackingCharge: number
   partRatePerKgPacked: number
-  components: {
-    circleCost: number
-    pressCharge: number
-    inductionCharge: number
-    polishCharge: number
-    scrapCreditPress: number
-    scrapCreditPolish: number
-    scrapCreditPacking: number
-  }
 }
 
 function pct(x: number): number { return x / 100 }
 
-function computePartForwardCost(
-  requiredPackedKg: number,
-  part: Item['box'],
-  polish: Item['polish'],
-  packing: Item['packing'],
-  circleRatePerKg: number
-): PartCostResult {
-  const press = part.press
+function activeStages(part: PressedComponent): ProcessStage[] {
+  return part.stages.filter(s => s.enabled)
+}
 
-  // -----------------------
-  // QUANTITY FLOW (from final required packed kg)
-  // -----------------------
-  // Packing tut happens at end on metal parts
-  const packTutP = pct(packing.tutPct)
-  const packingInputKg = requiredPackedKg / (1 - packTutP)
-  const packingTutKg = packingInputKg - requiredPackedKg
+// Grams left after every stage's actual wastage
+function partPackedG(part: PressedComponent, m: MaterialMaster): number {
+  let g = circleWeightG(part.circleSizeIn, part.thicknessMm, resolveDensityGcc(part, m))
+  for (const s of activeStages(part)) g *= 1 - pct(s.actualWastagePct)
+  return g
+}
 
-  // Polish stage: tut + wastage allowed
-  const polTutP = pct(polish.tutPct)
-  const polWastP = pct(polish.wastagePct)
+export type BlankingYield = {
+  circlesPerSheet: number         // coil: per metre of strip
+  circleKg: number                // one blank
+  sheetKgPerCircle: number
+  offcutKgPerCircle: number
+}
 
-  const polishInputKalaKg = packingInputKg / ((1 - polTutP) * (1 - polWastP))
-  const polishTutKg = polishInputKalaKg * polTutP
+// Expects a spec that passed validation (at least one circle fits)
+export function blankingYield(part: PressedComponent, spec: BlankingSpec, m: MaterialMaster): BlankingYield {
+  const density = resolveDensityGcc(part, m)
+  const nest = nestCircles(spec, part.circleSizeIn)
+  const circleKg = circleWeightG(part.circleSizeIn, part.thicknessMm, density) / 1000
+  const sheetKgPerCircle = sheetWeightG(nest.areaPerCircleIn2, part.thicknessMm, density) / 1000
+  return { circlesPerSheet: nest.circles, circleKg, sheetKgPerCircle, offcutKgPerCircle: sheetKgPerCircle - circleKg }
+}
 
-  const polishDeliveredKg =
-    polishInputKalaKg * (1 - polTutP) * (1 - polWastP) // == packingInputKg
+type Blanked = BlankingYield & { spec: BlankingSpec; offcutRatePerKg: number; circleRatePerKg: number }
 
-  // Press stage: tut + job wastage (NO actual wastage in costing)
-  const pressTutP = pct(press.tutPct)
-  const jobWastP = pct(press.jobWastagePct)
+function blankCircle(part: PressedComponent, spec: BlankingSpec, settings: AppSettings): Blanked {
+  const y = blankingYield(part, spec, settings.materials)
+  const offcutRatePerKg = spec.offcut.enabled ? resolveScrapRatePerKg(spec.offcut, settings) : 0
+  const perCircle = y.sheetKgPerCircle * spec.ratePerKg - y.offcutKgPerCircle * offcutRatePerKg
+  return { ...y, spec, offcutRatePerKg, circleRatePerKg: perCircle / y.circleKg }
+}
 
-  const pressInputCircleKg = polishInputKalaKg / ((1 - pressTutP) * (1 - jobWastP))
-  const pressTutKg = pressInputCircleKg * pressTutP
-  const pressDeliveredKalaKg =
-    pressInputCircleKg * (1 - pressTutP) * (1 - jobWastP) // == polishInputKalaKg
+function stageCharge(s: ProcessStage, kgIn: number, kgOut: number, pcs: number): number {
+  if (s.chargeBasis === 'inputKg') return kgIn * s.rate
+  if (s.chargeBasis === 'perPc') return pcs * s.rate
+  return kgOut * s.rate
+}
 
+function computePartForwardCost(
+  requiredPackedKg: number,
+  pcs: number,
+  part: PressedComponent,
+  circleRatePerKg: number,
+  settings: AppSettings
+): PartCostResult {
   // -----------------------
-  // COSTS (FORWARD METHOD)
+  // QUANTITY FLOW (backwards from final required packed kg)
   // -----------------------
-  const circleCost = pressInputCircleKg * circleRatePerKg
-
-  // Press charge on delivered kala
-  const pressCharge = pressDeliveredKalaKg * press.ratePerKg
-
-  // Induction charge (optional) on delivered kala
-  const inductionEnabled = !!part.induction?.enabled
-  const inductionRate = part.induction?.ratePerKg ?? 0
-  const inductionCharge =
-    (inductionEnabled && inductionRate > 0)
-      ? pressDeliveredKalaKg * inductionRate
-      : 0
-
-  // Polish charge on delivered polished
-  const polishCharge = polishDeliveredKg * polish.ratePerKg
-
-  // Scrap credits (only tut + packing tut)
-  const scrapCreditPress =
-    press.scrapReturn.enabled ? pressTutKg * press.scrapReturn.ratePerKg : 0
-
-  const scrapCreditPolish =
-    polish.scrapReturn.enabled ? polishTutKg * polish.scrapReturn.ratePerKg : 0
-
-  const scrapCreditPacking =
-    packing.scrapReturn.enabled ? packingTutKg * packing.scrapReturn.ratePerKg : 0
-
-  const scrapCreditTotal = scrapCreditPress + scrapCreditPolish + scrapCreditPacking
-  const scrapKgTotal = pressTutKg + polishTutKg + packingTutKg
-
-  const partCost =
-    circleCost +
-    pressCharge +
-    inductionCharge +
-    polishCharge -
-    scrapCreditTotal
-
-  const partRatePerKgPacked = partCost / requiredPackedKg
-
-  const flow: StageFlow = {
-    circleKgIn: pressInputCircleKg,
-    kalaKgOut: pressDeliveredKalaKg,
-    polishKgOut: polishDeliveredKg,
-    packedKgOut: requiredPackedKg,
-    scrapKg: scrapKgTotal,
-    scrapCredit: scrapCreditTotal,
-    costPress: circleCost + pressCharge,
-    costInduction: inductionCharge,
-    costPolish: polishCharge
+  const stages = activeStages(part)
+  const flows: StageFlow[] = []
+
+  let kgOut = requiredPackedKg
+  for (let i = stages.length - 1; i >= 0; i--) {
+    const s = stages[i]
+    const tutP = pct(s.tutPct)
+    const jobP = pct(s.jobWastagePct)
+
+    const kgIn = kgOut / ((1 - tutP) * (1 - jobP))
+    const tutKg = kgIn * tutP
+    const keptKg = kgIn * (1 - tutP) * jobP
+
+    flows.unshift({
+      stageId: s.id,
+      name: s.name,
+      chargeBasis: s.chargeBasis,
+      rate: s.rate,
+      kgIn,
+      kgOut,
+      tutKg,
+      keptKg,
+      charge: stageCharge(s, kgIn, kgOut, pcs),
+      scrapCredit: s.scrapReturn.enabled ? tutKg * resolveScrapRatePerKg(s.scrapReturn, settings) : 0
+    })
+    kgOut = kgIn
   }
 
+  // -----------------------
+  // COSTS (FORWARD METHOD)
+  // -----------------------
+  const circleKgIn = kgOut
+  const circleCost = circleKgIn * circleRatePerKg
+
+  const chargeTotal = flows.reduce((a, f) => a + f.charge, 0)
+  const scrapCredit = flows.reduce((a, f) => a + f.scrapCredit, 0)
+
+  const partCost = circleCost + chargeTotal - scrapCredit
+
   return {
-    flow,
+    flows,
+    circleKgIn,
+    circleCost,
+    chargeTotal,
+    scrapCredit,
     partCostExcludingFinalPackingCharge: partCost,
-    partRatePerKgPacked,
-    components: {
-      circleCost,
-      pressCharge,
-      inductionCharge,
-      polishCharge,
-      scrapCreditPress,
-      scrapCreditPolish,
-      scrapCreditPacking
-    }
+    partRatePerKgPacked: partCost / requiredPackedKg
   }
 }
 
-function fallbackCircleRate(settings: AppSettings): number {
-  return (
-    settings.circleBaseRate +
-    settings.circleAddPerKg +
-    (settings.circleExtraAddPerKg || 0)
-  )
+// Invalid input (0 pcs per pipe, 100% tut, ...) gives the reasons instead of NaN / Infinity rates
+export type CalcOutcome =
+  | { ok: true; result: CalcResult; warnings: FieldIssue[] }
+  | { ok: false; itemId: string; itemName: string; errors: FieldIssue[] }
+
+export function calculate(item: Item, settings: AppSettings): CalcOutcome {
+  const { errors, warnings } = validateForCalc(item, settings)
+  if (errors.length) return { ok: false, itemId: item.id, itemName: item.name, errors }
+  const result = costItem(item, settings)
+  // Only known once the piece weight is: floored to whole pieces, nothing may fit
+  if (!(result.debug.pcs > 0)) {
+    return { ok: false, itemId: item.id, itemName: item.name, errors: [{ path: 'packaging', level: 'error', message: 'Not one whole piece (or inner pack) fits the bag' }] }
+  }
+  return { ok: true, result, warnings }
 }
 
-function resolvePartCircleRatePerKg(part: Item['box'], settings: AppSettings): number {
-  // If part has explicit rate, it wins.
-  // Else fallback to settings (backward compatibility).
-  const explicit = (part as any).circleRatePerKg
-  if (typeof explicit === 'number' && isFinite(explicit) && explicit > 0) return explicit
-  return fallbackCircleRate(settings)
+// One bag per the item's packaging; none => the standard bag with fractional pcs
+function fillBag(p: Packaging | undefined, standardKg: number, pcG: number): { bagKg: number; pcs: number; inners: number } {
+  if (!p) return { bagKg: standardKg, pcs: (standardKg * 1000) / pcG, inners: 0 }
+  const targetKg = p.bagKg ?? standardKg
+  let pcs = p.target === 'pcs' ? (p.pcsPerBag ?? 0) : (targetKg * 1000) / pcG
+  if (p.rounding === 'floor') {
+    const unit = p.innerPcs ?? 1
+    pcs = Math.floor(pcs / unit + 1e-9) * unit
+  }
+  const bagKg = p.target === 'kg' && p.rounding === 'none' ? targetKg : (pcs * pcG) / 1000
+  return { bagKg, pcs, inners: p.innerPcs ? Math.ceil(pcs / p.innerPcs - 1e-9) : 0 }
 }
 
-export function calculate(item: Item, settings: AppSettings): CalcResult {
-  const bagKg = settings.bagStandardKg
-
+// One standard bag: grams per pc, pcs and each pressed component's stage flow
+function perBag(item: Item, settings: AppSettings) {
   // ===========================
   // WEIGHT PER PC (grams)
   // ===========================
-  const boxCircleG = circleWeightG(item.box.circleSizeIn, item.box.thicknessMm)
-  const coverCircleG = circleWeightG(item.cover.circleSizeIn, item.cover.thicknessMm)
-
-  const boxAfterPressG = boxCircleG * (1 - pct(item.box.press.actualWastagePct))
-  const coverAfterPressG = coverCircleG * (1 - pct(item.cover.press.actualWastagePct))
-
-  const boxAfterPolishG = boxAfterPressG * (1 - pct(item.polish.wastagePct))
-  const coverAfterPolishG = coverAfterPressG * (1 - pct(item.polish.wastagePct))
+  const pressed = pressedComponents(item)
+  const purchased = purchasedComponents(item)
+  const packedG = new Map(item.components.map(c => [c.id, c.kind === 'pressed' ? partPackedG(c, settings.materials) : c.weightG]))
 
-  const kundaG = item.kunda.enabled ? item.kunda.weightG : 0
   const polybagG = polybagWeightG(item.bagProfile.polybag.sizeIn, item.bagProfile.polybag.gauge)
   const pipePerPcG =
     pipeWeightG(item.bagProfile.pipe.widthIn, item.bagProfile.pipe.lengthIn, item.bagProfile.pipe.gauge) /
     item.bagProfile.pipe.pcsPerPipe
 
-  const totalPackedG = boxAfterPolishG + coverAfterPolishG + kundaG + polybagG + pipePerPcG
+  const componentsG = item.components.reduce((a, c) => a + (packedG.get(c.id) ?? 0), 0)
+  const totalPackedG = componentsG + polybagG + pipePerPcG
 
-  const pcsPerBag = (bagKg * 1000) / totalPackedG
-  const pcs = pcsPerBag
-
-  // Packed kg split (final output, based on grams)
-  const totalBoxKgPacked = (pcs * boxAfterPolishG) / 1000
-  const totalCoverKgPacked = (pcs * coverAfterPolishG) / 1000
+  const { bagKg, pcs, inners } = fillBag(item.packaging, settings.bagStandardKg, totalPackedG)
+  const pcsPerBag = pcs
 
   // ===========================
-  // RATES (box vs cover circle)
+  // PRESSED: circle rate (+ adders) and forward cost from packed kg
   // ===========================
-  const boxCircleRate = resolvePartCircleRatePerKg(item.box, settings)
-  const coverCircleRate = resolvePartCircleRatePerKg(item.cover, settings)
-
-  const boxCostRes = computePartForwardCost(
-    totalBoxKgPacked,
-    item.box,
-    item.polish,
-    item.packing,
-    boxCircleRate
-  )
-
-  const coverCostRes = computePartForwardCost(
-    totalCoverKgPacked,
-    item.cover,
-    item.polish,
-    item.packing,
-    coverCircleRate
-  )
-
-  const boxCost = boxCostRes.partCostExcludingFinalPackingCharge
-  const coverCost = coverCostRes.partCostExcludingFinalPackingCharge
-
-  // Kunda cost (simple purchased input)
-  const kundaKg = (pcs * kundaG) / 1000
-  const kundaCost = item.kunda.enabled ? kundaKg * item.kunda.ratePerKg : 0
+  const parts = pressed.map(c => {
+    const packedKg = (pcs * (packedG.get(c.id) ?? 0)) / 1000
+    const blank = c.blanking?.enabled ? blankCircle(c, c.blanking, settings) : undefined
+    const circle = effectiveCircleRate(c, settings, blank?.circleRatePerKg)
+    return { component: c, packedKg, circle, blank, cost: computePartForwardCost(packedKg, pcs, c, circle.rate, settings) }
+  })
+
+  return { bagKg, packedG, polybagG, pipePerPcG, totalPackedG, pcsPerBag, pcs, inners, parts, purchased }
+}
+
+export type PartFlow = {
+  part: string                    // pressed component id
+  name: string
+  circleRatePerKg: number
+  circleKgIn: number
+  packedKg: number
+  flows: StageFlow[]              // enabled stages, process order
+}
+
+// Quantity flow of one standard bag, stage by stage (the Jobs module plans against it).
+// Expects an item that passed calculate().
+export function bagFlows(item: Item, settings: AppSettings): { pcs: number; parts: PartFlow[] } {
+  const b = perBag(item, settings)
+  return {
+    pcs: b.pcs,
+    parts: b.parts.map(p => ({
+      part: p.component.id,
+      name: p.component.name,
+      circleRatePerKg: p.circle.rate,
+      circleKgIn: p.cost.circleKgIn,
+      packedKg: p.packedKg,
+      flows: p.cost.flows
+    }))
+  }
+}
+
+// Purchased parts: by weight at the item / grade rate, or by piece
+function purchasedCost(c: PurchasedComponent, pcs: number, settings: AppSettings): PurchasedCost {
+  const kg = (pcs * c.weightG) / 1000
+  const rate = c.basis === 'piece' ? (c.ratePerPc ?? 0) : resolveKundaRatePerKg(c, settings)
+  return { id: c.id, name: c.name, basis: c.basis, kg, pcs, rate, cost: c.basis === 'piece' ? pcs * rate : kg * rate }
+}
+
+function costItem(item: Item, settings: AppSettings): CalcResult {
+  const { bagKg, packedG, polybagG, pipePerPcG, totalPackedG, pcsPerBag, pcs, inners, parts, purchased } = perBag(item, settings)
+
+  const pressedCost = parts.reduce((a, p) => a + p.cost.partCostExcludingFinalPackingCharge, 0)
+
+  // Purchased components (kunda, handles, ...)
+  const bought = purchased.map(c => purchasedCost(c, pcs, settings))
+  const boughtCost = bought.reduce((a, b) => a + b.cost, 0)
 
   // Plastic cost
   const polybagKg = (pcs * polybagG) / 1000
   const pipeKg = (pcs * pipePerPcG) / 1000
-  const plasticCost =
-    polybagKg * item.bagProfile.polybag.ratePerKg +
-    pipeKg * item.bagProfile.pipe.ratePerKg
+  const polybagRate = resolveFilmRatePerKg(item.bagProfile.polybag, settings)
+  const pipeRate = resolveFilmRatePerKg(item.bagProfile.pipe, settings)
+  const plasticCost = polybagKg * polybagRate + pipeKg * pipeRate
 
   // Final packing charge (ONCE) on full bag output
   const packingCost = bagKg * item.packing.packingRatePerKg
 
+  // Carton material: inner packs and the master bag
+  const cartonCost = inners * (item.packaging?.innerCostPerPack ?? 0) + (item.packaging?.bagCost ?? 0)
+
   // Totals (debug)
-  const circleCost = boxCostRes.components.circleCost + coverCostRes.components.circleCost
-  const pressCost = boxCostRes.components.pressCharge + coverCostRes.components.pressCharge
-  const inductionCost = boxCostRes.components.inductionCharge + coverCostRes.components.inductionCharge
-  const polishCost = boxCostRes.components.polishCharge + coverCostRes.components.polishCharge
-  const scrapCredit = boxCostRes.flow.scrapCredit + coverCostRes.flow.scrapCredit
+  const circleCost = parts.reduce((a, p) => a + p.cost.circleCost, 0)
+  const scrapCredit = parts.reduce((a, p) => a + p.cost.scrapCredit, 0)
+
+  const stageCharges: Record<string, number> = {}
+  for (const f of parts.flatMap(p => p.cost.flows)) {
+    stageCharges[f.name] = (stageCharges[f.name] || 0) + f.charge
+  }
 
   const finalCost =
-    boxCost +
-    coverCost +
-    kundaCost +
+    pressedCost +
+    boughtCost +
     plasticCost +
-    packingCost
+    packingCost +
+    cartonCost
 
   const perKgRate = finalCost / bagKg
   const perPcRate = perKgRate * (totalPackedG / 1000)
@@ -297,9 +330,7 @@ export function calculate(item: Item, settings: AppSettings): CalcResult {
     itemName: item.name,
 
     perPc: {
-      boxG: r2(boxAfterPolishG),
-      coverG: r2(coverAfterPolishG),
-      kundaG: r2(kundaG),
+      components: item.components.map(c => ({ id: c.id, name: c.name, g: r2(packedG.get(c.id) ?? 0) })),
       polybagG: r2(polybagG),
       pipeG: r2(pipePerPcG),
       totalPackedG: r2(totalPackedG)
@@ -313,18 +344,90 @@ export function calculate(item: Item, settings: AppSettings): CalcResult {
     debug: {
       bagKg,
       pcs: r3(pcs),
-      circleKgInTotal: r3(boxCostRes.flow.circleKgIn + coverCostRes.flow.circleKgIn),
+      circleKgInTotal: r3(parts.reduce((a, p) => a + p.cost.circleKgIn, 0)),
 
       circleCost: r2(circleCost),
-      pressCost: r2(pressCost),
-      inductionCost: r2(inductionCost),
-      polishCost: r2(polishCost),
+      stageCharges: Object.fromEntries(Object.entries(stageCharges).map(([k, v]) => [k, r2(v)])),
 
       packingCost: r2(packingCost),
-      kundaCost: r2(kundaCost),
+      cartonCost: r2(cartonCost),
+      purchasedCost: r2(boughtCost),
       plasticCost: r2(plasticCost),
       scrapCredit: r2(scrapCredit),
       finalCost: r2(finalCost)
+    },
+
+    breakdown: {
+      bagKg,
+      pcs: r3(pcs),
+      parts: parts.map(p => partBreakdown(p.component, p.cost, p.circle, p.packedKg, settings.materials, p.blank)),
+      purchased: bought.map(b => ({ ...b, kg: r3(b.kg), pcs: r3(b.pcs), rate: r2(b.rate), cost: r2(b.cost) })),
+      plastic: {
+        polybagKg: r3(polybagKg),
+        polybagRatePerKg: r2(polybagRate),
+        pipeKg: r3(pipeKg),
+        pipeRatePerKg: r2(pipeRate),
+        cost: r2(plasticCost)
+      },
+      packing: {
+        ratePerKg: item.packing.packingRatePerKg,
+        cost: r2(packingCost),
+        ...(item.packaging?.innerPcs ? { innerPcs: item.packaging.innerPcs } : {}),
+        inners,
+        cartonCost: r2(cartonCost)
+      },
+      finalCost: r2(finalCost),
+      perKgRate: r2(perKgRate)
     }
   }
+}
+
+function blankingBreakdown(b: Blanked, circleKgIn: number): BlankingCost {
+  const circles = circleKgIn / b.circleKg
+  const sheetKgIn = circles * b.sheetKgPerCircle
+  const offcutKg = circles * b.offcutKgPerCircle
+  return {
+    source: b.spec.source,
+    layout: b.spec.layout,
+    circlesPerSheet: r2(b.circlesPerSheet),
+    sheetKgPerCircle: r3(b.sheetKgPerCircle),
+    circleKg: r3(b.circleKg),
+    yieldPct: r2((b.circleKg / b.sheetKgPerCircle) * 100),
+    circles: r3(circles),
+    sheetKgIn: r3(sheetKgIn),
+    sheetRatePerKg: b.spec.ratePerKg,
+    sheetCost: r2(sheetKgIn * b.spec.ratePerKg),
+    offcutKg: r3(offcutKg),
+    offcutCredit: r2(offcutKg * b.offcutRatePerKg),
+    circleRatePerKg: r2(b.circleRatePerKg)
+  }
+}
+
+function partBreakdown(c: PressedComponent, res: PartCostResult, circle: EffectiveCircleRate, packedKg: number, m: MaterialMaster, blank?: Blanked): PartCost {
+  const grade = metalGradeFor(c, m)
+  return {
+    part: c.id,
+    name: c.name,
+    grade: grade?.name ?? c.grade ?? '',
+    densityGcc: grade?.densityGcc ?? SHOP_STEEL_DENSITY_GCC,
+    baseCircleRatePerKg: circle.base,
+    adders: circle.adders,
+    circleRatePerKg: circle.rate,
+    circleKgIn: r3(res.circleKgIn),
+    circleCost: r2(res.circleCost),
+    packedKg: r3(packedKg),
+    stages: res.flows.map(f => ({
+      ...f,
+      kgIn: r3(f.kgIn),
+      kgOut: r3(f.kgOut),
+      tutKg: r3(f.tutKg),
+      keptKg: r3(f.keptKg),
+      charge: r2(f.charge),
+      scrapCredit: r2(f.scrapCredit)
+    })),
+    chargeTotal: r2(res.chargeTotal),
+    scrapCredit: r2(res.scrapCredit),
+    cost: r2(res.partCostExcludingFinalPackingCharge),
+    ...(blank ? { blanking: blankingBreakdown(blank, res.circleKgIn) } : {})
+  }
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+// catalog.test.ts
+import { describe, expect, it } from 'vitest'
+import { defaultCatalog, itemFromFamily } from './catalog'
+import { validateItem, validateSettings } from './validate'
+import { seedItems, seedSettings } from './seed'
+import { pressedById } from './components'
+import type { PressedComponent } from './types'
+
+const m = seedSettings.materials
+const [belly, , chennai] = defaultCatalog()
+
+describe('itemFromFamily', () => {
+  it('builds the same item as the seed from family + size + bag', () => {
+    const it = itemFromFamily(belly, { sizeIn: 8, bag: 'heavy' }, m, 'x')
+    const seed = seedItems.find(s => s.name === 'Belly 8" (heavy)')
+    expect({ ...it, id: '' }).toEqual({ ...seed, id: '' })
+  })
+
+  it('takes thickness per part and names the variant', () => {
+    const it = itemFromFamily(chennai, { sizeIn: 9, bag: 'light', coverThicknessMm: 0.26 }, m, 'x')
+    expect(it.name).toBe('Chennai Pot 9" (light, box 0.33 cover 0.26)')
+    expect(pressedById(it, 'box')?.circleMaterial).toBe('ss-0.33')
+    expect(pressedById(it, 'cover')?.circleMaterial).toBe('ss-0.26')
+    expect(it.components.map(c => c.name)).toEqual(['Box', 'Cover', 'Kunda'])
+    expect(validateItem(it, m).errors).toEqual([])
+  })
+
+  it('does not share stage objects with the family', () => {
+    const it = itemFromFamily(belly, { sizeIn: 7, bag: 'light' }, m, 'x')
+    ;(pressedById(it, 'box') as PressedComponent).stages[0].rate = 99
+    expect(belly.box.stages[0].rate).toBe(20)
+  })
+
+  it('refuses a size or bag the family does not have', () => {
+    expect(() => itemFromFamily(belly, { sizeIn: 12, bag: 'heavy' }, m, 'x')).toThrow('Belly has no 12" size')
+  })
+})
+
+describe('catalog validation', () => {
+  it('flags a repeated size and a zero pcs per pipe bag', () => {
+    const f = { ...belly, sizes: [...belly.sizes, belly.sizes[0]], bags: [{ ...belly.bags[0], pcsPerPipe: 0 }] }
+    const errors = validateSettings({ ...seedSettings, catalog: [f] }).errors.map(e => e.path)
+    expect(errors).toEqual(['catalog.belly.sizes.4.sizeIn', 'catalog.belly.bags.0.pcsPerPipe'])
+  })
+})
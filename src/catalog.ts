@@ -0,0 +1,138 @@
+// catalog.ts
+// Product-family catalog (kept in settings, edited in the Catalog tab). Replaces the old
+// hard-coded belly / plain size maps: a new size or family is data, not code.
+import type { BagChoice, FamilySize, Item, MaterialMaster, PartTemplate, ProcessStage, ProductFamily } from './types'
+import { circleMaterialFor } from './materials'
+import { newStage } from './stages'
+import { kundaComponent } from './components'
+import { ITEM_SCHEMA_VERSION } from './schema'
+
+// Default process: press -> induction (off) -> polish -> packing tut
+function defaultStages(pressRate: number, actualWastagePct: number, jobWastagePct: number, tutPct: number): ProcessStage[] {
+  return [
+    newStage('press', 'press', { rate: pressRate, actualWastagePct, jobWastagePct, tutPct }),
+    newStage('induction', 'induction', { enabled: false, rate: 10 }),
+    newStage('polish', 'polish', { rate: 72, actualWastagePct: 2, jobWastagePct: 2, tutPct: 2 }),
+    newStage('packing', 'packing', { tutPct: 2 })
+  ]
+}
+
+const HEAVY_225: BagChoice = { name: 'heavy', gauge: 225, material: 'poly-225', pipeLengthIn: 25, pcsPerPipe: 8 }
+const LIGHT_100: BagChoice = { name: 'light', gauge: 100, material: 'poly-100', pipeLengthIn: 25, pcsPerPipe: 8 }
+
+function part(thicknessMm: number, stages: ProcessStage[]): PartTemplate {
+  return { thicknessMm, stages }
+}
+
+function size(sizeIn: number, boxCircleIn: number, coverCircleIn: number, polybagIn: number, pipeWidthIn: number): FamilySize {
+  return { sizeIn, boxCircleIn, coverCircleIn, polybagIn, pipeWidthIn }
+}
+
+// Belly/plain circle mappings you locked earlier, plus Chennai pot and 11"
+export function defaultCatalog(): ProductFamily[] {
+  return [
+    {
+      key: 'belly',
+      name: 'Belly',
+      sizes: [size(7, 7.0, 5.5, 8, 7), size(8, 7.75, 6.0, 9, 8), size(9, 8.5, 6.5, 10, 9), size(10, 9.25, 7.25, 11, 10)],
+      box: part(0.26, defaultStages(20, 4, 8, 3)),
+      cover: part(0.26, defaultStages(14, 0, 6, 2)),
+      kunda: { enabled: false, weightG: 0, grade: 'kunda-a' },
+      bags: [HEAVY_225, LIGHT_100],
+      packingRatePerKg: 10
+    },
+    {
+      key: 'plain',
+      name: 'Plain',
+      sizes: [size(7, 6.75, 5.5, 8, 7), size(8, 7.5, 6.0, 9, 8), size(9, 8.25, 6.5, 10, 9), size(10, 9.0, 7.25, 11, 10)],
+      box: part(0.26, defaultStages(16, 4, 8, 3)),
+      cover: part(0.26, defaultStages(14, 0, 6, 2)),
+      kunda: { enabled: false, weightG: 0, grade: 'kunda-a' },
+      bags: [HEAVY_225, LIGHT_100],
+      packingRatePerKg: 10
+    },
+    {
+      key: 'chennai-pot',
+      name: 'Chennai Pot',
+      sizes: [size(9, 8.25, 5.75, 9, 8), size(10, 9.0, 6.25, 10, 9)],
+      box: part(0.33, defaultStages(20, 4, 8, 3)),
+      cover: part(0.33, defaultStages(18, 0, 0, 2)),
+      kunda: { enabled: true, weightG: 10, grade: 'kunda-b' },
+      bags: [HEAVY_225, LIGHT_100],
+      packingRatePerKg: 15
+    },
+    {
+      key: 'eleven',
+      name: '11"',
+      sizes: [size(11, 11, 8.5, 12, 12)],
+      box: part(0.26, defaultStages(20, 4, 8, 2)),
+      cover: part(0.26, defaultStages(18, 3, 7, 2)),
+      kunda: { enabled: true, weightG: 5, grade: 'kunda-a' },
+      bags: [{ ...LIGHT_100, pcsPerPipe: 6 }, { ...HEAVY_225, pcsPerPipe: 6 }],
+      packingRatePerKg: 15
+    }
+  ]
+}
+
+// What the wizard asks for; thickness defaults to the family's
+export type FamilyChoice = {
+  sizeIn: number
+  bag: BagChoice['name']
+  boxThicknessMm?: number
+  coverThicknessMm?: number
+}
+
+export function familyItemName(f: ProductFamily, c: FamilyChoice): string {
+  const sized = f.name.includes(`${c.sizeIn}"`) ? f.name : `${f.name} ${c.sizeIn}"`
+  const box = c.boxThicknessMm ?? f.box.thicknessMm
+  const cover = c.coverThicknessMm ?? f.cover.thicknessMm
+  const th = box === f.box.thicknessMm && cover === f.cover.thicknessMm ? '' : box === cover ? `, ${box}` : `, box ${box} cover ${cover}`
+  return `${sized} (${c.bag}${th})`
+}
+
+function copyStages(stages: ProcessStage[]): ProcessStage[] {
+  return stages.map(s => ({ ...s, scrapReturn: { ...s.scrapReturn } }))
+}
+
+// A complete item from the family defaults. Throws when the size or bag isn't in the family.
+export function itemFromFamily(f: ProductFamily, c: FamilyChoice, m: MaterialMaster, id: string): Item {
+  const sz = f.sizes.find(s => s.sizeIn === c.sizeIn)
+  if (!sz) throw new Error(`${f.name} has no ${c.sizeIn}" size`)
+  const bag = f.bags.find(b => b.name === c.bag)
+  if (!bag) throw new Error(`${f.name} has no ${c.bag} bag`)
+  const boxTh = c.boxThicknessMm ?? f.box.thicknessMm
+  const coverTh = c.coverThicknessMm ?? f.cover.thicknessMm
+
+  return {
+    schemaVersion: ITEM_SCHEMA_VERSION,
+    id,
+    name: familyItemName(f, c),
+    components: [
+      {
+        kind: 'pressed',
+        id: 'box',
+        name: 'Box',
+        circleSizeIn: sz.boxCircleIn,
+        thicknessMm: boxTh,
+        circleMaterial: circleMaterialFor({ thicknessMm: boxTh }, m)?.key,
+        stages: copyStages(f.box.stages)
+      },
+      {
+        kind: 'pressed',
+        id: 'cover',
+        name: 'Cover',
+        circleSizeIn: sz.coverCircleIn,
+        thicknessMm: coverTh,
+        circleMaterial: circleMaterialFor({ thicknessMm: coverTh }, m)?.key,
+        stages: copyStages(f.cover.stages)
+      },
+      ...(f.kunda.enabled ? [kundaComponent(f.kunda)] : [])
+    ],
+    bagProfile: {
+      name: bag.name,
+      polybag: { sizeIn: sz.polybagIn, gauge: bag.gauge, material: bag.material },
+      pipe: { widthIn: sz.pipeWidthIn, lengthIn: bag.pipeLengthIn, gauge: bag.gauge, pcsPerPipe: bag.pcsPerPipe, material: bag.material }
+    },
+    packing: { packingRatePerKg: f.packingRatePerKg }
+  }
+}
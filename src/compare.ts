@@ -0,0 +1,111 @@
+// compare.ts
+// Side-by-side comparison of 2–6 items, or temporary variants of one item.
+// A variant is an item plus field patches (fields.ts paths); nothing is saved.
+import type { CalcResult, Item } from './types'
+import { setPath } from './fields'
+
+export const MAX_COMPARE = 6
+
+export type VariantPatch = { path: string; value: string }
+
+export type CompareEntry = {
+  key: string
+  itemId: string
+  patches: VariantPatch[]
+}
+
+// Numbers stay numbers, anything else (bag name, material key) is a string
+function parseValue(v: string): string | number {
+  const n = Number(v)
+  return isFinite(n) ? n : v.trim()
+}
+
+// Half-typed patches (no path or no value yet) are ignored
+function ready(p: VariantPatch): boolean {
+  return p.path.trim() !== '' && p.value.trim() !== ''
+}
+
+export function applyPatches(item: Item, patches: VariantPatch[]): Item {
+  return patches.filter(ready).reduce((it, p) => setPath(it, p.path.trim(), parseValue(p.value)), item)
+}
+
+export function entryLabel(item: Item, patches: VariantPatch[]): string {
+  const used = patches.filter(ready)
+  if (!used.length) return item.name
+  return `${item.name} · ${used.map(p => `${p.path.split('.').slice(-2).join('.')}=${p.value}`).join(', ')}`
+}
+
+// 'lower' => a lower value than the baseline is good (cost), 'higher' => more is good, null => neutral
+export type Better = 'lower' | 'higher' | null
+
+export type CompareMetric = {
+  key: string
+  group: string
+  label: string
+  better: Better
+  value: (r: CalcResult) => number
+}
+
+// Cost split behind the rate
+const COST_GROUP = 'Cost per bag (₹)'
+
+const WEIGHTS = 'Weights (g/pc)'
+
+const FIXED: CompareMetric[] = [
+  { key: 'polybagG', group: WEIGHTS, label: 'Polybag', better: null, value: r => r.perPc.polybagG },
+  { key: 'pipeG', group: WEIGHTS, label: 'Pipe', better: null, value: r => r.perPc.pipeG },
+  { key: 'totalPackedG', group: WEIGHTS, label: 'Total packed', better: null, value: r => r.perPc.totalPackedG },
+  { key: 'bagKg', group: 'Bag', label: 'Bag kg', better: null, value: r => r.debug.bagKg },
+  { key: 'pcsPerBag', group: 'Bag', label: 'PCS per bag', better: null, value: r => r.pcsPerBag },
+  { key: 'circleKgInTotal', group: 'Bag', label: 'Circle kg in', better: 'lower', value: r => r.debug.circleKgInTotal },
+  { key: 'perKgRate', group: 'Rates', label: '₹ per kg', better: 'lower', value: r => r.perKgRate },
+  { key: 'perPcRate', group: 'Rates', label: '₹ per pc', better: 'lower', value: r => r.perPcRate },
+  { key: 'circleCost', group: COST_GROUP, label: 'Circle', better: 'lower', value: r => r.debug.circleCost }
+]
+
+const TAIL: CompareMetric[] = [
+  { key: 'packingCost', group: COST_GROUP, label: 'Packing', better: 'lower', value: r => r.debug.packingCost },
+  { key: 'cartonCost', group: COST_GROUP, label: 'Cartons', better: 'lower', value: r => r.debug.cartonCost },
+  { key: 'purchasedCost', group: COST_GROUP, label: 'Purchased parts', better: 'lower', value: r => r.debug.purchasedCost },
+  { key: 'plasticCost', group: COST_GROUP, label: 'Plastic', better: 'lower', value: r => r.debug.plasticCost },
+  { key: 'scrapCredit', group: COST_GROUP, label: 'Scrap credit', better: 'higher', value: r => r.debug.scrapCredit },
+  { key: 'finalCost', group: COST_GROUP, label: 'Final cost', better: 'lower', value: r => r.debug.finalCost }
+]
+
+// Every debug component, including components and stage charges present on any of the results
+export function compareMetrics(results: CalcResult[]): CompareMetric[] {
+  const componentNames = [...new Set(results.flatMap(r => r.perPc.components.map(c => c.name)))]
+  const weights: CompareMetric[] = componentNames.map(name => ({
+    key: `g:${name}`,
+    group: WEIGHTS,
+    label: name,
+    better: null,
+    value: r => r.perPc.components.filter(c => c.name === name).reduce((a, c) => a + c.g, 0)
+  }))
+  const stageNames = [...new Set(results.flatMap(r => Object.keys(r.debug.stageCharges)))]
+  const stages: CompareMetric[] = stageNames.map(name => ({
+    key: `stage:${name}`,
+    group: COST_GROUP,
+    label: `${name} charge`,
+    better: 'lower',
+    value: r => r.debug.stageCharges[name] ?? 0
+  }))
+  return [...weights, ...FIXED, ...stages, ...TAIL]
+}
+
+export type CompareRow = {
+  metric: CompareMetric
+  values: (number | null)[]     // null => that column is not a valid item
+  deltas: (number | null)[]     // vs baseline, null in the baseline column (or either side invalid)
+}
+
+function r3(n: number) { return Math.round(n * 1000) / 1000 }
+
+export function compareRows(results: (CalcResult | null)[], baselineIndex: number): CompareRow[] {
+  const valid = results.filter((r): r is CalcResult => r !== null)
+  return compareMetrics(valid).map(metric => {
+    const values = results.map(r => (r ? metric.value(r) : null))
+    const base = values[baselineIndex] ?? null
+    return { metric, values, deltas: values.map((v, i) => (i === baselineIndex || v === null || base === null ? null : r3(v - base))) }
+  })
+}
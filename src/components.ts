@@ -0,0 +1,82 @@
+// components.ts
+// The pieces an item is made of: pressed from a circle (own stage flow) or purchased
+// ready-made (by weight or by piece). Box / cover / kunda are just the usual three.
+import type { Item, ItemComponent, KundaSpec, PressedComponent, PurchasedComponent } from './types'
+import { newStage } from './stages'
+
+export function pressedComponents(item: Pick<Item, 'components'>): PressedComponent[] {
+  return item.components.filter((c): c is PressedComponent => c.kind === 'pressed')
+}
+
+export function purchasedComponents(item: Pick<Item, 'components'>): PurchasedComponent[] {
+  return item.components.filter((c): c is PurchasedComponent => c.kind === 'purchased')
+}
+
+export function componentById(item: Pick<Item, 'components'>, id: string): ItemComponent | undefined {
+  return item.components.find(c => c.id === id)
+}
+
+export function pressedById(item: Pick<Item, 'components'>, id: string): PressedComponent | undefined {
+  return pressedComponents(item).find(c => c.id === id)
+}
+
+// Jobs planned before components only carry the id
+export function componentName(item: Pick<Item, 'components'> | undefined, id: string): string {
+  const c = item ? componentById(item, id) : undefined
+  return c?.name ?? id.charAt(0).toUpperCase() + id.slice(1)
+}
+
+export function replaceComponent(item: Item, next: ItemComponent): Item {
+  return { ...item, components: item.components.map(c => (c.id === next.id ? next : c)) }
+}
+
+// New pressed part: a copy of the item's first pressed component's circle and stages, so a
+// second cover starts out like the cover
+export function newPressedComponent(item: Pick<Item, 'components'>, id: string, name: string): PressedComponent {
+  const like = pressedComponents(item)[0]
+  return {
+    kind: 'pressed',
+    id,
+    name,
+    circleSizeIn: like?.circleSizeIn ?? 8,
+    thicknessMm: like?.thicknessMm ?? 0.26,
+    ...(like?.circleMaterial ? { circleMaterial: like.circleMaterial } : {}),
+    stages: like ? like.stages.map(s => ({ ...s, scrapReturn: { ...s.scrapReturn } })) : [newStage('press', 'press'), newStage('polish', 'polish'), newStage('packing', 'packing')]
+  }
+}
+
+export function newPurchasedComponent(id: string, name: string): PurchasedComponent {
+  return { kind: 'purchased', id, name, basis: 'piece', weightG: 0, ratePerPc: 0 }
+}
+
+// The family kunda (and the fixed kunda of items from before components)
+export function kundaComponent(k: KundaSpec): PurchasedComponent {
+  return {
+    kind: 'purchased',
+    id: 'kunda',
+    name: 'Kunda',
+    basis: 'weight',
+    weightG: k.weightG,
+    ...(k.grade !== undefined ? { grade: k.grade } : {}),
+    ...(k.ratePerKg !== undefined ? { ratePerKg: k.ratePerKg } : {})
+  }
+}
+
+// Ids are field-path keys: a slug of the name when added, never changed by a rename
+export function newComponentId(item: Pick<Item, 'components'>, name: string): string {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'part'
+  const taken = new Set(item.components.map(c => c.id))
+  let id = base
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`
+  return id
+}
+
+export function moveComponent(item: Item, id: string, dir: -1 | 1): Item {
+  const i = item.components.findIndex(c => c.id === id)
+  const j = i + dir
+  if (i < 0 || j < 0 || j >= item.components.length) return item
+  const components = item.components.slice()
+  const [c] = components.splice(i, 1)
+  components.splice(j, 0, c)
+  return { ...item, components }
+}
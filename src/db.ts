@@ -1,18 +1,17 @@
-﻿import type { AppSettings, Item } from './types'
+﻿import type { AppSettings, AuditEntry, BackupBlob, Item, Job, JobWorker, LedgerEntry, Org, OrgInvite, OrgMember, OrgRole, Quote, Snapshot } from './types'
 import { supabase } from './supabase'
+import { migrateBackup, migrateItem, migrateSettings } from './migrate'
+import { defaultSettings } from './settings'
+import { BACKUP_SCHEMA_VERSION } from './schema'
+import { assertValidBackup } from './validate'
+import { normalizeEmail } from './orgs'
+import type { PriceList } from './publish'
 
-type BackupBlob = {
-  items: Item[]
-  settings: AppSettings
-}
-
-export function defaultSettings(): AppSettings {
-  return {
-    circleBaseRate: 170,
-    circleAddPerKg: 5,
-    circleExtraAddPerKg: 0,
-    bagStandardKg: 80
-  }
+// Remote row as seen by the sync engine (updated_at drives conflict detection)
+export type RemoteRow<T> = {
+  id: string
+  data: T
+  updated_at: string
 }
 
 async function requireUser() {
@@ -22,6 +21,23 @@ async function requireUser() {
   return data.user
 }
 
+// Workspace every data call is scoped to; set by the app once the member's orgs are loaded
+let activeOrgId: string | null = null
+
+export function setActiveOrg(orgId: string | null) {
+  activeOrgId = orgId
+}
+
+async function requireScope() {
+  const user = await requireUser()
+  if (!activeOrgId) throw new Error('No organization selected')
+  return { user, orgId: activeOrgId }
+}
+
+async function requireOrg(): Promise<string> {
+  return (await requireScope()).orgId
+}
+
 // ---------- AUTH ----------
 export async function getSession() {
   const { data, error } = await supabase.auth.getSession()
@@ -42,29 +58,183 @@ export async function signOut() {
   if (error) throw error
 }
 
+// ---------- ORGANIZATIONS ----------
+// Orgs the logged-in user belongs to, with their role in each
+export async function listOrgs(): Promise<Org[]> {
+  const user = await requireUser()
+  const { data: rows, error } = await supabase
+    .from('org_members')
+    .select('org_id,role')
+    .eq('user_id', user.id)
+
+  if (error) throw error
+  const memberships = (rows || []) as { org_id: string; role: OrgRole }[]
+  if (!memberships.length) return []
+
+  const { data: orgs, error: orgError } = await supabase
+    .from('organizations')
+    .select('id,name')
+    .in('id', memberships.map(m => m.org_id))
+    .order('created_at', { ascending: true })
+
+  if (orgError) throw orgError
+  return (orgs || []).map((o: { id: string; name: string }) => ({
+    id: o.id,
+    name: o.name,
+    role: memberships.find(m => m.org_id === o.id)?.role ?? 'viewer'
+  }))
+}
+
+// Personal org (id = user id) for a login that has none yet
+export async function ensurePersonalOrg(): Promise<void> {
+  const { error } = await supabase.rpc('ensure_personal_org')
+  if (error) throw error
+}
+
+export async function createOrg(name: string): Promise<string> {
+  const { data, error } = await supabase.rpc('create_org', { org_name: name })
+  if (error) throw error
+  return data as string
+}
+
+export async function renameOrg(orgId: string, name: string): Promise<void> {
+  const { error } = await supabase
+    .from('organizations')
+    .update({ name })
+    .eq('id', orgId)
+
+  if (error) throw error
+}
+
+// Joins every org that invited this login's email; returns how many were joined
+export async function acceptInvites(): Promise<number> {
+  const { data, error } = await supabase.rpc('accept_org_invites')
+  if (error) throw error
+  return (data as number) ?? 0
+}
+
+export async function listMembers(orgId: string): Promise<OrgMember[]> {
+  const { data, error } = await supabase
+    .from('org_members')
+    .select('user_id,email,role')
+    .eq('org_id', orgId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []).map((r: { user_id: string; email: string; role: OrgRole }) => ({
+    userId: r.user_id,
+    email: r.email,
+    role: r.role
+  }))
+}
+
+export async function setMemberRole(orgId: string, userId: string, role: OrgRole): Promise<void> {
+  const { error } = await supabase
+    .from('org_members')
+    .update({ role })
+    .eq('org_id', orgId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+}
+
+export async function removeMember(orgId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('org_members')
+    .delete()
+    .eq('org_id', orgId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+}
+
+export async function listInvites(orgId: string): Promise<OrgInvite[]> {
+  const { data, error } = await supabase
+    .from('org_invites')
+    .select('id,email,role,created_at')
+    .eq('org_id', orgId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []).map((r: { id: string; email: string; role: OrgRole; created_at: string }) => ({
+    id: r.id,
+    email: r.email,
+    role: r.role,
+    createdAt: r.created_at
+  }))
+}
+
+// Re-inviting the same email updates the role
+export async function inviteMember(orgId: string, email: string, role: OrgRole): Promise<void> {
+  const user = await requireUser()
+  const { error } = await supabase
+    .from('org_invites')
+    .upsert(
+      {
+        org_id: orgId,
+        email: normalizeEmail(email),
+        role,
+        invited_by: user.id,
+        accepted_at: null
+      },
+      { onConflict: 'org_id,email' }
+    )
+
+  if (error) throw error
+}
+
+export async function revokeInvite(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('org_invites')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
+
 // ---------- ITEMS ----------
 export async function listItems(): Promise<Item[]> {
-  const user = await requireUser()
+  const orgId = await requireOrg()
   const { data, error } = await supabase
     .from('items')
     .select('data')
-    .eq('user_id', user.id)
+    .eq('org_id', orgId)
     .order('updated_at', { ascending: false })
 
   if (error) throw error
-  return (data || []).map((r: any) => r.data as Item)
+  return (data || []).map((r: { data: unknown }) => migrateItem(r.data))
 }
 
-export async function upsertItem(item: Item): Promise<void> {
-  const user = await requireUser()
+// settings: the workspace's, for upgrading items saved by an older version (migrateItem)
+export async function listItemRows(settings?: AppSettings | null): Promise<RemoteRow<Item>[]> {
+  const orgId = await requireOrg()
+  const { data, error } = await supabase
+    .from('items')
+    .select('id,name,data,updated_at')
+    .eq('org_id', orgId)
+
+  if (error) throw error
+  return (data || []).map((r: { id: string; name: string; data: object; updated_at: string }) => ({
+    id: r.id,
+    data: migrateItem({ ...r.data, id: r.id, name: r.name }, settings),
+    updated_at: r.updated_at
+  }))
+}
+
+// updatedAt is stamped by the client so the sync engine knows the new version without a re-read
+export async function upsertItem(item: Item, updatedAt = new Date().toISOString()): Promise<void> {
+  const { user, orgId } = await requireScope()
   const { error } = await supabase
     .from('items')
     .upsert(
       {
         id: item.id,
         user_id: user.id,
+        org_id: orgId,
         name: item.name,
-        data: item
+        data: item,
+        updated_at: updatedAt
       },
       { onConflict: 'id' }
     )
@@ -73,57 +243,367 @@ export async function upsertItem(item: Item): Promise<void> {
 }
 
 export async function deleteItem(id: string): Promise<void> {
-  const user = await requireUser()
+  const orgId = await requireOrg()
   const { error } = await supabase
     .from('items')
     .delete()
     .eq('id', id)
-    .eq('user_id', user.id)
+    .eq('org_id', orgId)
 
   if (error) throw error
 }
 
 // ---------- SETTINGS ----------
 export async function getSettings(): Promise<AppSettings | null> {
-  const user = await requireUser()
+  const orgId = await requireOrg()
   const { data, error } = await supabase
     .from('settings')
     .select('data')
-    .eq('user_id', user.id)
+    .eq('org_id', orgId)
     .maybeSingle()
 
   if (error) throw error
-  return data?.data ?? null
+  return data?.data ? migrateSettings(data.data) : null
 }
 
-export async function setSettings(s: AppSettings): Promise<void> {
-  const user = await requireUser()
+export async function getSettingsRow(): Promise<RemoteRow<AppSettings> | null> {
+  const orgId = await requireOrg()
+  const { data, error } = await supabase
+    .from('settings')
+    .select('data,updated_at')
+    .eq('org_id', orgId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+  return { id: orgId, data: migrateSettings(data.data), updated_at: data.updated_at as string }
+}
+
+export async function setSettings(s: AppSettings, updatedAt = new Date().toISOString()): Promise<void> {
+  const { user, orgId } = await requireScope()
   const { error } = await supabase
     .from('settings')
     .upsert(
       {
         user_id: user.id,
-        data: s
+        org_id: orgId,
+        data: s,
+        updated_at: updatedAt
       },
-      { onConflict: 'user_id' }
+      { onConflict: 'org_id' }
     )
 
   if (error) throw error
 }
 
+// ---------- PRICE LIST (what viewers read, publish.ts) ----------
+export async function getPriceList(): Promise<(PriceList & { updatedAt: string }) | null> {
+  const orgId = await requireOrg()
+  const { data, error } = await supabase
+    .from('price_list')
+    .select('data,updated_at')
+    .eq('org_id', orgId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+  const list = data.data as PriceList
+  return {
+    items: list.items.map(p => ({ ...p, item: migrateItem(p.item) })),
+    settings: migrateSettings(list.settings),
+    updatedAt: data.updated_at as string
+  }
+}
+
+export async function setPriceList(list: PriceList): Promise<void> {
+  const { user, orgId } = await requireScope()
+  const { error } = await supabase
+    .from('price_list')
+    .upsert(
+      {
+        org_id: orgId,
+        user_id: user.id,
+        data: list,
+        updated_at: new Date().toISOString()
+      },
+      { onConflict: 'org_id' }
+    )
+
+  if (error) throw error
+}
+
+// ---------- QUOTES ----------
+export async function listQuotes(): Promise<Quote[]> {
+  const orgId = await requireOrg()
+  const { data, error } = await supabase
+    .from('quotes')
+    .select('data')
+    .eq('org_id', orgId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []).map((r: { data: Quote }) => r.data)
+}
+
+export async function upsertQuote(q: Quote): Promise<void> {
+  const { user, orgId } = await requireScope()
+  const { error } = await supabase
+    .from('quotes')
+    .upsert(
+      {
+        id: q.id,
+        user_id: user.id,
+        org_id: orgId,
+        number: q.number,
+        customer_name: q.customerName,
+        data: q,
+        updated_at: new Date().toISOString()
+      },
+      { onConflict: 'id' }
+    )
+
+  if (error) throw error
+}
+
+export async function deleteQuote(id: string): Promise<void> {
+  const orgId = await requireOrg()
+  const { error } = await supabase
+    .from('quotes')
+    .delete()
+    .eq('id', id)
+    .eq('org_id', orgId)
+
+  if (error) throw error
+}
+
+// ---------- JOBS ----------
+export async function listJobs(): Promise<Job[]> {
+  const orgId = await requireOrg()
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('data')
+    .eq('org_id', orgId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []).map((r: { data: Job }) => r.data)
+}
+
+export async function upsertJob(j: Job): Promise<void> {
+  const { user, orgId } = await requireScope()
+  const { error } = await supabase
+    .from('jobs')
+    .upsert(
+      {
+        id: j.id,
+        user_id: user.id,
+        org_id: orgId,
+        number: j.number,
+        item_id: j.itemId,
+        status: j.status,
+        data: j,
+        updated_at: new Date().toISOString()
+      },
+      { onConflict: 'id' }
+    )
+
+  if (error) throw error
+}
+
+export async function deleteJob(id: string): Promise<void> {
+  const orgId = await requireOrg()
+  const { error } = await supabase
+    .from('jobs')
+    .delete()
+    .eq('id', id)
+    .eq('org_id', orgId)
+
+  if (error) throw error
+}
+
+// ---------- JOB WORKERS ----------
+export async function listWorkers(): Promise<JobWorker[]> {
+  const orgId = await requireOrg()
+  const { data, error } = await supabase
+    .from('job_workers')
+    .select('data')
+    .eq('org_id', orgId)
+    .order('name', { ascending: true })
+
+  if (error) throw error
+  return (data || []).map((r: { data: JobWorker }) => r.data)
+}
+
+export async function upsertWorker(w: JobWorker): Promise<void> {
+  const { user, orgId } = await requireScope()
+  const { error } = await supabase
+    .from('job_workers')
+    .upsert(
+      {
+        id: w.id,
+        user_id: user.id,
+        org_id: orgId,
+        name: w.name,
+        data: w,
+        updated_at: new Date().toISOString()
+      },
+      { onConflict: 'id' }
+    )
+
+  if (error) throw error
+}
+
+// Fails (foreign key) while the worker still has ledger entries; mark inactive instead
+export async function deleteWorker(id: string): Promise<void> {
+  const orgId = await requireOrg()
+  const { error } = await supabase
+    .from('job_workers')
+    .delete()
+    .eq('id', id)
+    .eq('org_id', orgId)
+
+  if (error) throw error
+}
+
+export async function listLedger(): Promise<LedgerEntry[]> {
+  const orgId = await requireOrg()
+  const { data, error } = await supabase
+    .from('worker_ledger')
+    .select('data')
+    .eq('org_id', orgId)
+    .order('entry_date', { ascending: true })
+
+  if (error) throw error
+  return (data || []).map((r: { data: LedgerEntry }) => r.data)
+}
+
+export async function upsertLedgerEntry(e: LedgerEntry): Promise<void> {
+  const { user, orgId } = await requireScope()
+  const { error } = await supabase
+    .from('worker_ledger')
+    .upsert(
+      {
+        id: e.id,
+        user_id: user.id,
+        org_id: orgId,
+        worker_id: e.workerId,
+        kind: e.kind,
+        entry_date: e.date,
+        job_id: e.jobId ?? null,
+        data: e
+      },
+      { onConflict: 'id' }
+    )
+
+  if (error) throw error
+}
+
+export async function deleteLedgerEntry(id: string): Promise<void> {
+  const orgId = await requireOrg()
+  const { error } = await supabase
+    .from('worker_ledger')
+    .delete()
+    .eq('id', id)
+    .eq('org_id', orgId)
+
+  if (error) throw error
+}
+
+// ---------- SNAPSHOTS (append-only) ----------
+export async function insertSnapshots(snaps: Snapshot[]): Promise<void> {
+  if (!snaps.length) return
+  const { user, orgId } = await requireScope()
+  const { error } = await supabase
+    .from('snapshots')
+    .upsert(
+      snaps.map(s => ({
+        id: s.id,
+        user_id: user.id,
+        org_id: orgId,
+        kind: s.kind,
+        ref_id: s.refId,
+        version: s.version,
+        data: s,
+        created_at: s.at
+      })),
+      { onConflict: 'id', ignoreDuplicates: true }
+    )
+
+  if (error) throw error
+}
+
+// Rows after a server-assigned seq (not created_at: that is the writer's clock, and an
+// offline entry pushed later would land behind the watermark) plus the highest seq returned
+export type Pulled<T> = { rows: T[]; seq: number | null }
+
+export async function listSnapshots(afterSeq: number | null): Promise<Pulled<Snapshot>> {
+  const orgId = await requireOrg()
+  let q = supabase
+    .from('snapshots')
+    .select('seq, data')
+    .eq('org_id', orgId)
+    .order('seq', { ascending: true })
+  if (afterSeq != null) q = q.gt('seq', afterSeq)
+
+  const { data, error } = await q
+  if (error) throw error
+  const rows = (data || []) as { seq: number; data: Snapshot }[]
+  return { rows: rows.map(r => r.data), seq: rows.length ? rows[rows.length - 1].seq : null }
+}
+
+// ---------- AUDIT LOG (append-only) ----------
+export async function insertAuditEntries(entries: AuditEntry[]): Promise<void> {
+  if (!entries.length) return
+  const { orgId } = await requireScope()
+  const { error } = await supabase
+    .from('audit_log')
+    .upsert(
+      entries.map(e => ({
+        id: e.id,
+        user_id: e.userId,
+        org_id: orgId,
+        kind: e.kind,
+        ref_id: e.refId,
+        data: e,
+        created_at: e.at
+      })),
+      { onConflict: 'id', ignoreDuplicates: true }
+    )
+
+  if (error) throw error
+}
+
+export async function listAuditEntries(afterSeq: number | null): Promise<Pulled<AuditEntry>> {
+  const orgId = await requireOrg()
+  let q = supabase
+    .from('audit_log')
+    .select('seq, data')
+    .eq('org_id', orgId)
+    .order('seq', { ascending: true })
+  if (afterSeq != null) q = q.gt('seq', afterSeq)
+
+  const { data, error } = await q
+  if (error) throw error
+  const rows = (data || []) as { seq: number; data: AuditEntry }[]
+  return { rows: rows.map(r => r.data), seq: rows.length ? rows[rows.length - 1].seq : null }
+}
+
 // ---------- BACKUP ----------
 export async function exportAll(): Promise<BackupBlob> {
   const items = await listItems()
   const settings = (await getSettings()) || defaultSettings()
-  return { items, settings }
+  return { schemaVersion: BACKUP_SCHEMA_VERSION, items, settings }
 }
 
-export async function importAll(blob: BackupBlob): Promise<void> {
+// Accepts any older backup file; it is upgraded and validated before anything is written
+export async function importAll(raw: unknown): Promise<void> {
   const user = await requireUser()
+  const blob = migrateBackup(raw)
+  assertValidBackup(blob)
 
-  await setSettings(blob.settings || defaultSettings())
+  await setSettings(blob.settings)
 
-  const payload = (blob.items || []).map(it => ({
+  const payload = blob.items.map(it => ({
     id: it.id,
     user_id: user.id,
     name: it.name,
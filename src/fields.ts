@@ -0,0 +1,83 @@
+// fields.ts
+// Dotted-path access to Item / AppSettings blobs.
+// Arrays of objects with an `id` (or master `key`) are keyed by it, so paths stay stable when stages move:
+//   components.box.circleSizeIn, components.box.stages.press.tutPct, bagProfile.pipe.pcsPerPipe, materials.kunda.kunda-a.ratePerKg
+
+export type FieldValue = string | number | boolean | null
+
+export type FieldChange = {
+  path: string
+  from: FieldValue | undefined
+  to: FieldValue | undefined
+}
+
+export function arrayKey(el: unknown, i: number): string {
+  const o = el !== null && typeof el === 'object' ? (el as { id?: unknown; key?: unknown }) : {}
+  const id = o.id ?? o.key
+  // Dotted keys (ss-0.26) would split the path => index
+  return typeof id === 'string' && id && !id.includes('.') ? id : String(i)
+}
+
+function arrayIndex(arr: unknown[], k: string): number {
+  const byId = arr.findIndex((el, i) => arrayKey(el, i) === k)
+  if (byId >= 0) return byId
+  return /^\d+$/.test(k) ? Number(k) : -1
+}
+
+// Storage bookkeeping, not an editable field (never diffed, bulk-edited or varied)
+const META = new Set(['schemaVersion'])
+
+// Leaves only
+export function flatten(obj: unknown, prefix = '', out: Record<string, FieldValue> = {}): Record<string, FieldValue> {
+  if (obj === null || typeof obj !== 'object') {
+    if (prefix) out[prefix] = (obj ?? null) as FieldValue
+    return out
+  }
+  const entries: [string, unknown][] = Array.isArray(obj)
+    ? obj.map((el, i) => [arrayKey(el, i), el])
+    : Object.entries(obj as Record<string, unknown>)
+
+  for (const [k, v] of entries) {
+    if (!prefix && META.has(k)) continue
+    const p = prefix ? `${prefix}.${k}` : k
+    if (v !== null && typeof v === 'object') flatten(v, p, out)
+    else if (v !== undefined) out[p] = v as FieldValue
+  }
+  return out
+}
+
+export function diffFields(a: unknown, b: unknown): FieldChange[] {
+  const fa = flatten(a)
+  const fb = flatten(b)
+  const paths = new Set([...Object.keys(fa), ...Object.keys(fb)])
+  const out: FieldChange[] = []
+  for (const path of paths) {
+    if (fa[path] !== fb[path]) out.push({ path, from: fa[path], to: fb[path] })
+  }
+  return out.sort((x, y) => x.path.localeCompare(y.path))
+}
+
+export function getPath(obj: unknown, path: string): unknown {
+  let cur: unknown = obj
+  for (const k of path.split('.')) {
+    if (cur === null || typeof cur !== 'object') return undefined
+    cur = Array.isArray(cur) ? cur[arrayIndex(cur, k)] : (cur as Record<string, unknown>)[k]
+  }
+  return cur
+}
+
+// Immutable set; creates missing objects along the way
+export function setPath<T>(obj: T, path: string, value: unknown): T {
+  const [k, ...rest] = path.split('.')
+
+  if (Array.isArray(obj)) {
+    const i = arrayIndex(obj, k)
+    if (i < 0) return obj
+    const copy = obj.slice()
+    copy[i] = rest.length ? setPath(obj[i], rest.join('.'), value) : value
+    return copy as T
+  }
+
+  const src = (obj ?? {}) as Record<string, unknown>
+  return { ...src, [k]: rest.length ? setPath(src[k], rest.join('.'), value) : value } as T
+}
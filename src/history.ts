@@ -0,0 +1,77 @@
+// history.ts
+// Versioned snapshots of items/settings with the rates they produced.
+import type { AppSettings, CalcResult, Item, ItemSnapshot, RateSummary, SettingsSnapshot, Snapshot } from './types'
+import { SETTINGS_KEY, getSnapshots, putSnapshots } from './local'
+import { makeId } from './seed'
+
+export type HistoryRow = {
+  at: string
+  source: Snapshot['kind']
+  version: number
+  perKgRate: number | null
+  perPcRate: number | null
+  snapshot: Snapshot
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// Skips the write when nothing changed since the last version
+export async function recordItemSnapshot(uid: string, item: Item, settings: AppSettings, result: CalcResult): Promise<void> {
+  const prev = (await getSnapshots(uid, item.id)).filter((s): s is ItemSnapshot & { synced: boolean } => s.kind === 'item')
+  const last = prev[prev.length - 1]
+  if (last && same(last.item, item)) return
+
+  const snap: ItemSnapshot = {
+    id: makeId('snap'),
+    kind: 'item',
+    refId: item.id,
+    version: (last?.version ?? 0) + 1,
+    at: new Date().toISOString(),
+    item,
+    settings,
+    result
+  }
+  await putSnapshots(uid, [{ ...snap, synced: false }])
+}
+
+export async function recordSettingsSnapshot(uid: string, settings: AppSettings, rates: Record<string, RateSummary>): Promise<void> {
+  const prev = await getSnapshots(uid, SETTINGS_KEY)
+  const last = prev[prev.length - 1]
+  if (last && same(last.settings, settings)) return
+
+  const snap: SettingsSnapshot = {
+    id: makeId('snap'),
+    kind: 'settings',
+    refId: 'settings',
+    version: (last?.version ?? 0) + 1,
+    at: new Date().toISOString(),
+    settings,
+    rates
+  }
+  await putSnapshots(uid, [{ ...snap, synced: false }])
+}
+
+// Item saves and settings saves merged into one timeline (oldest first)
+export async function listItemHistory(uid: string, itemId: string): Promise<HistoryRow[]> {
+  const itemSnaps = await getSnapshots(uid, itemId)
+  const settingsSnaps = await getSnapshots(uid, SETTINGS_KEY)
+
+  const rows: HistoryRow[] = []
+  for (const s of itemSnaps) {
+    if (s.kind !== 'item') continue
+    rows.push({ at: s.at, source: 'item', version: s.version, perKgRate: s.result.perKgRate, perPcRate: s.result.perPcRate, snapshot: s })
+  }
+
+  // Only settings changes after the item existed matter for its rate
+  const firstAt = rows[0]?.at
+  for (const s of settingsSnaps) {
+    if (s.kind !== 'settings') continue
+    const r = s.rates[itemId]
+    if (!r || (firstAt && s.at < firstAt)) continue
+    rows.push({ at: s.at, source: 'settings', version: s.version, perKgRate: r.perKgRate, perPcRate: r.perPcRate, snapshot: s })
+  }
+
+  return rows.sort((a, b) => a.at.localeCompare(b.at))
+}
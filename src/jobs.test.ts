@@ -0,0 +1,92 @@
+// jobs.test.ts
+// The job plan must be the Calculator's forward flow scaled to the batch.
+import { describe, expect, it } from 'vitest'
+import type { Job } from './types'
+import { calculate } from './calc'
+import { jobVariance, nextJobNumber, planJob, setActual } from './jobs'
+import { seedItems, seedSettings } from './seed'
+
+const item = seedItems[0]
+const BAGS = 12
+
+function plan() {
+  const out = planJob(item, seedSettings, BAGS)
+  if (!out.ok) throw new Error(out.errors.map(e => e.message).join('; '))
+  return out.plan
+}
+
+function job(): Job {
+  return { id: 'j1', number: 'J-2026-0001', itemId: item.id, itemName: item.name, date: '2026-01-01', status: 'open', notes: '', plan: plan(), actuals: [] }
+}
+
+// Weigh every stage exactly as planned
+function asPlanned(j: Job): Job {
+  return j.plan.stages.reduce((acc, s) => setActual(acc, s, { issuedKg: s.issueKg, receivedKg: s.receiveKg, scrapKg: s.scrapKg }), j)
+}
+
+describe('planJob', () => {
+  it('chains stages: each issue is what the previous stage returned', () => {
+    const p = plan()
+    for (const part of ['box', 'cover'] as const) {
+      const stages = p.stages.filter(s => s.part === part)
+      expect(stages[0].issueKg).toBeCloseTo(p.parts[part].circleKg, 2)
+      for (let i = 1; i < stages.length; i++) expect(stages[i].issueKg).toBeCloseTo(stages[i - 1].receiveKg, 2)
+      expect(stages[stages.length - 1].receiveKg).toBeCloseTo(p.parts[part].packedKg, 2)
+    }
+  })
+
+  it('matches the Calculator circle issue and metal cost for the batch', () => {
+    const out = calculate(item, seedSettings)
+    if (!out.ok) throw new Error('seed item should calculate')
+    const d = out.result.debug
+    const v = jobVariance(job())
+    expect(v.plan.circleKg).toBeCloseTo(d.circleKgInTotal * BAGS, 2)
+    const charges = Object.values(d.stageCharges).reduce((a, n) => a + n, 0)
+    expect(v.plan.metalCost).toBeCloseTo((d.circleCost + charges - d.scrapCredit) * BAGS, 0)
+    expect(job().plan.perKgRate).toBe(out.result.perKgRate)
+  })
+
+  it('refuses zero bags and invalid items', () => {
+    expect(planJob(item, seedSettings, 0).ok).toBe(false)
+    const broken = { ...item, bagProfile: { ...item.bagProfile, pipe: { ...item.bagProfile.pipe, pcsPerPipe: 0 } } }
+    expect(planJob(broken, seedSettings, 5).ok).toBe(false)
+  })
+})
+
+describe('jobVariance', () => {
+  it('is incomplete until every stage is weighed', () => {
+    const v = jobVariance(job())
+    expect(v.complete).toBe(false)
+    expect(v.costVariance).toBeNull()
+  })
+
+  it('shows no variance when the workers return exactly the plan', () => {
+    const v = jobVariance(asPlanned(job()))
+    expect(v.complete).toBe(true)
+    for (const s of v.stages) {
+      expect(s.excessLossKg).toBeCloseTo(0, 2)
+      expect(s.yieldActualPct).toBeCloseTo(s.yieldPlanPct, 1)
+    }
+    expect(v.yieldActualPct).toBeCloseTo(v.yieldPlanPct, 1)
+    expect(v.costVariance).toBeCloseTo(0, 0)
+  })
+
+  it('flags a short receipt as excess loss and a cost over plan', () => {
+    const j = asPlanned(job())
+    const i = j.plan.stages.filter(s => s.part === 'box').length - 1
+    const last = j.plan.stages[i]
+    const v = jobVariance(setActual(j, last, { receivedKg: last.receiveKg - 2 }))
+    expect(v.stages[i].excessLossKg).toBeCloseTo(2, 2)
+    expect(v.stages[i].yieldActualPct).toBeLessThan(v.stages[i].yieldPlanPct)
+    expect(v.actual.packedKg).toBeCloseTo(v.plan.packedKg - 2, 2)
+    expect(v.costPerKgActual).toBeGreaterThan(v.costPerKgPlan)
+  })
+})
+
+describe('nextJobNumber', () => {
+  it('numbers per year after the highest existing job', () => {
+    const d = new Date(2026, 3, 1)
+    expect(nextJobNumber([], d)).toBe('J-2026-0001')
+    expect(nextJobNumber([{ number: 'J-2026-0007' }, { number: 'Q-2026-0042' }], d)).toBe('J-2026-0008')
+  })
+})
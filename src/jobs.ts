@@ -0,0 +1,217 @@
+// jobs.ts
+// Production batches: the planned issue per stage comes from the same forward flow as the
+// costing (calc.ts bagFlows, scaled to the target bags); actual kg issued to / received from
+// the job workers are compared against it for yield, wastage and cost.
+import type { AppSettings, Item, Job, JobPartPlan, JobPlan, JobStageActual, JobStagePlan } from './types'
+import { bagFlows, calculate } from './calc'
+import { resolveScrapRatePerKg } from './materials'
+import { pressedById } from './components'
+import { nextNumber } from './quote'
+import type { FieldIssue } from './validate'
+
+function r2(n: number) { return Math.round(n * 100) / 100 }
+function r3(n: number) { return Math.round(n * 1000) / 1000 }
+
+export type PlanOutcome = { ok: true; plan: JobPlan } | { ok: false; errors: FieldIssue[] }
+
+// Circle adders apply inside calculate()/bagFlows, so plan cost = Calculator cost
+export function planJob(item: Item, settings: AppSettings, bags: number): PlanOutcome {
+  if (!(bags > 0)) return { ok: false, errors: [{ path: 'bags', level: 'error', message: 'Target bags must be above 0' }] }
+  const out = calculate(item, settings)
+  if (!out.ok) return { ok: false, errors: out.errors }
+
+  const { pcs, parts } = bagFlows(item, settings)
+  const stages: JobStagePlan[] = parts.flatMap(p =>
+    p.flows.flatMap(f => {
+      const s = pressedById(item, p.part)?.stages.find(x => x.id === f.stageId)
+      if (!s) return []
+      return [{
+        part: p.part,
+        stageId: s.id,
+        name: s.name,
+        chargeBasis: s.chargeBasis,
+        rate: s.rate,
+        scrapRatePerKg: s.scrapReturn.enabled ? resolveScrapRatePerKg(s.scrapReturn, settings) : 0,
+        issueKg: r3(f.kgIn * bags),
+        receiveKg: r3(f.kgOut * bags),
+        scrapKg: r3(f.tutKg * bags),
+        keptKg: r3(f.keptKg * bags),
+        charge: r2(f.charge * bags)
+      }]
+    })
+  )
+  const planParts: Record<string, JobPartPlan> = {}
+  for (const p of parts) {
+    planParts[p.part] = {
+      name: p.name,
+      circleRatePerKg: p.circleRatePerKg,
+      circleKg: r3(p.circleKgIn * bags),
+      packedKg: r3(p.packedKg * bags)
+    }
+  }
+
+  return {
+    ok: true,
+    plan: {
+      bags,
+      bagKg: out.result.debug.bagKg,
+      pcs: Math.round(pcs * bags),
+      parts: planParts,
+      stages,
+      perKgRate: out.result.perKgRate
+    }
+  }
+}
+
+export function nextJobNumber(existing: Pick<Job, 'number'>[], date = new Date()): string {
+  return nextNumber('J', existing.map(j => j.number), date)
+}
+
+export function actualFor(job: Pick<Job, 'actuals'>, s: Pick<JobStagePlan, 'part' | 'stageId'>): JobStageActual | undefined {
+  return job.actuals.find(a => a.part === s.part && a.stageId === s.stageId)
+}
+
+export function setActual(job: Job, s: Pick<JobStagePlan, 'part' | 'stageId'>, patch: Partial<JobStageActual>): Job {
+  const prev = actualFor(job, s) ?? { part: s.part, stageId: s.stageId }
+  const others = job.actuals.filter(a => a !== actualFor(job, s))
+  return { ...job, actuals: [...others, { ...prev, ...patch }] }
+}
+
+// ---------- VARIANCE ----------
+// A stage counts once both issued and received kg are entered; scrap blank = 0.
+// Loss = issued - received - scrap (what the worker kept or lost).
+export type StageVariance = {
+  plan: JobStagePlan
+  weighed: boolean
+  issuedKg: number
+  receivedKg: number
+  scrapKg: number
+  lossKg: number
+  yieldPlanPct: number          // received / issued
+  yieldActualPct: number
+  lossPlanPct: number           // job wastage allowed, % of issued
+  lossActualPct: number
+  excessLossKg: number          // loss over the planned % of what was actually issued
+  chargeActual: number          // labour at the planned rate on actual kg
+}
+
+export type JobTotals = {
+  circleKg: number
+  packedKg: number
+  scrapKg: number
+  lossKg: number
+  metalCost: number             // circle + labour - scrap credit
+}
+
+export type JobVariance = {
+  stages: StageVariance[]
+  complete: boolean             // every stage weighed
+  plan: JobTotals
+  actual: JobTotals             // weighed stages only
+  yieldPlanPct: number          // packed / circle
+  yieldActualPct: number | null
+  costPerKgPlan: number         // metal cost per packed metal kg
+  costPerKgActual: number | null
+  costVariance: number | null   // ₹ over plan for the metal actually packed
+}
+
+function pctOf(part: number, whole: number): number {
+  return whole > 0 ? r2((part / whole) * 100) : 0
+}
+
+function stageCharge(p: JobStagePlan, issuedKg: number, receivedKg: number): number {
+  if (p.chargeBasis === 'inputKg') return issuedKg * p.rate
+  if (p.chargeBasis === 'outputKg') return receivedKg * p.rate
+  // per pc: pieces scale with the good kg received
+  return p.receiveKg > 0 ? p.charge * (receivedKg / p.receiveKg) : 0
+}
+
+function stageVariance(job: Job, p: JobStagePlan): StageVariance {
+  const a = actualFor(job, p)
+  const weighed = a?.issuedKg !== undefined && a?.receivedKg !== undefined
+  const issuedKg = a?.issuedKg ?? 0
+  const receivedKg = a?.receivedKg ?? 0
+  const scrapKg = a?.scrapKg ?? 0
+  const lossKg = weighed ? issuedKg - receivedKg - scrapKg : 0
+  const lossPlanPct = pctOf(p.keptKg, p.issueKg)
+  return {
+    plan: p,
+    weighed,
+    issuedKg,
+    receivedKg,
+    scrapKg,
+    lossKg: r3(lossKg),
+    yieldPlanPct: pctOf(p.receiveKg, p.issueKg),
+    yieldActualPct: weighed ? pctOf(receivedKg, issuedKg) : 0,
+    lossPlanPct,
+    lossActualPct: weighed ? pctOf(lossKg, issuedKg) : 0,
+    excessLossKg: weighed ? r3(lossKg - (issuedKg * lossPlanPct) / 100) : 0,
+    chargeActual: weighed ? r2(stageCharge(p, issuedKg, receivedKg)) : 0
+  }
+}
+
+function totals(
+  job: Job,
+  rows: { scrap: number; loss: number; charge: number; scrapRate: number }[],
+  circleKg: (part: string) => number,
+  packedKg: (part: string) => number
+): JobTotals {
+  const parts = Object.keys(job.plan.parts)
+  const circle = parts.reduce((a, p) => a + circleKg(p), 0)
+  const circleCost = parts.reduce((a, p) => a + circleKg(p) * job.plan.parts[p].circleRatePerKg, 0)
+  const labour = rows.reduce((a, r) => a + r.charge, 0)
+  const credit = rows.reduce((a, r) => a + r.scrap * r.scrapRate, 0)
+  return {
+    circleKg: r3(circle),
+    packedKg: r3(parts.reduce((a, p) => a + packedKg(p), 0)),
+    scrapKg: r3(rows.reduce((a, r) => a + r.scrap, 0)),
+    lossKg: r3(rows.reduce((a, r) => a + r.loss, 0)),
+    metalCost: r2(circleCost + labour - credit)
+  }
+}
+
+export function jobVariance(job: Job): JobVariance {
+  const stages = job.plan.stages.map(p => stageVariance(job, p))
+  const complete = stages.every(s => s.weighed)
+
+  const ofPart = (part: string) => stages.filter(s => s.plan.part === part)
+  const plan = totals(
+    job,
+    stages.map(s => ({ scrap: s.plan.scrapKg, loss: s.plan.keptKg, charge: s.plan.charge, scrapRate: s.plan.scrapRatePerKg })),
+    part => job.plan.parts[part].circleKg,
+    part => job.plan.parts[part].packedKg
+  )
+
+  // A part with no stages has nothing to weigh: its plan stands in for the actual
+  const weighedRows = stages.filter(s => s.weighed)
+  const actual = totals(
+    job,
+    weighedRows.map(s => ({ scrap: s.scrapKg, loss: s.lossKg, charge: s.chargeActual, scrapRate: s.plan.scrapRatePerKg })),
+    part => {
+      const rows = ofPart(part)
+      if (!rows.length) return job.plan.parts[part].circleKg
+      return rows[0].weighed ? rows[0].issuedKg : 0
+    },
+    part => {
+      const rows = ofPart(part)
+      if (!rows.length) return job.plan.parts[part].packedKg
+      const last = rows[rows.length - 1]
+      return last.weighed ? last.receivedKg : 0
+    }
+  )
+
+  const costPerKgPlan = plan.packedKg > 0 ? r2(plan.metalCost / plan.packedKg) : 0
+  const costPerKgActual = complete && actual.packedKg > 0 ? r2(actual.metalCost / actual.packedKg) : null
+
+  return {
+    stages,
+    complete,
+    plan,
+    actual,
+    yieldPlanPct: pctOf(plan.packedKg, plan.circleKg),
+    yieldActualPct: complete ? pctOf(actual.packedKg, actual.circleKg) : null,
+    costPerKgPlan,
+    costPerKgActual,
+    costVariance: costPerKgActual === null ? null : r2((costPerKgActual - costPerKgPlan) * actual.packedKg)
+  }
+}
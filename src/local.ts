@@ -0,0 +1,259 @@
+// local.ts
+// IndexedDB is the primary store. Supabase is only a sync target (see sync.ts).
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb'
+import type { AppSettings, AuditEntry, Item, Snapshot } from './types'
+import { migrateItem, migrateSettings } from './migrate'
+import type { CalcOutcome } from './calc'
+import type { PriceList } from './publish'
+
+// Every local record remembers which remote version it was based on.
+// - dirty: local edit not pushed yet (this is the offline queue)
+// - deleted: tombstone, remote row still has to be deleted
+// - conflict: remote version that changed under our unpushed edit (data null = deleted remotely)
+export type LocalRecord<T> = {
+  id: string
+  data: T
+  updatedAt: string
+  remoteUpdatedAt: string | null
+  dirty: boolean
+  deleted: boolean
+  conflict: { data: T | null; updatedAt: string | null } | null
+}
+
+export const SETTINGS_KEY = 'settings'
+
+// Snapshots are append-only, so "synced" is all the sync engine needs
+export type LocalSnapshot = Snapshot & { synced: boolean }
+
+// Audit entries are append-only too
+export type LocalAudit = AuditEntry & { synced: boolean }
+
+// Viewers only: the published outcome of each item (publish.ts)
+export type LocalPrice = { id: string; outcome: CalcOutcome }
+
+interface CostingDB extends DBSchema {
+  items: { key: string; value: LocalRecord<Item> }
+  settings: { key: string; value: LocalRecord<AppSettings> }
+  meta: { key: string; value: string }
+  snapshots: { key: string; value: LocalSnapshot; indexes: { refId: string } }
+  audit: { key: string; value: LocalAudit }
+  prices: { key: string; value: LocalPrice }
+}
+
+const dbs = new Map<string, Promise<IDBPDatabase<CostingDB>>>()
+
+// One database per login and organization (workspaceKey in orgs.ts), so switching
+// accounts or orgs never mixes catalogs.
+function db(uid: string) {
+  let p = dbs.get(uid)
+  if (!p) {
+    p = openDB<CostingDB>(`dockfinity-costing-${uid}`, 4, {
+      upgrade(d, oldVersion) {
+        if (oldVersion < 1) {
+          d.createObjectStore('items', { keyPath: 'id' })
+          d.createObjectStore('settings', { keyPath: 'id' })
+          d.createObjectStore('meta')
+        }
+        if (oldVersion < 2) {
+          const snaps = d.createObjectStore('snapshots', { keyPath: 'id' })
+          snaps.createIndex('refId', 'refId')
+        }
+        if (oldVersion < 3) {
+          d.createObjectStore('audit', { keyPath: 'id' })
+        }
+        if (oldVersion < 4) {
+          d.createObjectStore('prices', { keyPath: 'id' })
+        }
+      }
+    })
+    dbs.set(uid, p)
+  }
+  return p
+}
+
+function nowIso() {
+  return new Date().toISOString()
+}
+
+// ---------- ITEMS ----------
+export async function listLocalItems(uid: string): Promise<Item[]> {
+  const recs = await getItemRecords(uid)
+  return recs
+    .filter(r => !r.deleted)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(r => r.data)
+}
+
+export async function getLocalItem(uid: string, id: string): Promise<Item | null> {
+  const d = await db(uid)
+  const rec = await d.get('items', id)
+  return rec && !rec.deleted ? migrateItem(rec.data, await getLocalSettings(uid)) : null
+}
+
+export async function saveLocalItem(uid: string, item: Item): Promise<void> {
+  const d = await db(uid)
+  const prev = await d.get('items', item.id)
+  await d.put('items', {
+    id: item.id,
+    data: item,
+    updatedAt: nowIso(),
+    remoteUpdatedAt: prev?.remoteUpdatedAt ?? null,
+    dirty: true,
+    deleted: false,
+    conflict: prev?.conflict ?? null
+  })
+}
+
+export async function deleteLocalItem(uid: string, id: string): Promise<void> {
+  const d = await db(uid)
+  const prev = await d.get('items', id)
+  if (!prev) return
+
+  // Never pushed => nothing to delete remotely
+  if (!prev.remoteUpdatedAt) {
+    await d.delete('items', id)
+    return
+  }
+  await d.put('items', { ...prev, updatedAt: nowIso(), dirty: true, deleted: true })
+}
+
+// ---------- SETTINGS ----------
+export async function getLocalSettings(uid: string): Promise<AppSettings | null> {
+  const rec = await getSettingsRecord(uid)
+  return rec?.data ?? null
+}
+
+export async function saveLocalSettings(uid: string, s: AppSettings): Promise<void> {
+  const d = await db(uid)
+  const prev = await d.get('settings', SETTINGS_KEY)
+  await d.put('settings', {
+    id: SETTINGS_KEY,
+    data: s,
+    updatedAt: nowIso(),
+    remoteUpdatedAt: prev?.remoteUpdatedAt ?? null,
+    dirty: true,
+    deleted: false,
+    conflict: prev?.conflict ?? null
+  })
+}
+
+// Records written by an older app version are upgraded on read (the stored copy follows on next save);
+// items against the workspace settings (migrateItem)
+function upgraded<T>(rec: LocalRecord<T>, migrate: (raw: unknown) => T): LocalRecord<T> {
+  const c = rec.conflict
+  return { ...rec, data: migrate(rec.data), conflict: c && { ...c, data: c.data && migrate(c.data) } }
+}
+
+// ---------- RAW RECORDS (sync engine) ----------
+export async function getItemRecords(uid: string): Promise<LocalRecord<Item>[]> {
+  const d = await db(uid)
+  const recs = await d.getAll('items')
+  const settings = await getLocalSettings(uid)
+  return recs.map(r => upgraded(r, raw => migrateItem(raw, settings)))
+}
+
+export async function getItemRecord(uid: string, id: string): Promise<LocalRecord<Item> | null> {
+  const d = await db(uid)
+  const rec = await d.get('items', id)
+  if (!rec) return null
+  const settings = await getLocalSettings(uid)
+  return upgraded(rec, raw => migrateItem(raw, settings))
+}
+
+export async function putItemRecord(uid: string, rec: LocalRecord<Item>): Promise<void> {
+  const d = await db(uid)
+  await d.put('items', rec)
+}
+
+export async function removeItemRecord(uid: string, id: string): Promise<void> {
+  const d = await db(uid)
+  await d.delete('items', id)
+}
+
+export async function getSettingsRecord(uid: string): Promise<LocalRecord<AppSettings> | null> {
+  const d = await db(uid)
+  const rec = await d.get('settings', SETTINGS_KEY)
+  return rec ? upgraded(rec, migrateSettings) : null
+}
+
+export async function putSettingsRecord(uid: string, rec: LocalRecord<AppSettings>): Promise<void> {
+  const d = await db(uid)
+  await d.put('settings', rec)
+}
+
+export async function getMeta(uid: string, key: string): Promise<string | null> {
+  const d = await db(uid)
+  return (await d.get('meta', key)) ?? null
+}
+
+export async function setMeta(uid: string, key: string, value: string): Promise<void> {
+  const d = await db(uid)
+  await d.put('meta', value, key)
+}
+
+// ---------- SNAPSHOTS ----------
+export async function getSnapshots(uid: string, refId: string): Promise<LocalSnapshot[]> {
+  const d = await db(uid)
+  const snaps = await d.getAllFromIndex('snapshots', 'refId', refId)
+  return snaps.sort((a, b) => a.at.localeCompare(b.at))
+}
+
+export async function putSnapshots(uid: string, snaps: LocalSnapshot[]): Promise<void> {
+  const d = await db(uid)
+  const tx = d.transaction('snapshots', 'readwrite')
+  for (const s of snaps) await tx.store.put(s)
+  await tx.done
+}
+
+export async function getUnsyncedSnapshots(uid: string): Promise<LocalSnapshot[]> {
+  const d = await db(uid)
+  return (await d.getAll('snapshots')).filter(s => !s.synced)
+}
+
+export async function hasSnapshot(uid: string, id: string): Promise<boolean> {
+  const d = await db(uid)
+  return (await d.getKey('snapshots', id)) !== undefined
+}
+
+// ---------- AUDIT LOG ----------
+export async function getAuditEntries(uid: string): Promise<LocalAudit[]> {
+  const d = await db(uid)
+  return d.getAll('audit')
+}
+
+export async function putAuditEntries(uid: string, entries: LocalAudit[]): Promise<void> {
+  const d = await db(uid)
+  const tx = d.transaction('audit', 'readwrite')
+  for (const e of entries) await tx.store.put(e)
+  await tx.done
+}
+
+export async function getUnsyncedAudit(uid: string): Promise<LocalAudit[]> {
+  return (await getAuditEntries(uid)).filter(e => !e.synced)
+}
+
+export async function hasAuditEntry(uid: string, id: string): Promise<boolean> {
+  const d = await db(uid)
+  return (await d.getKey('audit', id)) !== undefined
+}
+
+// ---------- PRICE LIST (viewers) ----------
+// Replaces the whole catalog with the published one (null: none yet), and drops price history
+// and audit entries synced before viewers lost access to them (they carry the raw rates)
+export async function putPriceList(uid: string, list: PriceList | null, at: string): Promise<void> {
+  const d = await db(uid)
+  const tx = d.transaction(['items', 'settings', 'prices', 'snapshots', 'audit'], 'readwrite')
+  for (const store of ['items', 'settings', 'prices', 'snapshots', 'audit'] as const) await tx.objectStore(store).clear()
+  const clean = { updatedAt: at, remoteUpdatedAt: at, dirty: false, deleted: false, conflict: null }
+  for (const p of list?.items ?? []) {
+    await tx.objectStore('items').put({ id: p.item.id, data: p.item, ...clean })
+    await tx.objectStore('prices').put({ id: p.item.id, outcome: p.outcome })
+  }
+  if (list) await tx.objectStore('settings').put({ id: SETTINGS_KEY, data: list.settings, ...clean })
+  await tx.done
+}
+
+export async function getLocalPrices(uid: string): Promise<Map<string, CalcOutcome>> {
+  const d = await db(uid)
+  return new Map((await d.getAll('prices')).map(p => [p.id, p.outcome]))
+}
@@ -0,0 +1,117 @@
+// materials.ts
+// Material master: metal grades, circles by thickness, kunda grades, polythene by gauge, scrap rate.
+//
+// RATE RESOLUTION (same order everywhere):
+// 1) rate stored on the item (override)
+// 2) master entry referenced by key
+// 3) master entry matching thickness / gauge
+// 4) settings fallback (circle only: circleBaseRate)
+// Circle rate adders (adders.ts) go on top of whichever of these wins.
+import type {
+  AppSettings,
+  BagProfile,
+  CircleMaterial,
+  KundaGrade,
+  KundaSpec,
+  MaterialMaster,
+  MetalGrade,
+  PolytheneGrade,
+  PressedComponent,
+  ScrapReturn
+} from './types'
+
+// The locked circle formula (calc.ts) is the shop's steel: (263/254)·D² g per 0.263 mm works
+// out to 7.77 g/cc. Other grades scale the grams by their density over this one, so this
+// grade (and circles without a grade) weigh exactly what they always did.
+export const SHOP_STEEL_DENSITY_GCC = 7.77
+export const DEFAULT_GRADE = 'ss-202'
+
+export function defaultGrades(): MetalGrade[] {
+  return [
+    { key: DEFAULT_GRADE, name: 'SS 202', densityGcc: SHOP_STEEL_DENSITY_GCC },
+    { key: 'ss-304', name: 'SS 304', densityGcc: 7.93 },
+    { key: 'aluminium', name: 'Aluminium', densityGcc: 2.7 },
+    { key: 'brass', name: 'Brass', densityGcc: 8.5 }
+  ]
+}
+
+export function defaultMaterials(): MaterialMaster {
+  return {
+    grades: defaultGrades(),
+    circles: [
+      { key: 'ss-0.26', name: 'SS circle 0.26mm', thicknessMm: 0.26, ratePerKg: 175 },
+      { key: 'ss-0.33', name: 'SS circle 0.33mm', thicknessMm: 0.33, ratePerKg: 175 }
+    ],
+    kunda: [
+      { key: 'kunda-a', name: 'Kunda grade A', ratePerKg: 205 },
+      { key: 'kunda-b', name: 'Kunda grade B', ratePerKg: 185 }
+    ],
+    polythene: [
+      { key: 'poly-225', name: 'Polythene 225 gauge', gauge: 225, ratePerKg: 135 },
+      { key: 'poly-100', name: 'Polythene 100 gauge', gauge: 100, ratePerKg: 150 }
+    ],
+    scrapRatePerKg: 50
+  }
+}
+
+function isRate(n: unknown): n is number {
+  return typeof n === 'number' && isFinite(n)
+}
+
+function sameNum(a: number, b: number): boolean {
+  return Math.abs(a - b) < 1e-9
+}
+
+// Settings-only circle rate, used when the master has nothing for the part
+export function fallbackCircleRate(settings: AppSettings): number {
+  return settings.circleBaseRate
+}
+
+// ---------- LOOKUPS ----------
+// A part with a grade only matches circles of that grade by thickness
+export function circleMaterialFor(part: Pick<PressedComponent, 'circleMaterial' | 'thicknessMm' | 'grade'>, m: MaterialMaster): CircleMaterial | undefined {
+  return (
+    m.circles.find(c => c.key === part.circleMaterial) ??
+    m.circles.find(c => sameNum(c.thicknessMm, part.thicknessMm) && (part.grade === undefined || (c.grade ?? DEFAULT_GRADE) === part.grade))
+  )
+}
+
+export function metalGradeFor(part: Pick<PressedComponent, 'circleMaterial' | 'thicknessMm' | 'grade'>, m: MaterialMaster): MetalGrade | undefined {
+  const key = part.grade ?? circleMaterialFor(part, m)?.grade ?? DEFAULT_GRADE
+  return m.grades.find(g => g.key === key)
+}
+
+export function kundaGradeFor(kunda: Pick<KundaSpec, 'grade'>, m: MaterialMaster): KundaGrade | undefined {
+  return m.kunda.find(g => g.key === kunda.grade) ?? m.kunda[0]
+}
+
+export function polytheneFor(film: { gauge: number; material?: string }, m: MaterialMaster): PolytheneGrade | undefined {
+  return m.polythene.find(p => p.key === film.material) ?? m.polythene.find(p => sameNum(p.gauge, film.gauge))
+}
+
+// Unknown grade => shop steel (validate.ts warns)
+export function resolveDensityGcc(part: Pick<PressedComponent, 'circleMaterial' | 'thicknessMm' | 'grade'>, m: MaterialMaster): number {
+  return metalGradeFor(part, m)?.densityGcc ?? SHOP_STEEL_DENSITY_GCC
+}
+
+// ---------- RATES ----------
+export function resolvePartCircleRatePerKg(part: PressedComponent, settings: AppSettings): number {
+  // Explicit positive rate on the part wins
+  if (isRate(part.circleRatePerKg) && part.circleRatePerKg > 0) return part.circleRatePerKg
+  return circleMaterialFor(part, settings.materials)?.ratePerKg ?? fallbackCircleRate(settings)
+}
+
+export function resolveKundaRatePerKg(kunda: Pick<KundaSpec, 'grade' | 'ratePerKg'>, settings: AppSettings): number {
+  if (isRate(kunda.ratePerKg)) return kunda.ratePerKg
+  return kundaGradeFor(kunda, settings.materials)?.ratePerKg ?? 0
+}
+
+export function resolveFilmRatePerKg(film: BagProfile['polybag'] | BagProfile['pipe'], settings: AppSettings): number {
+  if (isRate(film.ratePerKg)) return film.ratePerKg
+  return polytheneFor(film, settings.materials)?.ratePerKg ?? 0
+}
+
+export function resolveScrapRatePerKg(scrap: ScrapReturn, settings: AppSettings): number {
+  if (isRate(scrap.ratePerKg)) return scrap.ratePerKg
+  return settings.materials.scrapRatePerKg
+}
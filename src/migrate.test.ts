@@ -0,0 +1,201 @@
+// migrate.test.ts
+// Old blobs (no schemaVersion) must load into the current shape with the same numbers.
+import { describe, expect, it } from 'vitest'
+import { calculate } from './calc'
+import { migrateBackup, migrateItem, migrateSettings } from './migrate'
+import { ITEM_SCHEMA_VERSION, SETTINGS_SCHEMA_VERSION } from './schema'
+import { seedItems, seedSettings } from './seed'
+import { pressedById, purchasedComponents, replaceComponent } from './components'
+import type { Item, PressedComponent, PurchasedComponent } from './types'
+
+const scrap = { enabled: true, ratePerKg: 50 }
+
+// Fixed press -> induction -> polish -> packing with literal rates, as saved before stages existed
+function legacyItem() {
+  const part = (label: 'box' | 'cover', circleSizeIn: number) => ({
+    label,
+    circleSizeIn,
+    thicknessMm: 0.26,
+    circleRatePerKg: 175,
+    press: { ratePerKg: 20, actualWastagePct: 4, jobWastagePct: 8, tutPct: 2, scrapReturn: scrap },
+    induction: { enabled: false, ratePerKg: 10 }
+  })
+  return {
+    id: 'legacy-1',
+    name: 'Legacy belly',
+    box: part('box', 9),
+    cover: part('cover', 7),
+    kunda: { enabled: true, weightG: 5, ratePerKg: 205 },
+    bagProfile: {
+      name: 'heavy',
+      polybag: { sizeIn: 8, gauge: 225, ratePerKg: 135 },
+      pipe: { widthIn: 7, lengthIn: 25, gauge: 225, pcsPerPipe: 6, ratePerKg: 135 }
+    },
+    polish: { ratePerKg: 12, wastagePct: 1, tutPct: 1, scrapReturn: scrap },
+    packing: { packingRatePerKg: 3, tutPct: 0.5, scrapReturn: scrap }
+  }
+}
+
+// The fixed box / cover / kunda shape (schema 3) a current seed item was saved as before components
+function v3Item(item: Item) {
+  const { components, ...rest } = item
+  const part = (label: 'box' | 'cover') => {
+    const p = components.find(c => c.id === label) as PressedComponent
+    return { label, circleSizeIn: p.circleSizeIn, thicknessMm: p.thicknessMm, circleMaterial: p.circleMaterial, circleRatePerKg: p.circleRatePerKg, stages: p.stages }
+  }
+  const kunda = components.find(c => c.id === 'kunda') as PurchasedComponent | undefined
+  return {
+    ...rest,
+    schemaVersion: 3,
+    box: part('box'),
+    cover: part('cover'),
+    kunda: kunda ? { enabled: true, weightG: kunda.weightG, grade: kunda.grade } : { enabled: false, weightG: 0, grade: 'kunda-a' }
+  }
+}
+
+const box = (it: Item) => pressedById(it, 'box') as PressedComponent
+
+describe('migrateItem', () => {
+  it('upgrades a legacy item to the current version with master links', () => {
+    const it = migrateItem(legacyItem())
+    expect(it.schemaVersion).toBe(ITEM_SCHEMA_VERSION)
+    expect(box(it).stages.map(s => s.name)).toEqual(['Press', 'Induction', 'Polish', 'Packing tut'])
+    expect(box(it).circleMaterial).toBe('ss-0.26')
+    expect(box(it).circleRatePerKg).toBe(175)
+    expect(purchasedComponents(it)).toEqual([{ kind: 'purchased', id: 'kunda', name: 'Kunda', basis: 'weight', weightG: 5, grade: 'kunda-a' }])
+    expect(it.bagProfile.polybag.material).toBe('poly-225')
+    expect('polish' in it).toBe(false)
+  })
+
+  it('keeps a literal rate that differs from the master as an override', () => {
+    const raw = legacyItem()
+    raw.box.circleRatePerKg = 181
+    expect(box(migrateItem(raw)).circleRatePerKg).toBe(181)
+  })
+
+  it('turns box / cover / kunda into components, dropping a disabled kunda', () => {
+    for (const item of seedItems) {
+      expect(migrateItem(v3Item(item))).toEqual(item)
+    }
+    const withKunda = seedItems.find(it => purchasedComponents(it).length) as Item
+    expect(migrateItem(v3Item(withKunda)).components.map(c => c.id)).toEqual(['box', 'cover', 'kunda'])
+    expect(migrateItem(v3Item(seedItems[0])).components.map(c => c.id)).toEqual(['box', 'cover'])
+  })
+
+  it('is a no-op on current items', () => {
+    for (const item of seedItems) expect(migrateItem(item)).toEqual(item)
+    const once = migrateItem(legacyItem())
+    expect(migrateItem(once)).toEqual(once)
+  })
+
+  it('does not re-link a current item that was set to match by thickness', () => {
+    const item = replaceComponent(seedItems[0], { ...box(seedItems[0]), circleMaterial: undefined, circleRatePerKg: 175 })
+    const out = migrateItem(item)
+    expect(box(out).circleMaterial).toBeUndefined()
+    expect(box(out).circleRatePerKg).toBe(175)
+  })
+
+  it('dropping literal rates that equal the master does not move the rate', () => {
+    const it = migrateItem(legacyItem())
+    const literal = {
+      ...it,
+      components: it.components.map(c => (c.kind === 'pressed' ? { ...c, circleRatePerKg: 175 } : { ...c, ratePerKg: 205 })),
+      bagProfile: {
+        ...it.bagProfile,
+        polybag: { ...it.bagProfile.polybag, ratePerKg: 135 },
+        pipe: { ...it.bagProfile.pipe, ratePerKg: 135 }
+      }
+    }
+    const rate = (x: typeof it) => {
+      const out = calculate(x, seedSettings)
+      return out.ok ? out.result.perKgRate : NaN
+    }
+    expect(rate(it)).toBe(rate(literal))
+    expect(rate(it)).toBeGreaterThan(0)
+  })
+
+  it('rejects blobs from a newer app and broken shapes', () => {
+    expect(() => migrateItem({ ...seedItems[0], schemaVersion: ITEM_SCHEMA_VERSION + 1 })).toThrow(/newer version/)
+    const badKunda = { ...seedItems[0], components: [...seedItems[0].components, { kind: 'purchased', id: 'kunda', name: 'Kunda', basis: 'weight', weightG: '5' }] }
+    expect(() => migrateItem(badKunda)).toThrow('components.2.weightG should be a number')
+    expect(() => migrateItem('nope')).toThrow(/expected an object/)
+  })
+})
+
+describe('migrateSettings', () => {
+  it('fills pricing and materials on settings saved before they existed', () => {
+    const s = migrateSettings({ circleBaseRate: 170, circleAddPerKg: 5, circleExtraAddPerKg: 0, bagStandardKg: 80 })
+    expect(s).toEqual(seedSettings)
+    expect(s.schemaVersion).toBe(SETTINGS_SCHEMA_VERSION)
+  })
+
+  it('folds the old circle add / extra add into the fallback rate and adds the +3 rule', () => {
+    const s = migrateSettings({ ...seedSettings, schemaVersion: 4, circleBaseRate: 170, circleAddPerKg: 5, circleExtraAddPerKg: 2, circleAdders: undefined })
+    expect(s.circleBaseRate).toBe(177)
+    expect(s.circleAdders).toEqual(seedSettings.circleAdders)
+    expect(s).not.toHaveProperty('circleAddPerKg')
+  })
+
+  it('adds the metal grades, leaving saved circles on shop steel', () => {
+    const { grades, ...materials } = seedSettings.materials
+    const s = migrateSettings({ ...seedSettings, schemaVersion: 5, materials })
+    expect(s.materials.grades).toEqual(grades)
+    expect(s.materials.circles).toEqual(seedSettings.materials.circles)
+  })
+
+  it('keeps saved pricing and materials', () => {
+    const raw = { ...seedSettings, schemaVersion: undefined, pricing: { ...seedSettings.pricing, marginPct: 8 } }
+    expect(migrateSettings(raw).pricing.marginPct).toBe(8)
+  })
+})
+
+describe('legacy parity', () => {
+  it('costs a legacy item without circle rates at the old settings rate (base + add + extra)', () => {
+    const raw = legacyItem()
+    const parts = [raw.box, raw.cover] as { circleRatePerKg?: number }[]
+    for (const p of parts) delete p.circleRatePerKg
+    const settings = migrateSettings({ circleBaseRate: 170, circleAddPerKg: 5, circleExtraAddPerKg: 5, bagStandardKg: 80 })
+    const item = migrateItem(raw)
+    const atOldRate: Item = { ...item, components: item.components.map(c => (c.kind === 'pressed' ? { ...c, circleRatePerKg: 180 } : c)) }
+
+    const rate = (x: Item) => {
+      const out = calculate(x, settings)
+      return out.ok ? out.result.perKgRate : NaN
+    }
+    expect(settings.materials.circles.map(c => c.ratePerKg)).toEqual([180, 180])
+    expect(rate(item)).toBe(rate(atOldRate))
+    expect(rate(item)).toBeGreaterThan(0)
+  })
+
+  it('keeps a literal circle rate equal to the default master when the user rate differs', () => {
+    const settings = migrateSettings({ circleBaseRate: 170, circleAddPerKg: 5, circleExtraAddPerKg: 5, bagStandardKg: 80 })
+    const item = migrateItem(legacyItem(), settings)
+    const out = calculate(item, settings)
+    expect(out.ok && out.result.breakdown.parts.map(p => p.baseCircleRatePerKg)).toEqual([175, 175])
+  })
+
+  it('follows a master circle edit when the literal only repeated the settings rate', () => {
+    const settings = migrateSettings({ circleBaseRate: 170, circleAddPerKg: 5, circleExtraAddPerKg: 0, bagStandardKg: 80 })
+    const item = migrateItem(legacyItem(), settings)
+    expect(pressedById(item, 'box')).not.toHaveProperty('circleRatePerKg')
+
+    const edited = { ...settings, materials: { ...settings.materials, circles: settings.materials.circles.map(c => ({ ...c, ratePerKg: 200 })) } }
+    const rate = (s: typeof settings) => {
+      const out = calculate(item, s)
+      return out.ok ? out.result.perKgRate : NaN
+    }
+    expect(rate(edited)).toBeGreaterThan(rate(settings))
+  })
+})
+
+describe('migrateBackup', () => {
+  it('upgrades an unversioned export file and everything inside it', () => {
+    const b = migrateBackup({ settings: { circleBaseRate: 170, circleAddPerKg: 5, circleExtraAddPerKg: 0, bagStandardKg: 80 }, items: [legacyItem()] })
+    expect(b.items[0].schemaVersion).toBe(ITEM_SCHEMA_VERSION)
+    expect(b.settings.materials).toEqual(seedSettings.materials)
+  })
+
+  it('refuses a file without settings instead of resetting them', () => {
+    expect(() => migrateBackup({ items: [] })).toThrow('settings should be an object')
+  })
+})
@@ -0,0 +1,280 @@
+// migrate.ts
+// Upgrades blobs saved by older versions of the app into the current shape.
+// Each kind has an ordered list of steps; a blob runs every step above its schemaVersion,
+// then is shape-checked (schema.ts). Used on every load (IndexedDB, Supabase) and import.
+import type { AppSettings, BackupBlob, BagProfile, Item, ItemComponent, KundaSpec, MaterialMaster, PressedComponent, ScrapReturn } from './types'
+import { newStage } from './stages'
+import { circleMaterialFor, defaultGrades, defaultMaterials, polytheneFor } from './materials'
+import { defaultPricing } from './pricing'
+import { defaultCatalog } from './catalog'
+import { defaultCircleAdders } from './adders'
+import { kundaComponent } from './components'
+import {
+  BACKUP_SCHEMA_VERSION,
+  ITEM_SCHEMA_VERSION,
+  SETTINGS_SCHEMA_VERSION,
+  checkBackup,
+  checkItem,
+  checkSettings,
+  isBlob,
+  type Blob
+} from './schema'
+
+// ---------- V3 SHAPE (fixed box / cover / kunda) ----------
+type PartSpec = Omit<PressedComponent, 'kind' | 'id' | 'name'> & { label: 'box' | 'cover' }
+
+type FixedPartsItem = Omit<Item, 'components'> & {
+  box: PartSpec
+  cover: PartSpec
+  kunda: KundaSpec
+}
+
+// ---------- LEGACY SHAPES (fixed press -> induction -> polish -> packing) ----------
+type LegacyPress = {
+  ratePerKg: number
+  actualWastagePct: number
+  jobWastagePct: number
+  tutPct: number
+  scrapReturn: ScrapReturn
+}
+
+type LegacyPart = Omit<PartSpec, 'stages'> & {
+  press: LegacyPress
+  induction?: { enabled: boolean; ratePerKg: number }
+}
+
+type LegacyItem = Omit<FixedPartsItem, 'box' | 'cover' | 'packing'> & {
+  box: LegacyPart
+  cover: LegacyPart
+  polish: { ratePerKg: number; wastagePct: number; tutPct: number; scrapReturn: ScrapReturn }
+  packing: { packingRatePerKg: number; tutPct: number; scrapReturn: ScrapReturn }
+}
+
+// Same numbers as before:
+// - press actual wastage => grams, job wastage + tut => costing
+// - polish wastage was used for BOTH grams and costing
+// - packing tut is a zero-rate stage on the metal; the packing charge stays on the bag
+function migrateLegacyPart(part: LegacyPart, polish: LegacyItem['polish'], packing: LegacyItem['packing']): PartSpec {
+  const { press, induction, ...rest } = part
+  return {
+    ...rest,
+    stages: [
+      newStage('press', 'press', {
+        rate: press.ratePerKg,
+        actualWastagePct: press.actualWastagePct,
+        jobWastagePct: press.jobWastagePct,
+        tutPct: press.tutPct,
+        scrapReturn: { ...press.scrapReturn }
+      }),
+      newStage('induction', 'induction', {
+        enabled: !!induction?.enabled,
+        rate: induction?.ratePerKg ?? 10
+      }),
+      newStage('polish', 'polish', {
+        rate: polish.ratePerKg,
+        actualWastagePct: polish.wastagePct,
+        jobWastagePct: polish.wastagePct,
+        tutPct: polish.tutPct,
+        scrapReturn: { ...polish.scrapReturn }
+      }),
+      newStage('packing', 'packing', {
+        tutPct: packing.tutPct,
+        scrapReturn: { ...packing.scrapReturn }
+      })
+    ]
+  }
+}
+
+function migrateLegacyItem(raw: LegacyItem): FixedPartsItem {
+  const { box, cover, polish, packing, ...rest } = raw
+  return {
+    ...rest,
+    box: migrateLegacyPart(box, polish, packing),
+    cover: migrateLegacyPart(cover, polish, packing),
+    packing: { packingRatePerKg: packing.packingRatePerKg }
+  }
+}
+
+// ---------- MATERIAL MASTER LINKS ----------
+// Items saved before the material master carry literal rates (175 / 205 / 135 / 150 / 50).
+// Point them at the matching master entry and drop the literal when it equals the
+// default master rate; any other number stays on the item as an override.
+// Circle rates are compared with the workspace's own fallback rate instead (the old base + add
+// + extra, which seeds its master circles, see legacyMaterials): an equal literal only repeated
+// the settings and now follows the master; anything else, or no settings to compare with, stays.
+// Runs once per component: a set key means it is already linked.
+function same(a: number | undefined, b: number | undefined): boolean {
+  return a !== undefined && b !== undefined && Math.abs(a - b) < 1e-9
+}
+
+function isOverride(rate: number | undefined, masterRate: number): rate is number {
+  return rate !== undefined && !same(rate, masterRate)
+}
+
+function linkScrap(scrap: ScrapReturn, m: MaterialMaster): ScrapReturn {
+  if (!same(scrap.ratePerKg, m.scrapRatePerKg)) return scrap
+  return { enabled: scrap.enabled }
+}
+
+function linkPart(part: PartSpec, m: MaterialMaster, fallbackRate?: number): PartSpec {
+  if (part.circleMaterial !== undefined) return part
+  const circle = circleMaterialFor(part, m)
+  if (!circle) return part
+
+  const out: PartSpec = {
+    ...part,
+    circleMaterial: circle.key,
+    stages: part.stages.map(s => ({ ...s, scrapReturn: linkScrap(s.scrapReturn, m) }))
+  }
+  if (same(part.circleRatePerKg, fallbackRate)) delete out.circleRatePerKg
+  return out
+}
+
+function linkKunda(kunda: KundaSpec, m: MaterialMaster): KundaSpec {
+  if (kunda.grade !== undefined) return kunda
+  const grade = m.kunda.find(g => same(g.ratePerKg, kunda.ratePerKg)) ?? m.kunda[0]
+  if (!grade) return kunda
+
+  const { ratePerKg, ...rest } = kunda
+  return { ...rest, grade: grade.key, ...(isOverride(ratePerKg, grade.ratePerKg) ? { ratePerKg } : {}) }
+}
+
+function linkFilm<T extends BagProfile['polybag'] | BagProfile['pipe']>(film: T, m: MaterialMaster): T {
+  if (film.material !== undefined) return film
+  const grade = polytheneFor(film, m)
+  if (!grade) return film
+
+  const { ratePerKg, ...rest } = film
+  return { ...rest, material: grade.key, ...(isOverride(ratePerKg, grade.ratePerKg) ? { ratePerKg } : {}) } as T
+}
+
+function linkMaterials(item: FixedPartsItem, fallbackRate?: number): FixedPartsItem {
+  const m = defaultMaterials()
+  return {
+    ...item,
+    box: linkPart(item.box, m, fallbackRate),
+    cover: linkPart(item.cover, m, fallbackRate),
+    kunda: linkKunda(item.kunda, m),
+    bagProfile: {
+      ...item.bagProfile,
+      polybag: linkFilm(item.bagProfile.polybag, m),
+      pipe: linkFilm(item.bagProfile.pipe, m)
+    }
+  }
+}
+
+// ---------- COMPONENTS ----------
+// Box and cover become pressed components keyed box / cover in field paths; an enabled
+// kunda becomes a purchased-by-weight one, a disabled kunda weighed nothing.
+function pressed(id: string, name: string, part: PartSpec): PressedComponent {
+  const c: PressedComponent & { label?: string } = { kind: 'pressed', id, name, ...part }
+  delete c.label
+  return c
+}
+
+function toComponents(item: FixedPartsItem): Item {
+  const { box, cover, kunda, ...rest } = item
+  const components: ItemComponent[] = [pressed('box', 'Box', box), pressed('cover', 'Cover', cover)]
+  if (kunda.enabled) components.push(kundaComponent(kunda))
+  return { ...rest, components }
+}
+
+// ---------- CIRCLE RATE ADDERS ----------
+// circleAddPerKg / circleExtraAddPerKg only ever reached the settings fallback rate, so they
+// fold into it (same numbers); the Calculator's hard-coded +3 becomes the default rule.
+function numOr0(v: unknown): number {
+  return typeof v === 'number' && isFinite(v) ? v : 0
+}
+
+// What an item without its own circle rate was costed at before the master
+function legacyCircleRate(raw: Blob): number | undefined {
+  return typeof raw.circleBaseRate === 'number' ? raw.circleBaseRate + numOr0(raw.circleAddPerKg) + numOr0(raw.circleExtraAddPerKg) : undefined
+}
+
+// Items link to master circles by thickness, so those start at the user's own rate
+function legacyMaterials(raw: Blob): MaterialMaster {
+  const m = defaultMaterials()
+  const rate = legacyCircleRate(raw)
+  return rate === undefined ? m : { ...m, circles: m.circles.map(c => ({ ...c, ratePerKg: rate })) }
+}
+
+function circleAdderRules(raw: Blob): Blob {
+  const out: Blob = {
+    ...raw,
+    circleBaseRate: legacyCircleRate(raw) ?? raw.circleBaseRate,
+    circleAdders: Array.isArray(raw.circleAdders) ? raw.circleAdders : defaultCircleAdders()
+  }
+  delete out.circleAddPerKg
+  delete out.circleExtraAddPerKg
+  return out
+}
+
+// Circles without a grade stay shop steel, so every weight is unchanged
+function metalGrades(raw: Blob): Blob {
+  if (!isBlob(raw.materials) || Array.isArray(raw.materials.grades)) return raw
+  return { ...raw, materials: { ...raw.materials, grades: defaultGrades() } }
+}
+
+// ---------- REGISTRY ----------
+// `to` is the version a step produces; steps run in order from the blob's version.
+// Item steps also get the workspace's circle fallback rate when it is known.
+type Migration = { to: number; note: string; up: (raw: Blob, fallbackRate?: number) => Blob }
+
+const ITEM_MIGRATIONS: Migration[] = [
+  { to: 2, note: 'fixed press/induction/polish/packing => stage pipeline', up: raw => migrateLegacyItem(raw as LegacyItem) },
+  { to: 3, note: 'literal material rates => material master keys', up: (raw, rate) => linkMaterials(raw as FixedPartsItem, rate) },
+  { to: 4, note: 'box / cover / kunda => component list', up: raw => toComponents(raw as FixedPartsItem) }
+]
+
+const SETTINGS_MIGRATIONS: Migration[] = [
+  { to: 2, note: 'selling price settings', up: raw => ({ ...raw, pricing: { ...defaultPricing(), ...(isBlob(raw.pricing) ? raw.pricing : {}) } }) },
+  { to: 3, note: 'material master', up: raw => ({ ...raw, materials: isBlob(raw.materials) ? raw.materials : legacyMaterials(raw) }) },
+  { to: 4, note: 'product-family catalog', up: raw => ({ ...raw, catalog: Array.isArray(raw.catalog) ? raw.catalog : defaultCatalog() }) },
+  { to: 5, note: 'circle add / extra add => fallback rate + adder rules', up: circleAdderRules },
+  { to: 6, note: 'metal grades with density', up: metalGrades }
+]
+
+const BACKUP_MIGRATIONS: Migration[] = [
+  { to: 1, note: 'versioned backup file', up: raw => ({ ...raw, items: raw.items ?? [] }) }
+]
+
+function upgrade(what: string, raw: Blob, from: number, steps: Migration[], current: number, fallbackRate?: number): Blob {
+  if (from > current) throw new Error(`This ${what} was saved by a newer version of the app (schema ${from}). Update the app first.`)
+  const out = steps.filter(s => s.to > from).reduce((b, s) => s.up(b, fallbackRate), raw)
+  return { ...out, schemaVersion: current }
+}
+
+function requireBlob(what: string, raw: unknown): Blob {
+  if (!isBlob(raw)) throw new Error(`Invalid ${what}: expected an object`)
+  return raw
+}
+
+// Blobs from before versioning: the shape tells which version they are.
+// v1 item = no stage list yet; unversioned items with stages are v2 (linking is skipped where a key is set).
+function itemVersion(raw: Blob): number {
+  if (typeof raw.schemaVersion === 'number') return raw.schemaVersion
+  return isBlob(raw.box) && Array.isArray(raw.box.stages) ? 2 : 1
+}
+
+function savedVersion(raw: Blob, unversioned: number): number {
+  return typeof raw.schemaVersion === 'number' ? raw.schemaVersion : unversioned
+}
+
+// settings: the workspace's (already migrated) settings, when the caller has them
+export function migrateItem(raw: unknown, settings?: AppSettings | null): Item {
+  const b = requireBlob('item', raw)
+  return checkItem(upgrade('item', b, itemVersion(b), ITEM_MIGRATIONS, ITEM_SCHEMA_VERSION, settings?.circleBaseRate))
+}
+
+export function migrateSettings(raw: unknown): AppSettings {
+  const b = requireBlob('settings', raw)
+  return checkSettings(upgrade('settings', b, savedVersion(b, 1), SETTINGS_MIGRATIONS, SETTINGS_SCHEMA_VERSION))
+}
+
+// The file itself, then every item and the settings inside it
+export function migrateBackup(raw: unknown): BackupBlob {
+  const b = requireBlob('backup', raw)
+  const blob = checkBackup(upgrade('backup', b, savedVersion(b, 0), BACKUP_MIGRATIONS, BACKUP_SCHEMA_VERSION))
+  const settings = migrateSettings(blob.settings)
+  return { ...blob, items: blob.items.map(it => migrateItem(it, settings)), settings }
+}
@@ -0,0 +1,50 @@
+// orgs.test.ts
+import { describe, expect, it } from 'vitest'
+import type { Org, OrgMember } from './types'
+import { canEdit, canSeeRates, isEmail, pickOrg, roleChangeBlocked, workspaceKey } from './orgs'
+
+const orgs: Org[] = [
+  { id: 'team', name: 'Factory', role: 'viewer' },
+  { id: 'u1', name: 'My workspace', role: 'owner' }
+]
+
+describe('roles', () => {
+  it('lets only owners and editors write, and hides rates from viewers', () => {
+    expect([canEdit('owner'), canEdit('editor'), canEdit('viewer')]).toEqual([true, true, false])
+    expect([canSeeRates('owner'), canSeeRates('editor'), canSeeRates('viewer')]).toEqual([true, true, false])
+  })
+})
+
+describe('workspaces', () => {
+  it('keeps the login store for the personal org and partitions the others', () => {
+    expect(workspaceKey('u1', 'u1')).toBe('u1')
+    expect(workspaceKey('u1', 'team')).toBe('u1.team')
+  })
+
+  it('reopens the last org, else the personal one', () => {
+    expect(pickOrg(orgs, 'team', 'u1')?.id).toBe('team')
+    expect(pickOrg(orgs, 'gone', 'u1')?.id).toBe('u1')
+    expect(pickOrg([], null, 'u1')).toBeNull()
+  })
+})
+
+describe('roleChangeBlocked', () => {
+  const members: OrgMember[] = [
+    { userId: 'u1', email: 'a@x.in', role: 'owner' },
+    { userId: 'u2', email: 'b@x.in', role: 'editor' }
+  ]
+
+  it('keeps at least one owner', () => {
+    expect(roleChangeBlocked(members, 'u1', 'viewer')).toMatch(/at least one owner/)
+    expect(roleChangeBlocked(members, 'u1', null)).toMatch(/at least one owner/)
+    expect(roleChangeBlocked(members, 'u2', null)).toBeNull()
+    expect(roleChangeBlocked([...members, { userId: 'u3', email: '', role: 'owner' }], 'u1', 'viewer')).toBeNull()
+  })
+})
+
+describe('isEmail', () => {
+  it('accepts trimmed, any-case addresses only', () => {
+    expect(isEmail(' Ravi@Factory.in ')).toBe(true)
+    expect(isEmail('ravi@factory')).toBe(false)
+  })
+})
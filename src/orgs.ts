@@ -0,0 +1,53 @@
+// orgs.ts
+// Organization workspaces: what each role may do, which org opens after login, and the
+// local (IndexedDB) partition per login + org. Writes are also enforced by RLS
+// (005_organizations.sql); viewers can only read the published price list (publish.ts).
+import type { Org, OrgMember, OrgRole } from './types'
+
+export const ROLES: OrgRole[] = ['owner', 'editor', 'viewer']
+
+export const ROLE_LABEL: Record<OrgRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer'
+}
+
+export function canEdit(role: OrgRole): boolean {
+  return role === 'owner' || role === 'editor'
+}
+
+// Members, invites and the org itself
+export function canManage(role: OrgRole): boolean {
+  return role === 'owner'
+}
+
+// Circle / material / stage rates and the cost split behind a price
+export function canSeeRates(role: OrgRole): boolean {
+  return role !== 'viewer'
+}
+
+// The personal org keeps the login's original store, so data saved before orgs stays put
+export function workspaceKey(uid: string, orgId: string): string {
+  return orgId === uid ? uid : `${uid}.${orgId}`
+}
+
+// Last used org if still a member, else the personal one, else the first
+export function pickOrg(orgs: Org[], lastId: string | null, uid: string): Org | null {
+  return orgs.find(o => o.id === lastId) ?? orgs.find(o => o.id === uid) ?? orgs[0] ?? null
+}
+
+// Every org keeps at least one owner; null when the change is allowed
+export function roleChangeBlocked(members: OrgMember[], userId: string, next: OrgRole | null): string | null {
+  const m = members.find(x => x.userId === userId)
+  if (!m || m.role !== 'owner' || next === 'owner') return null
+  const owners = members.filter(x => x.role === 'owner').length
+  return owners <= 1 ? 'An organization needs at least one owner' : null
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+export function isEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizeEmail(email))
+}
@@ -0,0 +1,66 @@
+// pricing.ts
+// Selling price layer on top of calculate() (which is pure manufacturing cost).
+import type { AppSettings, CalcResult, Item, PriceBreakdown, PriceLine, PricingSettings } from './types'
+
+export function defaultPricing(): PricingSettings {
+  return {
+    overheadPct: 0,
+    transportPerKg: 0,
+    marginPct: 0,
+    brokerPct: 0,
+    gstPct: 12
+  }
+}
+
+// Item override (if a number) > settings > defaults
+export function resolvePricing(settings: AppSettings, item?: Item | null): PricingSettings {
+  const base = { ...defaultPricing(), ...settings.pricing }
+  const o = item?.pricing || {}
+  const out = { ...base }
+  for (const k of Object.keys(base) as (keyof PricingSettings)[]) {
+    const v = o[k]
+    if (typeof v === 'number' && isFinite(v)) out[k] = v
+  }
+  return out
+}
+
+function r2(n: number) { return Math.round(n * 100) / 100 }
+function pct(x: number): number { return x / 100 }
+
+export function priceFromCost(result: CalcResult, settings: AppSettings, item?: Item | null): PriceBreakdown {
+  const p = resolvePricing(settings, item)
+
+  // Everything is worked out per kg, then scaled to pc and bag
+  const cost = result.perKgRate
+  const overhead = cost * pct(p.overheadPct)
+  const transport = p.transportPerKg
+  const fullCost = cost + overhead + transport
+  const margin = fullCost * pct(p.marginPct)
+
+  // Broker commission is a % of what the buyer pays (before GST)
+  const brokerP = pct(p.brokerPct)
+  const taxable = brokerP < 1 ? (fullCost + margin) / (1 - brokerP) : NaN
+  const broker = taxable - fullCost - margin
+  const gst = taxable * pct(p.gstPct)
+  const final = taxable + gst
+
+  const kgPerPc = result.perPc.totalPackedG / 1000
+  const bagKg = result.debug.bagKg
+  const line = (perKg: number): PriceLine => ({
+    perKg: r2(perKg),
+    perPc: r2(perKg * kgPerPc),
+    perBag: r2(perKg * bagKg)
+  })
+
+  return {
+    pricing: p,
+    cost: line(cost),
+    overhead: line(overhead),
+    transport: line(transport),
+    margin: line(margin),
+    broker: line(broker),
+    taxable: line(taxable),
+    gst: line(gst),
+    final: line(final)
+  }
+}
@@ -0,0 +1,95 @@
+// publish.test.ts
+import { describe, expect, it } from 'vitest'
+import type { Item, PressedComponent } from './types'
+import { calculate } from './calc'
+import { priceFromCost } from './pricing'
+import { flatten, setPath } from './fields'
+import { newBlanking } from './blanking'
+import { pressedById, replaceComponent } from './components'
+import { seedItems, seedSettings } from './seed'
+import { priceList, publishItem, publishedOutcome, redactRates } from './publish'
+
+const base: Item = seedItems[0]
+const box = pressedById(base, 'box') as PressedComponent
+
+// Every kind of rate an item can carry
+const priced: Item = {
+  ...replaceComponent(base, { ...box, circleRatePerKg: 181, blanking: { ...newBlanking(180), offcut: { enabled: true, ratePerKg: 60 } } }),
+  bagProfile: { ...base.bagProfile, polybag: { ...base.bagProfile.polybag, ratePerKg: 210 } },
+  packaging: { target: 'kg', bagKg: 40, rounding: 'floor', innerPcs: 12, innerCostPerPack: 4, bagCost: 25 }
+}
+
+// Any leaf named like a rate or a cost that is still non-zero
+function leaks(v: unknown): string[] {
+  return Object.entries(flatten(v))
+    .filter(([path, x]) => /rate|cost|addPerKg/i.test(path.split('.').pop() ?? '') && typeof x === 'number' && x !== 0)
+    .map(([path]) => path)
+}
+
+// Every non-zero rate or cost value, as it would be printed
+function rateValues(v: unknown): string[] {
+  const flat = flatten(v)
+  return leaks(v).map(path => String(flat[path]))
+}
+
+describe('redactRates', () => {
+  it('zeroes every rate in an item and the settings', () => {
+    expect(leaks(priced).length).toBeGreaterThan(5)
+    expect(leaks(redactRates(priced))).toEqual([])
+    expect(leaks(redactRates(seedSettings))).toEqual([])
+  })
+
+  it('keeps everything else', () => {
+    const r = redactRates(priced)
+    expect(r.name).toBe(priced.name)
+    expect((pressedById(r, 'box') as PressedComponent).circleSizeIn).toBe(box.circleSizeIn)
+    expect(r.packaging).toMatchObject({ bagKg: 40, innerPcs: 12 })
+    expect(redactRates(seedSettings).pricing).toEqual(seedSettings.pricing)
+  })
+})
+
+describe('publishItem', () => {
+  it('publishes the weights and prices without the cost build-up', () => {
+    const real = calculate(priced, seedSettings)
+    const pub = publishItem(priced, seedSettings).outcome
+    if (!real.ok || !pub.ok) throw new Error('should calculate')
+
+    expect(pub.result.perKgRate).toBe(real.result.perKgRate)
+    expect(pub.result.perPcRate).toBe(real.result.perPcRate)
+    expect(pub.result.perPc).toEqual(real.result.perPc)
+    expect(pub.result.breakdown.packing.inners).toBe(real.result.breakdown.packing.inners)
+    expect(priceFromCost(pub.result, seedSettings, priced)).toEqual(priceFromCost(real.result, seedSettings, priced))
+
+    expect(pub.result.breakdown.parts).toEqual([])
+    expect(leaks(pub.result.debug)).toEqual([])
+  })
+
+  it('publishes warnings without any raw rate in them', () => {
+    const odd: Item = {
+      ...replaceComponent(base, { ...box, circleRatePerKg: 181, circleSizeIn: 31, thicknessMm: 2.5, circleMaterial: 'retired', grade: 'retired' }),
+      bagProfile: priced.bagProfile
+    }
+    const pub = publishItem(odd, seedSettings).outcome
+    if (!pub.ok) throw new Error('should calculate')
+    expect(pub.warnings.length).toBeGreaterThan(3)
+
+    const rates = [...rateValues(odd), ...rateValues(seedSettings)]
+    for (const w of pub.warnings) {
+      for (const rate of rates) expect(w.message, w.path).not.toMatch(new RegExp(`(^|[^\\d.])${rate.replace('.', '\\.')}([^\\d.]|$)`))
+    }
+  })
+
+  it('publishes why an item does not calculate', () => {
+    const broken = setPath(base, 'bagProfile.pipe.pcsPerPipe', 0)
+    const pub = publishItem(broken, seedSettings).outcome
+    expect(pub.ok).toBe(false)
+    if (!pub.ok) expect(pub.errors.map(e => e.path)).toContain('bagProfile.pipe.pcsPerPipe')
+  })
+
+  it('gives viewers a reason for an item with no published price', () => {
+    const list = priceList([base], seedSettings)
+    const prices = new Map(list.items.map(p => [p.item.id, p.outcome]))
+    expect(publishedOutcome(prices, base).ok).toBe(true)
+    expect(publishedOutcome(prices, seedItems[1]).ok).toBe(false)
+  })
+})
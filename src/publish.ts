@@ -0,0 +1,97 @@
+// publish.ts
+// What viewers get instead of the raw items / settings (the price_list table, see
+// 009_viewer_price_list.sql): every rate blanked, plus the weights and prices each item
+// calculates to. Prices are calculated in the browser, so editors publish them on sync.
+import type { AppSettings, CalcResult, Item } from './types'
+import { calculate } from './calc'
+import type { CalcOutcome } from './calc'
+
+export type PublishedItem = { item: Item; outcome: CalcOutcome }
+
+export type PriceList = { items: PublishedItem[]; settings: AppSettings }
+
+// Every ₹ input in an item, the settings and the catalog templates
+const RATE_KEYS = new Set([
+  'rate',
+  'ratePerKg',
+  'ratePerPc',
+  'circleRatePerKg',
+  'circleBaseRate',
+  'scrapRatePerKg',
+  'packingRatePerKg',
+  'addPerKg',
+  'innerCostPerPack',
+  'bagCost'
+])
+
+// Zeroed rather than dropped so the blob still passes the shape checks
+export function redactRates<T>(v: T): T {
+  if (Array.isArray(v)) return v.map(redactRates) as T
+  if (v === null || typeof v !== 'object') return v
+  const out: Record<string, unknown> = {}
+  for (const [k, x] of Object.entries(v)) out[k] = RATE_KEYS.has(k) && typeof x === 'number' ? 0 : redactRates(x)
+  return out as T
+}
+
+// Weights, pieces and the resulting rates; the cost build-up behind them is dropped
+export function redactResult(r: CalcResult): CalcResult {
+  const p = r.breakdown.packing
+  return {
+    ...r,
+    debug: {
+      bagKg: r.debug.bagKg,
+      pcs: r.debug.pcs,
+      circleKgInTotal: 0,
+      circleCost: 0,
+      stageCharges: {},
+      packingCost: 0,
+      cartonCost: 0,
+      purchasedCost: 0,
+      plasticCost: 0,
+      scrapCredit: 0,
+      finalCost: 0
+    },
+    breakdown: {
+      bagKg: r.breakdown.bagKg,
+      pcs: r.breakdown.pcs,
+      parts: [],
+      purchased: [],
+      plastic: { polybagKg: 0, polybagRatePerKg: 0, pipeKg: 0, pipeRatePerKg: 0, cost: 0 },
+      packing: { ratePerKg: 0, cost: 0, innerPcs: p.innerPcs, inners: p.inners, cartonCost: 0 },
+      finalCost: 0,
+      perKgRate: r.breakdown.perKgRate
+    }
+  }
+}
+
+export function publishItem(item: Item, settings: AppSettings): PublishedItem {
+  const out = calculate(item, settings)
+  return { item: redactRates(item), outcome: out.ok ? { ...out, result: redactResult(out.result) } : out }
+}
+
+export function priceList(items: Item[], settings: AppSettings): PriceList {
+  return { items: items.map(it => publishItem(it, settings)), settings: redactRates(settings) }
+}
+
+// A viewer's costOf: the published outcome, or why there is none yet
+export function publishedOutcome(prices: Map<string, CalcOutcome>, item: Item): CalcOutcome {
+  return (
+    prices.get(item.id) ?? {
+      ok: false,
+      itemId: item.id,
+      itemName: item.name,
+      errors: [{ path: '', level: 'error', message: 'No price published yet: an editor has to sync this item' }]
+    }
+  )
+}
+
+// FNV-1a, to skip re-publishing an unchanged list
+export function fingerprint(list: PriceList): string {
+  const s = JSON.stringify(list)
+  let h = 0x811c9dc5
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return (h >>> 0).toString(16)
+}
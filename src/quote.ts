@@ -0,0 +1,145 @@
+// quote.ts
+// Multi-item quotation: lines from calculate() + pricing, totals and a printable HTML view.
+import type { AppSettings, CalcResult, Item, Quote, QuoteLine, QuoteUnit } from './types'
+import { priceFromCost } from './pricing'
+
+function r2(n: number) { return Math.round(n * 100) / 100 }
+function r3(n: number) { return Math.round(n * 1000) / 1000 }
+
+export function buildQuoteLine(
+  item: Item,
+  result: CalcResult,
+  settings: AppSettings,
+  qty: number,
+  unit: QuoteUnit
+): QuoteLine {
+  const price = priceFromCost(result, settings, item)
+
+  // Whole pieces only
+  const pcs = Math.round(unit === 'bags' ? qty * result.pcsPerBag : qty)
+  const kg = (pcs * result.perPc.totalPackedG) / 1000
+  const amount = kg * price.taxable.perKg
+
+  return {
+    itemId: item.id,
+    itemName: item.name,
+    qty,
+    unit,
+    pcs,
+    kg: r3(kg),
+    ratePerKg: price.taxable.perKg,
+    ratePerPc: price.taxable.perPc,
+    gstPct: price.pricing.gstPct,
+    amount: r2(amount),
+    gst: r2(amount * (price.pricing.gstPct / 100))
+  }
+}
+
+export function quoteTotals(lines: QuoteLine[]): Quote['totals'] {
+  const pcs = lines.reduce((a, l) => a + l.pcs, 0)
+  const kg = lines.reduce((a, l) => a + l.kg, 0)
+  const taxable = lines.reduce((a, l) => a + l.amount, 0)
+  const gst = lines.reduce((a, l) => a + l.gst, 0)
+  return { pcs, kg: r3(kg), taxable: r2(taxable), gst: r2(gst), grandTotal: r2(taxable + gst) }
+}
+
+// <prefix>-<year>-<running number>, continuing from the highest saved number of that year
+export function nextNumber(prefix: string, existing: string[], date = new Date()): string {
+  const head = `${prefix}-${date.getFullYear()}-`
+  const max = existing
+    .filter(n => n.startsWith(head))
+    .map(n => Number(n.slice(head.length)))
+    .filter(n => isFinite(n))
+    .reduce((a, n) => Math.max(a, n), 0)
+  return `${head}${String(max + 1).padStart(4, '0')}`
+}
+
+export function nextQuoteNumber(existing: Pick<Quote, 'number'>[], date = new Date()): string {
+  return nextNumber('Q', existing.map(q => q.number), date)
+}
+
+export function validUntil(q: Pick<Quote, 'date' | 'validDays'>): string {
+  const d = new Date(`${q.date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + q.validDays)
+  return d.toISOString().slice(0, 10)
+}
+
+// ===========================
+// PRINT VIEW
+// ===========================
+function esc(s: string): string {
+  return s.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c] as string)
+}
+
+function money(n: number): string {
+  return n.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+export function quoteHtml(q: Quote, company = 'Dockfinity'): string {
+  const rows = q.lines
+    .map(
+      (l, i) => `<tr>
+  <td>${i + 1}</td>
+  <td>${esc(l.itemName)}</td>
+  <td class="n">${l.qty} ${l.unit}</td>
+  <td class="n">${l.pcs}</td>
+  <td class="n">${l.kg.toFixed(3)}</td>
+  <td class="n">${money(l.ratePerKg)}</td>
+  <td class="n">${money(l.ratePerPc)}</td>
+  <td class="n">${money(l.amount)}</td>
+</tr>`
+    )
+    .join('\n')
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>Quotation ${esc(q.number)}</title>
+<style>
+  @page { size: A4; margin: 14mm; }
+  body { font-family: system-ui, -apple-system, Segoe UI, Roboto, Arial; color: #111827; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .head { display: flex; justify-content: space-between; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 6px 4px; text-align: left; }
+  th { background: #f3f4f6; }
+  .n { text-align: right; }
+  .totals td { border: none; }
+  .muted { color: #6b7280; }
+  @media print { .noprint { display: none; } }
+</style>
+</head>
+<body>
+<div class="head">
+  <div>
+    <h1>${esc(company)}</h1>
+    <div class="muted">Quotation</div>
+  </div>
+  <div class="n">
+    <div><b>${esc(q.number)}</b></div>
+    <div>Date: ${esc(q.date)}</div>
+    <div>Valid until: ${esc(validUntil(q))} (${q.validDays} days)</div>
+  </div>
+</div>
+<p>To: <b>${esc(q.customerName || '-')}</b></p>
+<table>
+  <thead>
+    <tr><th>#</th><th>Item</th><th class="n">Qty</th><th class="n">Pcs</th><th class="n">Kg</th><th class="n">₹/kg</th><th class="n">₹/pc</th><th class="n">Amount ₹</th></tr>
+  </thead>
+  <tbody>
+${rows}
+  </tbody>
+</table>
+<table class="totals" style="margin-top: 10px; width: 40%; margin-left: auto;">
+  <tr><td>Total pcs</td><td class="n">${q.totals.pcs}</td></tr>
+  <tr><td>Total kg</td><td class="n">${q.totals.kg.toFixed(3)}</td></tr>
+  <tr><td>Taxable value</td><td class="n">${money(q.totals.taxable)}</td></tr>
+  <tr><td>GST</td><td class="n">${money(q.totals.gst)}</td></tr>
+  <tr><td><b>Grand total</b></td><td class="n"><b>₹${money(q.totals.grandTotal)}</b></td></tr>
+</table>
+${q.notes ? `<p class="muted" style="margin-top: 16px; white-space: pre-wrap;">${esc(q.notes)}</p>` : ''}
+<p class="noprint" style="margin-top: 24px;"><button onclick="window.print()">Print / Save as PDF</button></p>
+</body>
+</html>`
+}
@@ -0,0 +1,71 @@
+// reconcile.test.ts
+import { describe, expect, it } from 'vitest'
+import type { LocalRecord } from './local'
+import type { RemoteRow } from './db'
+import { reconcile } from './reconcile'
+import type { Ops } from './reconcile'
+
+type Doc = { name: string }
+
+// In-memory local store and remote table; `during` runs inside a push (the user saving)
+function harness() {
+  const local = new Map<string, LocalRecord<Doc>>()
+  const remote = new Map<string, RemoteRow<Doc>>()
+  let during: (() => void) | null = null
+  let clock = 0
+
+  const save = (id: string, data: Doc) => {
+    const prev = local.get(id)
+    local.set(id, { id, data, updatedAt: `local-${++clock}`, remoteUpdatedAt: prev?.remoteUpdatedAt ?? null, dirty: true, deleted: false, conflict: null })
+  }
+  const ops: Ops<Doc> = {
+    get: async id => local.get(id) ?? null,
+    put: async rec => void local.set(rec.id, rec),
+    remove: async id => void local.delete(id),
+    pushUpsert: async (data, stamp) => {
+      remote.set('a', { id: 'a', data, updated_at: stamp })
+      during?.()
+      during = null
+    },
+    pushDelete: async id => void remote.delete(id)
+  }
+  // One pass as runSync does it: both sides read first
+  const pass = () => reconcile('a', local.get('a') ?? null, remote.get('a') ?? null, ops)
+  return { local, remote, ops, save, pass, duringPush: (f: () => void) => (during = f) }
+}
+
+describe('reconcile', () => {
+  it('pushes a dirty record and marks it clean', async () => {
+    const h = harness()
+    h.save('a', { name: 'Pot' })
+    expect(await h.pass()).toBe(true)
+    expect(h.remote.get('a')?.data).toEqual({ name: 'Pot' })
+    expect(h.local.get('a')?.dirty).toBe(false)
+  })
+
+  it('keeps a save made during the push dirty and pushes it on the next pass', async () => {
+    const h = harness()
+    h.save('a', { name: 'Pot' })
+    h.duringPush(() => h.save('a', { name: 'Pot v2' }))
+
+    expect(await h.pass()).toBe(false)
+    expect(h.local.get('a')).toMatchObject({ data: { name: 'Pot v2' }, dirty: true, conflict: null })
+    expect(h.local.get('a')?.remoteUpdatedAt).toBe(h.remote.get('a')?.updated_at)
+
+    expect(await h.pass()).toBe(true)
+    expect(h.remote.get('a')?.data).toEqual({ name: 'Pot v2' })
+    expect(h.local.get('a')?.dirty).toBe(false)
+  })
+
+  it('does not overwrite a save made after the run read a clean record', async () => {
+    const h = harness()
+    h.save('a', { name: 'Pot' })
+    await h.pass()
+    const read = h.local.get('a') ?? null
+    h.remote.set('a', { id: 'a', data: { name: 'Theirs' }, updated_at: '2026-01-01T00:00:00.000Z' })
+    h.save('a', { name: 'Mine' })
+
+    expect(await reconcile('a', read, h.remote.get('a') ?? null, h.ops)).toBe(false)
+    expect(h.local.get('a')).toMatchObject({ data: { name: 'Mine' }, dirty: true })
+  })
+})
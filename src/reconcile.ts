@@ -0,0 +1,95 @@
+// reconcile.ts
+// One local record against its remote row (sync.ts runs it for every item and the settings).
+// The user can save while a sync is running, so every write first re-reads the record and
+// only replaces the version the run started from; a newer save stays dirty for another pass.
+import type { LocalRecord } from './local'
+import type { RemoteRow } from './db'
+
+export type Remote<T> = RemoteRow<T> | null
+
+export type Ops<T> = {
+  get: (id: string) => Promise<LocalRecord<T> | null>
+  put: (rec: LocalRecord<T>) => Promise<void>
+  remove: (id: string) => Promise<void>
+  pushUpsert: (data: T, stamp: string) => Promise<void>
+  pushDelete: (id: string) => Promise<void>
+}
+
+// Postgres returns "+00:00" and microseconds, we write "Z" and millis
+export function sameStamp(a: string | null, b: string | null): boolean {
+  if (!a || !b) return a === b
+  return Date.parse(a) === Date.parse(b)
+}
+
+function nowIso() {
+  return new Date().toISOString()
+}
+
+// Saved (or deleted) since the run read `read`?
+async function savedSince<T>(id: string, read: LocalRecord<T> | null, ops: Ops<T>): Promise<{ now: LocalRecord<T> | null; saved: boolean }> {
+  const now = await ops.get(id)
+  return { now, saved: (now?.updatedAt ?? null) !== (read?.updatedAt ?? null) }
+}
+
+// false => the record was saved during the run and needs another sync pass
+export async function reconcile<T>(id: string, local: LocalRecord<T> | null, remote: Remote<T>, ops: Ops<T>): Promise<boolean> {
+  const remoteStamp = remote?.updated_at ?? null
+
+  // New on the remote
+  if (!local) {
+    if (!remote) return true
+    if ((await savedSince(id, local, ops)).saved) return false
+    await ops.put({
+      id,
+      data: remote.data,
+      updatedAt: remote.updated_at,
+      remoteUpdatedAt: remote.updated_at,
+      dirty: false,
+      deleted: false,
+      conflict: null
+    })
+    return true
+  }
+
+  // Clean local => follow remote
+  if (!local.dirty) {
+    if (remote && sameStamp(local.remoteUpdatedAt, remoteStamp)) return true
+    if (!remote && !local.remoteUpdatedAt) return true
+    if ((await savedSince(id, local, ops)).saved) return false
+    if (!remote) await ops.remove(id)
+    else await ops.put({ ...local, data: remote.data, updatedAt: remote.updated_at, remoteUpdatedAt: remote.updated_at })
+    return true
+  }
+
+  // Dirty local, remote moved since our base => conflict (refresh the remote copy, keep waiting)
+  if (!sameStamp(local.remoteUpdatedAt, remoteStamp)) {
+    if ((await savedSince(id, local, ops)).saved) return false
+    if (local.deleted && !remote) await ops.remove(id)
+    else await ops.put({ ...local, conflict: { data: remote?.data ?? null, updatedAt: remoteStamp } })
+    return true
+  }
+
+  // Dirty local on top of the current remote => push. A save during the push is on top of
+  // what we pushed: it keeps its data, takes the new base and stays dirty.
+  if (local.deleted) {
+    if (remote) await ops.pushDelete(id)
+    const after = await savedSince(id, local, ops)
+    if (after.saved && after.now) {
+      await ops.put({ ...after.now, remoteUpdatedAt: null, dirty: true })
+      return false
+    }
+    await ops.remove(id)
+    return true
+  }
+
+  const stamp = nowIso()
+  await ops.pushUpsert(local.data, stamp)
+  const after = await savedSince(id, local, ops)
+  if (after.saved) {
+    // Deleted meanwhile (it was never pushed before, so it was dropped): delete what we pushed
+    await ops.put({ ...(after.now ?? { ...local, deleted: true }), remoteUpdatedAt: stamp, dirty: true, conflict: null })
+    return false
+  }
+  await ops.put({ ...local, remoteUpdatedAt: stamp, dirty: false, conflict: null })
+  return true
+}
@@ -0,0 +1,222 @@
+// schema.ts
+// Stored shapes are versioned: every Item, AppSettings and backup blob carries schemaVersion.
+// Bump a version (and add a step in migrate.ts) whenever its stored shape changes.
+import type { AppSettings, BackupBlob, Item } from './types'
+
+export const ITEM_SCHEMA_VERSION = 4
+export const SETTINGS_SCHEMA_VERSION = 6
+export const BACKUP_SCHEMA_VERSION = 1
+
+export type Blob = Record<string, unknown>
+
+export function isBlob(v: unknown): v is Blob {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+// ---------- SHAPE CHECKS ----------
+// Run after migration, so anything past this point can trust the types.
+// Only structure is checked here (types, required fields), not business ranges.
+type Check = { ok: (v: unknown) => boolean; want: string }
+
+const num: Check = { ok: v => typeof v === 'number' && isFinite(v), want: 'a number' }
+const str: Check = { ok: v => typeof v === 'string' && v !== '', want: 'a non-empty string' }
+const bool: Check = { ok: v => typeof v === 'boolean', want: 'true/false' }
+const list: Check = { ok: v => Array.isArray(v), want: 'a list' }
+const obj: Check = { ok: isBlob, want: 'an object' }
+const optNum: Check = { ok: v => v === undefined || num.ok(v), want: 'a number or empty' }
+const optStr: Check = { ok: v => v === undefined || typeof v === 'string', want: 'text or empty' }
+const component: Check = { ok: v => v === 'pressed' || v === 'purchased', want: 'pressed or purchased' }
+const purchaseBasis: Check = { ok: v => v === 'weight' || v === 'piece', want: 'weight or piece' }
+const blankSource: Check = { ok: v => v === 'sheet' || v === 'coil', want: 'sheet or coil' }
+const nesting: Check = { ok: v => v === 'square' || v === 'hex', want: 'square or hex' }
+const bagTarget: Check = { ok: v => v === 'kg' || v === 'pcs', want: 'kg or pcs' }
+const rounding: Check = { ok: v => v === 'none' || v === 'floor', want: 'none or floor' }
+const basis: Check = { ok: v => v === 'inputKg' || v === 'outputKg' || v === 'perPc', want: 'inputKg, outputKg or perPc' }
+
+function at(o: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((cur, k) => (isBlob(cur) || Array.isArray(cur) ? (cur as Blob)[k] : undefined), o)
+}
+
+function expectAll(what: string, o: unknown, rules: [string, Check][]) {
+  for (const [path, c] of rules) {
+    if (!c.ok(at(o, path))) throw new Error(`Invalid ${what}: ${path} should be ${c.want}`)
+  }
+}
+
+function checkPressed(what: string, raw: Blob, p: string) {
+  expectAll(what, raw, [
+    [`${p}.circleSizeIn`, num],
+    [`${p}.thicknessMm`, num],
+    [`${p}.circleMaterial`, optStr],
+    [`${p}.circleRatePerKg`, optNum],
+    [`${p}.grade`, optStr],
+    [`${p}.stages`, list]
+  ])
+  if (at(raw, `${p}.blanking`) !== undefined) {
+    const bp = `${p}.blanking`
+    expectAll(what, raw, [
+      [bp, obj],
+      [`${bp}.enabled`, bool],
+      [`${bp}.source`, blankSource],
+      [`${bp}.widthIn`, num],
+      [`${bp}.lengthIn`, num],
+      [`${bp}.layout`, nesting],
+      [`${bp}.gapIn`, num],
+      [`${bp}.ratePerKg`, num],
+      [`${bp}.offcut.enabled`, bool],
+      [`${bp}.offcut.ratePerKg`, optNum]
+    ])
+  }
+  ;(at(raw, `${p}.stages`) as unknown[]).forEach((_, i) => {
+    const sp = `${p}.stages.${i}`
+    expectAll(what, raw, [
+      [`${sp}.id`, str],
+      [`${sp}.name`, str],
+      [`${sp}.enabled`, bool],
+      [`${sp}.chargeBasis`, basis],
+      [`${sp}.rate`, num],
+      [`${sp}.actualWastagePct`, num],
+      [`${sp}.jobWastagePct`, num],
+      [`${sp}.tutPct`, num],
+      [`${sp}.scrapReturn.enabled`, bool],
+      [`${sp}.scrapReturn.ratePerKg`, optNum]
+    ])
+  })
+}
+
+function checkPurchased(what: string, raw: Blob, p: string) {
+  expectAll(what, raw, [
+    [`${p}.basis`, purchaseBasis],
+    [`${p}.weightG`, num],
+    [`${p}.grade`, optStr],
+    [`${p}.ratePerKg`, optNum],
+    [`${p}.ratePerPc`, optNum]
+  ])
+}
+
+export function checkItem(raw: Blob): Item {
+  const what = typeof raw.name === 'string' ? `item "${raw.name}"` : 'item'
+  expectAll(what, raw, [
+    ['schemaVersion', num],
+    ['id', str],
+    ['name', str],
+    ['components', list],
+    ['bagProfile.name', str],
+    ['bagProfile.polybag.sizeIn', num],
+    ['bagProfile.polybag.gauge', num],
+    ['bagProfile.polybag.ratePerKg', optNum],
+    ['bagProfile.pipe.widthIn', num],
+    ['bagProfile.pipe.lengthIn', num],
+    ['bagProfile.pipe.gauge', num],
+    ['bagProfile.pipe.pcsPerPipe', num],
+    ['bagProfile.pipe.ratePerKg', optNum],
+    ['packing.packingRatePerKg', num]
+  ])
+  ;(raw.components as unknown[]).forEach((_, i) => {
+    const p = `components.${i}`
+    expectAll(what, raw, [
+      [p, obj],
+      [`${p}.kind`, component],
+      [`${p}.id`, str],
+      [`${p}.name`, str]
+    ])
+    if (at(raw, `${p}.kind`) === 'pressed') checkPressed(what, raw, p)
+    else checkPurchased(what, raw, p)
+  })
+  if (raw.packaging !== undefined) {
+    expectAll(what, raw, [
+      ['packaging', obj],
+      ['packaging.target', bagTarget],
+      ['packaging.bagKg', optNum],
+      ['packaging.pcsPerBag', optNum],
+      ['packaging.rounding', rounding],
+      ['packaging.innerPcs', optNum],
+      ['packaging.innerCostPerPack', optNum],
+      ['packaging.bagCost', optNum]
+    ])
+  }
+  return raw as Item
+}
+
+export function checkSettings(raw: Blob): AppSettings {
+  expectAll('settings', raw, [
+    ['schemaVersion', num],
+    ['circleBaseRate', num],
+    ['circleAdders', list],
+    ['bagStandardKg', num],
+    ['pricing.overheadPct', num],
+    ['pricing.transportPerKg', num],
+    ['pricing.marginPct', num],
+    ['pricing.brokerPct', num],
+    ['pricing.gstPct', num],
+    ['materials.grades', list],
+    ['materials.circles', list],
+    ['materials.kunda', list],
+    ['materials.polythene', list],
+    ['materials.scrapRatePerKg', num],
+    ['catalog', list]
+  ])
+  ;(at(raw, 'materials.grades') as unknown[]).forEach((_, i) => {
+    expectAll('settings', raw, [
+      [`materials.grades.${i}.key`, str],
+      [`materials.grades.${i}.densityGcc`, num]
+    ])
+  })
+  ;(at(raw, 'materials.circles') as unknown[]).forEach((_, i) => expectAll('settings', raw, [[`materials.circles.${i}.grade`, optStr]]))
+  for (const table of ['circles', 'kunda', 'polythene']) {
+    ;(at(raw, `materials.${table}`) as unknown[]).forEach((_, i) => {
+      expectAll('settings', raw, [
+        [`materials.${table}.${i}.key`, str],
+        [`materials.${table}.${i}.ratePerKg`, num]
+      ])
+    })
+  }
+  ;(raw.circleAdders as unknown[]).forEach((_, i) => {
+    const p = `circleAdders.${i}`
+    expectAll('settings', raw, [
+      [`${p}.id`, str],
+      [`${p}.name`, str],
+      [`${p}.enabled`, bool],
+      [`${p}.addPerKg`, num],
+      [`${p}.part`, optStr],
+      [`${p}.thicknessMm`, optNum],
+      [`${p}.minCircleIn`, optNum],
+      [`${p}.maxCircleIn`, optNum],
+      [`${p}.supplier`, optStr]
+    ])
+  })
+  ;(raw.catalog as unknown[]).forEach((_, i) => {
+    const p = `catalog.${i}`
+    expectAll('settings', raw, [
+      [`${p}.key`, str],
+      [`${p}.name`, str],
+      [`${p}.sizes`, list],
+      [`${p}.bags`, list],
+      [`${p}.box.thicknessMm`, num],
+      [`${p}.box.stages`, list],
+      [`${p}.cover.thicknessMm`, num],
+      [`${p}.cover.stages`, list],
+      [`${p}.kunda.enabled`, bool],
+      [`${p}.kunda.weightG`, num],
+      [`${p}.packingRatePerKg`, num]
+    ])
+    ;(at(raw, `${p}.sizes`) as unknown[]).forEach((_, j) => {
+      const q = `${p}.sizes.${j}`
+      expectAll('settings', raw, [[`${q}.sizeIn`, num], [`${q}.boxCircleIn`, num], [`${q}.coverCircleIn`, num], [`${q}.polybagIn`, num], [`${q}.pipeWidthIn`, num]])
+    })
+    ;(at(raw, `${p}.bags`) as unknown[]).forEach((_, j) => {
+      const q = `${p}.bags.${j}`
+      expectAll('settings', raw, [[`${q}.gauge`, num], [`${q}.material`, optStr], [`${q}.pipeLengthIn`, num], [`${q}.pcsPerPipe`, num]])
+    })
+  })
+  return raw as AppSettings
+}
+
+export function checkBackup(raw: Blob): BackupBlob {
+  expectAll('backup', raw, [
+    ['schemaVersion', num],
+    ['items', list],
+    ['settings', obj]
+  ])
+  return raw as BackupBlob
+}
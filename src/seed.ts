@@ -1,183 +1,31 @@
 ﻿// seed.ts
 import type { Item, AppSettings } from './types'
-import { defaultSettings } from './db'
+import { defaultSettings } from './settings'
+import { itemFromFamily } from './catalog'
+import type { FamilyChoice } from './catalog'
+import { replaceComponent } from './components'
 
 export function makeId(prefix = 'it'): string {
   return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now()}`
 }
 
-export const HEAVY_BAG_225_135 = (poly: number, pipeW: number): Item['bagProfile'] => ({
-  name: 'heavy',
-  polybag: { sizeIn: poly, gauge: 225, ratePerKg: 135 },
-  pipe: { widthIn: pipeW, lengthIn: 25, gauge: 225, pcsPerPipe: 8, ratePerKg: 135 }
-})
-
-export const LIGHT_BAG_100_150 = (poly: number, pipeW: number): Item['bagProfile'] => ({
-  name: 'light',
-  polybag: { sizeIn: poly, gauge: 100, ratePerKg: 150 },
-  pipe: { widthIn: pipeW, lengthIn: 25, gauge: 100, pcsPerPipe: 8, ratePerKg: 150 }
-})
-
-// Belly/plain circle mappings you locked earlier:
-const bellyMap: Record<7 | 8 | 9 | 10, { box: number; cover: number; poly: number; pipe: number }> = {
-  7: { box: 7.0, cover: 5.5, poly: 8, pipe: 7 },
-  8: { box: 7.75, cover: 6.0, poly: 9, pipe: 8 },
-  9: { box: 8.5, cover: 6.5, poly: 10, pipe: 9 },
-  10: { box: 9.25, cover: 7.25, poly: 11, pipe: 10 }
-}
-
-const plainMap: Record<7 | 8 | 9 | 10, { box: number; cover: number; poly: number; pipe: number }> = {
-  7: { box: 6.75, cover: 5.5, poly: 8, pipe: 7 },
-  8: { box: 7.5, cover: 6.0, poly: 9, pipe: 8 },
-  9: { box: 8.25, cover: 6.5, poly: 10, pipe: 9 },
-  10: { box: 9.0, cover: 7.25, poly: 11, pipe: 10 }
-}
-
-// Default induction setup:
-const DEFAULT_INDUCTION = { enabled: false, ratePerKg: 10 }
-
-// NEW: default circle rates for seed (can be edited per item later)
-// If you want, change these 175 values as per your real box/cover circle prices.
-const DEFAULT_BOX_CIRCLE_RATE = 175
-const DEFAULT_COVER_CIRCLE_RATE = 175
-
-function bellyItem(size: 7 | 8 | 9 | 10, bag: 'heavy' | 'light'): Item {
-  const m = bellyMap[size]
-  return {
-    id: makeId(),
-    name: `Belly ${size}" (${bag})`,
-    box: {
-      label: 'box',
-      circleSizeIn: m.box,
-      thicknessMm: 0.26,
-      // NEW
-      circleRatePerKg: DEFAULT_BOX_CIRCLE_RATE,
-      press: { ratePerKg: 20, actualWastagePct: 4, jobWastagePct: 8, tutPct: 3, scrapReturn: { enabled: true, ratePerKg: 50 } },
-      induction: { ...DEFAULT_INDUCTION }
-    },
-    cover: {
-      label: 'cover',
-      circleSizeIn: m.cover,
-      thicknessMm: 0.26,
-      // NEW
-      circleRatePerKg: DEFAULT_COVER_CIRCLE_RATE,
-      press: { ratePerKg: 14, actualWastagePct: 0, jobWastagePct: 6, tutPct: 2, scrapReturn: { enabled: true, ratePerKg: 50 } },
-      induction: { ...DEFAULT_INDUCTION }
-    },
-    kunda: { enabled: false, weightG: 0, ratePerKg: 205 },
-    bagProfile: bag === 'heavy' ? HEAVY_BAG_225_135(m.poly, m.pipe) : LIGHT_BAG_100_150(m.poly, m.pipe),
-    polish: { ratePerKg: 72, wastagePct: 2, tutPct: 2, scrapReturn: { enabled: true, ratePerKg: 50 } },
-    packing: { packingRatePerKg: 10, tutPct: 2, scrapReturn: { enabled: true, ratePerKg: 50 } }
-  }
-}
+export const seedSettings: AppSettings = defaultSettings()
 
-function plainItem(size: 7 | 8 | 9 | 10, bag: 'heavy' | 'light'): Item {
-  const m = plainMap[size]
-  return {
-    id: makeId(),
-    name: `Plain ${size}" (${bag})`,
-    box: {
-      label: 'box',
-      circleSizeIn: m.box,
-      thicknessMm: 0.26,
-      // NEW
-      circleRatePerKg: DEFAULT_BOX_CIRCLE_RATE,
-      press: { ratePerKg: 16, actualWastagePct: 4, jobWastagePct: 8, tutPct: 3, scrapReturn: { enabled: true, ratePerKg: 50 } },
-      induction: { ...DEFAULT_INDUCTION }
-    },
-    cover: {
-      label: 'cover',
-      circleSizeIn: m.cover,
-      thicknessMm: 0.26,
-      // NEW
-      circleRatePerKg: DEFAULT_COVER_CIRCLE_RATE,
-      press: { ratePerKg: 14, actualWastagePct: 0, jobWastagePct: 6, tutPct: 2, scrapReturn: { enabled: true, ratePerKg: 50 } },
-      induction: { ...DEFAULT_INDUCTION }
-    },
-    kunda: { enabled: false, weightG: 0, ratePerKg: 205 },
-    bagProfile: bag === 'heavy' ? HEAVY_BAG_225_135(m.poly, m.pipe) : LIGHT_BAG_100_150(m.poly, m.pipe),
-    polish: { ratePerKg: 72, wastagePct: 2, tutPct: 2, scrapReturn: { enabled: true, ratePerKg: 50 } },
-    packing: { packingRatePerKg: 10, tutPct: 2, scrapReturn: { enabled: true, ratePerKg: 50 } }
-  }
+function fromFamily(key: string, c: FamilyChoice, patch: Partial<Item> = {}): Item {
+  const f = seedSettings.catalog.find(x => x.key === key)
+  if (!f) throw new Error(`Unknown family ${key}`)
+  return { ...itemFromFamily(f, c, seedSettings.materials, makeId()), ...patch }
 }
 
-// 11" items
-function item11(): Item {
-  return {
-    id: makeId(),
-    name: `11" Items (0.26, light bag, kunda 5g)`,
-    box: {
-      label: 'box',
-      circleSizeIn: 11,
-      thicknessMm: 0.26,
-      // NEW
-      circleRatePerKg: DEFAULT_BOX_CIRCLE_RATE,
-      press: { ratePerKg: 20, actualWastagePct: 4, jobWastagePct: 8, tutPct: 2, scrapReturn: { enabled: true, ratePerKg: 50 } },
-      induction: { ...DEFAULT_INDUCTION }
-    },
-    cover: {
-      label: 'cover',
-      circleSizeIn: 8.5,
-      thicknessMm: 0.26,
-      // NEW
-      circleRatePerKg: DEFAULT_COVER_CIRCLE_RATE,
-      press: { ratePerKg: 18, actualWastagePct: 3, jobWastagePct: 7, tutPct: 2, scrapReturn: { enabled: true, ratePerKg: 50 } },
-      induction: { ...DEFAULT_INDUCTION }
-    },
-    kunda: { enabled: true, weightG: 5, ratePerKg: 205 },
-    bagProfile: {
-      name: 'light',
-      polybag: { sizeIn: 12, gauge: 100, ratePerKg: 150 },
-      pipe: { widthIn: 12, lengthIn: 25, gauge: 100, pcsPerPipe: 6, ratePerKg: 150 }
-    },
-    polish: { ratePerKg: 72, wastagePct: 2, tutPct: 2, scrapReturn: { enabled: true, ratePerKg: 50 } },
-    packing: { packingRatePerKg: 15, tutPct: 2, scrapReturn: { enabled: true, ratePerKg: 50 } }
-  }
-}
+const bellyItem = (size: number, bag: 'heavy' | 'light') => fromFamily('belly', { sizeIn: size, bag })
+const plainItem = (size: number, bag: 'heavy' | 'light') => fromFamily('plain', { sizeIn: size, bag })
 
-// Chennai pot 9/10 (two variants)
-function chennaiPot(
-  name: string,
-  boxIn: number,
-  coverIn: number,
-  boxTh: number,
-  coverTh: number,
-  kundaG: number,
-  kundaRate: number,
-  bag: 'heavy' | 'light',
-  bagPoly: number,
-  bagPipe: number
-): Item {
-  return {
-    id: makeId(),
-    name,
-    box: {
-      label: 'box',
-      circleSizeIn: boxIn,
-      thicknessMm: boxTh,
-      // NEW
-      circleRatePerKg: DEFAULT_BOX_CIRCLE_RATE,
-      press: { ratePerKg: 20, actualWastagePct: 4, jobWastagePct: 8, tutPct: 3, scrapReturn: { enabled: true, ratePerKg: 50 } },
-      induction: { ...DEFAULT_INDUCTION }
-    },
-    cover: {
-      label: 'cover',
-      circleSizeIn: coverIn,
-      thicknessMm: coverTh,
-      // NEW
-      circleRatePerKg: DEFAULT_COVER_CIRCLE_RATE,
-      press: { ratePerKg: 18, actualWastagePct: 0, jobWastagePct: 0, tutPct: 2, scrapReturn: { enabled: true, ratePerKg: 50 } },
-      induction: { ...DEFAULT_INDUCTION }
-    },
-    kunda: { enabled: true, weightG: kundaG, ratePerKg: kundaRate },
-    bagProfile: bag === 'heavy' ? HEAVY_BAG_225_135(bagPoly, bagPipe) : LIGHT_BAG_100_150(bagPoly, bagPipe),
-    polish: { ratePerKg: 72, wastagePct: 2, tutPct: 2, scrapReturn: { enabled: true, ratePerKg: 50 } },
-    packing: { packingRatePerKg: 15, tutPct: 2, scrapReturn: { enabled: true, ratePerKg: 50 } }
-  }
+// Chennai pot 9/10: all 0.33 with 10g kunda B, or a 0.26 cover with 5g kunda A
+function chennaiPot(name: string, size: 9 | 10, coverTh: number, kundaG: number, kundaGrade: string, bag: 'heavy' | 'light'): Item {
+  const item = fromFamily('chennai-pot', { sizeIn: size, bag, coverThicknessMm: coverTh }, { name })
+  return replaceComponent(item, { kind: 'purchased', id: 'kunda', name: 'Kunda', basis: 'weight', weightG: kundaG, grade: kundaGrade })
 }
 
-export const seedSettings: AppSettings = defaultSettings()
-
 export const seedItems: Item[] = [
   bellyItem(7, 'heavy'), bellyItem(8, 'heavy'), bellyItem(9, 'heavy'), bellyItem(10, 'heavy'),
   bellyItem(7, 'light'), bellyItem(8, 'light'), bellyItem(9, 'light'), bellyItem(10, 'light'),
@@ -185,11 +33,11 @@ export const seedItems: Item[] = [
   plainItem(7, 'heavy'), plainItem(8, 'heavy'), plainItem(9, 'heavy'), plainItem(10, 'heavy'),
   plainItem(7, 'light'), plainItem(8, 'light'), plainItem(9, 'light'), plainItem(10, 'light'),
 
-  item11(),
+  fromFamily('eleven', { sizeIn: 11, bag: 'light' }, { name: `11" Items (0.26, light bag, kunda 5g)` }),
 
-  chennaiPot('Chennai Pot 9" (all 0.33, kunda10g, heavy)', 8.25, 5.75, 0.33, 0.33, 10, 185, 'heavy', 9, 8),
-  chennaiPot('Chennai Pot 10" (all 0.33, kunda10g, heavy)', 9.0, 6.25, 0.33, 0.33, 10, 185, 'heavy', 10, 9),
+  chennaiPot('Chennai Pot 9" (all 0.33, kunda10g, heavy)', 9, 0.33, 10, 'kunda-b', 'heavy'),
+  chennaiPot('Chennai Pot 10" (all 0.33, kunda10g, heavy)', 10, 0.33, 10, 'kunda-b', 'heavy'),
 
-  chennaiPot('Chennai Pot 9" (box0.33 cover0.26, kunda5g, light)', 8.25, 5.75, 0.33, 0.26, 5, 205, 'light', 9, 8),
-  chennaiPot('Chennai Pot 10" (box0.33 cover0.26, kunda5g, light)', 9.0, 6.25, 0.33, 0.26, 5, 205, 'light', 10, 9)
+  chennaiPot('Chennai Pot 9" (box0.33 cover0.26, kunda5g, light)', 9, 0.26, 5, 'kunda-a', 'light'),
+  chennaiPot('Chennai Pot 10" (box0.33 cover0.26, kunda5g, light)', 10, 0.26, 5, 'kunda-a', 'light')
 ]
\ No newline at end of file
@@ -0,0 +1,46 @@
+// sensitivity.test.ts
+import { describe, expect, it } from 'vitest'
+import type { AppSettings } from './types'
+import { calculate } from './calc'
+import { runSensitivity, sensitivityInputs } from './sensitivity'
+import { circleMaterialFor } from './materials'
+import { arrayKey } from './fields'
+import { pressedById } from './components'
+import { seedItems, seedSettings } from './seed'
+
+const item = seedItems[0]
+const box = pressedById(item, 'box')!
+const boxCircle = circleMaterialFor(box, seedSettings.materials)!
+
+// A master circle and kunda grade no seed item resolves to, and an adder for another part
+const settings: AppSettings = {
+  ...seedSettings,
+  materials: {
+    ...seedSettings.materials,
+    circles: [...seedSettings.materials.circles, { key: 'spare', name: 'Spare 0.5', thicknessMm: 0.5, ratePerKg: 190 }],
+    kunda: [...seedSettings.materials.kunda, { key: 'spare-kunda', name: 'Spare kunda', ratePerKg: 300 }]
+  },
+  circleAdders: [...seedSettings.circleAdders, { id: 'ring-only', name: 'Ring', enabled: true, addPerKg: 4, part: 'ring' }]
+}
+
+// Dotted keys (ss-0.26) are addressed by index in field paths
+const circlePath = `materials.circles.${arrayKey(boxCircle, settings.materials.circles.indexOf(boxCircle))}.ratePerKg`
+
+const paths = () => sensitivityInputs(item, settings).filter(i => i.target === 'settings').map(i => i.path)
+
+describe('sensitivityInputs', () => {
+  it('lists the master rows, adders and pricing the item resolves to', () => {
+    expect(paths()).toContain(circlePath)
+    expect(paths()).toContain('circleAdders.backend-add.addPerKg')
+    expect(paths()).toContain('pricing.marginPct')
+  })
+
+  it('leaves out master rows, adders and catalog entries the item never reads', () => {
+    expect(paths().filter(p => /spare|ring-only|^catalog\./.test(p))).toEqual([])
+  })
+
+  it('still ranks the master circle rate', () => {
+    const rows = runSensitivity(item, settings, calculate, { kind: 'relative', pct: 10 })
+    expect(rows.map(r => r.path)).toContain(circlePath)
+  })
+})
@@ -0,0 +1,161 @@
+// sensitivity.ts
+// Which inputs drive cost: nudge every numeric field of the item, and of the settings it
+// reads, down and up, re-run the cost, rank by how far perKgRate moves.
+// Works on copies only; the saved item is never touched.
+import type { AppSettings, CalcResult, Item, MaterialMaster, RateSummary } from './types'
+import type { CalcOutcome } from './calc'
+import { arrayKey, flatten, getPath, setPath } from './fields'
+import { adderMatches } from './adders'
+import { circleMaterialFor, kundaGradeFor, metalGradeFor, polytheneFor } from './materials'
+import { pressedComponents, purchasedComponents } from './components'
+
+export type InputTarget = 'item' | 'settings'
+
+export type SensitivityInput = {
+  target: InputTarget
+  path: string
+  value: number
+}
+
+// relative: ±pct % of the current value, absolute: ±delta in the field's own unit
+export type SensitivityStep = { kind: 'relative'; pct: number } | { kind: 'absolute'; delta: number }
+
+export type SensitivityRow = SensitivityInput & {
+  low: number
+  high: number
+  lowRate: RateSummary
+  highRate: RateSummary
+  swingPerKg: number            // highRate - lowRate
+  swingPerPc: number
+  perUnitPerKg: number          // ₹/kg change for +1 of the input
+  perUnitPerPc: number
+}
+
+// Same evaluation the Calculator uses (calculate, adders included)
+export type Evaluate = (item: Item, settings: AppSettings) => CalcOutcome
+
+export function inputKey(i: Pick<SensitivityInput, 'target' | 'path'>): string {
+  return `${i.target}:${i.path}`
+}
+
+function parseKey(key: string): Pick<SensitivityInput, 'target' | 'path'> {
+  const i = key.indexOf(':')
+  return { target: key.slice(0, i) === 'settings' ? 'settings' : 'item', path: key.slice(i + 1) }
+}
+
+// Settings paths the item reads (see materials.ts for the resolution order): the master rows
+// its parts, kunda and film resolve to, the fallbacks it falls through to, the adders that
+// match its parts and the pricing. The rest of the master and the catalog can't move its rate.
+function usedSettings(item: Item, settings: AppSettings): string[] {
+  const m = settings.materials
+  const used = ['pricing']
+  const row = <K extends 'grades' | 'circles' | 'kunda' | 'polythene'>(list: K, el: MaterialMaster[K][number] | undefined) => {
+    const i = (m[list] as unknown[]).indexOf(el)
+    if (i >= 0) used.push(`materials.${list}.${arrayKey(el, i)}`)
+  }
+
+  if (item.packaging?.bagKg === undefined) used.push('bagStandardKg')
+  let scrap = false
+  for (const p of pressedComponents(item)) {
+    const circle = circleMaterialFor(p, m)
+    row('circles', circle)
+    row('grades', metalGradeFor(p, m))
+    if (!circle && !(p.circleRatePerKg && p.circleRatePerKg > 0)) used.push('circleBaseRate')
+    for (const [i, r] of settings.circleAdders.entries()) {
+      if (adderMatches(r, p, m)) used.push(`circleAdders.${arrayKey(r, i)}`)
+    }
+    scrap ||= p.stages.some(s => s.enabled && s.scrapReturn.enabled && s.scrapReturn.ratePerKg === undefined)
+    scrap ||= !!p.blanking?.enabled && p.blanking.offcut.enabled && p.blanking.offcut.ratePerKg === undefined
+  }
+  for (const c of purchasedComponents(item)) {
+    if (c.basis === 'weight' && c.ratePerKg === undefined) row('kunda', kundaGradeFor(c, m))
+  }
+  for (const film of [item.bagProfile.polybag, item.bagProfile.pipe]) {
+    if (film.ratePerKg === undefined) row('polythene', polytheneFor(film, m))
+  }
+  if (scrap) used.push('materials.scrapRatePerKg')
+  return used
+}
+
+export function sensitivityInputs(item: Item, settings: AppSettings): SensitivityInput[] {
+  const out: SensitivityInput[] = []
+  const add = (target: InputTarget, obj: unknown, keep: (path: string) => boolean = () => true) => {
+    for (const [path, v] of Object.entries(flatten(obj))) {
+      if (typeof v === 'number' && isFinite(v) && keep(path)) out.push({ target, path, value: v })
+    }
+  }
+  const used = usedSettings(item, settings)
+  add('item', item)
+  add('settings', settings, path => used.some(u => path === u || path.startsWith(`${u}.`)))
+  return out
+}
+
+// What-if values keyed by inputKey()
+export type WhatIf = Record<string, number>
+
+export function applyWhatIf(item: Item, settings: AppSettings, w: WhatIf): { item: Item; settings: AppSettings } {
+  let it = item
+  let s = settings
+  for (const [key, value] of Object.entries(w)) {
+    const { target, path } = parseKey(key)
+    if (target === 'item') it = setPath(it, path, value)
+    else s = setPath(s, path, value)
+  }
+  return { item: it, settings: s }
+}
+
+function rate(r: CalcResult): RateSummary {
+  return { perKgRate: r.perKgRate, perPcRate: r.perPcRate }
+}
+
+function r4(n: number) { return Math.round(n * 10000) / 10000 }
+
+function bounds(v: number, step: SensitivityStep): [number, number] {
+  const d = step.kind === 'relative' ? Math.abs(v) * (step.pct / 100) : step.delta
+  // Inputs are physical quantities / rates: never below zero
+  return [r4(Math.max(0, v - d)), r4(v + d)]
+}
+
+function evalAt(item: Item, settings: AppSettings, input: SensitivityInput, value: number, evaluate: Evaluate): RateSummary | null {
+  const { item: it, settings: s } = applyWhatIf(item, settings, { [inputKey(input)]: value })
+  const out = evaluate(it, s)
+  return out.ok ? rate(out.result) : null
+}
+
+// Biggest ₹/kg swing first; inputs that don't move the rate (or make the item invalid) are dropped
+export function runSensitivity(item: Item, settings: AppSettings, evaluate: Evaluate, step: SensitivityStep): SensitivityRow[] {
+  const rows: SensitivityRow[] = []
+
+  for (const input of sensitivityInputs(item, settings)) {
+    const [low, high] = bounds(input.value, step)
+    if (low === high) continue
+
+    const lowRate = evalAt(item, settings, input, low, evaluate)
+    const highRate = evalAt(item, settings, input, high, evaluate)
+    if (!lowRate || !highRate) continue
+
+    const swingPerKg = r4(highRate.perKgRate - lowRate.perKgRate)
+    const swingPerPc = r4(highRate.perPcRate - lowRate.perPcRate)
+    if (swingPerKg === 0 && swingPerPc === 0) continue
+
+    rows.push({
+      ...input,
+      low,
+      high,
+      lowRate,
+      highRate,
+      swingPerKg,
+      swingPerPc,
+      perUnitPerKg: r4(swingPerKg / (high - low)),
+      perUnitPerPc: r4(swingPerPc / (high - low))
+    })
+  }
+
+  return rows.sort((a, b) => Math.abs(b.swingPerKg) - Math.abs(a.swingPerKg) || Math.abs(b.swingPerPc) - Math.abs(a.swingPerPc))
+}
+
+export function readInput(item: Item, settings: AppSettings, key: string): number | undefined {
+  const { target, path } = parseKey(key)
+  const v = getPath(target === 'item' ? item : settings, path)
+  return typeof v === 'number' ? v : undefined
+}
@@ -0,0 +1,20 @@
+// settings.ts
+// Default AppSettings (kept apart from db.ts so seeds and calc load without a Supabase client).
+import type { AppSettings } from './types'
+import { defaultPricing } from './pricing'
+import { defaultMaterials } from './materials'
+import { defaultCatalog } from './catalog'
+import { defaultCircleAdders } from './adders'
+import { SETTINGS_SCHEMA_VERSION } from './schema'
+
+export function defaultSettings(): AppSettings {
+  return {
+    schemaVersion: SETTINGS_SCHEMA_VERSION,
+    circleBaseRate: 175,
+    circleAdders: defaultCircleAdders(),
+    bagStandardKg: 80,
+    pricing: defaultPricing(),
+    materials: defaultMaterials(),
+    catalog: defaultCatalog()
+  }
+}
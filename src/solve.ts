@@ -0,0 +1,175 @@
+// solve.ts
+// Reverse costing: find the one input value that makes calculate() hit a target price.
+import type { AppSettings, CalcResult, Item, PressedComponent } from './types'
+import { calculate } from './calc'
+import type { CalcOutcome } from './calc'
+import { issueText } from './validate'
+import { resolvePartCircleRatePerKg } from './materials'
+import { pressedComponents } from './components'
+
+// A pressed component id, or 'all' (every pressed component gets the same value)
+export type SolvePart = string
+
+export type SolveVariable =
+  | { kind: 'circleRate'; part: SolvePart }
+  | { kind: 'circleSize'; part: SolvePart }
+  | { kind: 'stageRate'; part: SolvePart; stageId: string }
+  | { kind: 'stageTut'; part: SolvePart; stageId: string }
+
+export type SolveTarget = {
+  basis: 'perKg' | 'perPc'
+  value: number
+}
+
+export type SolveResult =
+  | { ok: true; value: number; item: Item; result: CalcResult }
+  | { ok: false; reason: string }
+
+// Search range per variable kind
+const BOUNDS: Record<SolveVariable['kind'], [number, number]> = {
+  circleRate: [0, 2000],
+  circleSize: [0.5, 40],
+  stageRate: [0, 2000],
+  stageTut: [0, 95]
+}
+
+export const ALL_PARTS = 'all'
+
+function inPart(p: SolvePart, part: PressedComponent): boolean {
+  return p === ALL_PARTS || p === part.id
+}
+
+// A part blanked in-house buys sheet, not circles: its circle rate is the sheet rate
+function readPart(part: PressedComponent, v: SolveVariable, settings: AppSettings): number {
+  switch (v.kind) {
+    case 'circleRate':
+      return part.blanking?.enabled ? part.blanking.ratePerKg : resolvePartCircleRatePerKg(part, settings)
+    case 'circleSize':
+      return part.circleSizeIn
+    case 'stageRate':
+      return part.stages.find(s => s.id === v.stageId)?.rate ?? 0
+    case 'stageTut':
+      return part.stages.find(s => s.id === v.stageId)?.tutPct ?? 0
+  }
+}
+
+function writePart(part: PressedComponent, v: SolveVariable, x: number): PressedComponent {
+  switch (v.kind) {
+    case 'circleRate':
+      return part.blanking?.enabled ? { ...part, blanking: { ...part.blanking, ratePerKg: x } } : { ...part, circleRatePerKg: x }
+    case 'circleSize':
+      return { ...part, circleSizeIn: x }
+    case 'stageRate':
+      return { ...part, stages: part.stages.map(s => (s.id === v.stageId ? { ...s, rate: x } : s)) }
+    case 'stageTut':
+      return { ...part, stages: part.stages.map(s => (s.id === v.stageId ? { ...s, tutPct: x } : s)) }
+  }
+}
+
+// 'all' reads the first pressed component that has the stage
+export function readVariable(item: Item, v: SolveVariable, settings: AppSettings): number {
+  const parts = pressedComponents(item).filter(p => inPart(v.part, p))
+  const part = 'stageId' in v ? (parts.find(p => p.stages.some(s => s.id === v.stageId)) ?? parts[0]) : parts[0]
+  return part ? readPart(part, v, settings) : 0
+}
+
+export function writeVariable(item: Item, v: SolveVariable, x: number): Item {
+  return { ...item, components: item.components.map(c => (c.kind === 'pressed' && inPart(v.part, c) ? writePart(c, v, x) : c)) }
+}
+
+// Invalid trial values (e.g. tut that leaves nothing) count as "no answer here"
+function metric(out: CalcOutcome, basis: SolveTarget['basis']): number {
+  if (!out.ok) return NaN
+  return basis === 'perKg' ? out.result.perKgRate : out.result.perPcRate
+}
+
+// Options for the Calculator "solve" mode, built from the item's own stage lists
+export function solveVariables(item: Item): { key: string; label: string; v: SolveVariable }[] {
+  const out: { key: string; label: string; v: SolveVariable }[] = []
+  const parts = pressedComponents(item)
+  const all = parts.length > 1 ? parts.map(p => p.name).join(' + ') : null
+
+  for (const p of parts) {
+    out.push({ key: `circleRate:${p.id}`, label: `${p.name} ${p.blanking?.enabled ? p.blanking.source : 'circle'} rate (₹/kg)`, v: { kind: 'circleRate', part: p.id } })
+  }
+  if (all) out.push({ key: `circleRate:${ALL_PARTS}`, label: `${all} circle rate (₹/kg)`, v: { kind: 'circleRate', part: ALL_PARTS } })
+  for (const p of parts) {
+    out.push({ key: `circleSize:${p.id}`, label: `${p.name} circle size (inch)`, v: { kind: 'circleSize', part: p.id } })
+  }
+
+  // Stages every pressed component has (same id) can be solved together
+  if (all) {
+    for (const s of parts[0].stages) {
+      if (!parts.every(p => p.stages.some(x => x.id === s.id))) continue
+      out.push({ key: `stageRate:${ALL_PARTS}:${s.id}`, label: `${all} ${s.name} rate`, v: { kind: 'stageRate', part: ALL_PARTS, stageId: s.id } })
+    }
+  }
+  for (const p of parts) {
+    for (const s of p.stages) {
+      out.push({ key: `stageRate:${p.id}:${s.id}`, label: `${p.name} ${s.name} rate`, v: { kind: 'stageRate', part: p.id, stageId: s.id } })
+      out.push({ key: `stageTut:${p.id}:${s.id}`, label: `${p.name} ${s.name} tut %`, v: { kind: 'stageTut', part: p.id, stageId: s.id } })
+    }
+  }
+  return out
+}
+
+// Grid scan for a sign change (closest to the current value), then bisection.
+// Works for any monotonic-ish input; reports when the target is out of reach.
+export function solveFor(item: Item, settings: AppSettings, v: SolveVariable, target: SolveTarget): SolveResult {
+  if (!isFinite(target.value) || target.value <= 0) return { ok: false, reason: 'Target price must be above 0' }
+  const current = calculate(item, settings)
+  if (!current.ok) return { ok: false, reason: issueText('Fix the item first', current.errors) }
+
+  const f = (x: number) => metric(calculate(writeVariable(item, v, x), settings), target.basis) - target.value
+  const [lo, hi] = BOUNDS[v.kind]
+  const x0 = readVariable(item, v, settings)
+
+  const STEPS = 80
+  const xs = Array.from({ length: STEPS + 1 }, (_, i) => lo + ((hi - lo) * i) / STEPS)
+  const ys = xs.map(f)
+
+  let bracket: [number, number] | null = null
+  let bestDist = Infinity
+  for (let i = 0; i < STEPS; i++) {
+    const a = ys[i]
+    const b = ys[i + 1]
+    if (!isFinite(a) || !isFinite(b)) continue
+    if (a === 0 || b === 0 || Math.sign(a) !== Math.sign(b)) {
+      const dist = Math.abs((xs[i] + xs[i + 1]) / 2 - x0)
+      if (dist < bestDist) {
+        bestDist = dist
+        bracket = [xs[i], xs[i + 1]]
+      }
+    }
+  }
+
+  if (!bracket) {
+    const finite = ys.filter(isFinite).map(y => y + target.value)
+    const min = Math.min(...finite)
+    const max = Math.max(...finite)
+    return { ok: false, reason: `Target not reachable with this input (range ₹${min.toFixed(2)} – ₹${max.toFixed(2)})` }
+  }
+
+  let [a, b] = bracket
+  let fa = f(a)
+  for (let i = 0; i < 60; i++) {
+    const m = (a + b) / 2
+    const fm = f(m)
+    if (fm === 0) {
+      a = b = m
+      break
+    }
+    if (Math.sign(fm) === Math.sign(fa)) {
+      a = m
+      fa = fm
+    } else {
+      b = m
+    }
+  }
+
+  const value = Math.round(((a + b) / 2) * 1000) / 1000
+  const solved = writeVariable(item, v, value)
+  const out = calculate(solved, settings)
+  if (!out.ok) return { ok: false, reason: issueText('Solution is not a valid item', out.errors) }
+  return { ok: true, value, item: solved, result: out.result }
+}
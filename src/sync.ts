@@ -0,0 +1,284 @@
+// sync.ts
+// Push/pull between the local IndexedDB store and Supabase `items` / `settings`
+// (price snapshots and the audit log ride along, append-only).
+//
+// RULES:
+// - Local edits are marked dirty and pushed on the next sync.
+// - A remote row whose updated_at differs from the version our edit was based on
+//   means someone else changed it => conflict (nothing is overwritten either way).
+// - Clean local records simply follow the remote.
+// - A save made while the run pushes stays dirty and the run goes again, a few passes at most (reconcile.ts).
+// - Viewers can't read items / settings: they pull the price list editors publish (publish.ts).
+import type { AppSettings, Item, OrgRole } from './types'
+import type { LocalRecord } from './local'
+import {
+  SETTINGS_KEY,
+  getItemRecord,
+  getItemRecords,
+  getLocalSettings,
+  getMeta,
+  getSettingsRecord,
+  getUnsyncedAudit,
+  getUnsyncedSnapshots,
+  hasAuditEntry,
+  hasSnapshot,
+  listLocalItems,
+  putAuditEntries,
+  putItemRecord,
+  putPriceList,
+  putSettingsRecord,
+  putSnapshots,
+  removeItemRecord,
+  setMeta
+} from './local'
+import {
+  deleteItem,
+  getPriceList,
+  getSettingsRow,
+  insertAuditEntries,
+  insertSnapshots,
+  listAuditEntries,
+  listItemRows,
+  listSnapshots,
+  setPriceList,
+  setSettings,
+  upsertItem
+} from './db'
+import { reconcile } from './reconcile'
+import type { Ops } from './reconcile'
+import { canEdit } from './orgs'
+import { fingerprint, priceList } from './publish'
+
+export type SyncState = 'synced' | 'pending' | 'conflicted' | 'syncing' | 'offline' | 'error'
+
+export type SyncStatus = {
+  state: SyncState
+  pending: number
+  conflicts: number
+  lastSyncAt: string | null
+  error?: string
+}
+
+export type SyncConflict = {
+  kind: 'item' | 'settings'
+  id: string
+  name: string
+}
+
+const LAST_SYNC_KEY = 'lastSyncAt'
+const SNAPSHOTS_PULLED_KEY = 'snapshotsPulledSeq'
+const AUDIT_PULLED_KEY = 'auditPulledSeq'
+const PRICE_LIST_KEY = 'priceListPublished'
+
+// A seq is handed out at insert but only visible at commit, so a lower one can appear after a
+// higher one was pulled: every pull re-reads this far below the watermark (duplicates are skipped)
+const SEQ_OVERLAP = 100
+
+function pullAfter(seen: string | null): number | null {
+  return seen == null ? null : Number(seen) - SEQ_OVERLAP
+}
+
+// The watermark only moves up (an overlap pull may return nothing new)
+async function advanceSeq(uid: string, key: string, seen: string | null, pulled: number | null) {
+  if (pulled != null && (seen == null || pulled > Number(seen))) await setMeta(uid, key, String(pulled))
+}
+
+function nowIso() {
+  return new Date().toISOString()
+}
+
+// ---------- STATUS ----------
+export async function readSyncStatus(uid: string): Promise<SyncStatus> {
+  const items = await getItemRecords(uid)
+  const settings = await getSettingsRecord(uid)
+  const recs: LocalRecord<unknown>[] = settings ? [...items, settings] : items
+
+  const conflicts = recs.filter(r => r.conflict).length
+  const pending = recs.filter(r => r.dirty && !r.conflict).length
+  const lastSyncAt = await getMeta(uid, LAST_SYNC_KEY)
+
+  const state: SyncState = conflicts > 0 ? 'conflicted' : pending > 0 ? 'pending' : 'synced'
+  return { state, pending, conflicts, lastSyncAt }
+}
+
+export async function listConflicts(uid: string): Promise<SyncConflict[]> {
+  const out: SyncConflict[] = []
+  const settings = await getSettingsRecord(uid)
+  if (settings?.conflict) out.push({ kind: 'settings', id: SETTINGS_KEY, name: 'Settings' })
+  for (const r of await getItemRecords(uid)) {
+    if (r.conflict) out.push({ kind: 'item', id: r.id, name: r.data.name })
+  }
+  return out
+}
+
+// ---------- SYNC ----------
+let inFlight: Promise<SyncStatus> | null = null
+
+export function syncNow(uid: string, role: OrgRole): Promise<SyncStatus> {
+  if (!inFlight) {
+    inFlight = (canEdit(role) ? runSync(uid) : runViewerSync(uid)).finally(() => {
+      inFlight = null
+    })
+  }
+  return inFlight
+}
+
+// A save that lands during every push can keep a record unsettled; stop after this many
+// passes and report it as still pending (the next sync picks it up)
+const MAX_PASSES = 3
+
+async function runSync(uid: string): Promise<SyncStatus> {
+  if (!navigator.onLine) return { ...(await readSyncStatus(uid)), state: 'offline' }
+
+  try {
+    // Saved mid-push: push that too before anyone waiting on this run hears "synced"
+    let pass = 1
+    while (!(await syncRecords(uid)) && pass < MAX_PASSES) pass++
+
+    await syncSnapshots(uid)
+    await syncAudit(uid)
+
+    await setMeta(uid, LAST_SYNC_KEY, nowIso())
+    const status = await readSyncStatus(uid)
+    if (status.state === 'synced') await publishPriceList(uid)
+    return status
+  } catch (e) {
+    const status = await readSyncStatus(uid)
+    return { ...status, state: 'error', error: (e as Error).message || 'Sync failed' }
+  }
+}
+
+// One pass over every item and the settings; false => something was saved during it
+async function syncRecords(uid: string): Promise<boolean> {
+  const itemOps: Ops<Item> = {
+    get: id => getItemRecord(uid, id),
+    put: rec => putItemRecord(uid, rec),
+    remove: id => removeItemRecord(uid, id),
+    pushUpsert: (data, stamp) => upsertItem(data, stamp),
+    pushDelete: id => deleteItem(id)
+  }
+
+  const remoteSettings = await getSettingsRow()
+  const remoteItems = await listItemRows(remoteSettings?.data ?? (await getLocalSettings(uid)))
+  const remoteById = new Map(remoteItems.map(r => [r.id, r]))
+  const localItems = await getItemRecords(uid)
+  const localById = new Map(localItems.map(r => [r.id, r]))
+
+  let settled = true
+  const ids = new Set([...remoteById.keys(), ...localById.keys()])
+  for (const id of ids) {
+    settled = (await reconcile(id, localById.get(id) ?? null, remoteById.get(id) ?? null, itemOps)) && settled
+  }
+
+  const settingsOps: Ops<AppSettings> = {
+    get: () => getSettingsRecord(uid),
+    put: rec => putSettingsRecord(uid, rec),
+    remove: async () => {},
+    pushUpsert: (data, stamp) => setSettings(data, stamp),
+    pushDelete: async () => {}
+  }
+  return (await reconcile(
+    SETTINGS_KEY,
+    await getSettingsRecord(uid),
+    remoteSettings ? { ...remoteSettings, id: SETTINGS_KEY } : null,
+    settingsOps
+  )) && settled
+}
+
+// Viewers follow the published price list; they have nothing to push
+async function runViewerSync(uid: string): Promise<SyncStatus> {
+  if (!navigator.onLine) return { ...(await readSyncStatus(uid)), state: 'offline' }
+
+  try {
+    const list = await getPriceList()
+    await putPriceList(uid, list, list?.updatedAt ?? nowIso())
+    await setMeta(uid, LAST_SYNC_KEY, nowIso())
+    return readSyncStatus(uid)
+  } catch (e) {
+    const status = await readSyncStatus(uid)
+    return { ...status, state: 'error', error: (e as Error).message || 'Sync failed' }
+  }
+}
+
+// Editors, once nothing is pending or conflicted: republish when the catalog prices differently
+async function publishPriceList(uid: string) {
+  const settings = await getLocalSettings(uid)
+  if (!settings) return
+  const list = priceList(await listLocalItems(uid), settings)
+  const print = fingerprint(list)
+  if ((await getMeta(uid, PRICE_LIST_KEY)) === print) return
+  await setPriceList(list)
+  await setMeta(uid, PRICE_LIST_KEY, print)
+}
+
+// Append-only: push ours, pull anything the server received since our last pull
+async function syncSnapshots(uid: string) {
+  const unsynced = await getUnsyncedSnapshots(uid)
+  if (unsynced.length) {
+    await insertSnapshots(unsynced)
+    await putSnapshots(uid, unsynced.map(s => ({ ...s, synced: true })))
+  }
+
+  const seen = await getMeta(uid, SNAPSHOTS_PULLED_KEY)
+  const remote = await listSnapshots(pullAfter(seen))
+  const fresh = []
+  for (const s of remote.rows) {
+    if (!(await hasSnapshot(uid, s.id))) fresh.push({ ...s, synced: true })
+  }
+  await putSnapshots(uid, fresh)
+  await advanceSeq(uid, SNAPSHOTS_PULLED_KEY, seen, remote.seq)
+}
+
+// Same for the audit log; other members' entries arrive here
+async function syncAudit(uid: string) {
+  const unsynced = await getUnsyncedAudit(uid)
+  if (unsynced.length) {
+    await insertAuditEntries(unsynced)
+    await putAuditEntries(uid, unsynced.map(e => ({ ...e, synced: true })))
+  }
+
+  const seen = await getMeta(uid, AUDIT_PULLED_KEY)
+  const remote = await listAuditEntries(pullAfter(seen))
+  const fresh = []
+  for (const e of remote.rows) {
+    if (!(await hasAuditEntry(uid, e.id))) fresh.push({ ...e, synced: true })
+  }
+  await putAuditEntries(uid, fresh)
+  await advanceSeq(uid, AUDIT_PULLED_KEY, seen, remote.seq)
+}
+
+// ---------- CONFLICTS ----------
+// keep 'local': our edit wins and is pushed on the next sync
+// keep 'remote': drop our edit and take the cloud version
+export async function resolveConflict(uid: string, c: SyncConflict, keep: 'local' | 'remote'): Promise<void> {
+  if (c.kind === 'settings') {
+    const rec = await getSettingsRecord(uid)
+    if (!rec?.conflict) return
+    await putSettingsRecord(uid, resolved(rec, keep))
+    return
+  }
+
+  const rec = (await getItemRecords(uid)).find(r => r.id === c.id)
+  if (!rec?.conflict) return
+  if (keep === 'remote' && !rec.conflict.data) {
+    await removeItemRecord(uid, rec.id)
+    return
+  }
+  await putItemRecord(uid, resolved(rec, keep))
+}
+
+function resolved<T>(rec: LocalRecord<T>, keep: 'local' | 'remote'): LocalRecord<T> {
+  const c = rec.conflict!
+  if (keep === 'local') {
+    return { ...rec, remoteUpdatedAt: c.updatedAt, dirty: true, conflict: null }
+  }
+  return {
+    ...rec,
+    data: c.data ?? rec.data,
+    updatedAt: c.updatedAt ?? rec.updatedAt,
+    remoteUpdatedAt: c.updatedAt,
+    dirty: false,
+    deleted: false,
+    conflict: null
+  }
+}
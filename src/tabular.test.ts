@@ -0,0 +1,84 @@
+// tabular.test.ts
+import { describe, expect, it } from 'vitest'
+import type { Item } from './types'
+import { importable, itemsToTable, parseCsv, planImport, toCsv } from './tabular'
+import { tableToXlsx, xlsxToRows } from './xlsx'
+import { seedItems, seedSettings } from './seed'
+import { setPath } from './fields'
+import { pressedComponents } from './components'
+
+const m = seedSettings.materials
+const base: Item = seedItems[0]
+
+function csvOf(items: Item[]): string[][] {
+  return parseCsv(toCsv(itemsToTable(items)))
+}
+
+function edit(rows: string[][], line: number, column: string, value: string): string[][] {
+  const i = rows[0].indexOf(column)
+  return rows.map((r, j) => (j === line - 1 ? r.map((c, k) => (k === i ? value : c)) : r))
+}
+
+describe('csv', () => {
+  it('quotes commas, quotes and newlines and reads them back', () => {
+    const rows = parseCsv(toCsv({ columns: ['a', 'b'], rows: [['x, "y"', 'two\nlines'], [1.5, null]] }))
+    expect(rows).toEqual([['a', 'b'], ['x, "y"', 'two\nlines'], ['1.5', '']])
+  })
+})
+
+describe('planImport', () => {
+  it('round-trips the catalog unchanged', () => {
+    const p = planImport(csvOf(seedItems), seedItems, seedItems, m)
+    expect(p.unknownColumns).toEqual([])
+    expect(p.rows.map(r => r.kind)).toEqual(seedItems.map(() => 'unchanged'))
+  })
+
+  it('updates by id and shows the changed fields', () => {
+    const stage = pressedComponents(base)[0].stages[0].id
+    const rows = edit(csvOf([base]), 2, `components.box.stages.${stage}.tutPct`, '9')
+    const p = planImport(rows, [base], seedItems, m)
+    expect(p.rows[0].kind).toBe('update')
+    expect(p.rows[0].changes).toEqual([{ path: `components.box.stages.${stage}.tutPct`, from: pressedComponents(base)[0].stages[0].tutPct, to: 9 }])
+    expect(importable(p)[0]).toEqual(setPath(base, `components.box.stages.${stage}.tutPct`, 9))
+  })
+
+  it('creates rows with a blank id and flags bad cells without writing them', () => {
+    let rows = edit(csvOf([base]), 2, 'id', '')
+    rows = [...rows, ...edit(rows, 2, 'components.box.circleSizeIn', 'big').slice(1)]
+    rows = edit(rows, 2, 'name', 'Imported')
+    const p = planImport(rows, [base], seedItems, m)
+
+    expect(p.rows[0].kind).toBe('create')
+    expect(p.rows[0].item?.id).not.toBe(base.id)
+    expect(p.rows[0].item?.name).toBe('Imported')
+    expect(p.rows[1].kind).toBe('error')
+    expect(p.rows[1].errors[0]).toMatch(/components.box.circleSizeIn/)
+    expect(importable(p)).toHaveLength(1)
+  })
+
+  it('flags a blanked required cell on its own row and plans the rest', () => {
+    const good = csvOf(seedItems.slice(0, 3))
+    const rows = edit(good, 3, 'components.box.circleSizeIn', '')
+    const p = planImport(rows, seedItems, seedItems, m)
+    expect(p.rows.map(r => r.kind)).toEqual(['unchanged', 'error', 'unchanged'])
+    expect(p.rows[1].errors[0]).toMatch(/components.0.circleSizeIn/)
+  })
+
+  it('rejects rows that fail validation and duplicate ids', () => {
+    const bad = edit(csvOf([base]), 2, 'components.box.thicknessMm', '-1')
+    expect(planImport(bad, [base], seedItems, m).rows[0].kind).toBe('error')
+
+    const rows = csvOf([base])
+    const p = planImport([...rows, rows[1]], [base], seedItems, m)
+    expect(p.rows[1].errors[0]).toMatch(/twice/)
+  })
+})
+
+describe('xlsx', () => {
+  it('writes and reads back the same table', async () => {
+    const table = itemsToTable([base])
+    const file = await tableToXlsx(table)
+    const rows = await xlsxToRows(await file.arrayBuffer())
+    expect(planImport(rows, [base], seedItems, m).rows[0].kind).toBe('unchanged')
+  })
+})
@@ -0,0 +1,233 @@
+// tabular.ts
+// Flat item catalog for spreadsheets: one row per item, one column per Item field
+// (fields.ts paths, e.g. components.box.stages.press.tutPct). CSV here; XLSX in xlsx.ts.
+// Import maps columns back onto items and validates every row before anything is written.
+import type { Item, MaterialMaster } from './types'
+import type { FieldChange, FieldValue } from './fields'
+import { diffFields, flatten, getPath, setPath } from './fields'
+import { migrateItem } from './migrate'
+import { ITEM_SCHEMA_VERSION } from './schema'
+import { validateItem } from './validate'
+import type { ValidationReport } from './validate'
+import { makeId } from './seed'
+
+export type Cell = string | number | boolean | null
+
+export type Table = {
+  columns: string[]
+  rows: Cell[][]
+}
+
+const FIRST = ['id', 'name']
+
+// Columns in first-seen order across all items (stages only some items have get their own)
+export function itemsToTable(items: Item[]): Table {
+  const flat = items.map(it => flatten(it))
+  const seen = new Set<string>(FIRST)
+  const columns = [...FIRST]
+  for (const f of flat) {
+    for (const path of Object.keys(f)) {
+      if (!seen.has(path)) {
+        seen.add(path)
+        columns.push(path)
+      }
+    }
+  }
+  return { columns, rows: flat.map(f => columns.map(c => f[c] ?? null)) }
+}
+
+// ---------- CSV ----------
+function csvCell(v: Cell): string {
+  const s = v === null ? '' : String(v)
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+// BOM + CRLF so Excel opens it as UTF-8
+export function toCsv(t: Table): string {
+  return '\uFEFF' + [t.columns, ...t.rows].map(r => r.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+// RFC 4180: quoted fields may hold commas, quotes ("") and newlines
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, '')
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') quoted = false
+      else cell += ch
+    } else if (ch === '"') quoted = true
+    else if (ch === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else cell += ch
+  }
+  if (cell !== '' || row.length) rows.push([...row, cell])
+  // Blank lines (e.g. trailing ones Excel adds) are not items
+  return rows.filter(r => r.some(c => c.trim() !== ''))
+}
+
+// ---------- IMPORT ----------
+export type ImportRow = {
+  line: number                  // spreadsheet row number (header = 1)
+  kind: 'create' | 'update' | 'unchanged' | 'error'
+  name: string
+  item: Item | null             // null => error
+  changes: FieldChange[]        // vs the stored item (updates)
+  errors: string[]
+  warnings: string[]
+  template?: string             // creates: the item whose shape (stages) was used
+}
+
+export type ImportPreview = {
+  rows: ImportRow[]
+  unknownColumns: string[]      // not an Item field, ignored
+}
+
+function parseCell(raw: string, like: unknown): FieldValue | undefined {
+  const s = raw.trim()
+  if (s === '') return undefined
+  if (typeof like === 'boolean') {
+    if (/^(true|yes|1)$/i.test(s)) return true
+    if (/^(false|no|0)$/i.test(s)) return false
+    throw new Error(`"${raw}" is not yes / no`)
+  }
+  const n = Number(s)
+  if (typeof like === 'number') {
+    if (!isFinite(n)) throw new Error(`"${raw}" is not a number`)
+    return n
+  }
+  // Blank in the template too (optional overrides): numbers stay numbers
+  return typeof like === 'string' || !isFinite(n) ? s : n
+}
+
+// Where a value can go: an existing field, or an optional one on an existing object
+function placeable(base: unknown, path: string): boolean {
+  if (getPath(base, path) !== undefined) return true
+  const i = path.lastIndexOf('.')
+  const parent = i < 0 ? base : getPath(base, path.slice(0, i))
+  return parent !== null && typeof parent === 'object' && !Array.isArray(parent)
+}
+
+// Component and stage ids are the column keys themselves (components.box.stages.press.id),
+// and a component's kind decides its fields: neither is something to edit
+function structural(path: string): boolean {
+  return /\.stages\.[^.]+\.id$/.test(path) || /^components\.[^.]+\.(id|kind)$/.test(path)
+}
+
+function hasCells(o: unknown, keys: string[]): boolean {
+  return Object.keys(flatten(o)).some(k => !keys.includes(k))
+}
+
+// Components and stages whose every cell was blank are dropped (a create shaped like an
+// item with more of them)
+function pruneEmpty(it: Item): Item {
+  const components = it.components
+    .map(c => (c.kind === 'pressed' ? { ...c, stages: c.stages.filter(s => hasCells(s, ['id'])) } : c))
+    .filter(c => hasCells(c, ['id', 'kind']))
+  return { ...it, components }
+}
+
+// Existing item covering most of the row's filled fields
+function templateFor(filled: string[], candidates: Item[]): Item | null {
+  let best: Item | null = null
+  let bestScore = -1
+  for (const c of candidates) {
+    const score = filled.filter(p => placeable(c, p)).length
+    if (score > bestScore) {
+      best = c
+      bestScore = score
+    }
+  }
+  return best
+}
+
+// templates: items to borrow a shape from when a row is new (the catalog, then the seed items)
+export function planImport(table: string[][], existing: Item[], templates: Item[], m: MaterialMaster): ImportPreview {
+  const [header = [], ...body] = table
+  const columns = header.map(h => h.trim())
+  const probe = [...existing, ...templates]
+  const known = (c: string) => FIRST.includes(c) || probe.some(it => placeable(it, c))
+  const unknownColumns = columns.filter(c => c && !known(c))
+  const used = columns.map((c, i) => ({ c, i })).filter(x => x.c && !unknownColumns.includes(x.c) && x.c !== 'id' && !structural(x.c))
+
+  const byId = new Map(existing.map(it => [it.id, it]))
+  const seenIds = new Set<string>()
+
+  const rows = body.map((cells, r): ImportRow => {
+    const line = r + 2
+    const cell = (i: number) => cells[i] ?? ''
+    const idAt = columns.indexOf('id')
+    const id = idAt >= 0 ? cell(idAt).trim() : ''
+    const name = cell(columns.indexOf('name')).trim()
+    const fail = (errors: string[]): ImportRow => ({ line, kind: 'error', name, item: null, changes: [], errors, warnings: [] })
+
+    if (id && seenIds.has(id)) return fail([`id ${id} appears twice in the file`])
+    if (id) seenIds.add(id)
+
+    const stored = id ? byId.get(id) : undefined
+    const filled = used.filter(x => cell(x.i).trim() !== '').map(x => x.c)
+    const base = stored ?? templateFor(filled, probe)
+    if (!base) return fail(['No existing item to take the stage layout from'])
+
+    const errors: string[] = []
+    let it: Item = { ...base, id: stored ? stored.id : id || makeId(), schemaVersion: ITEM_SCHEMA_VERSION }
+    for (const { c, i } of used) {
+      const raw = cell(i)
+      if (raw.trim() !== '' && !placeable(it, c)) {
+        errors.push(`${c}: ${stored ? 'this item has no such field (add the component or stage in the editor first)' : 'no such field'}`)
+        continue
+      }
+      try {
+        it = setPath(it, c, parseCell(raw, getPath(base, c)))
+      } catch (e) {
+        errors.push(`${c}: ${(e as Error).message}`)
+      }
+    }
+    if (errors.length) return fail(errors)
+
+    // Round trip through JSON drops the blanked (undefined) fields, then the usual upgrade.
+    // A blanked required cell fails the shape check: that row is flagged, not the file.
+    let item: Item
+    let report: ValidationReport
+    try {
+      item = migrateItem(JSON.parse(JSON.stringify(pruneEmpty(it))))
+      report = validateItem(item, m)
+    } catch (e) {
+      return fail([(e as Error).message])
+    }
+    if (report.errors.length) return fail(report.errors.map(e => e.message))
+
+    const changes = stored ? diffFields(stored, item) : []
+    return {
+      line,
+      kind: !stored ? 'create' : changes.length ? 'update' : 'unchanged',
+      name: item.name,
+      item,
+      changes,
+      errors: [],
+      warnings: report.warnings.map(w => w.message),
+      ...(!stored ? { template: base.name } : {})
+    }
+  })
+
+  return { rows, unknownColumns }
+}
+
+// What Apply writes
+export function importable(p: ImportPreview): Item[] {
+  return p.rows.filter(r => r.item && (r.kind === 'create' || r.kind === 'update')).map(r => r.item as Item)
+}
@@ -1,86 +1,233 @@
 ﻿// types.ts
+import type { FieldChange } from './fields';
 
 export type ThicknessMm = number;
 
-export type ScrapReturn = { enabled: boolean; ratePerKg: number }; // e.g. 50
+// ratePerKg missing => material master scrap rate
+export type ScrapReturn = { enabled: boolean; ratePerKg?: number }; // e.g. 50
 
-// Press stage has both:
+// How a stage's job charge is computed:
+// - inputKg:  on kg issued to the job worker
+// - outputKg: on kg delivered back (after tut & job wastage)
+// - perPc:    per finished piece
+export type ChargeBasis = 'inputKg' | 'outputKg' | 'perPc';
+
+// One step of the process pipeline (press, induction, polish, annealing, ...).
+// Same split as the original press stage:
 // - actualWastagePct: impacts grams per piece (material actually lost)
-// - jobWastagePct: kept by job worker (not returned), impacts yield/costing
+// - jobWastagePct: lost / kept by job worker (not returned), impacts yield/costing
 // - tutPct: breakage, you get scrap return
-export type PressStage = {
-  ratePerKg: number;            // charged on kala output received
+export type ProcessStage = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  chargeBasis: ChargeBasis;
+  rate: number;                 // ₹ per kg or per pc, by chargeBasis
   actualWastagePct: number;     // for grams/weight
-  jobWastagePct: number;        // for costing (job worker keeps)
+  jobWastagePct: number;        // for costing (not returned)
   tutPct: number;               // for costing (scrap)
   scrapReturn: ScrapReturn;
 };
 
-export type InductionStage = {
-  enabled: boolean;
-  ratePerKg: number;            // charged on kala kg (delivered after press)
+// Final packing charge, applied ONCE on the full bag (metal + purchased parts + plastic).
+// Packing sorting tut lives in each pressed component's stage list.
+export type PackingStage = {
+  packingRatePerKg: number;
 };
 
-export type PolishStage = {
-  ratePerKg: number;           // charged on polished output received
-  wastagePct: number;          // lost (no return)
-  tutPct: number;              // scrap (return)
-  scrapReturn: ScrapReturn;
-};
-
-export type PackingStage = {
-  packingRatePerKg: number;    // charged on packed output (final)
-  tutPct: number;              // sorting tut (scrap return)
-  scrapReturn: ScrapReturn;
+// How whole pieces make up this item's bag. Missing => settings.bagStandardKg filled with
+// fractional pcs. Costs are per the actual bag (kg after rounding), not the target.
+export type Packaging = {
+  target: 'kg' | 'pcs';
+  bagKg?: number;               // target 'kg' (missing => settings.bagStandardKg)
+  pcsPerBag?: number;           // target 'pcs'
+  rounding: 'none' | 'floor';   // floor: whole pieces, and whole inner packs when set
+  innerPcs?: number;            // pieces per inner pack / carton (missing => loose in the bag)
+  innerCostPerPack?: number;    // ₹ carton material per inner pack
+  bagCost?: number;             // ₹ master bag / carton material per bag
 };
 
+// Plastic film rate: `material` is a polythene key in the master (else matched by gauge),
+// ratePerKg on the item overrides the master.
 export type BagProfile = {
   name: 'heavy' | 'light' | 'custom';
-  polybag: { sizeIn: number; gauge: number; ratePerKg: number };
-  pipe: { widthIn: number; lengthIn: number; gauge: number; pcsPerPipe: number; ratePerKg: number };
+  polybag: { sizeIn: number; gauge: number; material?: string; ratePerKg?: number };
+  pipe: { widthIn: number; lengthIn: number; gauge: number; pcsPerPipe: number; material?: string; ratePerKg?: number };
 };
 
+// Family default for the kunda component of new items (see catalog.ts)
 export type KundaSpec = {
   enabled: boolean;
   weightG: number;          // 5 or 10
-  ratePerKg: number;        // per kg
+  grade?: string;           // kunda grade key in the master
+  ratePerKg?: number;       // per kg, overrides the grade rate
 };
 
-export type PartSpec = {
-  label: 'box' | 'cover';
+// One piece of the finished product. `id` is the key in field paths
+// (components.box.stages.press.tutPct); items from before components use box / cover / kunda.
+export type PressedComponent = {
+  kind: 'pressed';
+  id: string;
+  name: string;                 // Box, Cover, Inner plate, Ring, ...
 
   // Circle dimensions (for weight)
   circleSizeIn: number;
   thicknessMm: ThicknessMm;
 
-  // NEW: circle material rate PER KG for this part (box/cover).
-  // Optional for backward compatibility with old saved items.
-  // If missing, calc.ts can fallback to settings (170+5 etc).
+  // Circle key in the material master (missing => matched by thickness within the grade).
+  circleMaterial?: string;
+
+  // Metal grade key (missing => the circle's grade, else the default steel grade)
+  grade?: string;
+
+  // Per-item override of the master circle rate PER KG for this component.
+  // If missing, the master rate is used (then the settings fallback).
   circleRatePerKg?: number;
 
-  press: PressStage;
-  induction?: InductionStage;   // optional for backward compatibility
+  // Cut our own circles from sheet / coil instead of buying them cut (replaces the circle rate)
+  blanking?: BlankingSpec;
+
+  // Ordered process, circle in => packed out
+  stages: ProcessStage[];
 };
 
+// square: circles on a grid; hex: alternate rows shifted half a pitch and nested closer
+export type NestingLayout = 'square' | 'hex';
+
+export type BlankingSpec = {
+  enabled: boolean;
+  source: 'sheet' | 'coil';
+  widthIn: number;              // sheet / coil strip width
+  lengthIn: number;             // sheet length (coil: unused, runs per metre of strip)
+  layout: NestingLayout;
+  gapIn: number;                // web between circles and to the edges
+  ratePerKg: number;            // sheet / coil ₹/kg
+  offcut: ScrapReturn;          // corner offcuts back as scrap (master scrap rate unless overridden)
+};
+
+// Bought ready-made (kunda, handles). Its weight is packed with the item either way.
+// weight: kg × rate (item ratePerKg, else the kunda grade in the master); piece: pcs × ratePerPc
+export type PurchasedComponent = {
+  kind: 'purchased';
+  id: string;
+  name: string;
+  basis: 'weight' | 'piece';
+  weightG: number;              // per pc
+  grade?: string;               // kunda grade key in the master (weight basis)
+  ratePerKg?: number;
+  ratePerPc?: number;
+};
+
+export type ItemComponent = PressedComponent | PurchasedComponent;
+
 export type Item = {
+  schemaVersion: number;        // see schema.ts, upgraded on load by migrate.ts
   id: string;
   name: string;
-  box: PartSpec;
-  cover: PartSpec;
-  kunda: KundaSpec;
+  components: ItemComponent[];  // packing order; at least one
   bagProfile: BagProfile;
-  polish: PolishStage;
   packing: PackingStage;
+  packaging?: Packaging;
+
+  // Per-item pricing overrides (missing field => settings.pricing)
+  pricing?: Partial<PricingSettings>;
+};
+
+// Selling price on top of manufacturing cost:
+// cost + overhead% + transport => + margin% => gross up for broker% => taxable => + GST%
+export type PricingSettings = {
+  overheadPct: number;          // % of manufacturing cost
+  transportPerKg: number;       // ₹/kg freight
+  marginPct: number;            // profit % on (cost + overhead + transport)
+  brokerPct: number;            // commission % of taxable value
+  gstPct: number;               // e.g. 12
 };
 
 export type AppSettings = {
-  // Keep these for backward compatibility / fallback defaults.
-  // Later we can hide these from UI if you want item-level only.
-  circleBaseRate: number;       // e.g. 170
-  circleAddPerKg: number;       // +5 always
-  circleExtraAddPerKg: number;  // optional +5 for 0.33 etc (default 0)
+  schemaVersion: number;
+
+  // Circle rate when neither the item nor the master has one (e.g. 175)
+  circleBaseRate: number;
+
+  // Added on top of the resolved circle rate inside calculate(), see adders.ts
+  circleAdders: CircleAdderRule[];
 
   bagStandardKg: number;        // 80
+
+  // Filled in by migrate.ts for settings saved before they existed.
+  pricing: PricingSettings;
+  materials: MaterialMaster;
+  catalog: ProductFamily[];
+};
+
+// ---------- MATERIAL MASTER ----------
+// One price list for every item. Items point at an entry by key;
+// a rate stored on the item overrides the master for that item only.
+// Circle `grade` is a metal grade key (missing => the default steel grade)
+export type CircleMaterial = { key: string; name: string; thicknessMm: number; ratePerKg: number; supplier?: string; grade?: string };
+export type KundaGrade = { key: string; name: string; ratePerKg: number };
+export type PolytheneGrade = { key: string; name: string; gauge: number; ratePerKg: number };
+// Metal of a pressed part; circle grams scale with density (see calc.ts weight formulas)
+export type MetalGrade = { key: string; name: string; densityGcc: number };
+
+export type MaterialMaster = {
+  grades: MetalGrade[];         // SS 202, SS 304, aluminium, brass, ...
+  circles: CircleMaterial[];    // circle stock by thickness (and grade)
+  kunda: KundaGrade[];
+  polythene: PolytheneGrade[];  // polybag + pipe film by gauge
+  scrapRatePerKg: number;       // tut scrap return
+};
+
+// ---------- CIRCLE RATE ADDERS ----------
+// ₹/kg added to a part's circle rate when every condition that is set matches
+// (missing condition => any). Rules stack: all matching enabled rules apply.
+export type CircleAdderRule = {
+  id: string;
+  name: string;                 // listed in the cost breakdown
+  enabled: boolean;
+  addPerKg: number;
+  part?: string;                // component id or name (box, cover, ring, ...)
+  thicknessMm?: number;
+  minCircleIn?: number;         // inclusive
+  maxCircleIn?: number;         // inclusive
+  supplier?: string;            // supplier of the part's master circle
+};
+
+export type AppliedAdder = { ruleId: string; name: string; addPerKg: number };
+
+// ---------- PRODUCT CATALOG ----------
+// Families (Belly, Plain, Chennai Pot, ...) with their size tables, default process and
+// bag choices. "New item from family" builds a full Item from family + size + thickness + bag.
+export type FamilySize = {
+  sizeIn: number;               // nominal size, e.g. 8"
+  boxCircleIn: number;
+  coverCircleIn: number;
+  polybagIn: number;
+  pipeWidthIn: number;
+};
+
+export type BagChoice = {
+  name: 'heavy' | 'light';
+  gauge: number;
+  material?: string;            // polythene key in the master
+  pipeLengthIn: number;
+  pcsPerPipe: number;
+};
+
+export type PartTemplate = {
+  thicknessMm: number;
+  stages: ProcessStage[];
+};
+
+export type ProductFamily = {
+  key: string;
+  name: string;
+  sizes: FamilySize[];
+  box: PartTemplate;
+  cover: PartTemplate;
+  kunda: KundaSpec;
+  bags: BagChoice[];
+  packingRatePerKg: number;
 };
 
 export type CalcResult = {
@@ -88,9 +235,7 @@ export type CalcResult = {
   itemName: string;
 
   perPc: {
-    boxG: number;
-    coverG: number;
-    kundaG: number;
+    components: ComponentWeight[];
     polybagG: number;
     pipeG: number;
     totalPackedG: number;
@@ -106,13 +251,320 @@ export type CalcResult = {
     pcs: number;
     circleKgInTotal: number;
     circleCost: number;
-    pressCost: number;
-    inductionCost: number;
-    polishCost: number;
+    stageCharges: Record<string, number>;   // job charges by stage name (all pressed components)
     packingCost: number;
-    kundaCost: number;
+    cartonCost: number;         // inner packs + master bag material
+    purchasedCost: number;
     plasticCost: number;
     scrapCredit: number;
     finalCost: number;
   };
-};
\ No newline at end of file
+
+  breakdown: CostBreakdown;
+};
+
+export type ComponentWeight = { id: string; name: string; g: number };
+
+// Full cost build-up of one standard bag (calc.ts). ₹ per bag, kg per bag.
+export type StageCost = {
+  stageId: string;
+  name: string;
+  chargeBasis: ChargeBasis;
+  rate: number;
+  kgIn: number;
+  kgOut: number;
+  tutKg: number;                // broken, returned as scrap
+  keptKg: number;               // job wastage, kept by the job worker
+  charge: number;
+  scrapCredit: number;
+};
+
+export type PartCost = {
+  part: string;                 // component id
+  name: string;
+  grade: string;                // metal grade name
+  densityGcc: number;
+  baseCircleRatePerKg: number;  // item override / master / fallback
+  adders: AppliedAdder[];
+  circleRatePerKg: number;      // base + adders, what circleCost uses
+  circleKgIn: number;
+  circleCost: number;
+  packedKg: number;
+  stages: StageCost[];          // enabled stages, process order
+  chargeTotal: number;
+  scrapCredit: number;
+  cost: number;                 // circle + charges - scrap credit
+  blanking?: BlankingCost;      // circles cut in-house: what the base circle rate came from
+};
+
+// One standard bag's circles cut from sheet / coil
+export type BlankingCost = {
+  source: BlankingSpec['source'];
+  layout: NestingLayout;
+  circlesPerSheet: number;      // coil: per metre of strip
+  sheetKgPerCircle: number;
+  circleKg: number;             // one blank
+  yieldPct: number;             // blank kg over sheet kg
+  circles: number;              // blanks cut for the bag
+  sheetKgIn: number;
+  sheetRatePerKg: number;
+  sheetCost: number;
+  offcutKg: number;
+  offcutCredit: number;
+  circleRatePerKg: number;      // (sheet cost - offcut credit) / blank kg, before adders
+};
+
+export type PurchasedCost = {
+  id: string;
+  name: string;
+  basis: PurchasedComponent['basis'];
+  kg: number;
+  pcs: number;
+  rate: number;                 // ₹ per kg or per pc, by basis
+  cost: number;
+};
+
+export type CostBreakdown = {
+  bagKg: number;
+  pcs: number;
+  parts: PartCost[];
+  purchased: PurchasedCost[];
+  plastic: { polybagKg: number; polybagRatePerKg: number; pipeKg: number; pipeRatePerKg: number; cost: number };
+  packing: { ratePerKg: number; cost: number; innerPcs?: number; inners: number; cartonCost: number };
+  finalCost: number;
+  perKgRate: number;
+};
+
+export type PriceLine = { perKg: number; perPc: number; perBag: number };
+
+export type PriceBreakdown = {
+  pricing: PricingSettings;     // effective (settings + item overrides)
+  cost: PriceLine;
+  overhead: PriceLine;
+  transport: PriceLine;
+  margin: PriceLine;
+  broker: PriceLine;
+  taxable: PriceLine;
+  gst: PriceLine;
+  final: PriceLine;
+};
+
+// ---------- QUOTATIONS ----------
+export type QuoteUnit = 'bags' | 'pcs';
+
+// Rates are frozen when the quote is saved, later cost changes don't alter it.
+export type QuoteLine = {
+  itemId: string;
+  itemName: string;
+  qty: number;
+  unit: QuoteUnit;
+  pcs: number;
+  kg: number;
+  ratePerKg: number;            // taxable (before GST)
+  ratePerPc: number;
+  gstPct: number;
+  amount: number;               // taxable amount
+  gst: number;
+};
+
+export type Quote = {
+  id: string;
+  number: string;               // Q-2026-0001
+  customerName: string;
+  date: string;                 // YYYY-MM-DD
+  validDays: number;
+  notes: string;
+  lines: QuoteLine[];
+  totals: { pcs: number; kg: number; taxable: number; gst: number; grandTotal: number };
+};
+
+// ---------- JOBS (production batches) ----------
+// Plan is frozen when the job is created (from the item's forward flow), so later
+// item edits don't move the goal posts. Actuals are what was weighed at the job worker.
+export type JobStatus = 'open' | 'closed';
+
+export type JobStagePlan = {
+  part: string;                 // pressed component id
+  stageId: string;
+  name: string;
+  chargeBasis: ChargeBasis;
+  rate: number;
+  scrapRatePerKg: number;       // 0 when the stage has no scrap return
+  issueKg: number;              // kg to issue to the job worker
+  receiveKg: number;            // good kg expected back
+  scrapKg: number;              // tut expected back as scrap
+  keptKg: number;               // job wastage the worker keeps
+  charge: number;               // ₹ labour
+};
+
+export type JobPartPlan = {
+  name?: string;                // missing on jobs planned before components (box / cover)
+  circleRatePerKg: number;
+  circleKg: number;             // circle issue for the whole batch
+  packedKg: number;             // metal out of the last stage
+};
+
+export type JobPlan = {
+  bags: number;
+  bagKg: number;
+  pcs: number;
+  parts: Record<string, JobPartPlan>;   // by pressed component id
+  stages: JobStagePlan[];       // component order, then process order
+  perKgRate: number;            // item rate at planning time (Calculator)
+};
+
+// Blank = not weighed yet
+export type JobStageActual = {
+  part: string;
+  stageId: string;
+  issuedKg?: number;
+  receivedKg?: number;
+  scrapKg?: number;
+};
+
+export type Job = {
+  id: string;
+  number: string;               // J-2026-0001
+  itemId: string;
+  itemName: string;
+  date: string;                 // YYYY-MM-DD
+  status: JobStatus;
+  notes: string;
+  plan: JobPlan;
+  actuals: JobStageActual[];
+};
+
+// ---------- JOB WORKERS (karigar) ----------
+export type JobWorker = {
+  id: string;
+  name: string;
+  phone: string;
+  stageNames: string[];         // what they do, e.g. ['Press'] (filters the entry form)
+  notes: string;
+  active: boolean;
+};
+
+// What the stage allowed when the entry was made (copied from the item, like the job plan)
+export type StageTerms = {
+  chargeBasis: ChargeBasis;
+  rate: number;
+  jobWastagePct: number;
+  tutPct: number;
+};
+
+// issue:   circles (first stage) or kala (pressed / part-finished pieces) sent to the worker
+// receipt: finished goods back (kg), plus tut returned as scrap
+export type LedgerEntry = {
+  id: string;
+  workerId: string;
+  date: string;                 // YYYY-MM-DD
+  kind: 'issue' | 'receipt';
+  material: 'circle' | 'kala' | 'goods';
+  itemId: string;
+  itemName: string;
+  part: string;                 // pressed component id
+  stageId: string;
+  stageName: string;
+  terms: StageTerms;
+  kg: number;                   // issued kg, or good kg received
+  scrapKg: number;              // receipt only
+  pcs?: number;                 // receipt only, for perPc labour
+  jobId?: string;
+  note: string;
+};
+
+// ---------- PRICE HISTORY ----------
+export type RateSummary = { perKgRate: number; perPcRate: number };
+
+// Recorded on every save. Item snapshots carry the CalcResult they produced;
+// settings snapshots carry the resulting rate of every item at that moment.
+export type ItemSnapshot = {
+  id: string;
+  kind: 'item';
+  refId: string;                // item id
+  version: number;
+  at: string;                   // ISO time
+  item: Item;
+  settings: AppSettings;
+  result: CalcResult;
+};
+
+export type SettingsSnapshot = {
+  id: string;
+  kind: 'settings';
+  refId: 'settings';
+  version: number;
+  at: string;
+  settings: AppSettings;
+  rates: Record<string, RateSummary>;   // by item id
+};
+
+export type Snapshot = ItemSnapshot | SettingsSnapshot;
+
+// ---------- AUDIT LOG ----------
+// One entry per item / settings write: who, when and every leaf field that changed
+// (fields.ts paths). before/after are kept so a single entry can be reverted later.
+export type AuditAction = 'create' | 'update' | 'delete' | 'revert';
+
+export type ItemAudit = {
+  id: string;
+  kind: 'item';
+  refId: string;                // item id
+  refName: string;              // item name at the time
+  action: AuditAction;
+  at: string;                   // ISO time
+  userId: string;
+  userEmail: string;
+  changes: FieldChange[];
+  before: Item | null;          // null => created
+  after: Item | null;           // null => deleted
+  revertOf?: string;            // audit entry this one undid
+};
+
+export type SettingsAudit = {
+  id: string;
+  kind: 'settings';
+  refId: 'settings';
+  refName: string;
+  action: AuditAction;
+  at: string;
+  userId: string;
+  userEmail: string;
+  changes: FieldChange[];
+  before: AppSettings | null;
+  after: AppSettings;
+  revertOf?: string;
+};
+
+export type AuditEntry = ItemAudit | SettingsAudit;
+
+// ---------- BACKUP ----------
+// Export / import file. Items and settings inside keep their own schemaVersion.
+export type BackupBlob = {
+  schemaVersion: number;
+  items: Item[];
+  settings: AppSettings;
+};
+
+// ---------- ORGANIZATIONS ----------
+// owner: everything incl. members | editor: edit data | viewer: read prices, no raw rates
+export type OrgRole = 'owner' | 'editor' | 'viewer';
+
+export type Org = {
+  id: string;                   // personal org id = the owner's user id
+  name: string;
+  role: OrgRole;                // the logged-in member's role
+};
+
+export type OrgMember = {
+  userId: string;
+  email: string;
+  role: OrgRole;
+};
+
+export type OrgInvite = {
+  id: string;
+  email: string;
+  role: OrgRole;
+  createdAt: string;
+};
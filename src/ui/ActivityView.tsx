@@ -0,0 +1,158 @@
+// ActivityView.tsx
+import React, { useEffect, useMemo, useState } from 'react'
+import type { AppSettings, AuditAction, AuditEntry, Item } from '../types'
+import { NO_FILTER, changedSince, filterAudit, listAudit } from '../audit'
+import type { AuditFilter } from '../audit'
+import { btnBase, card, danger, disabledStyle, inputBase, selectBase, subtle, tokens } from './styles'
+
+const SHOWN = 200
+
+const ACTION_LABEL: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Changed',
+  delete: 'Deleted',
+  revert: 'Reverted'
+}
+
+function fmt(v: unknown): string {
+  if (v === undefined) return '—'
+  return String(v)
+}
+
+// Who changed which field when; filter by item, user and date, and undo a single entry
+export default function ActivityView({
+  uid,
+  items,
+  settings,
+  onRevert,
+  reloadKey,
+  busy
+}: {
+  uid: string
+  items: Item[]
+  settings: AppSettings
+  onRevert: (e: AuditEntry) => Promise<void>
+  reloadKey: number
+  busy: boolean
+}) {
+  const [all, setAll] = useState<AuditEntry[]>([])
+  const [f, setF] = useState<AuditFilter>(NO_FILTER)
+  const [msg, setMsg] = useState<string>('')
+
+  useEffect(() => {
+    let alive = true
+    listAudit(uid)
+      .then(r => {
+        if (alive) setAll(r)
+      })
+      .catch(e => setMsg((e as Error).message || 'Could not load activity'))
+    return () => {
+      alive = false
+    }
+  }, [uid, reloadKey])
+
+  const shown = useMemo(() => filterAudit(all, f), [all, f])
+
+  // Deleted items only live on in the log, so names come from there too
+  const refs = useMemo(() => {
+    const m = new Map<string, string>([['settings', 'Settings']])
+    for (const e of all) if (!m.has(e.refId)) m.set(e.refId, e.refName)
+    for (const it of items) m.set(it.id, it.name)
+    return [...m].sort((a, b) => a[1].localeCompare(b[1]))
+  }, [all, items])
+
+  const users = useMemo(() => [...new Map(all.map(e => [e.userId, e.userEmail || e.userId]))], [all])
+
+  async function revert(e: AuditEntry) {
+    const current = e.kind === 'settings' ? settings : (items.find(x => x.id === e.refId) ?? null)
+    const later = changedSince(current, e)
+    const what = e.action === 'create' ? `delete "${e.refName}"` : e.action === 'delete' ? `restore "${e.refName}"` : `put back ${e.changes.length} field(s) of "${e.refName}"`
+    const warn = later.length ? `\n\nChanged again since (will be overwritten too):\n${later.slice(0, 10).join('\n')}` : ''
+    if (!window.confirm(`Revert: ${what}?${warn}`)) return
+    await onRevert(e)
+  }
+
+  const th: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', color: tokens.subtle, fontWeight: 700 }
+  const td: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', borderTop: `1px solid ${tokens.border}` }
+  const label = { display: 'grid', gap: 6 } as const
+
+  return (
+    <div style={card}>
+      <h3 style={{ marginTop: 0 }}>Activity</h3>
+      <div style={{ display: 'flex', gap: 12, alignItems: 'flex-end', flexWrap: 'wrap', marginBottom: 12 }}>
+        <label style={label}>
+          <span style={{ fontWeight: 700 }}>Item</span>
+          <select style={selectBase} value={f.refId} onChange={(e) => setF({ ...f, refId: e.target.value })}>
+            <option value="">All items and settings</option>
+            {refs.map(([id, name]) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={label}>
+          <span style={{ fontWeight: 700 }}>User</span>
+          <select style={{ ...selectBase, width: 'auto' }} value={f.userId} onChange={(e) => setF({ ...f, userId: e.target.value })}>
+            <option value="">Everyone</option>
+            {users.map(([id, email]) => (
+              <option key={id} value={id}>
+                {email}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={label}>
+          <span style={{ fontWeight: 700 }}>From</span>
+          <input style={{ ...inputBase, width: 160 }} type="date" value={f.from} onChange={(e) => setF({ ...f, from: e.target.value })} />
+        </label>
+        <label style={label}>
+          <span style={{ fontWeight: 700 }}>To</span>
+          <input style={{ ...inputBase, width: 160 }} type="date" value={f.to} onChange={(e) => setF({ ...f, to: e.target.value })} />
+        </label>
+      </div>
+
+      {msg && <div style={danger}>{msg}</div>}
+      {!shown.length && <p style={subtle}>No changes recorded{all.length ? ' for this filter' : ' yet. Every save is logged from now on'}.</p>}
+
+      <div style={{ display: 'grid', gap: 10 }}>
+        {shown.slice(0, SHOWN).map(e => (
+          <div key={e.id} style={{ border: `1px solid ${tokens.border}`, borderRadius: 12, padding: 10 }}>
+            <div style={{ display: 'flex', gap: 10, alignItems: 'center', flexWrap: 'wrap' }}>
+              <b>{ACTION_LABEL[e.action]}</b>
+              <span style={{ flex: 1, fontWeight: 600 }}>{e.refName}</span>
+              <span style={subtle}>
+                {e.userEmail || e.userId} · {new Date(e.at).toLocaleString()}
+              </span>
+              <button style={{ ...btnBase, ...disabledStyle(busy) }} onClick={() => void revert(e)} disabled={busy}>
+                Revert
+              </button>
+            </div>
+            <details style={{ marginTop: 6 }}>
+              <summary style={{ cursor: 'pointer', ...subtle }}>{e.changes.length} field(s)</summary>
+              <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 6 }}>
+                <thead>
+                  <tr>
+                    <th style={{ ...th, textAlign: 'left' }}>Field</th>
+                    <th style={th}>From</th>
+                    <th style={th}>To</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {e.changes.map(c => (
+                    <tr key={c.path}>
+                      <td style={{ ...td, textAlign: 'left', fontFamily: 'monospace' }}>{c.path}</td>
+                      <td style={td}>{fmt(c.from)}</td>
+                      <td style={{ ...td, fontWeight: 700 }}>{fmt(c.to)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </details>
+          </div>
+        ))}
+      </div>
+      {shown.length > SHOWN && <p style={{ ...subtle, marginTop: 10 }}>Showing the latest {SHOWN} of {shown.length}. Narrow the filter to see older ones.</p>}
+    </div>
+  )
+}
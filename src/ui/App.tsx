@@ -1,37 +1,137 @@
 ﻿// App.tsx
-import React, { useEffect, useMemo, useRef, useState } from 'react'
-import type { AppSettings, Item } from '../types'
-import { calculate } from '../calc'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { AppSettings, AuditEntry, BackupBlob, BlankingSpec, ChargeBasis, Item, MaterialMaster, NestingLayout, Org, Packaging, OrgRole, PressedComponent, PricingSettings, ProcessStage, PurchasedComponent, RateSummary } from '../types'
+import { blankingYield, calculate } from '../calc'
+import type { CalcOutcome } from '../calc'
+import { nestCircles, newBlanking } from '../blanking'
+import { circleMaterialFor, kundaGradeFor, polytheneFor } from '../materials'
 import { makeId, seedItems, seedSettings } from '../seed'
+import { migrateBackup } from '../migrate'
+import { BACKUP_SCHEMA_VERSION } from '../schema'
+import { assertValid, assertValidBackup, issueAt, validateItem, validateSettings } from '../validate'
+import type { FieldIssue, ValidationReport } from '../validate'
+import { readVariable, solveFor, solveVariables, writeVariable } from '../solve'
+import type { SolveTarget } from '../solve'
+import { priceFromCost, resolvePricing } from '../pricing'
+import { STAGE_PRESETS, moveStage, newStage } from '../stages'
+import type { StagePreset } from '../stages'
 import { supabase } from '../supabase'
-
-type Tab = 'items' | 'calc' | 'backup'
+import { acceptInvites, ensurePersonalOrg, listOrgs, setActiveOrg } from '../db'
+import { ROLE_LABEL, canEdit, canSeeRates, pickOrg, workspaceKey } from '../orgs'
+import type { Session } from '@supabase/supabase-js'
+import {
+  tokens,
+  pageStyle,
+  shell,
+  card,
+  subtle,
+  danger,
+  btnBase,
+  btnPrimary,
+  btnDanger,
+  inputBase,
+  selectBase,
+  pillTabs,
+  tabBtn,
+  disabledStyle
+} from './styles'
+import { KV, Num, OptNum, Pick } from './controls'
+import QuotationTab from './QuotationTab'
+import JobsTab from './JobsTab'
+import WorkersTab from './WorkersTab'
+import MaterialsTab from './MaterialsTab'
+import CatalogTab from './CatalogTab'
+import NewItemWizard from './NewItemWizard'
+import BulkEdit from './BulkEdit'
+import SensitivityPanel from './SensitivityPanel'
+import CompareView from './CompareView'
+import CostReport from './CostReport'
+import HistoryView from './HistoryView'
+import ActivityView from './ActivityView'
+import OrgTab from './OrgTab'
+import ImportPreview from './ImportPreview'
+import { recordItemSnapshot, recordSettingsSnapshot } from '../history'
+import { itemAudit, recordAudit, revertItem, revertSettings, settingsAudit } from '../audit'
+import type { Actor } from '../audit'
+import { adderText, effectiveCircleRate } from '../adders'
+import { moveComponent, newComponentId, newPressedComponent, newPurchasedComponent, pressedComponents, replaceComponent } from '../components'
+import { itemsToTable, parseCsv, planImport, toCsv } from '../tabular'
+import type { ImportPreview as ImportPreviewData } from '../tabular'
+import { tableToXlsx, xlsxToRows } from '../xlsx'
+import { deleteLocalItem, getLocalItem, getLocalPrices, getLocalSettings, listLocalItems, saveLocalItem, saveLocalSettings } from '../local'
+import { publishedOutcome } from '../publish'
+import { listConflicts, resolveConflict, syncNow } from '../sync'
+import type { SyncConflict, SyncStatus } from '../sync'
+
+type Tab = 'items' | 'calc' | 'quote' | 'jobs' | 'workers' | 'materials' | 'catalog' | 'activity' | 'backup' | 'team'
+
+// Tabs that show or change raw rates (materials, labour, job costs); hidden from viewers
+const EDITOR_TABS: Tab[] = ['jobs', 'workers', 'materials', 'catalog', 'activity', 'backup']
+
+const LAST_ORG_KEY = 'dockfinity-last-org'
+const ORGS_CACHE_KEY = 'dockfinity-orgs'
+const READ_ONLY = 'Viewers cannot change data in this organization'
 
 function deepClone<T>(x: T): T {
   return JSON.parse(JSON.stringify(x))
 }
 
-// fallback circle rate from settings (used only when item-level rate missing)
-function fallbackCircleRate(settings: AppSettings): number {
-  return settings.circleBaseRate + settings.circleAddPerKg + (settings.circleExtraAddPerKg || 0)
+function r2(n: number) {
+  return Math.round(n * 100) / 100
 }
 
-// YOUR RULE: backend always adds +3 to circle rate (box + cover) for calculation
-const CIRCLE_RATE_AUTO_ADD = 3
+const PRICING_FIELDS: { key: keyof PricingSettings; label: string; step: number }[] = [
+  { key: 'overheadPct', label: 'Overhead % (on cost)', step: 0.5 },
+  { key: 'transportPerKg', label: 'Transport (₹/kg)', step: 0.5 },
+  { key: 'marginPct', label: 'Margin %', step: 0.5 },
+  { key: 'brokerPct', label: 'Broker commission %', step: 0.5 },
+  { key: 'gstPct', label: 'GST %', step: 1 }
+]
+
+// Rates every item would get under these settings (stored with each settings version)
+function ratesFor(items: Item[], settings: AppSettings): Record<string, RateSummary> {
+  const out: Record<string, RateSummary> = {}
+  for (const it of items) {
+    const r = calculate(it, settings)
+    if (r.ok) out[it.id] = { perKgRate: r.result.perKgRate, perPcRate: r.result.perPcRate }
+  }
+  return out
+}
 
 export default function App() {
   const [tab, setTab] = useState<Tab>('calc')
   const [items, setItems] = useState<Item[]>([])
   const [selectedId, setSelectedId] = useState<string>('')
   const [settings, setLocalSettings] = useState<AppSettings>(seedSettings)
+  // Viewers: published outcomes by item id (they get no rates to calculate with)
+  const [prices, setPrices] = useState<Map<string, CalcOutcome>>(new Map())
+
+  // Calculator mode
+  const [calcMode, setCalcMode] = useState<'forward' | 'solve' | 'sensitivity' | 'compare'>('forward')
+  const [solveBasis, setSolveBasis] = useState<SolveTarget['basis']>('perKg')
+  const [solveValue, setSolveValue] = useState<number>(300)
+  const [solveKey, setSolveKey] = useState<string>('circleRate:all')
 
   // Auth
-  const [session, setSession] = useState<any>(null)
+  const [session, setSession] = useState<Session | null>(null)
   const [authEmail, setAuthEmail] = useState('')
   const [authPassword, setAuthPassword] = useState('')
   const [authMode, setAuthMode] = useState<'signin' | 'signup'>('signin')
   const [busy, setBusy] = useState(false)
   const [msg, setMsg] = useState<string>('')
+  const [sheetImport, setSheetImport] = useState<{ fileName: string; preview: ImportPreviewData } | null>(null)
+
+  // Organization workspace: everything below is read from / written to the active org
+  const [orgs, setOrgs] = useState<Org[]>([])
+  const [org, setOrg] = useState<Org | null>(null)
+  const ws = session?.user?.id && org ? workspaceKey(session.user.id, org.id) : undefined
+  const role: OrgRole = org?.role ?? 'viewer'
+  const editable = canEdit(role)
+  const showRates = canSeeRates(role)
+
+  // Items tab: editor / price history of the selected item, or bulk edit across items
+  const [itemsView, setItemsView] = useState<'edit' | 'history' | 'bulk' | 'new'>('edit')
+  const [historyKey, setHistoryKey] = useState(0)
 
   // Debounce timers
   const settingsSaveTimer = useRef<number | null>(null)
@@ -40,98 +140,10 @@ export default function App() {
   const itemSaveTimer = useRef<number | null>(null)
   const lastItemToSave = useRef<Item | null>(null)
 
-  // ===========================
-  // Styles (simple design system)
-  // ===========================
-  const tokens = {
-    bg: '#f6f7f9',
-    card: '#ffffff',
-    border: '#e5e7eb',
-    text: '#111827',
-    subtle: '#6b7280',
-    danger: '#b00020',
-    ok: '#156c2f',
-    focus: '#111827'
-  }
-
-  const pageStyle: React.CSSProperties = {
-    fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto, Arial',
-    padding: 16,
-    maxWidth: 1200,
-    margin: '0 auto',
-    color: tokens.text
-  }
-
-  const shell: React.CSSProperties = {
-    background: tokens.bg,
-    minHeight: '100vh'
-  }
-
-  const card: React.CSSProperties = {
-    border: `1px solid ${tokens.border}`,
-    borderRadius: 14,
-    padding: 14,
-    background: tokens.card,
-    boxShadow: '0 1px 2px rgba(0,0,0,0.04)'
-  }
-
-  const subtle: React.CSSProperties = { color: tokens.subtle }
-  const danger: React.CSSProperties = { color: tokens.danger }
-
-  const btnBase: React.CSSProperties = {
-    padding: '9px 12px',
-    borderRadius: 12,
-    border: `1px solid ${tokens.border}`,
-    background: '#fff',
-    cursor: 'pointer',
-    fontWeight: 600
-  }
-
-  const btnPrimary: React.CSSProperties = {
-    ...btnBase,
-    border: `1px solid ${tokens.focus}`,
-    background: tokens.focus,
-    color: '#fff'
-  }
-
-  const btnDanger: React.CSSProperties = {
-    ...btnBase,
-    border: '1px solid #f0b5b5',
-    background: '#fff5f5',
-    color: '#7a0b0b'
-  }
-
-  const inputBase: React.CSSProperties = {
-    width: '100%',
-    padding: '9px 10px',
-    borderRadius: 12,
-    border: `1px solid ${tokens.border}`,
-    outline: 'none',
-    background: '#fff'
-  }
-
-  const selectBase: React.CSSProperties = {
-    ...inputBase,
-    width: 'auto',
-    minWidth: 280
-  }
-
-  const pillTabs: React.CSSProperties = {
-    display: 'flex',
-    gap: 8,
-    flexWrap: 'wrap',
-    alignItems: 'center'
-  }
-
-  const tabBtn = (active: boolean): React.CSSProperties => ({
-    ...btnBase,
-    background: active ? '#111827' : '#fff',
-    color: active ? '#fff' : tokens.text,
-    border: active ? '1px solid #111827' : `1px solid ${tokens.border}`
-  })
-
-  const disabledStyle = (isDisabled: boolean): React.CSSProperties =>
-    isDisabled ? { opacity: 0.55, cursor: 'not-allowed' } : {}
+  // Sync
+  const syncTimer = useRef<number | null>(null)
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'syncing', pending: 0, conflicts: 0, lastSyncAt: null })
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
 
   // ===========================
   // Auth bootstrap
@@ -159,159 +171,230 @@ export default function App() {
     return () => {
       if (settingsSaveTimer.current) window.clearTimeout(settingsSaveTimer.current)
       if (itemSaveTimer.current) window.clearTimeout(itemSaveTimer.current)
+      if (syncTimer.current) window.clearTimeout(syncTimer.current)
     }
   }, [])
 
   // ===========================
-  // Supabase helpers
+  // Local store + background sync
   // ===========================
-  async function refresh() {
-    if (!session?.user?.id) return
-    setBusy(true)
-    setMsg('')
+  async function loadLocal(uid: string) {
+    const loadedItems = await listLocalItems(uid)
+    const loadedSettings = await getLocalSettings(uid)
 
-    const uid = session.user.id
+    setLocalSettings(loadedSettings || seedSettings)
+    setItems(loadedItems)
+    setPrices(await getLocalPrices(uid))
 
-    const settingsRes = await supabase
-      .from('settings')
-      .select('data')
-      .eq('user_id', uid)
-      .maybeSingle()
+    const firstId = loadedItems[0]?.id || ''
+    setSelectedId(prev => {
+      if (!prev) return firstId
+      if (!loadedItems.find(i => i.id === prev)) return firstId
+      return prev
+    })
+    return loadedItems
+  }
 
-    if (settingsRes.error) {
-      setBusy(false)
-      setMsg(`Settings load error: ${settingsRes.error.message}`)
-      return
+  async function runSync(uid: string) {
+    setSyncStatus(s => ({ ...s, state: 'syncing' }))
+    const status = await syncNow(uid, role)
+    setSyncStatus(status)
+    setConflicts(status.conflicts ? await listConflicts(uid) : [])
+    return status
+  }
+
+  // Memberships after login (joins pending invites first). Offline, the last known list is used.
+  async function loadOrgs(userId: string) {
+    const cacheKey = `${ORGS_CACHE_KEY}.${userId}`
+    let list: Org[]
+    try {
+      await acceptInvites()
+      list = await listOrgs()
+      if (!list.length) {
+        await ensurePersonalOrg()
+        list = await listOrgs()
+      }
+      localStorage.setItem(cacheKey, JSON.stringify(list))
+    } catch (e) {
+      const cached = localStorage.getItem(cacheKey)
+      list = cached ? (JSON.parse(cached) as Org[]) : [{ id: userId, name: 'My workspace', role: 'owner' }]
+      if (navigator.onLine) setMsg((e as Error).message || 'Could not load organizations')
     }
+    setOrgs(list)
+    const next = pickOrg(list, localStorage.getItem(`${LAST_ORG_KEY}.${userId}`), userId)
+    if (next) chooseOrg(userId, next)
+  }
 
-    const loadedSettings = (settingsRes.data?.data as AppSettings) ?? null
-    const nextSettings = loadedSettings || seedSettings
-    setLocalSettings(nextSettings)
+  function chooseOrg(userId: string, next: Org) {
+    localStorage.setItem(`${LAST_ORG_KEY}.${userId}`, next.id)
+    setActiveOrg(next.id)
+    setOrg(next)
+    setSheetImport(null)
+    if (!canEdit(next.role)) {
+      setTab(t => (EDITOR_TABS.includes(t) ? 'calc' : t))
+      setItemsView('edit')
+      setCalcMode('forward')
+    }
+  }
 
-    const itemsRes = await supabase
-      .from('items')
-      .select('id,name,data')
-      .eq('user_id', uid)
-      .order('updated_at', { ascending: false })
+  function onSwitchOrg(id: string) {
+    const next = orgs.find(o => o.id === id)
+    if (session?.user?.id && next) chooseOrg(session.user.id, next)
+  }
 
-    if (itemsRes.error) {
-      setBusy(false)
-      setMsg(`Items load error: ${itemsRes.error.message}`)
-      return
-    }
+  async function refresh() {
+    if (!ws) return
+    setBusy(true)
+    setMsg('')
 
-    const loadedItems: Item[] = (itemsRes.data || []).map((r: any) => ({
-      ...(r.data as Item),
-      id: r.id,
-      name: r.name
-    }))
-
-    // Seed if empty (one-time)
-    if (loadedItems.length === 0) {
-      for (const it of seedItems) {
-        const insertRes = await supabase.from('items').upsert({
-          user_id: uid,
-          id: it.id,
-          name: it.name,
-          data: it
-        })
-        if (insertRes.error) {
-          setBusy(false)
-          setMsg(`Seed items error: ${insertRes.error.message}`)
-          return
-        }
-      }
+    const uid = ws
 
-      if (!loadedSettings) {
-        const up = await supabase.from('settings').upsert({
-          user_id: uid,
-          data: seedSettings
-        })
-        if (up.error) {
-          setBusy(false)
-          setMsg(`Seed settings error: ${up.error.message}`)
-          return
-        }
+    try {
+      // Show local data immediately, then reconcile with the cloud
+      await loadLocal(uid)
+      const status = await runSync(uid)
+      if (status.state === 'error') setMsg(`Sync error: ${status.error}`)
+
+      const loadedItems = await loadLocal(uid)
+
+      // Seed if empty (one-time), only once we know the cloud is empty too; viewers can't write
+      if (editable && loadedItems.length === 0 && status.lastSyncAt && status.state !== 'error' && status.state !== 'offline') {
+        for (const it of seedItems) await saveLocalItem(uid, it)
+        if (!(await getLocalSettings(uid))) await saveLocalSettings(uid, seedSettings)
+        await runSync(uid)
+        await loadLocal(uid)
       }
-
+    } catch (e) {
+      setMsg((e as Error).message || 'Load failed')
+    } finally {
       setBusy(false)
-      await refresh()
-      return
     }
-
-    setItems(loadedItems)
-
-    const firstId = loadedItems[0]?.id || ''
-    setSelectedId(prev => {
-      if (!prev) return firstId
-      if (!loadedItems.find(i => i.id === prev)) return firstId
-      return prev
-    })
-
-    setBusy(false)
   }
 
   useEffect(() => {
-    if (session?.user?.id) void refresh()
+    if (session?.user?.id) void loadOrgs(session.user.id)
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [session?.user?.id])
 
-  async function upsertItemRemote(it: Item) {
-    if (!session?.user?.id) return
-    const uid = session.user.id
-    const res = await supabase.from('items').upsert({
-      user_id: uid,
-      id: it.id,
-      name: it.name,
-      data: it
-    })
-    if (res.error) throw new Error(res.error.message)
+  // Each org has its own local store; reload when switching
+  useEffect(() => {
+    if (ws) void refresh()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ws])
+
+  // Push queued edits when the connection comes back
+  useEffect(() => {
+    const uid = ws
+    if (!uid) return
+
+    const onOnline = () => {
+      void runSync(uid).then(() => loadLocal(uid))
+    }
+    const onOffline = () => setSyncStatus(s => ({ ...s, state: 'offline' }))
+
+    window.addEventListener('online', onOnline)
+    window.addEventListener('offline', onOffline)
+    return () => {
+      window.removeEventListener('online', onOnline)
+      window.removeEventListener('offline', onOffline)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ws, role])
+
+  // Debounced background sync after local writes
+  function scheduleSync() {
+    const uid = ws
+    if (!uid) return
+    setSyncStatus(s => (s.state === 'conflicted' ? s : { ...s, state: 'pending' }))
+
+    if (syncTimer.current) window.clearTimeout(syncTimer.current)
+    syncTimer.current = window.setTimeout(() => {
+      void runSync(uid)
+    }, 1500)
   }
 
-  async function deleteItemRemote(id: string) {
-    if (!session?.user?.id) return
-    const uid = session.user.id
-    const res = await supabase.from('items').delete().eq('user_id', uid).eq('id', id)
-    if (res.error) throw new Error(res.error.message)
+  function actor(): Actor {
+    return { userId: session?.user?.id ?? '', email: session?.user?.email ?? '' }
   }
 
-  async function setSettingsRemote(s: AppSettings) {
-    if (!session?.user?.id) return
-    const uid = session.user.id
-    const res = await supabase.from('settings').upsert({
-      user_id: uid,
-      data: s
-    })
-    if (res.error) throw new Error(res.error.message)
+  // Every item save goes through here, so invalid items never reach the store
+  // and every change is in the audit log (revertOf: the entry being undone)
+  async function upsertItemLocal(it: Item, revertOf?: string) {
+    if (!ws) return
+    if (!editable) throw new Error(READ_ONLY)
+    assertValid(`"${it.name}"`, validateItem(it, settings.materials))
+    const before = await getLocalItem(ws, it.id)
+    await saveLocalItem(ws, it)
+    await recordAudit(ws, itemAudit(actor(), before, it, revertOf))
+    const out = calculate(it, settings)
+    if (out.ok) await recordItemSnapshot(ws, it, settings, out.result)
+    setHistoryKey(k => k + 1)
+    scheduleSync()
+  }
+
+  async function deleteItemLocal(id: string, revertOf?: string) {
+    if (!ws) return
+    if (!editable) throw new Error(READ_ONLY)
+    const before = await getLocalItem(ws, id)
+    await deleteLocalItem(ws, id)
+    await recordAudit(ws, itemAudit(actor(), before, null, revertOf))
+    setHistoryKey(k => k + 1)
+    scheduleSync()
+  }
+
+  async function setSettingsLocal(s: AppSettings, revertOf?: string) {
+    if (!ws) return
+    if (!editable) throw new Error(READ_ONLY)
+    assertValid('settings', validateSettings(s))
+    const before = await getLocalSettings(ws)
+    await saveLocalSettings(ws, s)
+    await recordAudit(ws, settingsAudit(actor(), before, s, revertOf))
+    await recordSettingsSnapshot(ws, s, ratesFor(items, s))
+    setHistoryKey(k => k + 1)
+    scheduleSync()
+  }
+
+  async function onResolveConflict(c: SyncConflict, keep: 'local' | 'remote') {
+    const uid = ws
+    if (!uid) return
+    try {
+      setBusy(true)
+      setMsg('')
+      await resolveConflict(uid, c, keep)
+      await runSync(uid)
+      await loadLocal(uid)
+    } catch (e) {
+      setMsg((e as Error).message || 'Resolve failed')
+    } finally {
+      setBusy(false)
+    }
   }
 
   // ===========================
   // Derived
   // ===========================
-  const circleFallback = useMemo(() => fallbackCircleRate(settings), [settings])
-
   const selected = useMemo(() => items.find(i => i.id === selectedId) || null, [items, selectedId])
 
-  // Apply your rule: circle rate used in calc = (stored rate or fallback) + 3
-  const selectedForCalc = useMemo(() => {
-    if (!selected) return null
+  const costOf = useCallback((it: Item) => (editable ? calculate(it, settings) : publishedOutcome(prices, it)), [editable, settings, prices])
 
-    const boxStored = (selected.box as any).circleRatePerKg
-    const coverStored = (selected.cover as any).circleRatePerKg
+  const outcome = useMemo(() => (selected ? costOf(selected) : null), [selected, costOf])
+  const result = outcome?.ok ? outcome.result : null
 
-    const boxBase =
-      typeof boxStored === 'number' && isFinite(boxStored) && boxStored > 0 ? boxStored : circleFallback
-    const coverBase =
-      typeof coverStored === 'number' && isFinite(coverStored) && coverStored > 0 ? coverStored : circleFallback
+  const price = useMemo(() => (result ? priceFromCost(result, settings, selected) : null), [result, settings, selected])
 
-    return {
-      ...selected,
-      box: { ...selected.box, circleRatePerKg: boxBase + CIRCLE_RATE_AUTO_ADD },
-      cover: { ...selected.cover, circleRatePerKg: coverBase + CIRCLE_RATE_AUTO_ADD }
-    } as Item
-  }, [selected, circleFallback])
+  // Reverse costing (Calculator "solve" mode)
+  const solveOptions = useMemo(() => (selected ? solveVariables(selected) : []), [selected])
+  const solveOption = solveOptions.find(o => o.key === solveKey) || solveOptions[0]
+  const solveRes = useMemo(() => {
+    if (calcMode !== 'solve' || !selected || !solveOption) return null
+    return solveFor(selected, settings, solveOption.v, { basis: solveBasis, value: solveValue })
+  }, [calcMode, selected, settings, solveOption, solveBasis, solveValue])
 
-  const result = useMemo(() => (selectedForCalc ? calculate(selectedForCalc, settings) : null), [selectedForCalc, settings])
+  function applySolved() {
+    if (!selected || !solveRes?.ok || !solveOption) return
+    quickSaveItem(writeVariable(selected, solveOption.v, solveRes.value))
+    setCalcMode('forward')
+  }
 
   // ===========================
   // UI actions
@@ -323,7 +406,7 @@ export default function App() {
     try {
       setBusy(true)
       setMsg('')
-      await deleteItemRemote(id)
+      await deleteItemLocal(id)
 
       setItems(prev => {
         const next = prev.filter(x => x.id !== id)
@@ -347,7 +430,7 @@ export default function App() {
       copy.id = makeId()
       copy.name = selected.name + ' (copy)'
 
-      await upsertItemRemote(copy)
+      await upsertItemLocal(copy)
       setItems(prev => [copy, ...prev])
       setSelectedId(copy.id)
       setTab('items')
@@ -358,11 +441,26 @@ export default function App() {
     }
   }
 
+  async function onCreateFromFamily(it: Item) {
+    try {
+      setBusy(true)
+      setMsg('')
+      await upsertItemLocal(it)
+      setItems(prev => [it, ...prev])
+      setSelectedId(it.id)
+      setItemsView('edit')
+    } catch (e) {
+      setMsg((e as Error).message || 'Create failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
   async function onSaveItem(it: Item) {
     try {
       setBusy(true)
       setMsg('')
-      await upsertItemRemote(it)
+      await upsertItemLocal(it)
       setItems(prev => prev.map(x => (x.id === it.id ? it : x)))
     } catch (e: any) {
       setMsg(e.message || 'Save failed')
@@ -371,6 +469,47 @@ export default function App() {
     }
   }
 
+  async function onBulkSave(next: Item[]) {
+    try {
+      setBusy(true)
+      setMsg('')
+      for (const it of next) await upsertItemLocal(it)
+      const byId = new Map(next.map(it => [it.id, it]))
+      setItems(prev => prev.map(x => byId.get(x.id) || x))
+    } catch (e) {
+      setMsg((e as Error).message || 'Bulk update failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  // Undo one audit entry; the revert itself is logged as a new entry
+  async function onRevert(e: AuditEntry) {
+    try {
+      setBusy(true)
+      setMsg('')
+      if (e.kind === 'settings') {
+        const next = revertSettings(settings, e)
+        await setSettingsLocal(next, e.id)
+        setLocalSettings(next)
+        return
+      }
+      const current = items.find(x => x.id === e.refId) ?? null
+      const next = revertItem(current, e)
+      if (!next) {
+        await deleteItemLocal(e.refId, e.id)
+        setItems(prev => prev.filter(x => x.id !== e.refId))
+      } else {
+        await upsertItemLocal(next, e.id)
+        setItems(prev => (current ? prev.map(x => (x.id === next.id ? next : x)) : [next, ...prev]))
+      }
+    } catch (err) {
+      setMsg((err as Error).message || 'Revert failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
   // Debounced settings save (only bag kg used now)
   function onSaveSettings(next: AppSettings) {
     setLocalSettings(next)
@@ -379,7 +518,7 @@ export default function App() {
     if (settingsSaveTimer.current) window.clearTimeout(settingsSaveTimer.current)
     settingsSaveTimer.current = window.setTimeout(async () => {
       try {
-        await setSettingsRemote(lastSettingsToSave.current)
+        await setSettingsLocal(lastSettingsToSave.current)
       } catch (e: any) {
         setMsg(e.message || 'Settings save failed')
       }
@@ -394,41 +533,82 @@ export default function App() {
     if (itemSaveTimer.current) window.clearTimeout(itemSaveTimer.current)
     itemSaveTimer.current = window.setTimeout(async () => {
       try {
-        if (lastItemToSave.current) await upsertItemRemote(lastItemToSave.current)
+        if (lastItemToSave.current) await upsertItemLocal(lastItemToSave.current)
       } catch (e: any) {
         setMsg(e.message || 'Item save failed')
       }
     }, 400)
   }
 
-  async function doExport() {
-    const blob = { settings, items }
-    const text = JSON.stringify(blob, null, 2)
-    const file = new Blob([text], { type: 'application/json' })
+  function download(file: Blob, name: string) {
     const url = URL.createObjectURL(file)
     const a = document.createElement('a')
     a.href = url
-    a.download = 'dockfinity_costing_backup.json'
+    a.download = name
     a.click()
     URL.revokeObjectURL(url)
   }
 
+  async function doExport() {
+    const blob: BackupBlob = { schemaVersion: BACKUP_SCHEMA_VERSION, settings, items }
+    const text = JSON.stringify(blob, null, 2)
+    download(new Blob([text], { type: 'application/json' }), 'dockfinity_costing_backup.json')
+  }
+
+  // Item catalog as a spreadsheet (one row per item, one column per field)
+  async function exportSheet(format: 'csv' | 'xlsx') {
+    try {
+      setMsg('')
+      const table = itemsToTable(items)
+      if (format === 'csv') download(new Blob([toCsv(table)], { type: 'text/csv' }), 'dockfinity_items.csv')
+      else download(await tableToXlsx(table), 'dockfinity_items.xlsx')
+    } catch (e) {
+      setMsg((e as Error).message || 'Export failed')
+    }
+  }
+
+  // Parsed and checked row by row; the preview decides what gets written
+  async function readSheet(file: File) {
+    try {
+      setBusy(true)
+      setMsg('')
+      const rows = /\.xlsx$/i.test(file.name) ? await xlsxToRows(await file.arrayBuffer()) : parseCsv(await file.text())
+      setSheetImport({ fileName: file.name, preview: planImport(rows, items, seedItems, settings.materials) })
+    } catch (e) {
+      setMsg((e as Error).message || 'Could not read the file')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function applySheet(next: Item[]) {
+    try {
+      setBusy(true)
+      setMsg('')
+      for (const it of next) await upsertItemLocal(it)
+      const byId = new Map(next.map(it => [it.id, it]))
+      setItems(prev => [...prev.map(x => byId.get(x.id) || x), ...next.filter(it => !prev.some(x => x.id === it.id))])
+      setSheetImport(null)
+    } catch (e) {
+      setMsg((e as Error).message || 'Import failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
   async function doImport(file: File) {
     try {
       setBusy(true)
       setMsg('')
 
       const text = await file.text()
-      const blob = JSON.parse(text) as { settings?: AppSettings; items?: Item[] }
+      // Older files are upgraded and checked before anything is written
+      const blob = migrateBackup(JSON.parse(text))
+      assertValidBackup(blob)
 
-      if (blob.settings) {
-        setLocalSettings(blob.settings)
-        await setSettingsRemote(blob.settings)
-      }
-
-      if (blob.items?.length) {
-        for (const it of blob.items) await upsertItemRemote(it)
-      }
+      setLocalSettings(blob.settings)
+      await setSettingsLocal(blob.settings)
+      for (const it of blob.items) await upsertItemLocal(it)
 
       await refresh()
       alert('Imported successfully')
@@ -473,8 +653,12 @@ export default function App() {
     setBusy(true)
     setMsg('')
     await supabase.auth.signOut()
+    setActiveOrg(null)
+    setOrg(null)
+    setOrgs([])
     setItems([])
     setSelectedId('')
+    setConflicts([])
     setBusy(false)
   }
 
@@ -487,7 +671,7 @@ export default function App() {
         <div style={{ ...pageStyle, maxWidth: 520, paddingTop: 28 }}>
           <div style={{ marginBottom: 12 }}>
             <h2 style={{ margin: 0, letterSpacing: -0.2 }}>Dockfinity Costing</h2>
-            <p style={{ marginTop: 6, ...subtle }}>Login required (Supabase). Data will be saved in cloud.</p>
+            <p style={{ marginTop: 6, ...subtle }}>Login required (Supabase). Data is kept on this device and synced to the cloud.</p>
           </div>
 
           <div style={card}>
@@ -540,13 +724,15 @@ export default function App() {
   // ===========================
   // Render (Main app)
   // ===========================
-  const storedBoxRate = selected ? ((selected.box as any).circleRatePerKg as number | undefined) : undefined
-  const storedCoverRate = selected ? ((selected.cover as any).circleRatePerKg as number | undefined) : undefined
-
-  const boxRateInput =
-    typeof storedBoxRate === 'number' && isFinite(storedBoxRate) && storedBoxRate > 0 ? storedBoxRate : circleFallback
-  const coverRateInput =
-    typeof storedCoverRate === 'number' && isFinite(storedCoverRate) && storedCoverRate > 0 ? storedCoverRate : circleFallback
+  // Shows the master rate until the item gets its own override
+  const circleRates = selected
+    ? pressedComponents(selected).map(part => ({
+        part,
+        circle: effectiveCircleRate(part, settings),
+        source: part.circleRatePerKg ? 'item' : 'master',
+        blank: part.blanking?.enabled ? part.blanking : undefined
+      }))
+    : []
 
   return (
     <div style={shell}>
@@ -556,11 +742,24 @@ export default function App() {
           <div>
             <h2 style={{ margin: 0, letterSpacing: -0.2 }}>Dockfinity Costing</h2>
             <p style={{ marginTop: 6, ...subtle }}>
-              Calculator uses: (Box circle rate + {CIRCLE_RATE_AUTO_ADD}) and (Cover circle rate + {CIRCLE_RATE_AUTO_ADD}).
+              Circle rates include {settings.circleAdders.filter(a => a.enabled).length} adder rule(s) from Materials.
             </p>
           </div>
 
           <div style={{ display: 'flex', gap: 10, alignItems: 'center', flexWrap: 'wrap' }}>
+            <SyncBadge status={syncStatus} />
+            {org && (
+              <>
+                <select style={{ ...selectBase, width: 'auto' }} value={org.id} onChange={(e) => onSwitchOrg(e.target.value)} disabled={busy} title="Organization">
+                  {orgs.map(o => (
+                    <option key={o.id} value={o.id}>
+                      {o.name}
+                    </option>
+                  ))}
+                </select>
+                <span style={{ ...subtle, fontWeight: 700 }}>{ROLE_LABEL[org.role]}</span>
+              </>
+            )}
             <span style={{ ...subtle, fontWeight: 600 }}>{session.user.email}</span>
             <button style={{ ...btnBase, ...disabledStyle(busy) }} onClick={() => void refresh()} disabled={busy}>
               Sync
@@ -579,6 +778,28 @@ export default function App() {
           </div>
         )}
 
+        {conflicts.length > 0 && (
+          <div style={{ ...card, borderColor: '#f3d19e', background: '#fffaf0', marginBottom: 12 }}>
+            <div style={{ fontWeight: 700, marginBottom: 6 }}>Sync conflicts</div>
+            <div style={{ ...subtle, marginBottom: 10 }}>
+              These were changed in the cloud while you had unsynced edits. Choose which version to keep.
+            </div>
+            <div style={{ display: 'grid', gap: 8 }}>
+              {conflicts.map(c => (
+                <div key={`${c.kind}:${c.id}`} style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+                  <span style={{ flex: 1, fontWeight: 600 }}>{c.name}</span>
+                  <button style={{ ...btnBase, ...disabledStyle(busy) }} onClick={() => void onResolveConflict(c, 'local')} disabled={busy}>
+                    Keep mine
+                  </button>
+                  <button style={{ ...btnBase, ...disabledStyle(busy) }} onClick={() => void onResolveConflict(c, 'remote')} disabled={busy}>
+                    Use cloud
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {busy && (
           <div style={{ ...card, marginBottom: 12 }}>
             <div style={subtle}>Working…</div>
@@ -593,13 +814,40 @@ export default function App() {
           <button style={tabBtn(tab === 'items')} onClick={() => setTab('items')} disabled={busy}>
             Items
           </button>
-          <button style={tabBtn(tab === 'backup')} onClick={() => setTab('backup')} disabled={busy}>
-            Backup
+          <button style={tabBtn(tab === 'quote')} onClick={() => setTab('quote')} disabled={busy}>
+            Quotation
           </button>
-          <span style={{ flex: 1 }} />
-          <button style={{ ...btnBase, ...disabledStyle(!selected || busy) }} onClick={onClone} disabled={!selected || busy}>
-            Clone Selected Item
+          {editable && (
+            <>
+              <button style={tabBtn(tab === 'jobs')} onClick={() => setTab('jobs')} disabled={busy}>
+                Jobs
+              </button>
+              <button style={tabBtn(tab === 'workers')} onClick={() => setTab('workers')} disabled={busy}>
+                Job workers
+              </button>
+              <button style={tabBtn(tab === 'materials')} onClick={() => setTab('materials')} disabled={busy}>
+                Materials
+              </button>
+              <button style={tabBtn(tab === 'catalog')} onClick={() => setTab('catalog')} disabled={busy}>
+                Catalog
+              </button>
+              <button style={tabBtn(tab === 'activity')} onClick={() => setTab('activity')} disabled={busy}>
+                Activity
+              </button>
+              <button style={tabBtn(tab === 'backup')} onClick={() => setTab('backup')} disabled={busy}>
+                Backup
+              </button>
+            </>
+          )}
+          <button style={tabBtn(tab === 'team')} onClick={() => setTab('team')} disabled={busy}>
+            Team
           </button>
+          <span style={{ flex: 1 }} />
+          {editable && (
+            <button style={{ ...btnBase, ...disabledStyle(!selected || busy) }} onClick={onClone} disabled={!selected || busy}>
+              Clone Selected Item
+            </button>
+          )}
         </div>
 
         {/* Calculator */}
@@ -618,39 +866,31 @@ export default function App() {
               </div>
 
               <div style={{ display: 'flex', gap: 12, alignItems: 'flex-end', flexWrap: 'wrap' }}>
-                <div style={{ display: 'grid', gap: 6 }}>
-                  <div style={{ fontWeight: 700 }}>Box circle rate</div>
-                  <input
-                    style={{ ...inputBase, width: 140 }}
-                    type="number"
-                    value={boxRateInput}
-                    disabled={!selected || busy}
-                    onChange={(e) => {
-                      if (!selected) return
-                      const n = Number(e.target.value)
-                      const next: Item = { ...selected, box: { ...selected.box, circleRatePerKg: n } }
-                      quickSaveItem(next)
-                    }}
-                  />
-                  <div style={{ ...subtle, fontSize: 12 }}>Used as ₹{boxRateInput + CIRCLE_RATE_AUTO_ADD}/kg</div>
-                </div>
-
-                <div style={{ display: 'grid', gap: 6 }}>
-                  <div style={{ fontWeight: 700 }}>Cover circle rate</div>
-                  <input
-                    style={{ ...inputBase, width: 140 }}
-                    type="number"
-                    value={coverRateInput}
-                    disabled={!selected || busy}
-                    onChange={(e) => {
-                      if (!selected) return
-                      const n = Number(e.target.value)
-                      const next: Item = { ...selected, cover: { ...selected.cover, circleRatePerKg: n } }
-                      quickSaveItem(next)
-                    }}
-                  />
-                  <div style={{ ...subtle, fontSize: 12 }}>Used as ₹{coverRateInput + CIRCLE_RATE_AUTO_ADD}/kg</div>
-                </div>
+                {showRates && (
+                  <>
+                    {circleRates.map(({ part, circle, source, blank }) => (
+                      <div key={part.id} style={{ display: 'grid', gap: 6 }}>
+                        <div style={{ fontWeight: 700 }}>
+                          {part.name} {blank ? blank.source : 'circle'} rate
+                        </div>
+                        <input
+                          style={{ ...inputBase, width: 140 }}
+                          type="number"
+                          value={blank ? blank.ratePerKg : circle.base}
+                          disabled={!selected || busy}
+                          onChange={(e) => {
+                            if (!selected) return
+                            const n = Number(e.target.value)
+                            quickSaveItem(replaceComponent(selected, blank ? { ...part, blanking: { ...blank, ratePerKg: n } } : { ...part, circleRatePerKg: n }))
+                          }}
+                        />
+                        <div style={{ ...subtle, fontSize: 12 }}>
+                          {blank ? 'Circles cut in-house (see the cost report)' : `Used as ₹${circle.rate}/kg (${source}${adderText(circle.adders)})`}
+                        </div>
+                      </div>
+                    ))}
+                  </>
+                )}
 
                 <div style={{ display: 'grid', gap: 6 }}>
                   <div style={{ fontWeight: 700 }}>Bag Kg</div>
@@ -658,30 +898,115 @@ export default function App() {
                     style={{ ...inputBase, width: 110 }}
                     type="number"
                     value={settings.bagStandardKg}
+                    disabled={!editable}
                     onChange={(e) => onSaveSettings({ ...settings, bagStandardKg: Number(e.target.value) })}
                   />
-                  <div style={{ ...subtle, fontSize: 12 }}>Standard bag weight</div>
+                  <div style={{ ...subtle, fontSize: 12 }}>Standard bag weight (items without their own packaging)</div>
                 </div>
               </div>
             </div>
 
-            {!result ? (
+            <div style={{ ...pillTabs, marginTop: 14 }}>
+              <button style={tabBtn(calcMode === 'forward')} onClick={() => setCalcMode('forward')}>
+                Forward
+              </button>
+              {showRates && (
+                <>
+                  <button style={tabBtn(calcMode === 'solve')} onClick={() => setCalcMode('solve')}>
+                    Solve for target price
+                  </button>
+                  <button style={tabBtn(calcMode === 'sensitivity')} onClick={() => setCalcMode('sensitivity')}>
+                    Sensitivity
+                  </button>
+                  <button style={tabBtn(calcMode === 'compare')} onClick={() => setCalcMode('compare')}>
+                    Compare
+                  </button>
+                </>
+              )}
+            </div>
+
+            {calcMode === 'compare' && <CompareView items={items} selectedId={selectedId} costOf={costOf} />}
+
+            {calcMode === 'sensitivity' && selected && (
+              <SensitivityPanel
+                key={selected.id}
+                item={selected}
+                settings={settings}
+                evaluate={calculate}
+              />
+            )}
+
+            {calcMode === 'solve' && selected && (
+              <div style={{ ...card, boxShadow: 'none', marginTop: 12 }}>
+                <div style={{ display: 'flex', gap: 12, alignItems: 'flex-end', flexWrap: 'wrap' }}>
+                  <div style={{ display: 'grid', gap: 6 }}>
+                    <div style={{ fontWeight: 700 }}>Target</div>
+                    <div style={{ display: 'flex', gap: 6 }}>
+                      <select style={{ ...inputBase, width: 'auto' }} value={solveBasis} onChange={(e) => setSolveBasis(e.target.value as SolveTarget['basis'])}>
+                        <option value="perKg">₹ per kg</option>
+                        <option value="perPc">₹ per pc</option>
+                      </select>
+                      <input style={{ ...inputBase, width: 120 }} type="number" value={solveValue} onChange={(e) => setSolveValue(Number(e.target.value))} />
+                    </div>
+                  </div>
+
+                  <div style={{ display: 'grid', gap: 6 }}>
+                    <div style={{ fontWeight: 700 }}>Solve for</div>
+                    <select style={selectBase} value={solveKey} onChange={(e) => setSolveKey(e.target.value)}>
+                      {solveOptions.map(o => (
+                        <option key={o.key} value={o.key}>
+                          {o.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {solveRes && (
+                  <div style={{ marginTop: 12 }}>
+                    {!solveRes.ok ? (
+                      <div style={danger}>{solveRes.reason}</div>
+                    ) : (
+                      <div style={{ display: 'grid', gap: 6, maxWidth: 520 }}>
+                        <KV k="Required value" v={`${solveRes.value}`} strong />
+                        <KV k="Current value" v={`${solveOption ? r2(readVariable(selected, solveOption.v, settings)) : '-'}`} />
+                        <KV k="Per kg at solution" v={`₹${solveRes.result.perKgRate}`} />
+                        <KV k="Per pc at solution" v={`₹${solveRes.result.perPcRate}`} />
+                        <div>
+                          <button style={{ ...btnPrimary, marginTop: 6, ...disabledStyle(busy) }} onClick={applySolved} disabled={busy}>
+                            Apply to item
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {calcMode !== 'compare' && outcome && !outcome.ok && (
+              <IssueList issues={outcome.errors} title="Cannot calculate this item, fix on the Items tab:" />
+            )}
+            {calcMode !== 'compare' && outcome?.ok && <IssueList issues={outcome.warnings} title="Check these inputs:" />}
+
+            {calcMode === 'compare' || (outcome && !outcome.ok) ? null : !result ? (
               <p style={{ marginTop: 12, ...subtle }}>Select an item.</p>
             ) : (
               <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12, marginTop: 14 }}>
                 <div style={{ ...card, boxShadow: 'none' }}>
                   <h3 style={{ marginTop: 0, marginBottom: 10 }}>Weights (per pc)</h3>
                   <div style={{ display: 'grid', gap: 6 }}>
-                    <KV k="Box" v={`${result.perPc.boxG} g`} />
-                    <KV k="Cover" v={`${result.perPc.coverG} g`} />
-                    <KV k="Kunda" v={`${result.perPc.kundaG} g`} />
+                    {result.perPc.components.map(c => (
+                      <KV key={c.id} k={c.name} v={`${c.g} g`} />
+                    ))}
                     <KV k="Polybag" v={`${result.perPc.polybagG} g`} />
                     <KV k="Pipe" v={`${result.perPc.pipeG} g`} />
                     <div style={{ height: 1, background: tokens.border, margin: '6px 0' }} />
                     <KV k="Total packed" v={`${result.perPc.totalPackedG} g`} strong />
                   </div>
                   <div style={{ marginTop: 12, ...subtle }}>
-                    PCS per {settings.bagStandardKg}kg bag: <b style={{ color: tokens.text }}>{result.pcsPerBag}</b>
+                    PCS per {result.debug.bagKg}kg bag: <b style={{ color: tokens.text }}>{result.pcsPerBag}</b>
+                    {result.breakdown.packing.inners > 0 && ` · ${result.breakdown.packing.inners} inner packs of ${result.breakdown.packing.innerPcs}`}
                   </div>
                 </div>
 
@@ -692,22 +1017,77 @@ export default function App() {
                     <KV k="Per pc" v={`₹${result.perPcRate}`} strong />
                   </div>
 
-                  <details style={{ marginTop: 12 }}>
-                    <summary style={{ cursor: 'pointer', fontWeight: 700, color: tokens.text }}>Debug cost split</summary>
-                    <pre
-                      style={{
-                        background: '#f3f4f6',
-                        padding: 12,
-                        borderRadius: 12,
-                        overflow: 'auto',
-                        marginTop: 10,
-                        border: `1px solid ${tokens.border}`
-                      }}
-                    >
-{JSON.stringify(result.debug, null, 2)}
-                    </pre>
-                  </details>
                 </div>
+
+                {showRates && (
+                  <div style={{ ...card, boxShadow: 'none', gridColumn: '1 / -1' }}>
+                    <details>
+                      <summary style={{ cursor: 'pointer', fontWeight: 700, color: tokens.text }}>Cost breakdown</summary>
+                      <div style={{ marginTop: 10, overflowX: 'auto' }}>
+                        <CostReport breakdown={result.breakdown} />
+                      </div>
+                    </details>
+                  </div>
+                )}
+
+                {price && (
+                  <div style={{ ...card, boxShadow: 'none', gridColumn: '1 / -1' }}>
+                    <h3 style={{ marginTop: 0, marginBottom: 10 }}>Selling price</h3>
+                    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                      <thead>
+                        <tr style={{ textAlign: 'right', ...subtle }}>
+                          <th style={{ textAlign: 'left', padding: '4px 0' }}></th>
+                          <th>Per kg</th>
+                          <th>Per pc</th>
+                          <th>Per {result.debug.bagKg}kg bag</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {([
+                          ['Manufacturing cost', price.cost],
+                          [`Overhead (${price.pricing.overheadPct}%)`, price.overhead],
+                          ['Transport', price.transport],
+                          [`Margin (${price.pricing.marginPct}%)`, price.margin],
+                          [`Broker (${price.pricing.brokerPct}%)`, price.broker],
+                          ['Taxable value', price.taxable],
+                          [`GST (${price.pricing.gstPct}%)`, price.gst],
+                          ['Final selling price', price.final]
+                        ] as const).map(([label, line]) => {
+                          const strong = label === 'Taxable value' || label === 'Final selling price'
+                          return (
+                            <tr key={label} style={{ textAlign: 'right', fontWeight: strong ? 800 : 500, borderTop: `1px solid ${tokens.border}` }}>
+                              <td style={{ textAlign: 'left', padding: '6px 0', color: strong ? tokens.text : tokens.subtle }}>{label}</td>
+                              <td>₹{line.perKg}</td>
+                              <td>₹{line.perPc}</td>
+                              <td>₹{line.perBag}</td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                    {selected?.pricing && Object.keys(selected.pricing).length > 0 && (
+                      <div style={{ ...subtle, fontSize: 12, marginTop: 8 }}>This item has its own pricing overrides (Items tab).</div>
+                    )}
+
+                    {editable && (
+                      <details style={{ marginTop: 12 }}>
+                        <summary style={{ cursor: 'pointer', fontWeight: 700, color: tokens.text }}>Default pricing (all items)</summary>
+                        <div style={{ marginTop: 10, maxWidth: 520 }}>
+                          {PRICING_FIELDS.map(f => (
+                            <Num
+                              key={f.key}
+                              inputStyle={inputBase}
+                              label={f.label}
+                              value={resolvePricing(settings)[f.key]}
+                              onChange={(n) => onSaveSettings({ ...settings, pricing: { ...resolvePricing(settings), [f.key]: n } })}
+                              step={f.step}
+                            />
+                          ))}
+                        </div>
+                      </details>
+                    )}
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -753,9 +1133,11 @@ export default function App() {
                           >
                             {it.name}
                           </button>
-                          <button style={{ ...btnDanger, ...disabledStyle(busy) }} onClick={() => void onDelete(it.id)} disabled={busy}>
-                            Del
-                          </button>
+                          {editable && (
+                            <button style={{ ...btnDanger, ...disabledStyle(busy) }} onClick={() => void onDelete(it.id)} disabled={busy}>
+                              Del
+                            </button>
+                          )}
                         </div>
                       </div>
                     )
@@ -765,12 +1147,65 @@ export default function App() {
             </div>
 
             <div style={card}>
-              <h3 style={{ marginTop: 0 }}>Editor</h3>
-              {!selected ? <p style={subtle}>Select an item.</p> : <ItemEditor item={selected} onSave={onSaveItem} busy={busy} inputStyle={inputBase} tokens={tokens} />}
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 10 }}>
+                <h3 style={{ marginTop: 0 }}>
+                  {itemsView === 'edit' ? 'Editor' : itemsView === 'history' ? 'History' : itemsView === 'new' ? 'New from family' : 'Bulk edit'}
+                </h3>
+                <div style={pillTabs}>
+                  <button style={tabBtn(itemsView === 'edit')} onClick={() => setItemsView('edit')}>
+                    Edit
+                  </button>
+                  {editable && (
+                    <>
+                      <button style={tabBtn(itemsView === 'history')} onClick={() => setItemsView('history')}>
+                        History
+                      </button>
+                      <button style={tabBtn(itemsView === 'bulk')} onClick={() => setItemsView('bulk')}>
+                        Bulk edit
+                      </button>
+                      <button style={tabBtn(itemsView === 'new')} onClick={() => setItemsView('new')}>
+                        + New
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              {itemsView === 'new' ? (
+                <NewItemWizard settings={settings} costOf={costOf} onCreate={it => void onCreateFromFamily(it)} onCancel={() => setItemsView('edit')} busy={busy} />
+              ) : itemsView === 'bulk' ? (
+                <BulkEdit items={items} costOf={costOf} onCommit={onBulkSave} busy={busy} />
+              ) : !selected ? (
+                <p style={subtle}>Select an item.</p>
+              ) : itemsView === 'edit' ? (
+                <ItemEditor item={selected} materials={settings.materials} onSave={onSaveItem} readOnly={!editable} showRates={showRates} busy={busy} inputStyle={inputBase} tokens={tokens} />
+              ) : (
+                <HistoryView uid={ws ?? session.user.id} item={selected} reloadKey={historyKey} />
+              )}
             </div>
           </div>
         )}
 
+        {/* Quotation */}
+        {tab === 'quote' && <QuotationTab key={org?.id} items={items} settings={settings} costOf={costOf} readOnly={!editable} busy={busy} />}
+
+        {/* Production jobs */}
+        {tab === 'jobs' && <JobsTab key={org?.id} items={items} settings={settings} busy={busy} />}
+
+        {/* Job workers (karigar) ledger */}
+        {tab === 'workers' && <WorkersTab key={org?.id} items={items} busy={busy} />}
+
+        {/* Material master */}
+        {tab === 'materials' && <MaterialsTab settings={settings} items={items} onChange={onSaveSettings} busy={busy} />}
+
+        {/* Product-family catalog */}
+        {tab === 'catalog' && <CatalogTab settings={settings} onChange={onSaveSettings} busy={busy} />}
+
+        {/* Audit log */}
+        {tab === 'activity' && ws && <ActivityView uid={ws} items={items} settings={settings} onRevert={onRevert} reloadKey={historyKey} busy={busy} />}
+
+        {/* Organization members and invites */}
+        {tab === 'team' && org && <OrgTab key={org.id} org={org} userId={session.user.id} onOrgsChanged={() => void loadOrgs(session.user.id)} busy={busy} />}
+
         {/* Backup */}
         {tab === 'backup' && (
           <div style={card}>
@@ -805,8 +1240,54 @@ export default function App() {
               </label>
             </div>
 
+            <h3>Items spreadsheet</h3>
+            <div style={{ display: 'flex', gap: 10, alignItems: 'center', flexWrap: 'wrap' }}>
+              <button style={{ ...btnBase, ...disabledStyle(busy) }} onClick={() => void exportSheet('csv')} disabled={busy}>
+                Export CSV
+              </button>
+              <button style={{ ...btnBase, ...disabledStyle(busy) }} onClick={() => void exportSheet('xlsx')} disabled={busy}>
+                Export Excel
+              </button>
+
+              <label
+                style={{
+                  ...btnBase,
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  cursor: busy ? 'not-allowed' : 'pointer',
+                  opacity: busy ? 0.55 : 1
+                }}
+              >
+                Import CSV / Excel
+                <input
+                  type="file"
+                  accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  style={{ display: 'none' }}
+                  disabled={busy}
+                  onChange={(e) => {
+                    const f = e.target.files?.[0]
+                    if (f) void readSheet(f)
+                    e.currentTarget.value = ''
+                  }}
+                />
+              </label>
+            </div>
+            <p style={{ ...subtle, marginTop: 10 }}>
+              Rows with an existing id update that item; rows with a blank id are added as new items. Blank cells clear optional fields.
+            </p>
+            {sheetImport && (
+              <ImportPreview
+                fileName={sheetImport.fileName}
+                preview={sheetImport.preview}
+                onApply={applySheet}
+                onCancel={() => setSheetImport(null)}
+                busy={busy}
+              />
+            )}
+
             <p style={{ ...subtle, marginTop: 10 }}>
-              Export/Import still works. Cloud is primary storage now.
+              Export/Import still works. This device is primary storage; changes sync to the cloud when online.
             </p>
           </div>
         )}
@@ -815,51 +1296,443 @@ export default function App() {
   )
 }
 
-function KV({ k, v, strong }: { k: string; v: string; strong?: boolean }) {
+function SyncBadge({ status }: { status: SyncStatus }) {
+  const look: Record<SyncStatus['state'], { label: string; color: string; bg: string }> = {
+    synced: { label: 'Synced', color: '#156c2f', bg: '#f3fbf5' },
+    pending: { label: `Pending (${status.pending})`, color: '#8a5a00', bg: '#fffaf0' },
+    syncing: { label: 'Syncing…', color: '#374151', bg: '#f3f4f6' },
+    conflicted: { label: `Conflicted (${status.conflicts})`, color: '#b00020', bg: '#fff7f7' },
+    offline: { label: status.pending ? `Offline (${status.pending} queued)` : 'Offline', color: '#6b7280', bg: '#f3f4f6' },
+    error: { label: 'Sync error', color: '#b00020', bg: '#fff7f7' }
+  }
+  const l = look[status.state]
+  const title = status.lastSyncAt ? `Last sync: ${new Date(status.lastSyncAt).toLocaleString()}` : 'Not synced yet'
+
+  return (
+    <span
+      title={title}
+      style={{ padding: '4px 10px', borderRadius: 999, border: '1px solid #e5e7eb', background: l.bg, color: l.color, fontWeight: 700, fontSize: 12 }}
+    >
+      {l.label}
+    </span>
+  )
+}
+
+// Validation summary (ItemEditor, Calculator); nothing when there are no issues
+function IssueList({ issues, title }: { issues: FieldIssue[]; title: string }) {
+  if (!issues.length) return null
+  const error = issues[0].level === 'error'
+  return (
+    <div
+      style={{
+        marginTop: 12,
+        borderRadius: 12,
+        padding: '10px 12px',
+        border: `1px solid ${error ? '#f1c6c6' : '#f3dfb0'}`,
+        background: error ? '#fff7f7' : '#fffaf0',
+        color: error ? '#b00020' : '#8a5a00'
+      }}
+    >
+      <div style={{ fontWeight: 800, marginBottom: 4 }}>{title}</div>
+      {issues.map(i => (
+        <div key={`${i.path}:${i.message}`} style={{ fontSize: 13 }}>
+          {i.message}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Placeholder for blank override inputs
+function masterLabel(rate: number | undefined): string {
+  return rate === undefined ? 'no master rate' : `master ₹${rate}`
+}
+
+// Material option label; viewers see the name only
+function rateLabel(m: { name: string; ratePerKg: number }, showRates: boolean): string {
+  return showRates ? `${m.name} (₹${m.ratePerKg}/kg)` : m.name
+}
+
+function smallBtnStyle(border: string): React.CSSProperties {
+  return { padding: '4px 8px', borderRadius: 8, border: `1px solid ${border}`, background: '#fff', cursor: 'pointer', fontWeight: 700 }
+}
+
+function PartEditor({
+  part,
+  materials,
+  report,
+  onChange,
+  showRates,
+  inputStyle,
+  tokens
+}: {
+  part: PressedComponent
+  materials: MaterialMaster
+  report: ValidationReport
+  onChange: (p: PressedComponent) => void
+  showRates: boolean
+  inputStyle: React.CSSProperties
+  tokens: { subtle: string; border: string }
+}) {
+  const [preset, setPreset] = useState<StagePreset>('annealing')
+  const name = part.name || 'Part'
+  const at = (field: string) => issueAt(report, `components.${part.id}.${field}`)
+
+  function setStage(i: number, patch: Partial<ProcessStage>) {
+    onChange({ ...part, stages: part.stages.map((s, j) => (j === i ? { ...s, ...patch } : s)) })
+  }
+
+  const smallBtn = smallBtnStyle(tokens.border)
+
+  return (
+    <div>
+      <Num inputStyle={inputStyle} label={`${name} circle (inch)`} issue={at('circleSizeIn')} value={part.circleSizeIn} onChange={(n) => onChange({ ...part, circleSizeIn: n })} step={0.01} />
+      <Num inputStyle={inputStyle} label={`${name} thickness (mm)`} issue={at('thicknessMm')} value={part.thicknessMm} onChange={(n) => onChange({ ...part, thicknessMm: n })} step={0.01} />
+      <Pick
+        inputStyle={inputStyle}
+        label={`${name} metal grade`}
+        issue={at('grade')}
+        value={part.grade ?? ''}
+        options={[{ value: '', label: 'Match circle' }, ...materials.grades.map(g => ({ value: g.key, label: `${g.name} (${g.densityGcc} g/cc)` }))]}
+        onChange={(v) => onChange({ ...part, grade: v || undefined })}
+      />
+      <Pick
+        inputStyle={inputStyle}
+        label={`${name} circle material`}
+        issue={at('circleMaterial')}
+        value={part.circleMaterial ?? ''}
+        options={[{ value: '', label: 'Match thickness' }, ...materials.circles.map(c => ({ value: c.key, label: rateLabel(c, showRates) }))]}
+        onChange={(v) => onChange({ ...part, circleMaterial: v || undefined })}
+      />
+      <BlankingEditor part={part} materials={materials} report={report} onChange={onChange} showRates={showRates} inputStyle={inputStyle} tokens={tokens} />
+      {showRates && !part.blanking?.enabled && (
+        <OptNum
+          inputStyle={inputStyle}
+          label={`${name} circle rate override (₹/kg)`}
+          issue={at('circleRatePerKg')}
+          value={part.circleRatePerKg}
+          placeholder={masterLabel(circleMaterialFor(part, materials)?.ratePerKg)}
+          onChange={(n) => onChange({ ...part, circleRatePerKg: n })}
+          step={1}
+        />
+      )}
+
+      {part.stages.map((s, i) => (
+        <div key={s.id} style={{ border: `1px solid ${tokens.border}`, borderRadius: 12, padding: 10, marginBottom: 10, opacity: s.enabled ? 1 : 0.7 }}>
+          <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 10, flexWrap: 'wrap' }}>
+            <span style={{ color: tokens.subtle, fontWeight: 700 }}>{i + 1}.</span>
+            <input style={{ ...inputStyle, width: 180, ...(at(`stages.${s.id}.name`) ? { borderColor: '#b00020' } : {}) }} value={s.name} onChange={(e) => setStage(i, { name: e.target.value })} />
+            <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+              <input type="checkbox" checked={s.enabled} onChange={(e) => setStage(i, { enabled: e.target.checked })} />
+              <span style={{ fontWeight: 700, color: '#374151' }}>Enabled</span>
+            </label>
+            <span style={{ flex: 1 }} />
+            <button style={smallBtn} onClick={() => onChange({ ...part, stages: moveStage(part.stages, i, -1) })} disabled={i === 0}>↑</button>
+            <button style={smallBtn} onClick={() => onChange({ ...part, stages: moveStage(part.stages, i, 1) })} disabled={i === part.stages.length - 1}>↓</button>
+            <button style={{ ...smallBtn, color: '#7a0b0b' }} onClick={() => onChange({ ...part, stages: part.stages.filter((_, j) => j !== i) })}>✕</button>
+          </div>
+
+          <label style={{ display: 'grid', gridTemplateColumns: '240px 1fr', gap: 10, alignItems: 'center', marginBottom: 10 }}>
+            <span style={{ color: '#374151', fontWeight: 600 }}>Charged on</span>
+            <select style={inputStyle} value={s.chargeBasis} onChange={(e) => setStage(i, { chargeBasis: e.target.value as ChargeBasis })}>
+              <option value="outputKg">Output kg (delivered)</option>
+              <option value="inputKg">Input kg (issued)</option>
+              <option value="perPc">Per piece</option>
+            </select>
+          </label>
+          {showRates && (
+            <Num inputStyle={inputStyle} label={s.chargeBasis === 'perPc' ? 'Rate (₹/pc)' : 'Rate (₹/kg)'} issue={at(`stages.${s.id}.rate`)} value={s.rate} onChange={(n) => setStage(i, { rate: n })} step={s.chargeBasis === 'perPc' ? 0.01 : 1} />
+          )}
+          <Num inputStyle={inputStyle} label="Actual wastage % (weight)" issue={at(`stages.${s.id}.actualWastagePct`)} value={s.actualWastagePct} onChange={(n) => setStage(i, { actualWastagePct: n })} step={0.1} />
+          <Num inputStyle={inputStyle} label="Job wastage % (kept / lost)" issue={at(`stages.${s.id}.jobWastagePct`)} value={s.jobWastagePct} onChange={(n) => setStage(i, { jobWastagePct: n })} step={0.1} />
+          <Num inputStyle={inputStyle} label="Tut % (scrap)" issue={at(`stages.${s.id}.tutPct`)} value={s.tutPct} onChange={(n) => setStage(i, { tutPct: n })} step={0.1} />
+          <label style={{ display: 'flex', gap: 10, alignItems: 'center', marginBottom: 10 }}>
+            <input
+              type="checkbox"
+              checked={s.scrapReturn.enabled}
+              onChange={(e) => setStage(i, { scrapReturn: { ...s.scrapReturn, enabled: e.target.checked } })}
+            />
+            <span style={{ fontWeight: 700, color: '#374151' }}>Scrap return on tut</span>
+          </label>
+          {s.scrapReturn.enabled && showRates && (
+            <OptNum
+              inputStyle={inputStyle}
+              label="Scrap rate override (₹/kg)"
+              issue={at(`stages.${s.id}.scrapReturn.ratePerKg`)}
+              value={s.scrapReturn.ratePerKg}
+              placeholder={masterLabel(materials.scrapRatePerKg)}
+              onChange={(n) => setStage(i, { scrapReturn: { ...s.scrapReturn, ratePerKg: n } })}
+              step={1}
+            />
+          )}
+        </div>
+      ))}
+
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 10 }}>
+        <select style={{ ...inputStyle, width: 'auto' }} value={preset} onChange={(e) => setPreset(e.target.value as StagePreset)}>
+          {(Object.keys(STAGE_PRESETS) as StagePreset[]).map(k => (
+            <option key={k} value={k}>
+              {STAGE_PRESETS[k].name}
+            </option>
+          ))}
+        </select>
+        <button style={smallBtn} onClick={() => onChange({ ...part, stages: [...part.stages, newStage(preset, makeId('st'))] })}>
+          + Add stage
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// Circles cut in-house: the sheet / coil, how they nest and what comes back as offcut
+function BlankingEditor({
+  part,
+  materials,
+  report,
+  onChange,
+  showRates,
+  inputStyle,
+  tokens
+}: {
+  part: PressedComponent
+  materials: MaterialMaster
+  report: ValidationReport
+  onChange: (p: PressedComponent) => void
+  showRates: boolean
+  inputStyle: React.CSSProperties
+  tokens: { subtle: string; border: string }
+}) {
+  const name = part.name || 'Part'
+  const b = part.blanking
+  const at = (field: string) => issueAt(report, `components.${part.id}.blanking.${field}`)
+  const set = (patch: Partial<BlankingSpec>) => b && onChange({ ...part, blanking: { ...b, ...patch } })
+
+  const fits = b && b.widthIn > 0 && b.gapIn >= 0 && part.circleSizeIn > 0 && nestCircles(b, part.circleSizeIn).circles > 0
+  const y = b && fits ? blankingYield(part, b, materials) : null
+
   return (
-    <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12 }}>
-      <div style={{ color: '#6b7280' }}>{k}</div>
-      <div style={{ fontWeight: strong ? 800 : 700 }}>{v}</div>
+    <div style={{ marginBottom: 10 }}>
+      <label style={{ display: 'flex', gap: 10, alignItems: 'center', marginBottom: 10 }}>
+        <input
+          type="checkbox"
+          checked={!!b?.enabled}
+          onChange={(e) =>
+            onChange({ ...part, blanking: b ? { ...b, enabled: e.target.checked } : newBlanking(circleMaterialFor(part, materials)?.ratePerKg ?? 0) })
+          }
+        />
+        <span style={{ fontWeight: 700, color: '#374151' }}>{name}: cut circles from sheet / coil</span>
+      </label>
+      {b?.enabled && (
+        <div style={{ border: `1px solid ${tokens.border}`, borderRadius: 12, padding: 10 }}>
+          <Pick
+            inputStyle={inputStyle}
+            label="Cut from"
+            value={b.source}
+            options={[
+              { value: 'sheet', label: 'Sheet' },
+              { value: 'coil', label: 'Coil (per metre of strip)' }
+            ]}
+            onChange={(v) => set({ source: v as BlankingSpec['source'] })}
+          />
+          <Pick
+            inputStyle={inputStyle}
+            label="Nesting"
+            value={b.layout}
+            options={[
+              { value: 'hex', label: 'Hex (rows offset half a pitch)' },
+              { value: 'square', label: 'Square grid' }
+            ]}
+            onChange={(v) => set({ layout: v as NestingLayout })}
+          />
+          <Num inputStyle={inputStyle} label={`${b.source === 'coil' ? 'Coil' : 'Sheet'} width (inch)`} issue={at('widthIn')} value={b.widthIn} onChange={(n) => set({ widthIn: n })} step={0.5} />
+          {b.source === 'sheet' && <Num inputStyle={inputStyle} label="Sheet length (inch)" issue={at('lengthIn')} value={b.lengthIn} onChange={(n) => set({ lengthIn: n })} step={0.5} />}
+          <Num inputStyle={inputStyle} label="Gap between circles (inch)" issue={at('gapIn')} value={b.gapIn} onChange={(n) => set({ gapIn: n })} step={0.025} />
+          {showRates && <Num inputStyle={inputStyle} label={`${b.source === 'coil' ? 'Coil' : 'Sheet'} rate (₹/kg)`} issue={at('ratePerKg')} value={b.ratePerKg} onChange={(n) => set({ ratePerKg: n })} step={1} />}
+          <label style={{ display: 'flex', gap: 10, alignItems: 'center', marginBottom: 10 }}>
+            <input type="checkbox" checked={b.offcut.enabled} onChange={(e) => set({ offcut: { ...b.offcut, enabled: e.target.checked } })} />
+            <span style={{ fontWeight: 700, color: '#374151' }}>Offcut back as scrap</span>
+          </label>
+          {b.offcut.enabled && showRates && (
+            <OptNum
+              inputStyle={inputStyle}
+              label="Offcut scrap rate override (₹/kg)"
+              issue={at('offcut.ratePerKg')}
+              value={b.offcut.ratePerKg}
+              placeholder={masterLabel(materials.scrapRatePerKg)}
+              onChange={(n) => set({ offcut: { ...b.offcut, ratePerKg: n } })}
+              step={1}
+            />
+          )}
+          {y && (
+            <div style={{ color: tokens.subtle, fontSize: 13 }}>
+              {Math.round(y.circlesPerSheet * 100) / 100} circles per {b.source === 'coil' ? 'metre' : 'sheet'} · {Math.round(y.sheetKgPerCircle * 1000)} g{' '}
+              {b.source} per circle · {Math.round((y.circleKg / y.sheetKgPerCircle) * 1000) / 10}% yield
+            </div>
+          )}
+        </div>
+      )}
     </div>
   )
 }
 
-function Num({
-  label,
-  value,
+// No packaging => the settings bag, fractional pcs
+function PackagingEditor({
+  packaging: p,
+  report,
   onChange,
-  step = 0.01,
+  showRates,
   inputStyle
 }: {
-  label: string
-  value: number
-  onChange: (n: number) => void
-  step?: number
+  packaging: Packaging | undefined
+  report: ValidationReport
+  onChange: (p: Packaging | undefined) => void
+  showRates: boolean
   inputStyle: React.CSSProperties
 }) {
+  const at = (field: string) => issueAt(report, `packaging.${field}`)
+  const set = (patch: Partial<Packaging>) => p && onChange({ ...p, ...patch })
+
   return (
-    <label style={{ display: 'grid', gridTemplateColumns: '240px 1fr', gap: 10, alignItems: 'center', marginBottom: 10 }}>
-      <span style={{ color: '#374151', fontWeight: 600 }}>{label}</span>
-      <input style={inputStyle} type="number" step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} />
-    </label>
+    <>
+      <Pick
+        inputStyle={inputStyle}
+        label="Bag"
+        value={p?.target ?? ''}
+        options={[
+          { value: '', label: 'Settings bag (kg, fractional pcs)' },
+          { value: 'kg', label: 'Own bag weight' },
+          { value: 'pcs', label: 'Fixed pcs per bag' }
+        ]}
+        onChange={(v) => onChange(v ? { ...(p ?? { rounding: 'floor' }), target: v as Packaging['target'] } : undefined)}
+      />
+      {p && (
+        <>
+          {p.target === 'kg' ? (
+            <OptNum inputStyle={inputStyle} label="Bag weight (kg)" issue={at('bagKg')} value={p.bagKg} placeholder="settings bag" onChange={(n) => set({ bagKg: n })} step={1} />
+          ) : (
+            <OptNum inputStyle={inputStyle} label="PCS per bag" issue={at('pcsPerBag')} value={p.pcsPerBag} placeholder="required" onChange={(n) => set({ pcsPerBag: n })} step={1} />
+          )}
+          <OptNum inputStyle={inputStyle} label="PCS per inner pack" issue={at('innerPcs')} value={p.innerPcs} placeholder="loose in the bag" onChange={(n) => set({ innerPcs: n })} step={1} />
+          <Pick
+            inputStyle={inputStyle}
+            label="Rounding"
+            value={p.rounding}
+            options={[
+              { value: 'floor', label: p.innerPcs ? 'Whole inner packs (round down)' : 'Whole pieces (round down)' },
+              { value: 'none', label: 'None (fractional pcs)' }
+            ]}
+            onChange={(v) => set({ rounding: v as Packaging['rounding'] })}
+          />
+          {showRates && (
+            <>
+              {p.innerPcs !== undefined && (
+                <OptNum inputStyle={inputStyle} label="Inner pack cost (₹/pack)" issue={at('innerCostPerPack')} value={p.innerCostPerPack} placeholder="0" onChange={(n) => set({ innerCostPerPack: n })} step={0.5} />
+              )}
+              <OptNum inputStyle={inputStyle} label="Bag / carton cost (₹/bag)" issue={at('bagCost')} value={p.bagCost} placeholder="0" onChange={(n) => set({ bagCost: n })} step={1} />
+            </>
+          )}
+        </>
+      )}
+    </>
+  )
+}
+
+// Weight basis: grade rate from the kunda master unless overridden; piece basis: ₹/pc on the item
+function PurchasedEditor({
+  part,
+  materials,
+  report,
+  onChange,
+  showRates,
+  inputStyle
+}: {
+  part: PurchasedComponent
+  materials: MaterialMaster
+  report: ValidationReport
+  onChange: (p: PurchasedComponent) => void
+  showRates: boolean
+  inputStyle: React.CSSProperties
+}) {
+  const name = part.name || 'Part'
+  const at = (field: string) => issueAt(report, `components.${part.id}.${field}`)
+  const grade = kundaGradeFor(part, materials)
+
+  return (
+    <div>
+      <Pick
+        inputStyle={inputStyle}
+        label="Costed by"
+        value={part.basis}
+        options={[
+          { value: 'weight', label: 'Weight (₹/kg)' },
+          { value: 'piece', label: 'Piece (₹/pc)' }
+        ]}
+        onChange={(v) => onChange({ ...part, basis: v as PurchasedComponent['basis'] })}
+      />
+      <Num inputStyle={inputStyle} label={`${name} weight (g)`} issue={at('weightG')} value={part.weightG} onChange={(n) => onChange({ ...part, weightG: n })} step={1} />
+      {part.basis === 'weight' ? (
+        <>
+          <Pick
+            inputStyle={inputStyle}
+            label={`${name} grade`}
+            issue={at('grade')}
+            value={grade?.key ?? ''}
+            options={materials.kunda.map(g => ({ value: g.key, label: rateLabel(g, showRates) }))}
+            onChange={(v) => onChange({ ...part, grade: v })}
+          />
+          {showRates && (
+            <OptNum
+              inputStyle={inputStyle}
+              label={`${name} rate override (₹/kg)`}
+              issue={at('ratePerKg')}
+              value={part.ratePerKg}
+              placeholder={masterLabel(grade?.ratePerKg)}
+              onChange={(n) => onChange({ ...part, ratePerKg: n })}
+              step={1}
+            />
+          )}
+        </>
+      ) : (
+        showRates && (
+          <OptNum
+            inputStyle={inputStyle}
+            label={`${name} rate (₹/pc)`}
+            issue={at('ratePerPc')}
+            value={part.ratePerPc}
+            placeholder="no rate"
+            onChange={(n) => onChange({ ...part, ratePerPc: n })}
+            step={0.01}
+          />
+        )
+      )}
+    </div>
   )
 }
 
 function ItemEditor({
   item,
+  materials,
   onSave,
+  readOnly,
+  showRates,
   busy,
   inputStyle,
   tokens
 }: {
   item: Item
+  materials: MaterialMaster
   onSave: (it: Item) => Promise<void>
+  readOnly: boolean
+  showRates: boolean
   busy: boolean
   inputStyle: React.CSSProperties
   tokens: { danger: string; ok: string; subtle: string; border: string }
 }) {
   const [it, setIt] = useState<Item>(item)
   const [localMsg, setLocalMsg] = useState<string>('')
+  const report = validateItem(it, materials)
+  const at = (path: string) => issueAt(report, path)
+  const invalid = report.errors.length > 0
 
   useEffect(() => {
     setIt(item)
@@ -867,18 +1740,10 @@ function ItemEditor({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [item.id])
 
-  function ensureInduction(part: Item['box']): Item['box'] {
-    if (part.induction) return part
-    return { ...part, induction: { enabled: false, ratePerKg: 10 } }
-  }
-
-  const box = ensureInduction(it.box)
-  const cover = ensureInduction(it.cover)
-
   async function saveNow() {
     setLocalMsg('')
     try {
-      const next: Item = { ...it, box, cover }
+      const next: Item = it
       await onSave(next)
       setLocalMsg('Saved.')
       setIt(next)
@@ -887,7 +1752,15 @@ function ItemEditor({
     }
   }
 
+  function addComponent(kind: 'pressed' | 'purchased') {
+    const name = kind === 'pressed' ? 'New part' : 'Bought part'
+    const id = newComponentId(it, name)
+    setIt({ ...it, components: [...it.components, kind === 'pressed' ? newPressedComponent(it, id, name) : newPurchasedComponent(id, name)] })
+  }
+
   const sectionTitle: React.CSSProperties = { marginTop: 18, marginBottom: 10, fontWeight: 900, letterSpacing: -0.1 }
+  const smallBtn = smallBtnStyle(tokens.border)
+  const filmOptions = [{ value: '', label: 'Match gauge' }, ...materials.polythene.map(p => ({ value: p.key, label: rateLabel(p, showRates) }))]
 
   return (
     <div>
@@ -908,129 +1781,164 @@ function ItemEditor({
         </div>
       )}
 
-      <label style={{ display: 'grid', gap: 6, marginBottom: 12 }}>
-        <span style={{ color: '#374151', fontWeight: 800 }}>Item name</span>
-        <input
-          style={inputStyle}
-          value={it.name}
-          onChange={(e) => setIt({ ...it, name: e.target.value })}
-        />
-      </label>
+      {readOnly && (
+        <div style={{ marginBottom: 12, color: tokens.subtle, fontWeight: 700 }}>Read-only: viewers can see items but not change them.</div>
+      )}
 
-      <div style={sectionTitle}>Box</div>
-      <Num inputStyle={inputStyle} label="Box circle (inch)" value={box.circleSizeIn} onChange={(n) => setIt({ ...it, box: { ...box, circleSizeIn: n } })} step={0.01} />
-      <Num inputStyle={inputStyle} label="Box thickness (mm)" value={box.thicknessMm} onChange={(n) => setIt({ ...it, box: { ...box, thicknessMm: n } })} step={0.01} />
-      <Num inputStyle={inputStyle} label="Box press rate (₹/kg)" value={box.press.ratePerKg} onChange={(n) => setIt({ ...it, box: { ...box, press: { ...box.press, ratePerKg: n } } })} step={1} />
-      <Num inputStyle={inputStyle} label="Box actual wastage % (weight)" value={box.press.actualWastagePct} onChange={(n) => setIt({ ...it, box: { ...box, press: { ...box.press, actualWastagePct: n } } })} step={0.1} />
-      <Num inputStyle={inputStyle} label="Box job wastage % (kept)" value={box.press.jobWastagePct} onChange={(n) => setIt({ ...it, box: { ...box, press: { ...box.press, jobWastagePct: n } } })} step={0.1} />
-      <Num inputStyle={inputStyle} label="Box tut % (scrap)" value={box.press.tutPct} onChange={(n) => setIt({ ...it, box: { ...box, press: { ...box.press, tutPct: n } } })} step={0.1} />
+      <fieldset disabled={readOnly} style={{ border: 0, padding: 0, margin: 0, minWidth: 0 }}>
+        <label style={{ display: 'grid', gap: 6, marginBottom: 12 }}>
+          <span style={{ color: '#374151', fontWeight: 800 }}>Item name</span>
+          <input
+            style={at('name') ? { ...inputStyle, borderColor: tokens.danger } : inputStyle}
+            value={it.name}
+            onChange={(e) => setIt({ ...it, name: e.target.value })}
+          />
+        </label>
+
+        <div style={sectionTitle}>Components</div>
+        {at('components') && <div style={{ marginBottom: 10, color: tokens.danger, fontWeight: 700 }}>{at('components')?.message}</div>}
+        {it.components.map((c, i) => (
+          <div key={c.id} style={{ border: `1px solid ${tokens.border}`, borderRadius: 14, padding: 12, marginBottom: 12 }}>
+            <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 10, flexWrap: 'wrap' }}>
+              <input
+                style={{ ...inputStyle, width: 200, fontWeight: 800, ...(at(`components.${c.id}.name`) ? { borderColor: tokens.danger } : {}) }}
+                value={c.name}
+                onChange={(e) => setIt(replaceComponent(it, { ...c, name: e.target.value }))}
+              />
+              <span style={{ color: tokens.subtle, fontWeight: 700 }}>{c.kind === 'pressed' ? 'Pressed from circle' : 'Purchased'}</span>
+              <span style={{ flex: 1 }} />
+              <button style={smallBtn} onClick={() => setIt(moveComponent(it, c.id, -1))} disabled={i === 0}>↑</button>
+              <button style={smallBtn} onClick={() => setIt(moveComponent(it, c.id, 1))} disabled={i === it.components.length - 1}>↓</button>
+              <button style={{ ...smallBtn, color: '#7a0b0b' }} onClick={() => setIt({ ...it, components: it.components.filter(x => x.id !== c.id) })}>✕</button>
+            </div>
+            {c.kind === 'pressed' ? (
+              <PartEditor part={c} materials={materials} report={report} onChange={(p) => setIt(replaceComponent(it, p))} showRates={showRates} inputStyle={inputStyle} tokens={tokens} />
+            ) : (
+              <PurchasedEditor part={c} materials={materials} report={report} onChange={(p) => setIt(replaceComponent(it, p))} showRates={showRates} inputStyle={inputStyle} />
+            )}
+          </div>
+        ))}
+        <div style={{ display: 'flex', gap: 8, marginBottom: 10 }}>
+          <button style={smallBtn} onClick={() => addComponent('pressed')}>
+            + Pressed part
+          </button>
+          <button style={smallBtn} onClick={() => addComponent('purchased')}>
+            + Purchased part
+          </button>
+        </div>
 
-      <label style={{ display: 'flex', gap: 10, alignItems: 'center', marginBottom: 10 }}>
-        <input
-          type="checkbox"
-          checked={!!box.induction?.enabled}
-          onChange={(e) =>
-            setIt({ ...it, box: { ...box, induction: { enabled: e.target.checked, ratePerKg: box.induction?.ratePerKg ?? 10 } } })
-          }
+        <div style={sectionTitle}>Packing</div>
+        {showRates && (
+          <Num inputStyle={inputStyle} label="Packing rate (₹/kg, full bag)" issue={at('packing.packingRatePerKg')} value={it.packing.packingRatePerKg} onChange={(n) => setIt({ ...it, packing: { ...it.packing, packingRatePerKg: n } })} step={1} />
+        )}
+        <PackagingEditor packaging={it.packaging} report={report} onChange={(packaging) => setIt({ ...it, packaging })} showRates={showRates} inputStyle={inputStyle} />
+
+        <div style={sectionTitle}>Pricing overrides (blank = default)</div>
+        {PRICING_FIELDS.map(f => (
+          <OptNum
+            key={f.key}
+            inputStyle={inputStyle}
+            label={f.label}
+            issue={at(`pricing.${f.key}`)}
+            value={it.pricing?.[f.key]}
+            onChange={(n) => {
+              const pricing = { ...(it.pricing || {}) }
+              if (n === undefined) delete pricing[f.key]
+              else pricing[f.key] = n
+              setIt({ ...it, pricing })
+            }}
+            step={f.step}
+          />
+        ))}
+
+        <div style={sectionTitle}>Bag (polybag + pipe)</div>
+        <Num inputStyle={inputStyle} label="Polybag size (inch)" issue={at('bagProfile.polybag.sizeIn')} value={it.bagProfile.polybag.sizeIn} onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, polybag: { ...it.bagProfile.polybag, sizeIn: n } } })} step={1} />
+        <Num inputStyle={inputStyle} label="Polybag gauge" issue={at('bagProfile.polybag.gauge')} value={it.bagProfile.polybag.gauge} onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, polybag: { ...it.bagProfile.polybag, gauge: n } } })} step={1} />
+        <Pick
+          inputStyle={inputStyle}
+          label="Polybag polythene"
+          issue={at('bagProfile.polybag.material')}
+          value={it.bagProfile.polybag.material ?? ''}
+          options={filmOptions}
+          onChange={(v) => setIt({ ...it, bagProfile: { ...it.bagProfile, polybag: { ...it.bagProfile.polybag, material: v || undefined } } })}
         />
-        <span style={{ fontWeight: 700, color: '#374151' }}>Enable Induction (Box)</span>
-      </label>
-      <Num
-        inputStyle={inputStyle}
-        label="Induction rate (Box) ₹/kg"
-        value={box.induction?.ratePerKg ?? 10}
-        onChange={(n) => setIt({ ...it, box: { ...box, induction: { enabled: box.induction?.enabled ?? false, ratePerKg: n } } })}
-        step={1}
-      />
-
-      <div style={sectionTitle}>Cover</div>
-      <Num inputStyle={inputStyle} label="Cover circle (inch)" value={cover.circleSizeIn} onChange={(n) => setIt({ ...it, cover: { ...cover, circleSizeIn: n } })} step={0.01} />
-      <Num inputStyle={inputStyle} label="Cover thickness (mm)" value={cover.thicknessMm} onChange={(n) => setIt({ ...it, cover: { ...cover, thicknessMm: n } })} step={0.01} />
-      <Num inputStyle={inputStyle} label="Cover press rate (₹/kg)" value={cover.press.ratePerKg} onChange={(n) => setIt({ ...it, cover: { ...cover, press: { ...cover.press, ratePerKg: n } } })} step={1} />
-      <Num inputStyle={inputStyle} label="Cover actual wastage % (weight)" value={cover.press.actualWastagePct} onChange={(n) => setIt({ ...it, cover: { ...cover, press: { ...cover.press, actualWastagePct: n } } })} step={0.1} />
-      <Num inputStyle={inputStyle} label="Cover job wastage % (kept)" value={cover.press.jobWastagePct} onChange={(n) => setIt({ ...it, cover: { ...cover, press: { ...cover.press, jobWastagePct: n } } })} step={0.1} />
-      <Num inputStyle={inputStyle} label="Cover tut % (scrap)" value={cover.press.tutPct} onChange={(n) => setIt({ ...it, cover: { ...cover, press: { ...cover.press, tutPct: n } } })} step={0.1} />
+        {showRates && (
+          <OptNum
+            inputStyle={inputStyle}
+            label="Polybag rate override (₹/kg)"
+            issue={at('bagProfile.polybag.ratePerKg')}
+            value={it.bagProfile.polybag.ratePerKg}
+            placeholder={masterLabel(polytheneFor(it.bagProfile.polybag, materials)?.ratePerKg)}
+            onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, polybag: { ...it.bagProfile.polybag, ratePerKg: n } } })}
+            step={1}
+          />
+        )}
 
-      <label style={{ display: 'flex', gap: 10, alignItems: 'center', marginBottom: 10 }}>
-        <input
-          type="checkbox"
-          checked={!!cover.induction?.enabled}
-          onChange={(e) =>
-            setIt({ ...it, cover: { ...cover, induction: { enabled: e.target.checked, ratePerKg: cover.induction?.ratePerKg ?? 10 } } })
-          }
+        <Num inputStyle={inputStyle} label="Pipe width (inch)" issue={at('bagProfile.pipe.widthIn')} value={it.bagProfile.pipe.widthIn} onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, pipe: { ...it.bagProfile.pipe, widthIn: n } } })} step={1} />
+        <Num inputStyle={inputStyle} label="Pipe length (inch)" issue={at('bagProfile.pipe.lengthIn')} value={it.bagProfile.pipe.lengthIn} onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, pipe: { ...it.bagProfile.pipe, lengthIn: n } } })} step={1} />
+        <Num inputStyle={inputStyle} label="Pipe gauge" issue={at('bagProfile.pipe.gauge')} value={it.bagProfile.pipe.gauge} onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, pipe: { ...it.bagProfile.pipe, gauge: n } } })} step={1} />
+        <Num inputStyle={inputStyle} label="PCS per pipe" issue={at('bagProfile.pipe.pcsPerPipe')} value={it.bagProfile.pipe.pcsPerPipe} onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, pipe: { ...it.bagProfile.pipe, pcsPerPipe: n } } })} step={1} />
+        <Pick
+          inputStyle={inputStyle}
+          label="Pipe polythene"
+          issue={at('bagProfile.pipe.material')}
+          value={it.bagProfile.pipe.material ?? ''}
+          options={filmOptions}
+          onChange={(v) => setIt({ ...it, bagProfile: { ...it.bagProfile, pipe: { ...it.bagProfile.pipe, material: v || undefined } } })}
         />
-        <span style={{ fontWeight: 700, color: '#374151' }}>Enable Induction (Cover)</span>
-      </label>
-      <Num
-        inputStyle={inputStyle}
-        label="Induction rate (Cover) ₹/kg"
-        value={cover.induction?.ratePerKg ?? 10}
-        onChange={(n) => setIt({ ...it, cover: { ...cover, induction: { enabled: cover.induction?.enabled ?? false, ratePerKg: n } } })}
-        step={1}
-      />
-
-      <div style={sectionTitle}>Polish (shared)</div>
-      <Num inputStyle={inputStyle} label="Polish rate (₹/kg)" value={it.polish.ratePerKg} onChange={(n) => setIt({ ...it, polish: { ...it.polish, ratePerKg: n } })} step={1} />
-      <Num inputStyle={inputStyle} label="Polish wastage % (weight)" value={it.polish.wastagePct} onChange={(n) => setIt({ ...it, polish: { ...it.polish, wastagePct: n } })} step={0.1} />
-      <Num inputStyle={inputStyle} label="Polish tut % (scrap)" value={it.polish.tutPct} onChange={(n) => setIt({ ...it, polish: { ...it.polish, tutPct: n } })} step={0.1} />
-
-      <div style={sectionTitle}>Packing</div>
-      <Num inputStyle={inputStyle} label="Packing rate (₹/kg)" value={it.packing.packingRatePerKg} onChange={(n) => setIt({ ...it, packing: { ...it.packing, packingRatePerKg: n } })} step={1} />
-      <Num inputStyle={inputStyle} label="Packing tut % (scrap)" value={it.packing.tutPct} onChange={(n) => setIt({ ...it, packing: { ...it.packing, tutPct: n } })} step={0.1} />
+        {showRates && (
+          <OptNum
+            inputStyle={inputStyle}
+            label="Pipe rate override (₹/kg)"
+            issue={at('bagProfile.pipe.ratePerKg')}
+            value={it.bagProfile.pipe.ratePerKg}
+            placeholder={masterLabel(polytheneFor(it.bagProfile.pipe, materials)?.ratePerKg)}
+            onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, pipe: { ...it.bagProfile.pipe, ratePerKg: n } } })}
+            step={1}
+          />
+        )}
 
-      <div style={sectionTitle}>Kunda</div>
-      <label style={{ display: 'flex', gap: 10, alignItems: 'center', marginBottom: 10 }}>
-        <input type="checkbox" checked={it.kunda.enabled} onChange={(e) => setIt({ ...it, kunda: { ...it.kunda, enabled: e.target.checked } })} />
-        <span style={{ fontWeight: 700, color: '#374151' }}>Enable kunda</span>
-      </label>
-      <Num inputStyle={inputStyle} label="Kunda weight (g)" value={it.kunda.weightG} onChange={(n) => setIt({ ...it, kunda: { ...it.kunda, weightG: n } })} step={1} />
-      <Num inputStyle={inputStyle} label="Kunda rate (₹/kg)" value={it.kunda.ratePerKg} onChange={(n) => setIt({ ...it, kunda: { ...it.kunda, ratePerKg: n } })} step={1} />
-
-      <div style={sectionTitle}>Bag (polybag + pipe)</div>
-      <Num inputStyle={inputStyle} label="Polybag size (inch)" value={it.bagProfile.polybag.sizeIn} onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, polybag: { ...it.bagProfile.polybag, sizeIn: n } } })} step={1} />
-      <Num inputStyle={inputStyle} label="Polybag gauge" value={it.bagProfile.polybag.gauge} onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, polybag: { ...it.bagProfile.polybag, gauge: n } } })} step={1} />
-      <Num inputStyle={inputStyle} label="Polybag rate (₹/kg)" value={it.bagProfile.polybag.ratePerKg} onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, polybag: { ...it.bagProfile.polybag, ratePerKg: n } } })} step={1} />
-
-      <Num inputStyle={inputStyle} label="Pipe width (inch)" value={it.bagProfile.pipe.widthIn} onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, pipe: { ...it.bagProfile.pipe, widthIn: n } } })} step={1} />
-      <Num inputStyle={inputStyle} label="Pipe length (inch)" value={it.bagProfile.pipe.lengthIn} onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, pipe: { ...it.bagProfile.pipe, lengthIn: n } } })} step={1} />
-      <Num inputStyle={inputStyle} label="Pipe gauge" value={it.bagProfile.pipe.gauge} onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, pipe: { ...it.bagProfile.pipe, gauge: n } } })} step={1} />
-      <Num inputStyle={inputStyle} label="PCS per pipe" value={it.bagProfile.pipe.pcsPerPipe} onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, pipe: { ...it.bagProfile.pipe, pcsPerPipe: n } } })} step={1} />
-      <Num inputStyle={inputStyle} label="Pipe rate (₹/kg)" value={it.bagProfile.pipe.ratePerKg} onChange={(n) => setIt({ ...it, bagProfile: { ...it.bagProfile, pipe: { ...it.bagProfile.pipe, ratePerKg: n } } })} step={1} />
-
-      <div style={{ display: 'flex', gap: 10, marginTop: 16 }}>
-        <button
-          onClick={() => void saveNow()}
-          disabled={busy}
-          style={{
-            padding: '10px 12px',
-            borderRadius: 12,
-            border: '1px solid #111',
-            background: '#111',
-            color: '#fff',
-            cursor: busy ? 'not-allowed' : 'pointer',
-            fontWeight: 800,
-            opacity: busy ? 0.6 : 1
-          }}
-        >
-          {busy ? 'Saving…' : 'Save'}
-        </button>
+      </fieldset>
+
+      {!readOnly && <IssueList issues={report.errors} title={`${report.errors.length} error(s), fix before saving`} />}
+      {!readOnly && <IssueList issues={report.warnings} title={`${report.warnings.length} warning(s)`} />}
+
+      {!readOnly && (
+        <div style={{ display: 'flex', gap: 10, marginTop: 16 }}>
+          <button
+            onClick={() => void saveNow()}
+            disabled={busy || invalid}
+            style={{
+              padding: '10px 12px',
+              borderRadius: 12,
+              border: '1px solid #111',
+              background: '#111',
+              color: '#fff',
+              cursor: busy || invalid ? 'not-allowed' : 'pointer',
+              fontWeight: 800,
+              opacity: busy || invalid ? 0.6 : 1
+            }}
+          >
+            {busy ? 'Saving…' : 'Save'}
+          </button>
 
-        <button
-          onClick={() => setIt(item)}
-          disabled={busy}
-          style={{
-            padding: '10px 12px',
-            borderRadius: 12,
-            border: `1px solid ${tokens.border}`,
-            background: '#fff',
-            cursor: busy ? 'not-allowed' : 'pointer',
-            fontWeight: 800,
-            opacity: busy ? 0.6 : 1
-          }}
-        >
-          Reset
-        </button>
-      </div>
+          <button
+            onClick={() => setIt(item)}
+            disabled={busy}
+            style={{
+              padding: '10px 12px',
+              borderRadius: 12,
+              border: `1px solid ${tokens.border}`,
+              background: '#fff',
+              cursor: busy ? 'not-allowed' : 'pointer',
+              fontWeight: 800,
+              opacity: busy ? 0.6 : 1
+            }}
+          >
+            Reset
+          </button>
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,171 @@
+// BulkEdit.tsx
+import React, { useState } from 'react'
+import type { Item } from '../types'
+import type { CalcOutcome } from '../calc'
+import { filterItems, numericPaths, previewBulk } from '../bulk'
+import type { BulkCondition, BulkMode } from '../bulk'
+import { btnBase, btnPrimary, disabledStyle, inputBase, subtle, tokens } from './styles'
+
+const OPS: { value: BulkCondition['op']; label: string }[] = [
+  { value: 'eq', label: '=' },
+  { value: 'ne', label: '≠' },
+  { value: 'gt', label: '>' },
+  { value: 'lt', label: '<' }
+]
+
+const MODES: { value: BulkMode; label: string }[] = [
+  { value: 'set', label: 'Set to' },
+  { value: 'add', label: 'Add (±)' },
+  { value: 'pct', label: 'Change by %' }
+]
+
+function fmt(n: number | undefined) {
+  return n === undefined ? '—' : String(n)
+}
+
+function perKg(o: CalcOutcome): number | null {
+  return o.ok ? o.result.perKgRate : null
+}
+
+export default function BulkEdit({
+  items,
+  costOf,
+  onCommit,
+  busy
+}: {
+  items: Item[]
+  costOf: (it: Item) => CalcOutcome
+  onCommit: (next: Item[]) => Promise<void>
+  busy: boolean
+}) {
+  const [namePattern, setNamePattern] = useState('')
+  const [conditions, setConditions] = useState<BulkCondition[]>([])
+  const [path, setPath] = useState('components.*.stages.polish.rate')
+  const [mode, setMode] = useState<BulkMode>('add')
+  const [value, setValue] = useState<number>(0)
+
+  const filter = { namePattern, conditions }
+  const matched = filterItems(items, filter)
+  const rows = path.trim() ? previewBulk(items, filter, { path: path.trim(), mode, value }, costOf) : []
+  const paths = numericPaths(items)
+  const broken = rows.filter(r => !r.after.ok).length
+  const blocked = busy || !rows.length || broken > 0
+
+  function setCondition(i: number, patch: Partial<BulkCondition>) {
+    setConditions(prev => prev.map((c, j) => (j === i ? { ...c, ...patch } : c)))
+  }
+
+  async function commit() {
+    if (!rows.length || broken) return
+    const ok = window.confirm(`Update ${rows.length} item(s)? This saves them right away.`)
+    if (!ok) return
+    await onCommit(rows.map(r => r.next))
+  }
+
+  const th: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', color: tokens.subtle, fontWeight: 700 }
+  const td: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', borderTop: `1px solid ${tokens.border}` }
+  const row: React.CSSProperties = { display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap', marginBottom: 10 }
+
+  return (
+    <div>
+      <datalist id="bulk-paths">
+        {paths.map(p => (
+          <option key={p} value={p} />
+        ))}
+      </datalist>
+
+      <div style={{ fontWeight: 800, marginBottom: 8 }}>1. Which items</div>
+      <div style={row}>
+        <input
+          style={{ ...inputBase, width: 260 }}
+          placeholder="Name contains (or use * e.g. Plain*light*)"
+          value={namePattern}
+          onChange={(e) => setNamePattern(e.target.value)}
+        />
+        <button style={btnBase} onClick={() => setConditions(prev => [...prev, { path: 'bagProfile.name', op: 'eq', value: 'light' }])}>
+          + Field condition
+        </button>
+      </div>
+      {conditions.map((c, i) => (
+        <div key={i} style={row}>
+          <input style={{ ...inputBase, width: 260 }} list="bulk-paths" value={c.path} onChange={(e) => setCondition(i, { path: e.target.value })} />
+          <select style={{ ...inputBase, width: 'auto' }} value={c.op} onChange={(e) => setCondition(i, { op: e.target.value as BulkCondition['op'] })}>
+            {OPS.map(o => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+          <input style={{ ...inputBase, width: 120 }} value={c.value} onChange={(e) => setCondition(i, { value: e.target.value })} />
+          <button style={btnBase} onClick={() => setConditions(prev => prev.filter((_, j) => j !== i))}>
+            ✕
+          </button>
+        </div>
+      ))}
+      <div style={{ ...subtle, marginBottom: 14 }}>{matched.length} of {items.length} items match.</div>
+
+      <div style={{ fontWeight: 800, marginBottom: 8 }}>2. Change</div>
+      <div style={row}>
+        <input style={{ ...inputBase, width: 260 }} list="bulk-paths" placeholder="Field, e.g. *.stages.packing.tutPct" value={path} onChange={(e) => setPath(e.target.value)} />
+        <select style={{ ...inputBase, width: 'auto' }} value={mode} onChange={(e) => setMode(e.target.value as BulkMode)}>
+          {MODES.map(m => (
+            <option key={m.value} value={m.value}>
+              {m.label}
+            </option>
+          ))}
+        </select>
+        <input style={{ ...inputBase, width: 120 }} type="number" value={value} onChange={(e) => setValue(Number(e.target.value))} />
+      </div>
+
+      <div style={{ fontWeight: 800, margin: '14px 0 8px' }}>3. Preview</div>
+      {rows.length === 0 ? (
+        <p style={subtle}>Nothing would change.</p>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={{ ...th, textAlign: 'left' }}>Item</th>
+              <th style={{ ...th, textAlign: 'left' }}>Fields</th>
+              <th style={th}>₹/kg before</th>
+              <th style={th}>₹/kg after</th>
+              <th style={th}>Δ</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(r => {
+              const before = perKg(r.before)
+              const after = perKg(r.after)
+              const delta = before !== null && after !== null ? Math.round((after - before) * 100) / 100 : 0
+              return (
+                <tr key={r.item.id}>
+                  <td style={{ ...td, textAlign: 'left' }}>{r.item.name}</td>
+                  <td style={{ ...td, textAlign: 'left', fontSize: 12 }}>
+                    {r.changes.map(c => (
+                      <div key={c.path}>
+                        <span style={{ fontFamily: 'monospace' }}>{c.path}</span> {fmt(c.from)} → <b>{c.to}</b>
+                      </div>
+                    ))}
+                  </td>
+                  <td style={td}>{before ?? 'invalid'}</td>
+                  <td style={{ ...td, fontWeight: 700, color: r.after.ok ? undefined : tokens.danger }}>
+                    {r.after.ok ? after : r.after.errors[0].message}
+                  </td>
+                  <td style={{ ...td, color: delta ? (delta > 0 ? tokens.danger : tokens.ok) : tokens.subtle }}>
+                    {delta === 0 ? '—' : `${delta > 0 ? '+' : ''}${delta}`}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <div style={{ marginTop: 14, display: 'flex', gap: 10, alignItems: 'center' }}>
+        <button style={{ ...btnPrimary, ...disabledStyle(blocked) }} onClick={() => void commit()} disabled={blocked}>
+          Apply to {rows.length} item(s)
+        </button>
+        {broken > 0 && <span style={{ color: tokens.danger, fontWeight: 700 }}>{broken} item(s) would become invalid</span>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,294 @@
+// CatalogTab.tsx
+import React, { useMemo, useState } from 'react'
+import type { AppSettings, BagChoice, ChargeBasis, FamilySize, PartTemplate, ProcessStage, ProductFamily } from '../types'
+import { defaultCatalog } from '../catalog'
+import { newStage } from '../stages'
+import { validateSettings } from '../validate'
+import { makeId } from '../seed'
+import { btnBase, btnDanger, card, danger, disabledStyle, inputBase, selectBase, subtle, tokens } from './styles'
+
+function newFamily(): ProductFamily {
+  const base = defaultCatalog()[0]
+  return { ...base, key: makeId('fam'), name: 'New family', sizes: [], kunda: { ...base.kunda } }
+}
+
+export default function CatalogTab({ settings, onChange, busy }: { settings: AppSettings; onChange: (next: AppSettings) => void; busy: boolean }) {
+  const catalog = settings.catalog
+  const [openKey, setOpenKey] = useState<string>(catalog[0]?.key ?? '')
+  const f = catalog.find(x => x.key === openKey)
+
+  const issues = useMemo(() => validateSettings(settings).errors.filter(e => e.path.startsWith('catalog.')), [settings])
+
+  function set(next: ProductFamily[]) {
+    onChange({ ...settings, catalog: next })
+  }
+
+  function patch(p: Partial<ProductFamily>) {
+    if (f) set(catalog.map(x => (x.key === f.key ? { ...x, ...p } : x)))
+  }
+
+  function patchSize(i: number, p: Partial<FamilySize>) {
+    if (f) patch({ sizes: f.sizes.map((z, j) => (j === i ? { ...z, ...p } : z)) })
+  }
+
+  function patchBag(i: number, p: Partial<BagChoice>) {
+    if (f) patch({ bags: f.bags.map((b, j) => (j === i ? { ...b, ...p } : b)) })
+  }
+
+  function patchPart(part: 'box' | 'cover', p: Partial<PartTemplate>) {
+    if (f) patch({ [part]: { ...f[part], ...p } })
+  }
+
+  function patchStage(part: 'box' | 'cover', id: string, p: Partial<ProcessStage>) {
+    if (f) patchPart(part, { stages: f[part].stages.map(s => (s.id === id ? { ...s, ...p } : s)) })
+  }
+
+  const th: React.CSSProperties = { textAlign: 'left', padding: '6px 4px', color: tokens.subtle, fontWeight: 700 }
+  const td: React.CSSProperties = { padding: '6px 4px', borderTop: `1px solid ${tokens.border}` }
+  const num: React.CSSProperties = { ...inputBase, width: 90 }
+
+  function numCell(value: number, on: (n: number) => void, step = 0.01) {
+    return (
+      <td style={td}>
+        <input style={num} type="number" step={step} value={value} onChange={(e) => on(Number(e.target.value))} />
+      </td>
+    )
+  }
+
+  function stageTable(part: 'box' | 'cover') {
+    if (!f) return null
+    return (
+      <div>
+        <div style={{ display: 'flex', gap: 10, alignItems: 'center', marginBottom: 8 }}>
+          <div style={{ fontWeight: 800 }}>{part === 'box' ? 'Box' : 'Cover'} default process</div>
+          <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+            <span style={subtle}>Thickness (mm)</span>
+            <input style={num} type="number" step={0.01} value={f[part].thicknessMm} onChange={(e) => patchPart(part, { thicknessMm: Number(e.target.value) })} />
+          </label>
+        </div>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={th}>On</th>
+              <th style={th}>Stage</th>
+              <th style={th}>Charge on</th>
+              <th style={th}>Rate</th>
+              <th style={th}>Actual %</th>
+              <th style={th}>Job %</th>
+              <th style={th}>Tut %</th>
+              <th style={th} />
+            </tr>
+          </thead>
+          <tbody>
+            {f[part].stages.map(s => (
+              <tr key={s.id}>
+                <td style={td}>
+                  <input type="checkbox" checked={s.enabled} onChange={(e) => patchStage(part, s.id, { enabled: e.target.checked })} />
+                </td>
+                <td style={td}>
+                  <input style={inputBase} value={s.name} onChange={(e) => patchStage(part, s.id, { name: e.target.value })} />
+                </td>
+                <td style={td}>
+                  <select style={selectBase} value={s.chargeBasis} onChange={(e) => patchStage(part, s.id, { chargeBasis: e.target.value as ChargeBasis })}>
+                    <option value="outputKg">kg out</option>
+                    <option value="inputKg">kg in</option>
+                    <option value="perPc">per pc</option>
+                  </select>
+                </td>
+                {numCell(s.rate, n => patchStage(part, s.id, { rate: n }))}
+                {numCell(s.actualWastagePct, n => patchStage(part, s.id, { actualWastagePct: n }))}
+                {numCell(s.jobWastagePct, n => patchStage(part, s.id, { jobWastagePct: n }))}
+                {numCell(s.tutPct, n => patchStage(part, s.id, { tutPct: n }))}
+                <td style={{ ...td, textAlign: 'right' }}>
+                  <button style={btnDanger} onClick={() => patchPart(part, { stages: f[part].stages.filter(x => x.id !== s.id) })}>
+                    Del
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button style={{ ...btnBase, marginTop: 8 }} onClick={() => patchPart(part, { stages: [...f[part].stages, newStage('custom', makeId('st'))] })}>
+          + Add stage
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ display: 'grid', gap: 14 }}>
+      <div style={card}>
+        <h3 style={{ marginTop: 0 }}>Product catalog</h3>
+        <p style={{ ...subtle, marginTop: 0 }}>
+          Size tables and defaults used by "New from family" on the Items tab. Changing a family does not change items already created from it.
+        </p>
+        {issues.map(i => (
+          <div key={i.path} style={{ ...danger, fontWeight: 700 }}>
+            {i.message}
+          </div>
+        ))}
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginTop: 10 }}>
+          {catalog.map(x => (
+            <button key={x.key} style={{ ...btnBase, ...(x.key === openKey ? { borderColor: tokens.text, fontWeight: 800 } : {}) }} onClick={() => setOpenKey(x.key)}>
+              {x.name || x.key}
+            </button>
+          ))}
+          <button
+            style={{ ...btnBase, ...disabledStyle(busy) }}
+            disabled={busy}
+            onClick={() => {
+              const nf = newFamily()
+              set([...catalog, nf])
+              setOpenKey(nf.key)
+            }}
+          >
+            + Add family
+          </button>
+        </div>
+      </div>
+
+      {f && (
+        <div style={card}>
+          <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'center', marginBottom: 12 }}>
+            <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+              <span style={{ fontWeight: 700 }}>Name</span>
+              <input style={{ ...inputBase, width: 200 }} value={f.name} onChange={(e) => patch({ name: e.target.value })} />
+            </label>
+            <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+              <span style={{ fontWeight: 700 }}>Packing ₹/kg</span>
+              <input style={num} type="number" value={f.packingRatePerKg} onChange={(e) => patch({ packingRatePerKg: Number(e.target.value) })} />
+            </label>
+            <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+              <input type="checkbox" checked={f.kunda.enabled} onChange={(e) => patch({ kunda: { ...f.kunda, enabled: e.target.checked } })} />
+              <span style={{ fontWeight: 700 }}>Kunda</span>
+            </label>
+            <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+              <span style={subtle}>g</span>
+              <input style={num} type="number" value={f.kunda.weightG} onChange={(e) => patch({ kunda: { ...f.kunda, weightG: Number(e.target.value) } })} />
+            </label>
+            <select style={selectBase} value={f.kunda.grade ?? ''} onChange={(e) => patch({ kunda: { ...f.kunda, grade: e.target.value || undefined } })}>
+              {settings.materials.kunda.map(g => (
+                <option key={g.key} value={g.key}>
+                  {g.name}
+                </option>
+              ))}
+            </select>
+            <span style={{ flex: 1 }} />
+            <button
+              style={{ ...btnDanger, ...disabledStyle(busy) }}
+              disabled={busy}
+              onClick={() => {
+                if (!window.confirm(`Delete family ${f.name}?`)) return
+                set(catalog.filter(x => x.key !== f.key))
+                setOpenKey(catalog.find(x => x.key !== f.key)?.key ?? '')
+              }}
+            >
+              Delete family
+            </button>
+          </div>
+
+          <div style={{ fontWeight: 800, marginBottom: 8 }}>Sizes (inch)</div>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={th}>Size</th>
+                <th style={th}>Box circle</th>
+                <th style={th}>Cover circle</th>
+                <th style={th}>Polybag</th>
+                <th style={th}>Pipe width</th>
+                <th style={th} />
+              </tr>
+            </thead>
+            <tbody>
+              {f.sizes.map((z, i) => (
+                <tr key={i}>
+                  {numCell(z.sizeIn, n => patchSize(i, { sizeIn: n }), 0.5)}
+                  {numCell(z.boxCircleIn, n => patchSize(i, { boxCircleIn: n }), 0.25)}
+                  {numCell(z.coverCircleIn, n => patchSize(i, { coverCircleIn: n }), 0.25)}
+                  {numCell(z.polybagIn, n => patchSize(i, { polybagIn: n }), 0.5)}
+                  {numCell(z.pipeWidthIn, n => patchSize(i, { pipeWidthIn: n }), 0.5)}
+                  <td style={{ ...td, textAlign: 'right' }}>
+                    <button style={btnDanger} onClick={() => patch({ sizes: f.sizes.filter((_, j) => j !== i) })}>
+                      Del
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            style={{ ...btnBase, marginTop: 8 }}
+            onClick={() => {
+              const last = f.sizes[f.sizes.length - 1]
+              patch({ sizes: [...f.sizes, last ? { ...last, sizeIn: last.sizeIn + 1 } : { sizeIn: 8, boxCircleIn: 7.75, coverCircleIn: 6, polybagIn: 9, pipeWidthIn: 8 }] })
+            }}
+          >
+            + Add size
+          </button>
+
+          <div style={{ fontWeight: 800, margin: '16px 0 8px' }}>Bag choices</div>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={th}>Bag</th>
+                <th style={th}>Polythene</th>
+                <th style={th}>Gauge</th>
+                <th style={th}>Pipe length</th>
+                <th style={th}>PCS / pipe</th>
+                <th style={th} />
+              </tr>
+            </thead>
+            <tbody>
+              {f.bags.map((b, i) => (
+                <tr key={i}>
+                  <td style={td}>
+                    <select style={selectBase} value={b.name} onChange={(e) => patchBag(i, { name: e.target.value as BagChoice['name'] })}>
+                      <option value="heavy">heavy</option>
+                      <option value="light">light</option>
+                    </select>
+                  </td>
+                  <td style={td}>
+                    <select
+                      style={selectBase}
+                      value={b.material ?? ''}
+                      onChange={(e) => {
+                        const g = settings.materials.polythene.find(x => x.key === e.target.value)
+                        patchBag(i, { material: g?.key, gauge: g ? g.gauge : b.gauge })
+                      }}
+                    >
+                      <option value="">Match gauge</option>
+                      {settings.materials.polythene.map(g => (
+                        <option key={g.key} value={g.key}>
+                          {g.name}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  {numCell(b.gauge, n => patchBag(i, { gauge: n }), 1)}
+                  {numCell(b.pipeLengthIn, n => patchBag(i, { pipeLengthIn: n }), 0.5)}
+                  {numCell(b.pcsPerPipe, n => patchBag(i, { pcsPerPipe: n }), 1)}
+                  <td style={{ ...td, textAlign: 'right' }}>
+                    <button style={btnDanger} onClick={() => patch({ bags: f.bags.filter((_, j) => j !== i) })}>
+                      Del
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            style={{ ...btnBase, marginTop: 8 }}
+            onClick={() => patch({ bags: [...f.bags, { name: 'light', gauge: 100, material: 'poly-100', pipeLengthIn: 25, pcsPerPipe: 8 }] })}
+          >
+            + Add bag
+          </button>
+
+          <div style={{ display: 'grid', gap: 16, marginTop: 16 }}>
+            {stageTable('box')}
+            {stageTable('cover')}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+// CompareView.tsx
+import React, { useState } from 'react'
+import type { Item } from '../types'
+import type { CalcOutcome } from '../calc'
+import { MAX_COMPARE, applyPatches, compareRows, entryLabel } from '../compare'
+import type { Better, CompareEntry, VariantPatch } from '../compare'
+import { numericPaths } from '../bulk'
+import { pressedComponents } from '../components'
+import { makeId } from '../seed'
+import { btnBase, card, disabledStyle, inputBase, selectBase, subtle, tokens } from './styles'
+
+function deltaColor(d: number | null, better: Better): string {
+  if (!d || !better) return tokens.subtle
+  const good = better === 'lower' ? d < 0 : d > 0
+  return good ? tokens.ok : tokens.danger
+}
+
+export default function CompareView({ items, selectedId, costOf }: { items: Item[]; selectedId: string; costOf: (it: Item) => CalcOutcome }) {
+  const [entries, setEntries] = useState<CompareEntry[]>(() => (selectedId ? [{ key: makeId('cmp'), itemId: selectedId, patches: [] }] : []))
+  const [baseline, setBaseline] = useState<string>(() => entries[0]?.key || '')
+  const [pick, setPick] = useState<string>(selectedId)
+
+  const byId = new Map(items.map(it => [it.id, it]))
+  const columns = entries
+    .filter(e => byId.has(e.itemId))
+    .map(e => {
+      const item = applyPatches(byId.get(e.itemId) as Item, e.patches)
+      return { entry: e, label: entryLabel(byId.get(e.itemId) as Item, e.patches), outcome: costOf(item) }
+    })
+  const baseIndex = Math.max(0, columns.findIndex(c => c.entry.key === baseline))
+  const rows = columns.length ? compareRows(columns.map(c => (c.outcome.ok ? c.outcome.result : null)), baseIndex) : []
+  const paths = numericPaths(items)
+  const full = entries.length >= MAX_COMPARE
+
+  function add(itemId: string, patches: VariantPatch[]) {
+    if (!itemId || full) return
+    const e = { key: makeId('cmp'), itemId, patches }
+    setEntries(prev => [...prev, e])
+    if (!entries.length) setBaseline(e.key)
+  }
+
+  // Starter variant: the first pressed component at 0.33 mm
+  function variantPatches(it: Item | undefined): VariantPatch[] {
+    const part = it ? pressedComponents(it)[0] : undefined
+    return part ? [{ path: `components.${part.id}.thicknessMm`, value: '0.33' }] : []
+  }
+
+  function setPatches(key: string, patches: VariantPatch[]) {
+    setEntries(prev => prev.map(e => (e.key === key ? { ...e, patches } : e)))
+  }
+
+  const th: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', verticalAlign: 'top', minWidth: 150 }
+  const td: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', borderTop: `1px solid ${tokens.border}` }
+  const small: React.CSSProperties = { ...inputBase, padding: '4px 6px', fontSize: 12 }
+
+  return (
+    <div style={{ ...card, boxShadow: 'none', marginTop: 12 }}>
+      <datalist id="compare-paths">
+        {paths.map(p => (
+          <option key={p} value={p} />
+        ))}
+      </datalist>
+
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap', marginBottom: 12 }}>
+        <select style={selectBase} value={pick} onChange={(e) => setPick(e.target.value)}>
+          {items.map(it => (
+            <option key={it.id} value={it.id}>
+              {it.name}
+            </option>
+          ))}
+        </select>
+        <button style={{ ...btnBase, ...disabledStyle(full) }} onClick={() => add(pick, [])} disabled={full}>
+          + Add item
+        </button>
+        <button style={{ ...btnBase, ...disabledStyle(full) }} onClick={() => add(pick, variantPatches(byId.get(pick)))} disabled={full}>
+          + Add variant
+        </button>
+        <span style={{ ...subtle, fontSize: 12 }}>
+          {entries.length}/{MAX_COMPARE} · variants are not saved
+        </span>
+      </div>
+
+      {columns.length < 2 && <p style={subtle}>Add at least two items or variants to compare.</p>}
+
+      {columns.length > 0 && (
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={{ ...th, textAlign: 'left', minWidth: 140 }} />
+                {columns.map(c => (
+                  <th key={c.entry.key} style={th}>
+                    <div style={{ fontWeight: 800, textAlign: 'right' }}>{c.label}</div>
+                    {!c.outcome.ok && (
+                      <div style={{ color: tokens.danger, fontSize: 12, fontWeight: 700, textAlign: 'right' }}>{c.outcome.errors[0].message}</div>
+                    )}
+                    <div style={{ display: 'flex', gap: 6, justifyContent: 'flex-end', alignItems: 'center', margin: '6px 0' }}>
+                      <label style={{ display: 'flex', gap: 4, alignItems: 'center', fontSize: 12, color: tokens.subtle }}>
+                        <input type="radio" checked={c.entry.key === columns[baseIndex].entry.key} onChange={() => setBaseline(c.entry.key)} />
+                        baseline
+                      </label>
+                      <button
+                        style={{ ...btnBase, padding: '2px 8px', fontSize: 12 }}
+                        onClick={() => setEntries(prev => prev.filter(e => e.key !== c.entry.key))}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                    {c.entry.patches.map((p, i) => (
+                      <div key={i} style={{ display: 'flex', gap: 4, marginBottom: 4 }}>
+                        <input
+                          style={{ ...small, width: 140 }}
+                          list="compare-paths"
+                          value={p.path}
+                          onChange={(e) => setPatches(c.entry.key, c.entry.patches.map((x, j) => (j === i ? { ...x, path: e.target.value } : x)))}
+                        />
+                        <input
+                          style={{ ...small, width: 70 }}
+                          value={p.value}
+                          onChange={(e) => setPatches(c.entry.key, c.entry.patches.map((x, j) => (j === i ? { ...x, value: e.target.value } : x)))}
+                        />
+                        <button
+                          style={{ ...btnBase, padding: '2px 6px', fontSize: 12 }}
+                          onClick={() => setPatches(c.entry.key, c.entry.patches.filter((_, j) => j !== i))}
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      style={{ ...btnBase, padding: '2px 8px', fontSize: 12, fontWeight: 600 }}
+                      onClick={() => setPatches(c.entry.key, [...c.entry.patches, { path: '', value: '' }])}
+                    >
+                      + change
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r, ri) => {
+                const header = r.metric.group !== rows[ri - 1]?.metric.group
+                return (
+                  <React.Fragment key={r.metric.key}>
+                    {header && (
+                      <tr>
+                        <td colSpan={columns.length + 1} style={{ ...td, textAlign: 'left', fontWeight: 800, paddingTop: 12 }}>
+                          {r.metric.group}
+                        </td>
+                      </tr>
+                    )}
+                    <tr>
+                      <td style={{ ...td, textAlign: 'left', color: tokens.subtle }}>{r.metric.label}</td>
+                      {r.values.map((v, i) => {
+                        const d = r.deltas[i]
+                        return (
+                          <td key={columns[i].entry.key} style={{ ...td, fontWeight: i === baseIndex ? 800 : 500 }}>
+                            {v ?? '—'}
+                            {d !== null && d !== 0 && (
+                              <span style={{ marginLeft: 6, fontSize: 12, color: deltaColor(d, r.metric.better) }}>
+                                ({d > 0 ? '+' : ''}
+                                {d})
+                              </span>
+                            )}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  </React.Fragment>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+// CostReport.tsx
+import React from 'react'
+import type { CostBreakdown } from '../types'
+import { waterfall } from '../breakdown'
+import { subtle, tokens } from './styles'
+
+const BASIS_LABEL = { inputKg: '/kg in', outputKg: '/kg out', perPc: '/pc' } as const
+
+// Where the per-kg rate comes from: waterfall first, then each pressed component's kg flow stage by stage
+export default function CostReport({ breakdown: b }: { breakdown: CostBreakdown }) {
+  const steps = waterfall(b)
+  const top = Math.max(...steps.map(s => Math.max(s.runningPerKg, s.runningPerKg - s.perKg)), 1)
+
+  const th: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', color: tokens.subtle, fontWeight: 700 }
+  const td: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', borderTop: `1px solid ${tokens.border}` }
+
+  return (
+    <div>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr>
+            <th style={{ ...th, textAlign: 'left' }}>Step</th>
+            <th style={th}>₹ / bag</th>
+            <th style={th}>₹ / kg</th>
+            <th style={th}>Running ₹ / kg</th>
+            <th style={{ ...th, width: '35%' }}></th>
+          </tr>
+        </thead>
+        <tbody>
+          {steps.map(s => {
+            const from = s.total ? 0 : Math.min(s.runningPerKg - s.perKg, s.runningPerKg)
+            const color = s.total ? tokens.text : s.amount < 0 ? '#156c2f' : tokens.danger
+            return (
+              <tr key={s.key} style={s.total ? { fontWeight: 800 } : undefined}>
+                <td style={{ ...td, textAlign: 'left' }}>
+                  {s.label} <span style={{ ...subtle, fontSize: 12, fontWeight: 400 }}>{s.detail}</span>
+                </td>
+                <td style={td}>{s.total ? s.amount : `${s.amount < 0 ? '−' : '+'}${Math.abs(s.amount)}`}</td>
+                <td style={td}>{s.perKg}</td>
+                <td style={{ ...td, fontWeight: 700 }}>{s.runningPerKg}</td>
+                <td style={td}>
+                  <div style={{ position: 'relative', height: 12 }}>
+                    <div
+                      style={{
+                        position: 'absolute',
+                        left: `${(from / top) * 100}%`,
+                        width: `${Math.max((Math.abs(s.perKg) / top) * 100, 0.5)}%`,
+                        top: 0,
+                        bottom: 0,
+                        background: color,
+                        opacity: s.total ? 0.8 : 0.6,
+                        borderRadius: 3
+                      }}
+                    />
+                  </div>
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+
+      {b.parts.map(p => (
+        <div key={p.part} style={{ marginTop: 14 }}>
+          <div style={{ fontWeight: 800, marginBottom: 4 }}>
+            {p.name}{' '}
+            <span style={{ ...subtle, fontWeight: 400 }}>
+              · {p.grade ? `${p.grade} (${p.densityGcc} g/cc) · ` : ''}
+              {p.circleKgIn} kg circle in → {p.packedKg} kg packed
+            </span>
+          </div>
+          {p.blanking && (
+            <div style={{ ...subtle, marginBottom: 4 }}>
+              Cut from {p.blanking.source} ({p.blanking.layout} nesting): {p.blanking.circlesPerSheet} circles per {p.blanking.source === 'coil' ? 'metre' : 'sheet'},{' '}
+              {p.blanking.yieldPct}% yield · {p.blanking.circles} circles = {p.blanking.sheetKgIn} kg @ ₹{p.blanking.sheetRatePerKg} (₹{p.blanking.sheetCost}) − {p.blanking.offcutKg} kg offcut
+              (₹{p.blanking.offcutCredit}) = ₹{p.blanking.circleRatePerKg}/kg circle
+            </div>
+          )}
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={{ ...th, textAlign: 'left' }}>Stage</th>
+                <th style={th}>Kg in</th>
+                <th style={th}>Kg out</th>
+                <th style={th}>Tut kg</th>
+                <th style={th}>Kept kg</th>
+                <th style={th}>Rate</th>
+                <th style={th}>Charge ₹</th>
+                <th style={th}>Scrap credit ₹</th>
+              </tr>
+            </thead>
+            <tbody>
+              {p.stages.map(s => (
+                <tr key={s.stageId}>
+                  <td style={{ ...td, textAlign: 'left' }}>{s.name}</td>
+                  <td style={td}>{s.kgIn}</td>
+                  <td style={td}>{s.kgOut}</td>
+                  <td style={td}>{s.tutKg}</td>
+                  <td style={td}>{s.keptKg}</td>
+                  <td style={{ ...td, ...subtle }}>
+                    ₹{s.rate}
+                    {BASIS_LABEL[s.chargeBasis]}
+                  </td>
+                  <td style={td}>{s.charge}</td>
+                  <td style={td}>{s.scrapCredit}</td>
+                </tr>
+              ))}
+              <tr style={{ fontWeight: 700 }}>
+                <td style={{ ...td, textAlign: 'left' }}>Part cost (circle ₹{p.circleCost})</td>
+                <td style={td} colSpan={5}></td>
+                <td style={td}>{p.chargeTotal}</td>
+                <td style={td}>{p.scrapCredit}</td>
+              </tr>
+            </tbody>
+          </table>
+          <div style={{ ...subtle, marginTop: 4 }}>
+            ₹{p.circleCost} + ₹{p.chargeTotal} − ₹{p.scrapCredit} = <b style={{ color: tokens.text }}>₹{p.cost}</b>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+// HistoryView.tsx
+import React, { useEffect, useState } from 'react'
+import type { Item, ItemSnapshot } from '../types'
+import { listItemHistory } from '../history'
+import type { HistoryRow } from '../history'
+import { diffFields } from '../fields'
+import { danger, inputBase, subtle, tokens } from './styles'
+
+function fmt(v: unknown): string {
+  if (v === undefined) return '—'
+  return String(v)
+}
+
+export default function HistoryView({ uid, item, reloadKey }: { uid: string; item: Item; reloadKey: number }) {
+  const [rows, setRows] = useState<HistoryRow[]>([])
+  const [aId, setAId] = useState<string>('')
+  const [bId, setBId] = useState<string>('')
+  const [msg, setMsg] = useState<string>('')
+
+  useEffect(() => {
+    let alive = true
+    listItemHistory(uid, item.id)
+      .then(r => {
+        if (!alive) return
+        setRows(r)
+        const versions = r.filter(x => x.source === 'item')
+        setAId(versions[versions.length - 2]?.snapshot.id || versions[0]?.snapshot.id || '')
+        setBId(versions[versions.length - 1]?.snapshot.id || '')
+      })
+      .catch(e => setMsg((e as Error).message || 'Could not load history'))
+    return () => {
+      alive = false
+    }
+  }, [uid, item.id, reloadKey])
+
+  const versions = rows.filter(r => r.source === 'item').map(r => r.snapshot as ItemSnapshot)
+  const a = versions.find(v => v.id === aId)
+  const b = versions.find(v => v.id === bId)
+  const changes = a && b ? diffFields(a.item, b.item) : []
+
+  const th: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', color: tokens.subtle, fontWeight: 700 }
+  const td: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', borderTop: `1px solid ${tokens.border}` }
+
+  if (msg) return <div style={danger}>{msg}</div>
+  if (!rows.length) return <p style={subtle}>No saved versions yet. A version is recorded on every save.</p>
+
+  return (
+    <div>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr>
+            <th style={{ ...th, textAlign: 'left' }}>When</th>
+            <th style={{ ...th, textAlign: 'left' }}>Change</th>
+            <th style={th}>₹/kg</th>
+            <th style={th}>₹/pc</th>
+            <th style={th}>Δ ₹/kg</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows
+            .map((r, i) => {
+              const prev = rows[i - 1]
+              const delta = prev?.perKgRate != null && r.perKgRate != null ? r.perKgRate - prev.perKgRate : null
+              return (
+                <tr key={r.snapshot.id}>
+                  <td style={{ ...td, textAlign: 'left' }}>{new Date(r.at).toLocaleString()}</td>
+                  <td style={{ ...td, textAlign: 'left' }}>{r.source === 'item' ? `Item v${r.version}` : `Settings v${r.version}`}</td>
+                  <td style={td}>{fmt(r.perKgRate)}</td>
+                  <td style={td}>{fmt(r.perPcRate)}</td>
+                  <td style={{ ...td, color: delta ? (delta > 0 ? tokens.danger : tokens.ok) : tokens.subtle }}>
+                    {delta == null || delta === 0 ? '—' : `${delta > 0 ? '+' : ''}${Math.round(delta * 100) / 100}`}
+                  </td>
+                </tr>
+              )
+            })
+            .reverse()}
+        </tbody>
+      </table>
+
+      {versions.length >= 2 && (
+        <div style={{ marginTop: 16 }}>
+          <div style={{ fontWeight: 800, marginBottom: 8 }}>Compare versions</div>
+          <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 10 }}>
+            <select style={{ ...inputBase, width: 'auto' }} value={aId} onChange={(e) => setAId(e.target.value)}>
+              {versions.map(v => (
+                <option key={v.id} value={v.id}>
+                  v{v.version} · {new Date(v.at).toLocaleDateString()}
+                </option>
+              ))}
+            </select>
+            <span style={subtle}>→</span>
+            <select style={{ ...inputBase, width: 'auto' }} value={bId} onChange={(e) => setBId(e.target.value)}>
+              {versions.map(v => (
+                <option key={v.id} value={v.id}>
+                  v{v.version} · {new Date(v.at).toLocaleDateString()}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {changes.length === 0 ? (
+            <p style={subtle}>No field changes.</p>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th style={{ ...th, textAlign: 'left' }}>Field</th>
+                  <th style={th}>From</th>
+                  <th style={th}>To</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map(c => (
+                  <tr key={c.path}>
+                    <td style={{ ...td, textAlign: 'left', fontFamily: 'monospace' }}>{c.path}</td>
+                    <td style={td}>{fmt(c.from)}</td>
+                    <td style={{ ...td, fontWeight: 700 }}>{fmt(c.to)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {a && b && (
+            <div style={{ ...subtle, marginTop: 8 }}>
+              Rate v{a.version}: ₹{a.result.perKgRate}/kg, ₹{a.result.perPcRate}/pc → v{b.version}: ₹{b.result.perKgRate}/kg, ₹{b.result.perPcRate}/pc
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+// ImportPreview.tsx
+import React from 'react'
+import type { Item } from '../types'
+import { importable } from '../tabular'
+import type { ImportPreview as Preview, ImportRow } from '../tabular'
+import { btnBase, btnPrimary, danger, disabledStyle, subtle, tokens } from './styles'
+
+const KIND_LABEL: Record<ImportRow['kind'], string> = {
+  create: 'New',
+  update: 'Update',
+  unchanged: 'No change',
+  error: 'Error'
+}
+
+function fmt(v: unknown): string {
+  return v === undefined ? '—' : String(v)
+}
+
+// What a spreadsheet import would do, row by row; nothing is written until Apply
+export default function ImportPreview({
+  fileName,
+  preview,
+  onApply,
+  onCancel,
+  busy
+}: {
+  fileName: string
+  preview: Preview
+  onApply: (items: Item[]) => Promise<void>
+  onCancel: () => void
+  busy: boolean
+}) {
+  const count = (k: ImportRow['kind']) => preview.rows.filter(r => r.kind === k).length
+  const writes = importable(preview)
+  const errors = count('error')
+
+  async function apply() {
+    const skip = errors ? `\n\n${errors} row(s) with errors will be skipped.` : ''
+    if (!window.confirm(`Import ${count('create')} new and ${count('update')} changed item(s)?${skip}`)) return
+    await onApply(writes)
+  }
+
+  const th: React.CSSProperties = { textAlign: 'left', padding: '6px 4px', color: tokens.subtle, fontWeight: 700 }
+  const td: React.CSSProperties = { textAlign: 'left', padding: '6px 4px', borderTop: `1px solid ${tokens.border}`, verticalAlign: 'top' }
+
+  return (
+    <div style={{ marginTop: 14 }}>
+      <div style={{ display: 'flex', gap: 10, alignItems: 'center', flexWrap: 'wrap', marginBottom: 10 }}>
+        <b style={{ flex: 1 }}>{fileName}</b>
+        <span style={subtle}>
+          {count('create')} new · {count('update')} update · {count('unchanged')} unchanged · {errors} error
+        </span>
+        <button style={btnBase} onClick={onCancel} disabled={busy}>
+          Cancel
+        </button>
+        <button style={{ ...btnPrimary, ...disabledStyle(busy || !writes.length) }} onClick={() => void apply()} disabled={busy || !writes.length}>
+          Apply
+        </button>
+      </div>
+
+      {preview.unknownColumns.length > 0 && (
+        <div style={{ ...subtle, marginBottom: 10 }}>Ignored columns (not an item field): {preview.unknownColumns.join(', ')}</div>
+      )}
+      {!preview.rows.length && <div style={danger}>The file has no item rows.</div>}
+
+      {preview.rows.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={th}>Row</th>
+              <th style={th}>Item</th>
+              <th style={th}>Action</th>
+              <th style={th}>Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {preview.rows.map(r => (
+              <tr key={r.line}>
+                <td style={td}>{r.line}</td>
+                <td style={td}>{r.name || '—'}</td>
+                <td style={{ ...td, fontWeight: 700, color: r.kind === 'error' ? tokens.danger : undefined }}>{KIND_LABEL[r.kind]}</td>
+                <td style={{ ...td, fontSize: 12 }}>
+                  {r.errors.map((e, i) => (
+                    <div key={i} style={{ color: tokens.danger }}>
+                      {e}
+                    </div>
+                  ))}
+                  {r.template && <div style={subtle}>Stages laid out like "{r.template}"</div>}
+                  {r.changes.map(c => (
+                    <div key={c.path}>
+                      <span style={{ fontFamily: 'monospace' }}>{c.path}</span> {fmt(c.from)} → <b>{fmt(c.to)}</b>
+                    </div>
+                  ))}
+                  {r.warnings.map((w, i) => (
+                    <div key={`w${i}`} style={subtle}>
+                      ⚠ {w}
+                    </div>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
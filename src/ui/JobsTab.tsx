@@ -0,0 +1,321 @@
+// JobsTab.tsx
+import React, { useEffect, useMemo, useState } from 'react'
+import type { AppSettings, Item, Job, JobStageActual, JobStagePlan } from '../types'
+import { issueText } from '../validate'
+import { jobVariance, nextJobNumber, planJob, setActual } from '../jobs'
+import { componentName } from '../components'
+import { deleteJob, listJobs, upsertJob } from '../db'
+import { makeId } from '../seed'
+import { KV } from './controls'
+import { btnBase, btnDanger, btnPrimary, card, danger, disabledStyle, inputBase, selectBase, subtle, tokens } from './styles'
+
+type Draft = { number: string; itemId: string; bags: number; date: string }
+
+function today(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+function emptyDraft(saved: Job[]): Draft {
+  return { number: nextJobNumber(saved), itemId: '', bags: 10, date: today() }
+}
+
+function kg(n: number) {
+  return `${Math.round(n * 1000) / 1000} kg`
+}
+
+function signed(n: number, unit = '') {
+  const r = Math.round(n * 100) / 100
+  return `${r > 0 ? '+' : ''}${r}${unit}`
+}
+
+// Blank input => not weighed yet
+function KgInput({ value, onChange, disabled }: { value?: number; onChange: (n: number | undefined) => void; disabled: boolean }) {
+  return (
+    <input
+      style={{ ...inputBase, width: 90, textAlign: 'right' }}
+      type="number"
+      step={0.001}
+      value={value ?? ''}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+    />
+  )
+}
+
+export default function JobsTab({
+  items,
+  settings,
+  busy
+}: {
+  items: Item[]
+  settings: AppSettings
+  busy: boolean
+}) {
+  const [saved, setSaved] = useState<Job[]>([])
+  const [draft, setDraft] = useState<Draft>(() => emptyDraft([]))
+  const [open, setOpen] = useState<Job | null>(null)
+  const [working, setWorking] = useState(false)
+  const [msg, setMsg] = useState<string>('')
+
+  async function reload() {
+    try {
+      const js = await listJobs()
+      setSaved(js)
+      return js
+    } catch (e) {
+      setMsg((e as Error).message || 'Could not load jobs')
+      return []
+    }
+  }
+
+  useEffect(() => {
+    void reload().then(js => setDraft(d => (d.itemId ? d : emptyDraft(js))))
+  }, [])
+
+  const itemById = useMemo(() => new Map(items.map(i => [i.id, i])), [items])
+  const variance = useMemo(() => (open ? jobVariance(open) : null), [open])
+
+  async function save(j: Job) {
+    try {
+      setWorking(true)
+      setMsg('')
+      await upsertJob(j)
+      const js = await reload()
+      setOpen(js.find(x => x.id === j.id) ?? j)
+      return js
+    } catch (e) {
+      setMsg((e as Error).message || 'Save failed')
+      return null
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  async function onCreate() {
+    const it = itemById.get(draft.itemId)
+    if (!it) {
+      setMsg('Pick an item')
+      return
+    }
+    const out = planJob(it, settings, draft.bags)
+    if (!out.ok) {
+      setMsg(issueText(`Cannot plan "${it.name}"`, out.errors))
+      return
+    }
+    const job: Job = {
+      id: makeId('job'),
+      number: draft.number,
+      itemId: it.id,
+      itemName: it.name,
+      date: draft.date,
+      status: 'open',
+      notes: '',
+      plan: out.plan,
+      actuals: []
+    }
+    const js = await save(job)
+    if (js) setDraft(emptyDraft(js))
+  }
+
+  // Plan again from today's item (e.g. the item was corrected); weighed actuals are kept
+  async function onReplan(j: Job) {
+    const it = itemById.get(j.itemId)
+    if (!it) {
+      setMsg(`Item "${j.itemName}" no longer exists`)
+      return
+    }
+    if (!window.confirm(`Re-plan ${j.number} from the current "${it.name}"?`)) return
+    const out = planJob(it, settings, j.plan.bags)
+    if (!out.ok) {
+      setMsg(issueText(`Cannot plan "${it.name}"`, out.errors))
+      return
+    }
+    const keep = new Set(out.plan.stages.map(s => `${s.part}.${s.stageId}`))
+    await save({ ...j, itemName: it.name, plan: out.plan, actuals: j.actuals.filter(a => keep.has(`${a.part}.${a.stageId}`)) })
+  }
+
+  async function onDelete(j: Job) {
+    if (!window.confirm(`Delete job ${j.number}?`)) return
+    try {
+      setWorking(true)
+      setMsg('')
+      await deleteJob(j.id)
+      await reload()
+      if (open?.id === j.id) setOpen(null)
+    } catch (e) {
+      setMsg((e as Error).message || 'Delete failed')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  function patch(s: JobStagePlan, p: Partial<JobStageActual>) {
+    if (open) setOpen(setActual(open, s, p))
+  }
+
+  const disabled = busy || working
+  const closed = open?.status === 'closed'
+  const th: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', color: tokens.subtle, fontWeight: 700 }
+  const td: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', borderTop: `1px solid ${tokens.border}` }
+  const bad = (n: number) => (n < 0 ? { color: tokens.danger, fontWeight: 700 } : {})
+
+  return (
+    <div style={{ display: 'grid', gap: 14 }}>
+      <div style={card}>
+        <h3 style={{ marginTop: 0 }}>New job</h3>
+
+        {msg && <div style={{ ...danger, marginBottom: 10 }}>{msg}</div>}
+
+        <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+          <label style={{ display: 'grid', gap: 6 }}>
+            <span style={{ fontWeight: 700 }}>Job no.</span>
+            <input style={{ ...inputBase, width: 150 }} value={draft.number} onChange={(e) => setDraft({ ...draft, number: e.target.value })} />
+          </label>
+          <label style={{ display: 'grid', gap: 6, flex: 1, minWidth: 220 }}>
+            <span style={{ fontWeight: 700 }}>Item</span>
+            <select style={selectBase} value={draft.itemId} onChange={(e) => setDraft({ ...draft, itemId: e.target.value })}>
+              <option value="">Pick item…</option>
+              {items.map(it => (
+                <option key={it.id} value={it.id}>
+                  {it.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={{ display: 'grid', gap: 6 }}>
+            <span style={{ fontWeight: 700 }}>Target bags</span>
+            <input style={{ ...inputBase, width: 100 }} type="number" value={draft.bags} onChange={(e) => setDraft({ ...draft, bags: Number(e.target.value) })} />
+          </label>
+          <label style={{ display: 'grid', gap: 6 }}>
+            <span style={{ fontWeight: 700 }}>Date</span>
+            <input style={{ ...inputBase, width: 160 }} type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} />
+          </label>
+          <button style={{ ...btnPrimary, ...disabledStyle(disabled || !draft.itemId) }} onClick={() => void onCreate()} disabled={disabled || !draft.itemId}>
+            Create job
+          </button>
+        </div>
+      </div>
+
+      {open && variance && (
+        <div style={card}>
+          <div style={{ display: 'flex', gap: 10, alignItems: 'baseline', flexWrap: 'wrap' }}>
+            <h3 style={{ margin: 0 }}>
+              {open.number} · {open.itemName}
+            </h3>
+            <span style={subtle}>
+              {open.date} · {open.plan.bags} bags × {open.plan.bagKg} kg · {open.plan.pcs} pcs · {open.status}
+            </span>
+          </div>
+
+          <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 12 }}>
+            <thead>
+              <tr>
+                <th style={{ ...th, textAlign: 'left' }}>Stage</th>
+                <th style={th}>Plan issue</th>
+                <th style={th}>Plan receive</th>
+                <th style={th}>Plan scrap</th>
+                <th style={th}>Issued</th>
+                <th style={th}>Received</th>
+                <th style={th}>Scrap</th>
+                <th style={th}>Yield % (plan)</th>
+                <th style={th}>Loss % (allowed)</th>
+                <th style={th}>Excess loss</th>
+                <th style={th}>Labour</th>
+              </tr>
+            </thead>
+            <tbody>
+              {variance.stages.map(v => {
+                const p = v.plan
+                const a = open.actuals.find(x => x.part === p.part && x.stageId === p.stageId)
+                return (
+                  <tr key={`${p.part}.${p.stageId}`}>
+                    <td style={{ ...td, textAlign: 'left' }}>
+                      {open.plan.parts[p.part]?.name ?? componentName(undefined, p.part)} · {p.name}
+                    </td>
+                    <td style={td}>{kg(p.issueKg)}</td>
+                    <td style={td}>{kg(p.receiveKg)}</td>
+                    <td style={td}>{kg(p.scrapKg)}</td>
+                    <td style={td}>
+                      <KgInput value={a?.issuedKg} onChange={(n) => patch(p, { issuedKg: n })} disabled={closed} />
+                    </td>
+                    <td style={td}>
+                      <KgInput value={a?.receivedKg} onChange={(n) => patch(p, { receivedKg: n })} disabled={closed} />
+                    </td>
+                    <td style={td}>
+                      <KgInput value={a?.scrapKg} onChange={(n) => patch(p, { scrapKg: n })} disabled={closed} />
+                    </td>
+                    <td style={{ ...td, ...bad(v.yieldActualPct - v.yieldPlanPct) }}>
+                      {v.weighed ? `${v.yieldActualPct}` : '—'} ({v.yieldPlanPct})
+                    </td>
+                    <td style={td}>
+                      {v.weighed ? `${v.lossActualPct}` : '—'} ({v.lossPlanPct})
+                    </td>
+                    <td style={{ ...td, ...bad(-v.excessLossKg) }}>{v.weighed ? signed(v.excessLossKg, ' kg') : '—'}</td>
+                    <td style={td}>
+                      {v.weighed ? `₹${v.chargeActual}` : '—'} <span style={subtle}>(₹{p.charge})</span>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+
+          <div style={{ display: 'grid', gap: 6, maxWidth: 520, marginTop: 14 }}>
+            <KV k="Circle issued (plan)" v={`${kg(variance.actual.circleKg)} (${kg(variance.plan.circleKg)})`} />
+            <KV k="Packed metal (plan)" v={`${kg(variance.actual.packedKg)} (${kg(variance.plan.packedKg)})`} />
+            <KV k="Scrap returned (plan)" v={`${kg(variance.actual.scrapKg)} (${kg(variance.plan.scrapKg)})`} />
+            <KV k="Kept / lost at workers (plan)" v={`${kg(variance.actual.lossKg)} (${kg(variance.plan.lossKg)})`} />
+            <KV k="Yield circle → packed (plan)" v={`${variance.yieldActualPct ?? '—'}% (${variance.yieldPlanPct}%)`} />
+            <KV k="Metal cost ₹/kg (plan)" v={`${variance.costPerKgActual ?? '—'} (${variance.costPerKgPlan})`} />
+            <KV k="Cost variance" v={variance.costVariance === null ? 'weigh every stage' : `₹${signed(variance.costVariance)}`} strong />
+          </div>
+
+          <div style={{ display: 'flex', gap: 10, marginTop: 12, flexWrap: 'wrap' }}>
+            <button style={{ ...btnPrimary, ...disabledStyle(disabled || closed) }} onClick={() => void save(open)} disabled={disabled || closed}>
+              Save actuals
+            </button>
+            <button style={{ ...btnBase, ...disabledStyle(disabled || closed) }} onClick={() => void onReplan(open)} disabled={disabled || closed}>
+              Re-plan
+            </button>
+            <button
+              style={{ ...btnBase, ...disabledStyle(disabled) }}
+              onClick={() => void save({ ...open, status: closed ? 'open' : 'closed' })}
+              disabled={disabled}
+            >
+              {closed ? 'Reopen' : 'Close job'}
+            </button>
+            <button style={btnBase} onClick={() => setOpen(null)}>
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div style={card}>
+        <h3 style={{ marginTop: 0 }}>Jobs</h3>
+        {saved.length === 0 ? (
+          <p style={subtle}>None yet.</p>
+        ) : (
+          <div style={{ display: 'grid', gap: 8 }}>
+            {saved.map(j => (
+              <div key={j.id} style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+                <b style={{ width: 120 }}>{j.number}</b>
+                <span style={{ flex: 1 }}>{j.itemName}</span>
+                <span style={subtle}>
+                  {j.date} · {j.plan.bags} bags · {j.status}
+                </span>
+                <button style={btnBase} onClick={() => setOpen(j)}>
+                  Open
+                </button>
+                <button style={{ ...btnDanger, ...disabledStyle(disabled) }} onClick={() => void onDelete(j)} disabled={disabled}>
+                  Del
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
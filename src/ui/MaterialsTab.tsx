@@ -0,0 +1,378 @@
+// MaterialsTab.tsx
+import React from 'react'
+import type { AppSettings, CircleAdderRule, Item, MaterialMaster } from '../types'
+import { DEFAULT_GRADE, circleMaterialFor, kundaGradeFor, metalGradeFor, polytheneFor } from '../materials'
+import { adderMatches } from '../adders'
+import { pressedComponents, purchasedComponents } from '../components'
+import { makeId } from '../seed'
+import { btnBase, btnDanger, card, disabledStyle, inputBase, subtle, tokens } from './styles'
+
+type ListKey = 'grades' | 'circles' | 'kunda' | 'polythene'
+
+// How many items resolve to each master entry (entries in use can't be deleted)
+function usage(items: Item[], m: MaterialMaster): Record<string, number> {
+  const out: Record<string, number> = {}
+  const bump = (key: string | undefined) => {
+    if (key) out[key] = (out[key] || 0) + 1
+  }
+  for (const it of items) {
+    const keys = new Set([
+      ...pressedComponents(it).map(p => circleMaterialFor(p, m)?.key),
+      ...pressedComponents(it).map(p => metalGradeFor(p, m)?.key),
+      ...purchasedComponents(it).map(c => (c.basis === 'weight' ? kundaGradeFor(c, m)?.key : undefined)),
+      polytheneFor(it.bagProfile.polybag, m)?.key,
+      polytheneFor(it.bagProfile.pipe, m)?.key
+    ])
+    keys.forEach(bump)
+  }
+  return out
+}
+
+// Blank => undefined (condition not used)
+function optNum(v: string): number | undefined {
+  return v === '' ? undefined : Number(v)
+}
+
+export default function MaterialsTab({
+  settings,
+  items,
+  onChange,
+  busy
+}: {
+  settings: AppSettings
+  items: Item[]
+  onChange: (next: AppSettings) => void
+  busy: boolean
+}) {
+  const m = settings.materials
+  const used = usage(items, m)
+
+  function set(next: MaterialMaster) {
+    onChange({ ...settings, materials: next })
+  }
+
+  function patchRow<K extends ListKey>(list: K, key: string, patch: Partial<MaterialMaster[K][number]>) {
+    set({ ...m, [list]: m[list].map(r => (r.key === key ? { ...r, ...patch } : r)) })
+  }
+
+  function removeRow(list: ListKey, key: string) {
+    set({ ...m, [list]: m[list].filter(r => r.key !== key) })
+  }
+
+  function setAdders(next: CircleAdderRule[]) {
+    onChange({ ...settings, circleAdders: next })
+  }
+
+  function patchAdder(id: string, patch: Partial<CircleAdderRule>) {
+    setAdders(settings.circleAdders.map(a => (a.id === id ? { ...a, ...patch } : a)))
+  }
+
+  // Every pressed component counts separately
+  function partsMatched(a: CircleAdderRule): number {
+    return items.reduce((n, it) => n + pressedComponents(it).filter(p => adderMatches({ ...a, enabled: true }, p, m)).length, 0)
+  }
+
+  const partNames = [...new Set(items.flatMap(it => pressedComponents(it).map(p => p.name)))]
+
+  const suppliers = [...new Set(m.circles.map(c => c.supplier?.trim()).filter((x): x is string => !!x))]
+
+  const th: React.CSSProperties = { textAlign: 'left', padding: '6px 4px', color: tokens.subtle, fontWeight: 700 }
+  const td: React.CSSProperties = { padding: '6px 4px', borderTop: `1px solid ${tokens.border}` }
+  const num: React.CSSProperties = { ...inputBase, width: 110 }
+
+  function usedCell(key: string) {
+    return <td style={{ ...td, ...subtle }}>{used[key] ? `${used[key]} items` : '—'}</td>
+  }
+
+  function delCell(list: ListKey, key: string) {
+    const locked = busy || !!used[key]
+    return (
+      <td style={{ ...td, textAlign: 'right' }}>
+        <button
+          style={{ ...btnDanger, ...disabledStyle(locked) }}
+          onClick={() => removeRow(list, key)}
+          disabled={locked}
+          title={used[key] ? 'Used by items' : undefined}
+        >
+          Del
+        </button>
+      </td>
+    )
+  }
+
+  return (
+    <div style={{ display: 'grid', gap: 14 }}>
+      <div style={card}>
+        <h3 style={{ marginTop: 0 }}>Material master</h3>
+        <p style={{ ...subtle, marginTop: 0 }}>
+          Items use these rates unless they carry their own override. A change here recalculates every item that points at the entry.
+        </p>
+        <label style={{ display: 'flex', gap: 10, alignItems: 'center' }}>
+          <span style={{ fontWeight: 700 }}>Scrap rate (₹/kg)</span>
+          <input style={num} type="number" value={m.scrapRatePerKg} onChange={(e) => set({ ...m, scrapRatePerKg: Number(e.target.value) })} />
+        </label>
+      </div>
+
+      <div style={card}>
+        <div style={{ fontWeight: 800, marginBottom: 8 }}>Metal grades</div>
+        <p style={{ ...subtle, marginTop: 0 }}>
+          Circle weights scale by density against the shop steel formula ({m.grades.find(g => g.key === DEFAULT_GRADE)?.name ?? DEFAULT_GRADE}). A part takes its own grade, else its circle's.
+        </p>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={th}>Name</th>
+              <th style={th}>Density (g/cc)</th>
+              <th style={th}>Used by</th>
+              <th style={th} />
+            </tr>
+          </thead>
+          <tbody>
+            {m.grades.map(g => (
+              <tr key={g.key}>
+                <td style={td}>
+                  <input style={inputBase} value={g.name} onChange={(e) => patchRow('grades', g.key, { name: e.target.value })} />
+                </td>
+                <td style={td}>
+                  <input style={num} type="number" step={0.01} value={g.densityGcc} onChange={(e) => patchRow('grades', g.key, { densityGcc: Number(e.target.value) })} />
+                </td>
+                {usedCell(g.key)}
+                {delCell('grades', g.key)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          style={{ ...btnBase, marginTop: 10, ...disabledStyle(busy) }}
+          disabled={busy}
+          onClick={() => set({ ...m, grades: [...m.grades, { key: makeId('grade'), name: 'Metal grade', densityGcc: 7.9 }] })}
+        >
+          + Add metal grade
+        </button>
+      </div>
+
+      <div style={card}>
+        <div style={{ fontWeight: 800, marginBottom: 8 }}>Circles (by grade and thickness)</div>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={th}>Name</th>
+              <th style={th}>Grade</th>
+              <th style={th}>Thickness (mm)</th>
+              <th style={th}>Supplier</th>
+              <th style={th}>₹/kg</th>
+              <th style={th}>Used by</th>
+              <th style={th} />
+            </tr>
+          </thead>
+          <tbody>
+            {m.circles.map(c => (
+              <tr key={c.key}>
+                <td style={td}>
+                  <input style={inputBase} value={c.name} onChange={(e) => patchRow('circles', c.key, { name: e.target.value })} />
+                </td>
+                <td style={td}>
+                  <select style={{ ...inputBase, width: 130 }} value={c.grade ?? ''} onChange={(e) => patchRow('circles', c.key, { grade: e.target.value || undefined })}>
+                    <option value="">Shop steel</option>
+                    {m.grades.map(g => (
+                      <option key={g.key} value={g.key}>
+                        {g.name}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td style={td}>
+                  <input style={num} type="number" step={0.01} value={c.thicknessMm} onChange={(e) => patchRow('circles', c.key, { thicknessMm: Number(e.target.value) })} />
+                </td>
+                <td style={td}>
+                  <input style={{ ...inputBase, width: 140 }} value={c.supplier ?? ''} onChange={(e) => patchRow('circles', c.key, { supplier: e.target.value || undefined })} />
+                </td>
+                <td style={td}>
+                  <input style={num} type="number" value={c.ratePerKg} onChange={(e) => patchRow('circles', c.key, { ratePerKg: Number(e.target.value) })} />
+                </td>
+                {usedCell(c.key)}
+                {delCell('circles', c.key)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          style={{ ...btnBase, marginTop: 10, ...disabledStyle(busy) }}
+          disabled={busy}
+          onClick={() => set({ ...m, circles: [...m.circles, { key: makeId('ss'), name: 'SS circle', thicknessMm: 0.3, ratePerKg: 175 }] })}
+        >
+          + Add circle
+        </button>
+      </div>
+
+      <div style={card}>
+        <div style={{ fontWeight: 800, marginBottom: 8 }}>Circle rate adders</div>
+        <p style={{ ...subtle, marginTop: 0 }}>
+          Added on top of each part's circle rate when every filled condition matches; matching rules stack. Blank condition = any.
+        </p>
+        <label style={{ display: 'flex', gap: 10, alignItems: 'center', marginBottom: 10 }}>
+          <span style={{ fontWeight: 700 }}>Fallback circle rate (₹/kg, no master entry)</span>
+          <input style={num} type="number" value={settings.circleBaseRate} onChange={(e) => onChange({ ...settings, circleBaseRate: Number(e.target.value) })} />
+        </label>
+        <datalist id="adder-parts">
+          {partNames.map(x => (
+            <option key={x} value={x} />
+          ))}
+        </datalist>
+        <datalist id="circle-suppliers">
+          {suppliers.map(x => (
+            <option key={x} value={x} />
+          ))}
+        </datalist>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={th}>On</th>
+              <th style={th}>Name</th>
+              <th style={th}>+₹/kg</th>
+              <th style={th}>Part</th>
+              <th style={th}>Thickness (mm)</th>
+              <th style={th}>Circle from (in)</th>
+              <th style={th}>Circle to (in)</th>
+              <th style={th}>Supplier</th>
+              <th style={th}>Matches</th>
+              <th style={th} />
+            </tr>
+          </thead>
+          <tbody>
+            {settings.circleAdders.map(a => (
+              <tr key={a.id}>
+                <td style={td}>
+                  <input type="checkbox" checked={a.enabled} onChange={(e) => patchAdder(a.id, { enabled: e.target.checked })} />
+                </td>
+                <td style={td}>
+                  <input style={inputBase} value={a.name} onChange={(e) => patchAdder(a.id, { name: e.target.value })} />
+                </td>
+                <td style={td}>
+                  <input style={num} type="number" step={0.5} value={a.addPerKg} onChange={(e) => patchAdder(a.id, { addPerKg: Number(e.target.value) })} />
+                </td>
+                <td style={td}>
+                  <input
+                    style={{ ...inputBase, width: 120 }}
+                    list="adder-parts"
+                    placeholder="Any"
+                    value={a.part ?? ''}
+                    onChange={(e) => patchAdder(a.id, { part: e.target.value || undefined })}
+                  />
+                </td>
+                <td style={td}>
+                  <input style={num} type="number" step={0.01} value={a.thicknessMm ?? ''} onChange={(e) => patchAdder(a.id, { thicknessMm: optNum(e.target.value) })} />
+                </td>
+                <td style={td}>
+                  <input style={num} type="number" step={0.25} value={a.minCircleIn ?? ''} onChange={(e) => patchAdder(a.id, { minCircleIn: optNum(e.target.value) })} />
+                </td>
+                <td style={td}>
+                  <input style={num} type="number" step={0.25} value={a.maxCircleIn ?? ''} onChange={(e) => patchAdder(a.id, { maxCircleIn: optNum(e.target.value) })} />
+                </td>
+                <td style={td}>
+                  <input
+                    style={{ ...inputBase, width: 140 }}
+                    list="circle-suppliers"
+                    value={a.supplier ?? ''}
+                    onChange={(e) => patchAdder(a.id, { supplier: e.target.value || undefined })}
+                  />
+                </td>
+                <td style={{ ...td, ...subtle }}>{partsMatched(a)} parts</td>
+                <td style={{ ...td, textAlign: 'right' }}>
+                  <button
+                    style={{ ...btnDanger, ...disabledStyle(busy) }}
+                    onClick={() => setAdders(settings.circleAdders.filter(x => x.id !== a.id))}
+                    disabled={busy}
+                  >
+                    Del
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          style={{ ...btnBase, marginTop: 10, ...disabledStyle(busy) }}
+          disabled={busy}
+          onClick={() => setAdders([...settings.circleAdders, { id: makeId('add'), name: 'Circle adder', enabled: true, addPerKg: 0 }])}
+        >
+          + Add rule
+        </button>
+      </div>
+
+      <div style={card}>
+        <div style={{ fontWeight: 800, marginBottom: 8 }}>Kunda grades</div>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={th}>Name</th>
+              <th style={th}>₹/kg</th>
+              <th style={th}>Used by</th>
+              <th style={th} />
+            </tr>
+          </thead>
+          <tbody>
+            {m.kunda.map(g => (
+              <tr key={g.key}>
+                <td style={td}>
+                  <input style={inputBase} value={g.name} onChange={(e) => patchRow('kunda', g.key, { name: e.target.value })} />
+                </td>
+                <td style={td}>
+                  <input style={num} type="number" value={g.ratePerKg} onChange={(e) => patchRow('kunda', g.key, { ratePerKg: Number(e.target.value) })} />
+                </td>
+                {usedCell(g.key)}
+                {delCell('kunda', g.key)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          style={{ ...btnBase, marginTop: 10, ...disabledStyle(busy) }}
+          disabled={busy}
+          onClick={() => set({ ...m, kunda: [...m.kunda, { key: makeId('kunda'), name: 'Kunda grade', ratePerKg: 205 }] })}
+        >
+          + Add grade
+        </button>
+      </div>
+
+      <div style={card}>
+        <div style={{ fontWeight: 800, marginBottom: 8 }}>Polythene (by gauge)</div>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={th}>Name</th>
+              <th style={th}>Gauge</th>
+              <th style={th}>₹/kg</th>
+              <th style={th}>Used by</th>
+              <th style={th} />
+            </tr>
+          </thead>
+          <tbody>
+            {m.polythene.map(p => (
+              <tr key={p.key}>
+                <td style={td}>
+                  <input style={inputBase} value={p.name} onChange={(e) => patchRow('polythene', p.key, { name: e.target.value })} />
+                </td>
+                <td style={td}>
+                  <input style={num} type="number" value={p.gauge} onChange={(e) => patchRow('polythene', p.key, { gauge: Number(e.target.value) })} />
+                </td>
+                <td style={td}>
+                  <input style={num} type="number" value={p.ratePerKg} onChange={(e) => patchRow('polythene', p.key, { ratePerKg: Number(e.target.value) })} />
+                </td>
+                {usedCell(p.key)}
+                {delCell('polythene', p.key)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          style={{ ...btnBase, marginTop: 10, ...disabledStyle(busy) }}
+          disabled={busy}
+          onClick={() => set({ ...m, polythene: [...m.polythene, { key: makeId('poly'), name: 'Polythene', gauge: 150, ratePerKg: 140 }] })}
+        >
+          + Add polythene
+        </button>
+      </div>
+    </div>
+  )
+}
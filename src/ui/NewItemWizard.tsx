@@ -0,0 +1,133 @@
+// NewItemWizard.tsx
+import { useMemo, useState } from 'react'
+import type { AppSettings, BagChoice, Item } from '../types'
+import type { CalcOutcome } from '../calc'
+import { itemFromFamily } from '../catalog'
+import { issueText } from '../validate'
+import { makeId } from '../seed'
+import { KV } from './controls'
+import { btnBase, btnPrimary, danger, disabledStyle, inputBase, selectBase, subtle } from './styles'
+
+type Preview = { it: Item; out: CalcOutcome } | { error: string }
+
+type Choice = { familyKey: string; sizeIn: number; bag: BagChoice['name']; boxTh: number; coverTh: number }
+
+// Family + size + thickness + bag => a complete item (every field still editable afterwards)
+export default function NewItemWizard({
+  settings,
+  costOf,
+  onCreate,
+  onCancel,
+  busy
+}: {
+  settings: AppSettings
+  costOf: (it: Item) => CalcOutcome
+  onCreate: (it: Item) => void
+  onCancel: () => void
+  busy: boolean
+}) {
+  const catalog = settings.catalog
+  const first = catalog[0]
+  const [c, setC] = useState<Choice>(() => ({
+    familyKey: first?.key ?? '',
+    sizeIn: first?.sizes[0]?.sizeIn ?? 0,
+    bag: first?.bags[0]?.name ?? 'heavy',
+    boxTh: first?.box.thicknessMm ?? 0.26,
+    coverTh: first?.cover.thicknessMm ?? 0.26
+  }))
+  const f = catalog.find(x => x.key === c.familyKey)
+  const thicknesses = settings.materials.circles.map(x => x.thicknessMm)
+
+  function pickFamily(key: string) {
+    const nf = catalog.find(x => x.key === key)
+    if (!nf) return
+    setC({ familyKey: key, sizeIn: nf.sizes[0]?.sizeIn ?? 0, bag: nf.bags[0]?.name ?? 'heavy', boxTh: nf.box.thicknessMm, coverTh: nf.cover.thicknessMm })
+  }
+
+  // Preview with a placeholder id; the real id is made on create
+  const preview = useMemo((): Preview | null => {
+    if (!f) return null
+    try {
+      const it = itemFromFamily(f, { sizeIn: c.sizeIn, bag: c.bag, boxThicknessMm: c.boxTh, coverThicknessMm: c.coverTh }, settings.materials, 'preview')
+      return { it, out: costOf(it) }
+    } catch (e) {
+      return { error: (e as Error).message }
+    }
+  }, [f, c, settings.materials, costOf])
+
+  if (!catalog.length) return <p style={subtle}>The catalog is empty. Add a family on the Catalog tab first.</p>
+
+  const built = preview && 'it' in preview ? preview : null
+  const ready = !!built && built.out.ok && !busy
+  const row = { display: 'grid', gridTemplateColumns: '160px 1fr', gap: 10, alignItems: 'center', marginBottom: 10 } as const
+
+  return (
+    <div>
+      <label style={row}>
+        <span style={{ fontWeight: 600 }}>Family</span>
+        <select style={selectBase} value={c.familyKey} onChange={(e) => pickFamily(e.target.value)}>
+          {catalog.map(x => (
+            <option key={x.key} value={x.key}>
+              {x.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={row}>
+        <span style={{ fontWeight: 600 }}>Size</span>
+        <select style={selectBase} value={c.sizeIn} onChange={(e) => setC({ ...c, sizeIn: Number(e.target.value) })}>
+          {f?.sizes.map(z => (
+            <option key={z.sizeIn} value={z.sizeIn}>
+              {z.sizeIn}" (box {z.boxCircleIn}, cover {z.coverCircleIn})
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={row}>
+        <span style={{ fontWeight: 600 }}>Bag</span>
+        <select style={selectBase} value={c.bag} onChange={(e) => setC({ ...c, bag: e.target.value as BagChoice['name'] })}>
+          {f?.bags.map(b => (
+            <option key={b.name} value={b.name}>
+              {b.name} ({b.gauge} gauge, {b.pcsPerPipe} pcs/pipe)
+            </option>
+          ))}
+        </select>
+      </label>
+      {(['boxTh', 'coverTh'] as const).map(k => (
+        <label key={k} style={row}>
+          <span style={{ fontWeight: 600 }}>{k === 'boxTh' ? 'Box' : 'Cover'} thickness (mm)</span>
+          <input style={inputBase} type="number" step={0.01} list="wizard-thickness" value={c[k]} onChange={(e) => setC({ ...c, [k]: Number(e.target.value) })} />
+        </label>
+      ))}
+      <datalist id="wizard-thickness">
+        {thicknesses.map(t => (
+          <option key={t} value={t} />
+        ))}
+      </datalist>
+
+      {preview && 'error' in preview && <div style={danger}>{preview.error}</div>}
+      {built && (
+        <div style={{ display: 'grid', gap: 6, maxWidth: 420, margin: '12px 0' }}>
+          <KV k="Name" v={built.it.name} />
+          {built.out.ok ? (
+            <>
+              <KV k="Rate / kg" v={`₹${built.out.result.perKgRate}`} strong />
+              <KV k="Rate / pc" v={`₹${built.out.result.perPcRate}`} />
+            </>
+          ) : (
+            <div style={danger}>{issueText('Not valid', built.out.errors)}</div>
+          )}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: 10 }}>
+        <button style={{ ...btnPrimary, ...disabledStyle(!ready) }} disabled={!ready} onClick={() => built && onCreate({ ...built.it, id: makeId() })}>
+          Create item
+        </button>
+        <button style={btnBase} onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+// OrgTab.tsx
+import { useEffect, useState } from 'react'
+import type { Org, OrgInvite, OrgMember, OrgRole } from '../types'
+import { ROLES, ROLE_LABEL, canManage, isEmail, roleChangeBlocked } from '../orgs'
+import { createOrg, inviteMember, listInvites, listMembers, removeMember, renameOrg, revokeInvite, setMemberRole } from '../db'
+import { btnBase, btnDanger, btnPrimary, card, danger, disabledStyle, inputBase, selectBase, subtle } from './styles'
+
+const ROLE_HELP: Record<OrgRole, string> = {
+  owner: 'everything, incl. members and invites',
+  editor: 'edit items, rates, settings, quotes and jobs',
+  viewer: 'see items and prices, no raw rates, no changes'
+}
+
+// Members, invites and new organizations. Owners manage members; anyone can leave or start an org.
+export default function OrgTab({
+  org,
+  userId,
+  onOrgsChanged,
+  busy
+}: {
+  org: Org
+  userId: string
+  onOrgsChanged: () => void
+  busy: boolean
+}) {
+  const [members, setMembers] = useState<OrgMember[]>([])
+  const [invites, setInvites] = useState<OrgInvite[]>([])
+  const [name, setName] = useState(org.name)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<OrgRole>('viewer')
+  const [newName, setNewName] = useState('')
+  const [working, setWorking] = useState(false)
+  const [msg, setMsg] = useState<string>('')
+  const owner = canManage(org.role)
+
+  async function reload() {
+    try {
+      setMembers(await listMembers(org.id))
+      setInvites(owner ? await listInvites(org.id) : [])
+    } catch (e) {
+      setMsg((e as Error).message || 'Could not load members')
+    }
+  }
+
+  useEffect(() => {
+    void reload()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [org.id])
+
+  async function run(what: string, fn: () => Promise<void>): Promise<boolean> {
+    try {
+      setWorking(true)
+      setMsg('')
+      await fn()
+      await reload()
+      return true
+    } catch (e) {
+      setMsg((e as Error).message || `${what} failed`)
+      return false
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  async function onRole(m: OrgMember, next: OrgRole) {
+    const blocked = roleChangeBlocked(members, m.userId, next)
+    if (blocked) return setMsg(blocked)
+    await run('Role change', () => setMemberRole(org.id, m.userId, next))
+    if (m.userId === userId) onOrgsChanged()
+  }
+
+  async function onRemove(m: OrgMember) {
+    const blocked = roleChangeBlocked(members, m.userId, null)
+    if (blocked) return setMsg(blocked)
+    const self = m.userId === userId
+    if (!window.confirm(self ? `Leave ${org.name}?` : `Remove ${m.email || 'this member'} from ${org.name}?`)) return
+    if ((await run('Remove', () => removeMember(org.id, m.userId))) && self) onOrgsChanged()
+  }
+
+  async function onInvite() {
+    if (!isEmail(email)) return setMsg('Enter a valid email')
+    if (await run('Invite', () => inviteMember(org.id, email, role))) setEmail('')
+  }
+
+  async function onRename() {
+    if (!name.trim()) return setMsg('Name is required')
+    if (await run('Rename', () => renameOrg(org.id, name.trim()))) onOrgsChanged()
+  }
+
+  async function onCreate() {
+    if (!newName.trim()) return setMsg('Name is required')
+    if (await run('Create', async () => { await createOrg(newName.trim()) })) {
+      setNewName('')
+      onOrgsChanged()
+    }
+  }
+
+  const disabled = busy || working
+  const row = { display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' } as const
+
+  return (
+    <div style={{ display: 'grid', gap: 12 }}>
+      {msg && <div style={{ ...card, ...danger }}>{msg}</div>}
+
+      <div style={card}>
+        <h3 style={{ marginTop: 0 }}>{org.name}</h3>
+        <p style={subtle}>
+          You are {ROLE_LABEL[org.role].toLowerCase()}: {ROLE_HELP[org.role]}.
+        </p>
+        {owner && (
+          <div style={row}>
+            <input style={{ ...inputBase, width: 260 }} value={name} onChange={(e) => setName(e.target.value)} />
+            <button style={{ ...btnBase, ...disabledStyle(disabled) }} onClick={() => void onRename()} disabled={disabled}>
+              Rename
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div style={card}>
+        <h3 style={{ marginTop: 0 }}>Members</h3>
+        <div style={{ display: 'grid', gap: 8 }}>
+          {members.map(m => (
+            <div key={m.userId} style={row}>
+              <span style={{ flex: 1, fontWeight: 600 }}>
+                {m.email || m.userId}
+                {m.userId === userId && <span style={subtle}> (you)</span>}
+              </span>
+              {owner ? (
+                <select style={{ ...selectBase, width: 'auto' }} value={m.role} onChange={(e) => void onRole(m, e.target.value as OrgRole)} disabled={disabled}>
+                  {ROLES.map(r => (
+                    <option key={r} value={r}>
+                      {ROLE_LABEL[r]}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span style={subtle}>{ROLE_LABEL[m.role]}</span>
+              )}
+              {(owner || m.userId === userId) && (
+                <button style={{ ...btnDanger, ...disabledStyle(disabled) }} onClick={() => void onRemove(m)} disabled={disabled}>
+                  {m.userId === userId ? 'Leave' : 'Remove'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {owner && (
+        <div style={card}>
+          <h3 style={{ marginTop: 0 }}>Invites</h3>
+          <p style={subtle}>The invited email joins on its next login.</p>
+          <div style={row}>
+            <input style={{ ...inputBase, width: 260 }} type="email" placeholder="name@company.com" value={email} onChange={(e) => setEmail(e.target.value)} />
+            <select style={{ ...selectBase, width: 'auto' }} value={role} onChange={(e) => setRole(e.target.value as OrgRole)}>
+              {ROLES.map(r => (
+                <option key={r} value={r}>
+                  {ROLE_LABEL[r]}
+                </option>
+              ))}
+            </select>
+            <button style={{ ...btnPrimary, ...disabledStyle(disabled) }} onClick={() => void onInvite()} disabled={disabled}>
+              Invite
+            </button>
+          </div>
+          {invites.length > 0 && (
+            <div style={{ display: 'grid', gap: 8, marginTop: 12 }}>
+              {invites.map(i => (
+                <div key={i.id} style={row}>
+                  <span style={{ flex: 1 }}>{i.email}</span>
+                  <span style={subtle}>
+                    {ROLE_LABEL[i.role]} · {i.createdAt.slice(0, 10)}
+                  </span>
+                  <button style={{ ...btnDanger, ...disabledStyle(disabled) }} onClick={() => void run('Revoke', () => revokeInvite(i.id))} disabled={disabled}>
+                    Revoke
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div style={card}>
+        <h3 style={{ marginTop: 0 }}>New organization</h3>
+        <p style={subtle}>You become its owner. It opens with the default items and settings.</p>
+        <div style={row}>
+          <input style={{ ...inputBase, width: 260 }} placeholder="Organization name" value={newName} onChange={(e) => setNewName(e.target.value)} />
+          <button style={{ ...btnBase, ...disabledStyle(disabled) }} onClick={() => void onCreate()} disabled={disabled}>
+            Create
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,349 @@
+// QuotationTab.tsx
+import React, { useEffect, useMemo, useState } from 'react'
+import type { AppSettings, Item, Quote, QuoteLine, QuoteUnit } from '../types'
+import type { CalcOutcome } from '../calc'
+import { issueText } from '../validate'
+import { buildQuoteLine, nextQuoteNumber, quoteHtml, quoteTotals, validUntil } from '../quote'
+import { deleteQuote, listQuotes, upsertQuote } from '../db'
+import { makeId } from '../seed'
+import { btnBase, btnDanger, btnPrimary, card, danger, disabledStyle, inputBase, selectBase, subtle, tokens } from './styles'
+
+type DraftLine = { key: string; itemId: string; qty: number; unit: QuoteUnit }
+
+type Draft = {
+  id: string
+  number: string
+  customerName: string
+  date: string
+  validDays: number
+  notes: string
+  lines: DraftLine[]
+}
+
+function today(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+function emptyDraft(saved: Quote[]): Draft {
+  return {
+    id: makeId('q'),
+    number: nextQuoteNumber(saved),
+    customerName: '',
+    date: today(),
+    validDays: 15,
+    notes: '',
+    lines: []
+  }
+}
+
+function openQuotePrintView(q: Quote) {
+  const w = window.open('', '_blank')
+  if (!w) return
+  w.document.open()
+  w.document.write(quoteHtml(q))
+  w.document.close()
+  w.focus()
+}
+
+export default function QuotationTab({
+  items,
+  settings,
+  costOf,
+  readOnly,
+  busy
+}: {
+  items: Item[]
+  settings: AppSettings
+  costOf: (it: Item) => CalcOutcome
+  readOnly: boolean     // viewers can draft and print, not save
+  busy: boolean
+}) {
+  const [saved, setSaved] = useState<Quote[]>([])
+  const [draft, setDraft] = useState<Draft>(() => emptyDraft([]))
+  const [addId, setAddId] = useState<string>('')
+  const [filter, setFilter] = useState<string>('')
+  const [working, setWorking] = useState(false)
+  const [msg, setMsg] = useState<string>('')
+
+  async function reload() {
+    try {
+      const qs = await listQuotes()
+      setSaved(qs)
+      return qs
+    } catch (e) {
+      setMsg((e as Error).message || 'Could not load saved quotes')
+      return []
+    }
+  }
+
+  useEffect(() => {
+    void reload().then(qs => setDraft(d => (d.lines.length ? d : emptyDraft(qs))))
+  }, [])
+
+  const itemById = useMemo(() => new Map(items.map(i => [i.id, i])), [items])
+
+  // Items that don't calculate are kept out of the quote and listed with the reason
+  const { lines, invalid } = useMemo(() => {
+    const lines: QuoteLine[] = []
+    const invalid = new Map<string, string>()
+    for (const l of draft.lines) {
+      const it = itemById.get(l.itemId)
+      if (!it) continue
+      const out = costOf(it)
+      if (out.ok) lines.push(buildQuoteLine(it, out.result, settings, l.qty, l.unit))
+      else invalid.set(l.itemId, issueText(it.name, out.errors))
+    }
+    return { lines, invalid }
+  }, [draft.lines, itemById, costOf, settings])
+  const totals = useMemo(() => quoteTotals(lines), [lines])
+
+  const filterWords = filter.toLowerCase().split(/\s+/).filter(Boolean)
+  const matching = filterWords.length ? items.filter(i => filterWords.every(w => i.name.toLowerCase().includes(w))) : []
+
+  function addLines(ids: string[]) {
+    const have = new Set(draft.lines.map(l => l.itemId))
+    const add = ids.filter(id => !have.has(id)).map(id => ({ key: makeId('ql'), itemId: id, qty: 1, unit: 'bags' as QuoteUnit }))
+    setDraft({ ...draft, lines: [...draft.lines, ...add] })
+  }
+
+  function setLine(key: string, patch: Partial<DraftLine>) {
+    setDraft({ ...draft, lines: draft.lines.map(l => (l.key === key ? { ...l, ...patch } : l)) })
+  }
+
+  function toQuote(): Quote {
+    return {
+      id: draft.id,
+      number: draft.number,
+      customerName: draft.customerName,
+      date: draft.date,
+      validDays: draft.validDays,
+      notes: draft.notes,
+      lines,
+      totals
+    }
+  }
+
+  async function onSave() {
+    if (!lines.length) {
+      setMsg('Add at least one item')
+      return
+    }
+    if (invalid.size) {
+      setMsg('Fix or remove the invalid items first')
+      return
+    }
+    try {
+      setWorking(true)
+      setMsg('')
+      const q = toQuote()
+      await upsertQuote(q)
+      const qs = await reload()
+      openQuotePrintView(q)
+      setDraft(emptyDraft(qs))
+    } catch (e) {
+      setMsg((e as Error).message || 'Save failed')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  async function onDelete(q: Quote) {
+    if (!window.confirm(`Delete quotation ${q.number}?`)) return
+    try {
+      setWorking(true)
+      setMsg('')
+      await deleteQuote(q.id)
+      await reload()
+    } catch (e) {
+      setMsg((e as Error).message || 'Delete failed')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  // Start a new quote from a saved one (rates are recalculated from today's costs)
+  function onDuplicate(q: Quote) {
+    setDraft({
+      ...emptyDraft(saved),
+      customerName: q.customerName,
+      validDays: q.validDays,
+      notes: q.notes,
+      lines: q.lines.filter(l => itemById.has(l.itemId)).map(l => ({ key: makeId('ql'), itemId: l.itemId, qty: l.qty, unit: l.unit }))
+    })
+  }
+
+  const disabled = busy || working
+  const th: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', color: tokens.subtle, fontWeight: 700 }
+  const td: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', borderTop: `1px solid ${tokens.border}` }
+
+  return (
+    <div style={{ display: 'grid', gap: 14 }}>
+      <div style={card}>
+        <h3 style={{ marginTop: 0 }}>New quotation</h3>
+
+        {msg && <div style={{ ...danger, marginBottom: 10 }}>{msg}</div>}
+
+        <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end', marginBottom: 12 }}>
+          <label style={{ display: 'grid', gap: 6 }}>
+            <span style={{ fontWeight: 700 }}>Quote no.</span>
+            <input style={{ ...inputBase, width: 150 }} value={draft.number} onChange={(e) => setDraft({ ...draft, number: e.target.value })} />
+          </label>
+          <label style={{ display: 'grid', gap: 6, flex: 1, minWidth: 220 }}>
+            <span style={{ fontWeight: 700 }}>Customer</span>
+            <input style={inputBase} value={draft.customerName} onChange={(e) => setDraft({ ...draft, customerName: e.target.value })} />
+          </label>
+          <label style={{ display: 'grid', gap: 6 }}>
+            <span style={{ fontWeight: 700 }}>Date</span>
+            <input style={{ ...inputBase, width: 160 }} type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} />
+          </label>
+          <label style={{ display: 'grid', gap: 6 }}>
+            <span style={{ fontWeight: 700 }}>Valid (days)</span>
+            <input style={{ ...inputBase, width: 100 }} type="number" value={draft.validDays} onChange={(e) => setDraft({ ...draft, validDays: Number(e.target.value) })} />
+          </label>
+        </div>
+
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center', marginBottom: 12 }}>
+          <select style={selectBase} value={addId} onChange={(e) => setAddId(e.target.value)}>
+            <option value="">Pick item…</option>
+            {items.map(it => (
+              <option key={it.id} value={it.id}>
+                {it.name}
+              </option>
+            ))}
+          </select>
+          <button style={{ ...btnBase, ...disabledStyle(!addId) }} disabled={!addId} onClick={() => addLines([addId])}>
+            Add
+          </button>
+          <span style={{ width: 12 }} />
+          <input style={{ ...inputBase, width: 200 }} placeholder='Filter e.g. "belly heavy"' value={filter} onChange={(e) => setFilter(e.target.value)} />
+          <button style={{ ...btnBase, ...disabledStyle(!matching.length) }} disabled={!matching.length} onClick={() => addLines(matching.map(i => i.id))}>
+            Add all matching ({matching.length})
+          </button>
+        </div>
+
+        {lines.length === 0 && invalid.size === 0 ? (
+          <p style={subtle}>No items in this quote yet.</p>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={{ ...th, textAlign: 'left' }}>Item</th>
+                <th style={th}>Qty</th>
+                <th style={th}>Pcs</th>
+                <th style={th}>Kg</th>
+                <th style={th}>₹/kg</th>
+                <th style={th}>₹/pc</th>
+                <th style={th}>Amount</th>
+                <th style={th}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.lines.map(dl => {
+                const l = lines.find(x => x.itemId === dl.itemId)
+                const reason = invalid.get(dl.itemId)
+                if (!l && reason) {
+                  return (
+                    <tr key={dl.key}>
+                      <td style={{ ...td, textAlign: 'left', color: tokens.danger, fontWeight: 700 }} colSpan={7}>
+                        {reason}
+                      </td>
+                      <td style={td}>
+                        <button style={btnDanger} onClick={() => setDraft({ ...draft, lines: draft.lines.filter(x => x.key !== dl.key) })}>
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                }
+                if (!l) return null
+                return (
+                  <tr key={dl.key}>
+                    <td style={{ ...td, textAlign: 'left' }}>{l.itemName}</td>
+                    <td style={td}>
+                      <div style={{ display: 'flex', gap: 4, justifyContent: 'flex-end' }}>
+                        <input style={{ ...inputBase, width: 80 }} type="number" value={dl.qty} onChange={(e) => setLine(dl.key, { qty: Number(e.target.value) })} />
+                        <select style={{ ...inputBase, width: 'auto' }} value={dl.unit} onChange={(e) => setLine(dl.key, { unit: e.target.value as QuoteUnit })}>
+                          <option value="bags">bags</option>
+                          <option value="pcs">pcs</option>
+                        </select>
+                      </div>
+                    </td>
+                    <td style={td}>{l.pcs}</td>
+                    <td style={td}>{l.kg}</td>
+                    <td style={td}>₹{l.ratePerKg}</td>
+                    <td style={td}>₹{l.ratePerPc}</td>
+                    <td style={{ ...td, fontWeight: 700 }}>₹{l.amount}</td>
+                    <td style={td}>
+                      <button style={btnDanger} onClick={() => setDraft({ ...draft, lines: draft.lines.filter(x => x.key !== dl.key) })}>
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+              <tr>
+                <td style={{ ...td, textAlign: 'left', fontWeight: 800 }}>Total</td>
+                <td style={td}></td>
+                <td style={{ ...td, fontWeight: 700 }}>{totals.pcs}</td>
+                <td style={{ ...td, fontWeight: 700 }}>{totals.kg}</td>
+                <td style={td} colSpan={2}>GST ₹{totals.gst}</td>
+                <td style={{ ...td, fontWeight: 800 }}>₹{totals.grandTotal}</td>
+                <td style={td}></td>
+              </tr>
+            </tbody>
+          </table>
+        )}
+
+        <label style={{ display: 'grid', gap: 6, marginTop: 12 }}>
+          <span style={{ fontWeight: 700 }}>Notes (printed)</span>
+          <textarea style={{ ...inputBase, minHeight: 60 }} value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} />
+        </label>
+
+        <div style={{ display: 'flex', gap: 10, marginTop: 12 }}>
+          {!readOnly && (
+            <button style={{ ...btnPrimary, ...disabledStyle(disabled) }} onClick={() => void onSave()} disabled={disabled}>
+              Save & print
+            </button>
+          )}
+          <button style={{ ...btnBase, ...disabledStyle(!lines.length) }} onClick={() => openQuotePrintView(toQuote())} disabled={!lines.length}>
+            Preview
+          </button>
+          <button style={btnBase} onClick={() => setDraft(emptyDraft(saved))}>
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div style={card}>
+        <h3 style={{ marginTop: 0 }}>Saved quotations</h3>
+        {saved.length === 0 ? (
+          <p style={subtle}>None yet.</p>
+        ) : (
+          <div style={{ display: 'grid', gap: 8 }}>
+            {saved.map(q => (
+              <div key={q.id} style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+                <b style={{ width: 120 }}>{q.number}</b>
+                <span style={{ flex: 1 }}>{q.customerName || '-'}</span>
+                <span style={subtle}>
+                  {q.date} · valid till {validUntil(q)} · {q.lines.length} items · ₹{q.totals.grandTotal}
+                </span>
+                <button style={btnBase} onClick={() => openQuotePrintView(q)}>
+                  Print
+                </button>
+                <button style={btnBase} onClick={() => onDuplicate(q)}>
+                  Re-quote
+                </button>
+                {!readOnly && (
+                  <button style={{ ...btnDanger, ...disabledStyle(disabled) }} onClick={() => void onDelete(q)} disabled={disabled}>
+                    Del
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
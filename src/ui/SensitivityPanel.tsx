@@ -0,0 +1,186 @@
+// SensitivityPanel.tsx
+import React, { useState } from 'react'
+import type { AppSettings, Item } from '../types'
+import { applyWhatIf, inputKey, readInput, runSensitivity } from '../sensitivity'
+import type { Evaluate, SensitivityStep, WhatIf } from '../sensitivity'
+import { KV } from './controls'
+import { btnBase, card, inputBase, pillTabs, subtle, tabBtn, tokens } from './styles'
+
+const SLIDERS = 8
+
+function r2(n: number) {
+  return Math.round(n * 100) / 100
+}
+
+function signed(n: number) {
+  return n === 0 ? '—' : `${n > 0 ? '+' : ''}${r2(n)}`
+}
+
+function sliderRange(v: number): { max: number; step: number } {
+  const max = v > 0 ? v * 2 : 10
+  return { max, step: max <= 20 ? 0.1 : 1 }
+}
+
+// Tornado table + what-if sliders. Works on copies; the saved item is never written.
+export default function SensitivityPanel({ item, settings, evaluate }: { item: Item; settings: AppSettings; evaluate: Evaluate }) {
+  const [step, setStep] = useState<SensitivityStep>({ kind: 'relative', pct: 10 })
+  const [showAll, setShowAll] = useState(false)
+  const [whatIf, setWhatIf] = useState<WhatIf>({})
+
+  const saved = evaluate(item, settings)
+  if (!saved.ok) {
+    return (
+      <div style={{ ...card, boxShadow: 'none', marginTop: 12, color: tokens.danger, fontWeight: 700 }}>
+        {saved.errors.map(e => (
+          <div key={e.path}>{e.message}</div>
+        ))}
+      </div>
+    )
+  }
+
+  const base = saved.result
+  const rows = runSensitivity(item, settings, evaluate, step)
+  const shown = showAll ? rows : rows.slice(0, 15)
+  const maxSwing = Math.max(
+    0.0001,
+    ...rows.map(r => Math.max(Math.abs(r.lowRate.perKgRate - base.perKgRate), Math.abs(r.highRate.perKgRate - base.perKgRate)))
+  )
+
+  const sliders = rows.slice(0, SLIDERS)
+  const tried = applyWhatIf(item, settings, whatIf)
+  const whatIfOut = evaluate(tried.item, tried.settings)
+
+  const th: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', color: tokens.subtle, fontWeight: 700 }
+  const td: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', borderTop: `1px solid ${tokens.border}` }
+
+  function bar(delta: number, side: 'left' | 'right') {
+    const w = `${(Math.abs(delta) / maxSwing) * 100}%`
+    const color = delta > 0 ? '#f1c6c6' : '#bfe3c9'
+    return (
+      <div style={{ flex: 1, display: 'flex', justifyContent: side === 'left' ? 'flex-end' : 'flex-start' }}>
+        <div style={{ width: w, height: 12, background: color, borderRadius: 3 }} />
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ display: 'grid', gap: 12, marginTop: 12 }}>
+      <div style={{ ...card, boxShadow: 'none' }}>
+        <div style={{ display: 'flex', gap: 10, alignItems: 'center', flexWrap: 'wrap', marginBottom: 10 }}>
+          <h3 style={{ margin: 0 }}>What drives cost</h3>
+          <span style={{ flex: 1 }} />
+          <div style={pillTabs}>
+            <button style={tabBtn(step.kind === 'relative')} onClick={() => setStep({ kind: 'relative', pct: 10 })}>
+              ±10%
+            </button>
+            <button style={tabBtn(step.kind === 'absolute')} onClick={() => setStep({ kind: 'absolute', delta: 1 })}>
+              ±1 unit
+            </button>
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <p style={subtle}>No input moves the rate.</p>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={{ ...th, textAlign: 'left' }}>Input</th>
+                <th style={th}>Now</th>
+                <th style={th}>Low → High</th>
+                <th style={{ ...th, textAlign: 'center', width: '28%' }}>₹/kg at low | high</th>
+                <th style={th}>Swing ₹/kg</th>
+                <th style={th}>Swing ₹/pc</th>
+                <th style={th}>₹/kg per +1</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map(r => (
+                <tr key={inputKey(r)}>
+                  <td style={{ ...td, textAlign: 'left', fontFamily: 'monospace', fontSize: 12 }}>
+                    {r.target === 'settings' ? 'settings.' : ''}
+                    {r.path}
+                  </td>
+                  <td style={td}>{r.value}</td>
+                  <td style={td}>
+                    {r.low} → {r.high}
+                  </td>
+                  <td style={td}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                      {bar(r.lowRate.perKgRate - base.perKgRate, 'left')}
+                      <div style={{ width: 1, height: 16, background: tokens.text }} />
+                      {bar(r.highRate.perKgRate - base.perKgRate, 'right')}
+                    </div>
+                  </td>
+                  <td style={{ ...td, fontWeight: 700 }}>{signed(r.swingPerKg)}</td>
+                  <td style={td}>{signed(r.swingPerPc)}</td>
+                  <td style={td}>{signed(r.perUnitPerKg)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {rows.length > shown.length && (
+          <button style={{ ...btnBase, marginTop: 10 }} onClick={() => setShowAll(true)}>
+            Show all {rows.length}
+          </button>
+        )}
+      </div>
+
+      <div style={{ ...card, boxShadow: 'none' }}>
+        <div style={{ display: 'flex', gap: 10, alignItems: 'center', marginBottom: 10 }}>
+          <h3 style={{ margin: 0 }}>What if</h3>
+          <span style={{ ...subtle, fontSize: 12 }}>Not saved</span>
+          <span style={{ flex: 1 }} />
+          <button style={btnBase} onClick={() => setWhatIf({})} disabled={!Object.keys(whatIf).length}>
+            Reset
+          </button>
+        </div>
+
+        {sliders.map(r => {
+          const key = inputKey(r)
+          const v = whatIf[key] ?? r.value
+          const { max, step: s } = sliderRange(r.value)
+          return (
+            <label key={key} style={{ display: 'grid', gridTemplateColumns: '260px 1fr 110px', gap: 10, alignItems: 'center', marginBottom: 8 }}>
+              <span style={{ fontFamily: 'monospace', fontSize: 12, color: whatIf[key] !== undefined ? tokens.text : tokens.subtle }}>
+                {r.target === 'settings' ? 'settings.' : ''}
+                {r.path}
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={Math.max(max, v)}
+                step={s}
+                value={v}
+                onChange={(e) => setWhatIf(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+              />
+              <input
+                style={inputBase}
+                type="number"
+                value={v}
+                onChange={(e) => setWhatIf(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+              />
+            </label>
+          )
+        })}
+
+        <div style={{ display: 'grid', gap: 6, maxWidth: 520, marginTop: 10 }}>
+          {whatIfOut.ok ? (
+            <>
+              <KV k="Per kg (saved → what-if)" v={`₹${base.perKgRate} → ₹${whatIfOut.result.perKgRate} (${signed(whatIfOut.result.perKgRate - base.perKgRate)})`} strong />
+              <KV k="Per pc (saved → what-if)" v={`₹${base.perPcRate} → ₹${whatIfOut.result.perPcRate} (${signed(whatIfOut.result.perPcRate - base.perPcRate)})`} strong />
+            </>
+          ) : (
+            <div style={{ color: tokens.danger, fontWeight: 700 }}>What-if is not a valid item: {whatIfOut.errors[0].message}</div>
+          )}
+          {Object.keys(whatIf)
+            .filter(k => !sliders.some(r => inputKey(r) === k))
+            .map(k => (
+              <KV key={k} k={k} v={`${readInput(item, settings, k)} → ${whatIf[k]}`} />
+            ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,467 @@
+// WorkersTab.tsx
+import React, { useEffect, useMemo, useState } from 'react'
+import type { Item, Job, JobWorker, LedgerEntry } from '../types'
+import { issueText, validateLedgerEntry } from '../validate'
+import { doesStage, issueMaterial, stageTerms, workerBalance, workerStatement } from '../workers'
+import { componentName, pressedComponents } from '../components'
+import { deleteLedgerEntry, deleteWorker, listJobs, listLedger, listWorkers, upsertLedgerEntry, upsertWorker } from '../db'
+import { makeId } from '../seed'
+import { KV } from './controls'
+import { btnBase, btnDanger, btnPrimary, card, danger, disabledStyle, inputBase, selectBase, subtle, tokens } from './styles'
+
+type EntryDraft = {
+  kind: LedgerEntry['kind']
+  workerId: string
+  date: string
+  itemId: string
+  stageKey: string              // `${part}.${stageId}`
+  jobId: string
+  kg: number
+  scrapKg: number
+  pcs?: number
+  note: string
+}
+
+function today(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+function emptyWorker(): JobWorker {
+  return { id: makeId('w'), name: '', phone: '', stageNames: [], notes: '', active: true }
+}
+
+function emptyEntry(prev?: EntryDraft): EntryDraft {
+  return {
+    kind: prev?.kind ?? 'issue',
+    workerId: prev?.workerId ?? '',
+    date: prev?.date ?? today(),
+    itemId: prev?.itemId ?? '',
+    stageKey: prev?.stageKey ?? '',
+    jobId: prev?.jobId ?? '',
+    kg: 0,
+    scrapKg: 0,
+    note: ''
+  }
+}
+
+function kg(n: number) {
+  return `${Math.round(n * 1000) / 1000} kg`
+}
+
+export default function WorkersTab({ items, busy }: { items: Item[]; busy: boolean }) {
+  const [workers, setWorkers] = useState<JobWorker[]>([])
+  const [ledger, setLedger] = useState<LedgerEntry[]>([])
+  const [jobs, setJobs] = useState<Job[]>([])
+  const [editing, setEditing] = useState<JobWorker | null>(null)
+  const [entry, setEntry] = useState<EntryDraft>(() => emptyEntry())
+  const [viewId, setViewId] = useState<string>('')
+  const [from, setFrom] = useState<string>('')
+  const [to, setTo] = useState<string>('')
+  const [working, setWorking] = useState(false)
+  const [msg, setMsg] = useState<string>('')
+
+  async function reload() {
+    try {
+      const [ws, es, js] = await Promise.all([listWorkers(), listLedger(), listJobs()])
+      setWorkers(ws)
+      setLedger(es)
+      setJobs(js)
+    } catch (e) {
+      setMsg((e as Error).message || 'Could not load job workers')
+    }
+  }
+
+  useEffect(() => {
+    void reload()
+  }, [])
+
+  async function run(what: string, fn: () => Promise<void>): Promise<boolean> {
+    try {
+      setWorking(true)
+      setMsg('')
+      await fn()
+      await reload()
+      return true
+    } catch (e) {
+      setMsg((e as Error).message || `${what} failed`)
+      return false
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const item = items.find(i => i.id === entry.itemId)
+  const stageOptions = useMemo(() => {
+    if (!item) return []
+    return pressedComponents(item).flatMap(part => {
+      const enabled = part.stages.filter(s => s.enabled)
+      return enabled.map(s => ({ key: `${part.id}.${s.id}`, part: part.id, partName: part.name, stage: s, material: issueMaterial(enabled, s.id) }))
+    })
+  }, [item])
+  const picked = stageOptions.find(o => o.key === entry.stageKey)
+
+  // Workers who do the picked stage first, inactive ones hidden
+  const workerOptions = useMemo(() => {
+    const active = workers.filter(w => w.active || w.id === entry.workerId)
+    if (!picked) return active
+    return [...active.filter(w => doesStage(w, picked.stage.name)), ...active.filter(w => !doesStage(w, picked.stage.name))]
+  }, [workers, picked, entry.workerId])
+
+  // Id is given on save
+  function toEntry(): LedgerEntry | null {
+    if (!item || !picked) return null
+    return {
+      id: '',
+      workerId: entry.workerId,
+      date: entry.date,
+      kind: entry.kind,
+      material: entry.kind === 'issue' ? picked.material : 'goods',
+      itemId: item.id,
+      itemName: item.name,
+      part: picked.part,
+      stageId: picked.stage.id,
+      stageName: picked.stage.name,
+      terms: stageTerms(picked.stage),
+      kg: entry.kg,
+      scrapKg: entry.kind === 'receipt' ? entry.scrapKg : 0,
+      pcs: entry.kind === 'receipt' ? entry.pcs : undefined,
+      jobId: entry.jobId || undefined,
+      note: entry.note
+    }
+  }
+
+  const draftEntry = toEntry()
+  const report = draftEntry ? validateLedgerEntry(draftEntry) : null
+
+  async function onAddEntry() {
+    if (!draftEntry || !report) {
+      setMsg('Pick the item and stage')
+      return
+    }
+    if (report.errors.length) {
+      setMsg(issueText('Cannot record', report.errors))
+      return
+    }
+    if (await run('Save', () => upsertLedgerEntry({ ...draftEntry, id: makeId('le') }))) setEntry(emptyEntry(entry))
+  }
+
+  async function onSaveWorker(w: JobWorker) {
+    if (!w.name.trim()) {
+      setMsg('Worker name is required')
+      return
+    }
+    if (await run('Save', () => upsertWorker(w))) setEditing(null)
+  }
+
+  async function onDeleteWorker(w: JobWorker) {
+    if (ledger.some(e => e.workerId === w.id)) {
+      setMsg(`${w.name} has ledger entries: mark inactive instead`)
+      return
+    }
+    if (!window.confirm(`Delete ${w.name}?`)) return
+    await run('Delete', () => deleteWorker(w.id))
+  }
+
+  async function onDeleteEntry(e: LedgerEntry) {
+    if (!window.confirm(`Delete this ${e.kind} of ${kg(e.kg)}?`)) return
+    await run('Delete', () => deleteLedgerEntry(e.id))
+  }
+
+  const viewing = workers.find(w => w.id === viewId)
+  const balance = useMemo(() => (viewId ? workerBalance(ledger, viewId) : null), [ledger, viewId])
+  const statement = useMemo(() => (viewId ? workerStatement(ledger, viewId, from, to) : null), [ledger, viewId, from, to])
+  const jobsForItem = jobs.filter(j => j.itemId === entry.itemId && j.status === 'open')
+
+  const disabled = busy || working
+  const th: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', color: tokens.subtle, fontWeight: 700 }
+  const td: React.CSSProperties = { textAlign: 'right', padding: '6px 4px', borderTop: `1px solid ${tokens.border}` }
+  const label: React.CSSProperties = { display: 'grid', gap: 6 }
+
+  return (
+    <div style={{ display: 'grid', gap: 14 }}>
+      <div style={card}>
+        <h3 style={{ marginTop: 0 }}>Issue / receive</h3>
+
+        {msg && <div style={{ ...danger, marginBottom: 10 }}>{msg}</div>}
+
+        <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+          <label style={label}>
+            <span style={{ fontWeight: 700 }}>Entry</span>
+            <select style={selectBase} value={entry.kind} onChange={(e) => setEntry({ ...entry, kind: e.target.value as LedgerEntry['kind'] })}>
+              <option value="issue">Issue to worker</option>
+              <option value="receipt">Receive from worker</option>
+            </select>
+          </label>
+          <label style={label}>
+            <span style={{ fontWeight: 700 }}>Date</span>
+            <input style={{ ...inputBase, width: 160 }} type="date" value={entry.date} onChange={(e) => setEntry({ ...entry, date: e.target.value })} />
+          </label>
+          <label style={{ ...label, minWidth: 200 }}>
+            <span style={{ fontWeight: 700 }}>Item</span>
+            <select style={selectBase} value={entry.itemId} onChange={(e) => setEntry({ ...entry, itemId: e.target.value, stageKey: '', jobId: '' })}>
+              <option value="">Pick item…</option>
+              {items.map(it => (
+                <option key={it.id} value={it.id}>
+                  {it.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={label}>
+            <span style={{ fontWeight: 700 }}>Stage</span>
+            <select style={selectBase} value={entry.stageKey} onChange={(e) => setEntry({ ...entry, stageKey: e.target.value })}>
+              <option value="">Pick stage…</option>
+              {stageOptions.map(o => (
+                <option key={o.key} value={o.key}>
+                  {o.partName} · {o.stage.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={label}>
+            <span style={{ fontWeight: 700 }}>Worker</span>
+            <select style={selectBase} value={entry.workerId} onChange={(e) => setEntry({ ...entry, workerId: e.target.value })}>
+              <option value="">Pick worker…</option>
+              {workerOptions.map(w => (
+                <option key={w.id} value={w.id}>
+                  {w.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          {jobsForItem.length > 0 && (
+            <label style={label}>
+              <span style={{ fontWeight: 700 }}>Job</span>
+              <select style={selectBase} value={entry.jobId} onChange={(e) => setEntry({ ...entry, jobId: e.target.value })}>
+                <option value="">—</option>
+                {jobsForItem.map(j => (
+                  <option key={j.id} value={j.id}>
+                    {j.number}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end', marginTop: 12 }}>
+          <label style={label}>
+            <span style={{ fontWeight: 700 }}>{entry.kind === 'issue' ? `${picked?.material === 'circle' ? 'Circles' : 'Kala'} kg` : 'Goods kg'}</span>
+            <input style={{ ...inputBase, width: 120 }} type="number" step={0.001} value={entry.kg} onChange={(e) => setEntry({ ...entry, kg: Number(e.target.value) })} />
+          </label>
+          {entry.kind === 'receipt' && (
+            <>
+              <label style={label}>
+                <span style={{ fontWeight: 700 }}>Tut / scrap kg</span>
+                <input style={{ ...inputBase, width: 120 }} type="number" step={0.001} value={entry.scrapKg} onChange={(e) => setEntry({ ...entry, scrapKg: Number(e.target.value) })} />
+              </label>
+              <label style={label}>
+                <span style={{ fontWeight: 700 }}>Pcs</span>
+                <input
+                  style={{ ...inputBase, width: 100 }}
+                  type="number"
+                  value={entry.pcs ?? ''}
+                  placeholder="optional"
+                  onChange={(e) => setEntry({ ...entry, pcs: e.target.value === '' ? undefined : Number(e.target.value) })}
+                />
+              </label>
+            </>
+          )}
+          <label style={{ ...label, flex: 1, minWidth: 180 }}>
+            <span style={{ fontWeight: 700 }}>Note</span>
+            <input style={inputBase} value={entry.note} onChange={(e) => setEntry({ ...entry, note: e.target.value })} />
+          </label>
+          <button style={{ ...btnPrimary, ...disabledStyle(disabled || !draftEntry) }} onClick={() => void onAddEntry()} disabled={disabled || !draftEntry}>
+            Record
+          </button>
+        </div>
+
+        {picked && (
+          <p style={{ ...subtle, marginBottom: 0 }}>
+            {picked.stage.name}: ₹{picked.stage.rate} {picked.stage.chargeBasis === 'perPc' ? 'per pc' : `per kg ${picked.stage.chargeBasis === 'inputKg' ? 'issued' : 'received'}`} · job wastage{' '}
+            {picked.stage.jobWastagePct}% · tut {picked.stage.tutPct}%
+          </p>
+        )}
+        {report?.warnings.map(w => (
+          <div key={w.path} style={{ color: '#8a5a00', fontWeight: 700, marginTop: 6 }}>
+            {w.message}
+          </div>
+        ))}
+      </div>
+
+      <div style={card}>
+        <div style={{ display: 'flex', gap: 10, alignItems: 'center', flexWrap: 'wrap' }}>
+          <h3 style={{ margin: 0 }}>Job workers</h3>
+          <span style={{ flex: 1 }} />
+          <button style={btnBase} onClick={() => setEditing(emptyWorker())}>
+            + Add worker
+          </button>
+        </div>
+
+        {editing && (
+          <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end', marginTop: 12 }}>
+            <label style={label}>
+              <span style={{ fontWeight: 700 }}>Name</span>
+              <input style={{ ...inputBase, width: 200 }} value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} />
+            </label>
+            <label style={label}>
+              <span style={{ fontWeight: 700 }}>Phone</span>
+              <input style={{ ...inputBase, width: 150 }} value={editing.phone} onChange={(e) => setEditing({ ...editing, phone: e.target.value })} />
+            </label>
+            <label style={{ ...label, flex: 1, minWidth: 200 }}>
+              <span style={{ fontWeight: 700 }}>Stages (comma separated, blank = any)</span>
+              <input
+                style={inputBase}
+                value={editing.stageNames.join(', ')}
+                onChange={(e) => setEditing({ ...editing, stageNames: e.target.value.split(',').map(x => x.trim()).filter(Boolean) })}
+              />
+            </label>
+            <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+              <input type="checkbox" checked={editing.active} onChange={(e) => setEditing({ ...editing, active: e.target.checked })} />
+              Active
+            </label>
+            <button style={{ ...btnPrimary, ...disabledStyle(disabled) }} onClick={() => void onSaveWorker(editing)} disabled={disabled}>
+              Save
+            </button>
+            <button style={btnBase} onClick={() => setEditing(null)}>
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {workers.length === 0 ? (
+          <p style={subtle}>None yet.</p>
+        ) : (
+          <div style={{ display: 'grid', gap: 8, marginTop: 12 }}>
+            {workers.map(w => (
+              <div key={w.id} style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap', opacity: w.active ? 1 : 0.55 }}>
+                <b style={{ width: 180 }}>{w.name}</b>
+                <span style={{ flex: 1, ...subtle }}>
+                  {w.stageNames.join(', ') || 'any stage'}
+                  {w.phone ? ` · ${w.phone}` : ''}
+                  {w.active ? '' : ' · inactive'}
+                </span>
+                <button style={btnBase} onClick={() => setViewId(w.id)}>
+                  Statement
+                </button>
+                <button style={btnBase} onClick={() => setEditing(w)}>
+                  Edit
+                </button>
+                <button style={{ ...btnDanger, ...disabledStyle(disabled) }} onClick={() => void onDeleteWorker(w)} disabled={disabled}>
+                  Del
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {viewing && balance && statement && (
+        <div style={card}>
+          <div style={{ display: 'flex', gap: 10, alignItems: 'center', flexWrap: 'wrap' }}>
+            <h3 style={{ margin: 0 }}>{viewing.name}</h3>
+            <span style={{ flex: 1 }} />
+            <button style={btnBase} onClick={() => setViewId('')}>
+              Close
+            </button>
+          </div>
+
+          <h4>Material balance</h4>
+          {balance.lots.length === 0 ? (
+            <p style={subtle}>Nothing issued yet.</p>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th style={{ ...th, textAlign: 'left' }}>Item · stage</th>
+                  <th style={th}>Issued</th>
+                  <th style={th}>Received</th>
+                  <th style={th}>Scrap (expected)</th>
+                  <th style={th}>Allowed kept</th>
+                  <th style={th}>With worker</th>
+                </tr>
+              </thead>
+              <tbody>
+                {balance.lots.map(l => (
+                  <tr key={l.key}>
+                    <td style={{ ...td, textAlign: 'left' }}>
+                      {l.itemName} · {componentName(items.find(i => i.id === l.itemId), l.part)} {l.stageName}
+                    </td>
+                    <td style={td}>{kg(l.issuedKg)}</td>
+                    <td style={td}>{kg(l.receivedKg)}</td>
+                    <td style={{ ...td, ...(l.tutShortKg > 0 ? { color: tokens.danger, fontWeight: 700 } : {}) }}>
+                      {kg(l.scrapKg)} ({kg(l.expectedTutKg)})
+                    </td>
+                    <td style={td}>{kg(l.allowedKeptKg)}</td>
+                    <td style={{ ...td, fontWeight: 700, ...(l.withWorkerKg < 0 ? { color: tokens.danger } : {}) }}>{kg(l.withWorkerKg)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div style={{ display: 'grid', gap: 6, maxWidth: 460, marginTop: 10 }}>
+            <KV k="Still with worker (in process or short)" v={kg(balance.totals.withWorkerKg)} strong />
+            <KV k="Tut not returned" v={kg(balance.totals.tutShortKg)} />
+          </div>
+
+          <h4>Statement</h4>
+          <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end', marginBottom: 10 }}>
+            <label style={label}>
+              <span style={{ fontWeight: 700 }}>From</span>
+              <input style={{ ...inputBase, width: 160 }} type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </label>
+            <label style={label}>
+              <span style={{ fontWeight: 700 }}>To</span>
+              <input style={{ ...inputBase, width: 160 }} type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </label>
+          </div>
+          {statement.lines.length === 0 ? (
+            <p style={subtle}>No entries in this period.</p>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th style={{ ...th, textAlign: 'left' }}>Date</th>
+                  <th style={{ ...th, textAlign: 'left' }}>Entry</th>
+                  <th style={th}>Kg</th>
+                  <th style={th}>Scrap</th>
+                  <th style={th}>Labour</th>
+                  <th style={th}>Owed</th>
+                  <th style={th}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {statement.lines.map(({ entry: e, charge, runningTotal }) => (
+                  <tr key={e.id}>
+                    <td style={{ ...td, textAlign: 'left' }}>{e.date}</td>
+                    <td style={{ ...td, textAlign: 'left' }}>
+                      {e.kind === 'issue' ? `Issued ${e.material}` : 'Received'} · {e.itemName} · {e.stageName}
+                      {e.note ? <span style={subtle}> · {e.note}</span> : null}
+                    </td>
+                    <td style={td}>{kg(e.kg)}</td>
+                    <td style={td}>{e.kind === 'receipt' ? kg(e.scrapKg) : ''}</td>
+                    <td style={td}>{charge ? `₹${charge}` : ''}</td>
+                    <td style={td}>₹{runningTotal}</td>
+                    <td style={td}>
+                      <button style={{ ...btnDanger, ...disabledStyle(disabled) }} onClick={() => void onDeleteEntry(e)} disabled={disabled}>
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                <tr>
+                  <td style={{ ...td, textAlign: 'left', fontWeight: 800 }} colSpan={5}>
+                    Labour owed
+                  </td>
+                  <td style={{ ...td, fontWeight: 800 }}>₹{statement.total}</td>
+                  <td style={td}></td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
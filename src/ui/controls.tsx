@@ -0,0 +1,112 @@
+// controls.tsx
+import type React from 'react'
+import type { FieldIssue } from '../validate'
+
+const ISSUE_COLOR: Record<FieldIssue['level'], string> = { error: '#b00020', warning: '#8a5a00' }
+
+// Validation message under an input (second grid column)
+function IssueNote({ issue }: { issue?: FieldIssue }) {
+  if (!issue) return null
+  return <span style={{ gridColumn: 2, marginTop: -6, fontSize: 12, fontWeight: 700, color: ISSUE_COLOR[issue.level] }}>{issue.message}</span>
+}
+
+function withIssue(style: React.CSSProperties, issue?: FieldIssue): React.CSSProperties {
+  return issue ? { ...style, borderColor: ISSUE_COLOR[issue.level] } : style
+}
+
+export function KV({ k, v, strong }: { k: string; v: string; strong?: boolean }) {
+  return (
+    <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12 }}>
+      <div style={{ color: '#6b7280' }}>{k}</div>
+      <div style={{ fontWeight: strong ? 800 : 700 }}>{v}</div>
+    </div>
+  )
+}
+
+export function Num({
+  label,
+  value,
+  onChange,
+  step = 0.01,
+  issue,
+  inputStyle
+}: {
+  label: string
+  value: number
+  onChange: (n: number) => void
+  step?: number
+  issue?: FieldIssue
+  inputStyle: React.CSSProperties
+}) {
+  return (
+    <label style={{ display: 'grid', gridTemplateColumns: '240px 1fr', gap: 10, alignItems: 'center', marginBottom: 10 }}>
+      <span style={{ color: '#374151', fontWeight: 600 }}>{label}</span>
+      <input style={withIssue(inputStyle, issue)} type="number" step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} />
+      <IssueNote issue={issue} />
+    </label>
+  )
+}
+
+// Blank input => undefined (falls back to the default)
+export function OptNum({
+  label,
+  value,
+  onChange,
+  step = 0.01,
+  placeholder = 'default',
+  issue,
+  inputStyle
+}: {
+  label: string
+  value: number | undefined
+  onChange: (n: number | undefined) => void
+  step?: number
+  placeholder?: string
+  issue?: FieldIssue
+  inputStyle: React.CSSProperties
+}) {
+  return (
+    <label style={{ display: 'grid', gridTemplateColumns: '240px 1fr', gap: 10, alignItems: 'center', marginBottom: 10 }}>
+      <span style={{ color: '#374151', fontWeight: 600 }}>{label}</span>
+      <input
+        style={withIssue(inputStyle, issue)}
+        type="number"
+        step={step}
+        value={value ?? ''}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+      />
+      <IssueNote issue={issue} />
+    </label>
+  )
+}
+
+export function Pick({
+  label,
+  value,
+  options,
+  onChange,
+  issue,
+  inputStyle
+}: {
+  label: string
+  value: string
+  options: { value: string; label: string }[]
+  onChange: (v: string) => void
+  issue?: FieldIssue
+  inputStyle: React.CSSProperties
+}) {
+  return (
+    <label style={{ display: 'grid', gridTemplateColumns: '240px 1fr', gap: 10, alignItems: 'center', marginBottom: 10 }}>
+      <span style={{ color: '#374151', fontWeight: 600 }}>{label}</span>
+      <select style={withIssue(inputStyle, issue)} value={value} onChange={(e) => onChange(e.target.value)}>
+        {options.map(o => (
+          <option key={o.value} value={o.value}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+      <IssueNote issue={issue} />
+    </label>
+  )
+}
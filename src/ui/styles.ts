@@ -0,0 +1,95 @@
+// styles.ts
+import type React from 'react'
+
+// ===========================
+// Styles (simple design system)
+// ===========================
+export const tokens = {
+  bg: '#f6f7f9',
+  card: '#ffffff',
+  border: '#e5e7eb',
+  text: '#111827',
+  subtle: '#6b7280',
+  danger: '#b00020',
+  ok: '#156c2f',
+  focus: '#111827'
+}
+
+export const pageStyle: React.CSSProperties = {
+  fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto, Arial',
+  padding: 16,
+  maxWidth: 1200,
+  margin: '0 auto',
+  color: tokens.text
+}
+
+export const shell: React.CSSProperties = {
+  background: tokens.bg,
+  minHeight: '100vh'
+}
+
+export const card: React.CSSProperties = {
+  border: `1px solid ${tokens.border}`,
+  borderRadius: 14,
+  padding: 14,
+  background: tokens.card,
+  boxShadow: '0 1px 2px rgba(0,0,0,0.04)'
+}
+
+export const subtle: React.CSSProperties = { color: tokens.subtle }
+export const danger: React.CSSProperties = { color: tokens.danger }
+
+export const btnBase: React.CSSProperties = {
+  padding: '9px 12px',
+  borderRadius: 12,
+  border: `1px solid ${tokens.border}`,
+  background: '#fff',
+  cursor: 'pointer',
+  fontWeight: 600
+}
+
+export const btnPrimary: React.CSSProperties = {
+  ...btnBase,
+  border: `1px solid ${tokens.focus}`,
+  background: tokens.focus,
+  color: '#fff'
+}
+
+export const btnDanger: React.CSSProperties = {
+  ...btnBase,
+  border: '1px solid #f0b5b5',
+  background: '#fff5f5',
+  color: '#7a0b0b'
+}
+
+export const inputBase: React.CSSProperties = {
+  width: '100%',
+  padding: '9px 10px',
+  borderRadius: 12,
+  border: `1px solid ${tokens.border}`,
+  outline: 'none',
+  background: '#fff'
+}
+
+export const selectBase: React.CSSProperties = {
+  ...inputBase,
+  width: 'auto',
+  minWidth: 280
+}
+
+export const pillTabs: React.CSSProperties = {
+  display: 'flex',
+  gap: 8,
+  flexWrap: 'wrap',
+  alignItems: 'center'
+}
+
+export const tabBtn = (active: boolean): React.CSSProperties => ({
+  ...btnBase,
+  background: active ? '#111827' : '#fff',
+  color: active ? '#fff' : tokens.text,
+  border: active ? '1px solid #111827' : `1px solid ${tokens.border}`
+})
+
+export const disabledStyle = (isDisabled: boolean): React.CSSProperties =>
+  isDisabled ? { opacity: 0.55, cursor: 'not-allowed' } : {}
@@ -0,0 +1,124 @@
+// validate.test.ts
+import { describe, expect, it } from 'vitest'
+import type { Item, PurchasedComponent } from './types'
+import { calculate } from './calc'
+import { setPath } from './fields'
+import { assertValidBackup, validateItem, validateSettings } from './validate'
+import { seedItems, seedSettings } from './seed'
+import { BACKUP_SCHEMA_VERSION } from './schema'
+import { newPurchasedComponent, pressedComponents, purchasedComponents, replaceComponent } from './components'
+import { newBlanking } from './blanking'
+
+const item = seedItems[0]
+const m = seedSettings.materials
+const press = `components.box.stages.${pressedComponents(item)[0].stages[0].id}`
+
+function errorPaths(it: Item) {
+  return validateItem(it, m).errors.map(e => e.path)
+}
+
+describe('validateItem', () => {
+  it('accepts every seed item without errors or warnings', () => {
+    for (const it of seedItems) expect(validateItem(it, m), it.name).toEqual({ errors: [], warnings: [] })
+  })
+
+  it('flags the inputs that break the math', () => {
+    expect(errorPaths(setPath(item, 'bagProfile.pipe.pcsPerPipe', 0))).toEqual(['bagProfile.pipe.pcsPerPipe'])
+    expect(errorPaths(setPath(item, `${press}.tutPct`, 100))).toEqual([`${press}.tutPct`])
+    expect(errorPaths(setPath(item, 'components.cover.thicknessMm', -0.26))).toEqual(['components.cover.thicknessMm'])
+    expect(errorPaths(setPath(item, 'components.box.circleSizeIn', 0))).toEqual(['components.box.circleSizeIn'])
+    expect(errorPaths({ ...item, name: '  ' })).toEqual(['name'])
+  })
+
+  it('warns (but allows) a stage losing more than 30%', () => {
+    const r = validateItem(setPath(setPath(item, `${press}.tutPct`, 20), `${press}.jobWastagePct`, 15), m)
+    expect(r.errors).toEqual([])
+    expect(r.warnings.map(w => w.path)).toEqual([`${press}.tutPct`])
+  })
+
+  it('warns about a material key missing from the master', () => {
+    const withKunda = seedItems.find(it => purchasedComponents(it).length) as Item
+    const r = validateItem(setPath(withKunda, 'components.kunda.grade', 'kunda-x'), m)
+    expect(r.errors).toEqual([])
+    expect(r.warnings[0].message).toMatch(/kunda-x/)
+  })
+
+  it('needs components with unique ids and names', () => {
+    const handle = newPurchasedComponent('handle', 'Handle')
+    expect(errorPaths({ ...item, components: [] })).toEqual(['components'])
+    expect(errorPaths({ ...item, components: [handle] })).toEqual(['components'])
+    expect(errorPaths({ ...item, components: [...item.components, { ...handle, id: 'box' }] })).toEqual(['components.box.id'])
+    expect(errorPaths(setPath(item, 'components.cover.name', ''))).toEqual(['components.cover.name'])
+  })
+
+  it('needs a blanking sheet that fits the circle', () => {
+    const box = pressedComponents(item)[0]
+    const blanked = replaceComponent(item, { ...box, blanking: { ...newBlanking(180), widthIn: box.circleSizeIn / 2 } })
+    expect(errorPaths(blanked)).toEqual([`components.${box.id}.blanking.widthIn`])
+    expect(errorPaths(replaceComponent(item, { ...box, blanking: { ...newBlanking(180), enabled: false, widthIn: 0 } }))).toEqual([])
+  })
+
+  it('needs a piece count for a fixed-pcs bag and whole inner packs', () => {
+    expect(errorPaths({ ...item, packaging: { target: 'pcs', rounding: 'floor', innerPcs: 2.5 } })).toEqual(['packaging.pcsPerBag', 'packaging.innerPcs'])
+    expect(errorPaths({ ...item, packaging: { target: 'kg', bagKg: 50, rounding: 'floor', innerPcs: 24 } })).toEqual([])
+  })
+
+  it('warns about a piece-rate component without a rate', () => {
+    const handle: PurchasedComponent = { kind: 'purchased', id: 'handle', name: 'Handle', basis: 'piece', weightG: 4 }
+    const r = validateItem({ ...item, components: [...item.components, handle] }, m)
+    expect(r.errors).toEqual([])
+    expect(r.warnings.map(w => w.path)).toEqual(['components.handle.ratePerPc'])
+  })
+})
+
+describe('validateSettings', () => {
+  it('accepts the defaults', () => {
+    expect(validateSettings(seedSettings).errors).toEqual([])
+  })
+
+  it('rejects a zero bag, 100% broker and duplicate master keys', () => {
+    const s = {
+      ...seedSettings,
+      bagStandardKg: 0,
+      pricing: { ...seedSettings.pricing, brokerPct: 100 },
+      materials: { ...m, kunda: [...m.kunda, { ...m.kunda[0] }] }
+    }
+    expect(validateSettings(s).errors.map(e => e.path)).toEqual(['bagStandardKg', 'pricing.brokerPct', 'materials.kunda.kunda-a.key'])
+  })
+
+  it('needs a density on every metal grade and warns about unknown grades', () => {
+    const materials = { ...m, grades: m.grades.map((g, i) => (i === 1 ? { ...g, densityGcc: 0 } : g)), circles: m.circles.map((c, i) => (i === 0 ? { ...c, grade: 'zinc' } : c)) }
+    const r = validateSettings({ ...seedSettings, materials })
+    expect(r.errors.map(e => e.path)).toEqual(['materials.grades.ss-304.densityGcc'])
+    expect(r.warnings.map(w => w.message)).toEqual([expect.stringMatching(/zinc/)])
+    expect(validateItem(setPath(item, 'components.box.grade', 'zinc'), m).warnings.map(w => w.path)).toEqual(['components.box.grade'])
+  })
+})
+
+describe('calculate with invalid input', () => {
+  it('returns the errors instead of NaN / Infinity', () => {
+    const out = calculate(setPath(item, 'bagProfile.pipe.pcsPerPipe', 0), seedSettings)
+    expect(out.ok).toBe(false)
+    if (!out.ok) expect(out.errors[0].message).toBe('PCS per pipe must be at least 1')
+  })
+
+  it('reports invalid settings under settings.*', () => {
+    const out = calculate(item, { ...seedSettings, bagStandardKg: 0 })
+    expect(out.ok ? [] : out.errors.map(e => e.path)).toEqual(['settings.bagStandardKg'])
+  })
+
+  it('passes warnings through with the result', () => {
+    const out = calculate(setPath(item, `${press}.tutPct`, 40), seedSettings)
+    expect(out.ok && out.warnings.length).toBe(1)
+    expect(out.ok && isFinite(out.result.perKgRate)).toBe(true)
+  })
+})
+
+describe('assertValidBackup', () => {
+  it('names the first bad item', () => {
+    const bad = { ...item, name: 'Broken', bagProfile: { ...item.bagProfile, pipe: { ...item.bagProfile.pipe, pcsPerPipe: 0 } } }
+    expect(() => assertValidBackup({ schemaVersion: BACKUP_SCHEMA_VERSION, settings: seedSettings, items: [item, bad] })).toThrow(
+      'Cannot save "Broken": PCS per pipe must be at least 1'
+    )
+  })
+})
@@ -0,0 +1,328 @@
+// validate.ts
+// Ranges and cross-field rules for items and settings. Shared by calculate(), the ItemEditor,
+// bulk edit and backup import:
+// - errors make the numbers meaningless (divide by zero, negative size) => no cost, no save
+// - warnings are legal but look like typos (e.g. 40% tut) => shown, never block
+// Paths are fields.ts paths (stages by id, master rows by key), so the editor can put
+// each issue next to its input.
+import type { AppSettings, BackupBlob, BlankingSpec, CircleAdderRule, Item, LedgerEntry, MaterialMaster, Packaging, PressedComponent, PricingSettings, ProcessStage, ProductFamily, PurchasedComponent } from './types'
+import { arrayKey } from './fields'
+import { nestCircles } from './blanking'
+
+export type IssueLevel = 'error' | 'warning'
+
+export type FieldIssue = {
+  path: string
+  level: IssueLevel
+  message: string
+}
+
+export type ValidationReport = {
+  errors: FieldIssue[]
+  warnings: FieldIssue[]
+}
+
+// One stage losing more than this (tut + job wastage + actual wastage) looks suspicious
+export const SUSPICIOUS_LOSS_PCT = 30
+
+type Issues = ReturnType<typeof collector>
+
+function collector() {
+  const list: FieldIssue[] = []
+  const error = (path: string, message: string) => list.push({ path, level: 'error', message })
+  const warn = (path: string, message: string) => list.push({ path, level: 'warning', message })
+
+  return {
+    error,
+    warn,
+
+    // value > 0
+    positive(path: string, label: string, v: number) {
+      if (!isFinite(v)) error(path, `${label} must be a number`)
+      else if (v <= 0) error(path, `${label} must be above 0`)
+    },
+
+    // value >= 0 (undefined allowed for optional overrides)
+    nonNegative(path: string, label: string, v: number | undefined) {
+      if (v === undefined) return
+      if (!isFinite(v)) error(path, `${label} must be a number`)
+      else if (v < 0) error(path, `${label} cannot be negative`)
+    },
+
+    // 0 <= value < 100: a 100% loss leaves nothing to divide by
+    percent(path: string, label: string, v: number | undefined) {
+      if (v === undefined) return
+      if (!isFinite(v)) error(path, `${label} must be a number`)
+      else if (v < 0 || v >= 100) error(path, `${label} must be from 0 up to (not including) 100%`)
+    },
+
+    report(): ValidationReport {
+      return { errors: list.filter(i => i.level === 'error'), warnings: list.filter(i => i.level === 'warning') }
+    }
+  }
+}
+
+function stageRules(out: Issues, base: string, part: string, s: ProcessStage) {
+  const p = `${base}.${s.id}`
+  const label = `${part} ${s.name || 'stage'}`
+  if (!s.name.trim()) out.error(`${p}.name`, `${part} stage name is required`)
+  out.nonNegative(`${p}.rate`, `${label} rate`, s.rate)
+  out.percent(`${p}.actualWastagePct`, `${label} actual wastage`, s.actualWastagePct)
+  out.percent(`${p}.jobWastagePct`, `${label} job wastage`, s.jobWastagePct)
+  out.percent(`${p}.tutPct`, `${label} tut`, s.tutPct)
+  out.nonNegative(`${p}.scrapReturn.ratePerKg`, `${label} scrap rate`, s.scrapReturn.ratePerKg)
+
+  const loss = s.tutPct + s.jobWastagePct + s.actualWastagePct
+  if (s.enabled && loss > SUSPICIOUS_LOSS_PCT) {
+    out.warn(`${p}.tutPct`, `${label}: tut + wastage is ${Math.round(loss * 100) / 100}% (over ${SUSPICIOUS_LOSS_PCT}%)`)
+  }
+}
+
+function pressedRules(out: Issues, part: PressedComponent, m: MaterialMaster) {
+  const p = `components.${part.id}`
+  const name = part.name || 'Component'
+  out.positive(`${p}.circleSizeIn`, `${name} circle size`, part.circleSizeIn)
+  out.positive(`${p}.thicknessMm`, `${name} thickness`, part.thicknessMm)
+  out.nonNegative(`${p}.circleRatePerKg`, `${name} circle rate`, part.circleRatePerKg)
+
+  if (part.circleSizeIn > 30) out.warn(`${p}.circleSizeIn`, `${name} circle over 30 inch looks wrong`)
+  if (part.thicknessMm > 2) out.warn(`${p}.thicknessMm`, `${name} thickness over 2 mm looks wrong`)
+  if (part.circleMaterial && !m.circles.some(c => c.key === part.circleMaterial)) {
+    out.warn(`${p}.circleMaterial`, `Unknown circle material "${part.circleMaterial}" (matched by thickness instead)`)
+  }
+  if (part.grade && !m.grades.some(g => g.key === part.grade)) out.warn(`${p}.grade`, `Unknown metal grade "${part.grade}" (weighed as shop steel)`)
+
+  if (part.blanking?.enabled) blankingRules(out, `${p}.blanking`, name, part.circleSizeIn, part.blanking)
+
+  for (const s of part.stages) stageRules(out, `${p}.stages`, name, s)
+}
+
+// A sheet that fits no circle would cost every blank at infinity
+function blankingRules(out: Issues, p: string, name: string, circleIn: number, b: BlankingSpec) {
+  const dims = b.widthIn > 0 && (b.source === 'coil' || b.lengthIn > 0)
+  out.positive(`${p}.widthIn`, `${name} ${b.source} width`, b.widthIn)
+  if (b.source === 'sheet') out.positive(`${p}.lengthIn`, `${name} sheet length`, b.lengthIn)
+  out.nonNegative(`${p}.gapIn`, `${name} blanking gap`, b.gapIn)
+  out.nonNegative(`${p}.ratePerKg`, `${name} ${b.source} rate`, b.ratePerKg)
+  out.nonNegative(`${p}.offcut.ratePerKg`, `${name} offcut scrap rate`, b.offcut.ratePerKg)
+  if (dims && circleIn > 0 && b.gapIn >= 0 && nestCircles(b, circleIn).circles === 0) {
+    out.error(`${p}.widthIn`, `${name}: a ${circleIn}" circle does not fit the ${b.source}`)
+  }
+}
+
+function purchasedRules(out: Issues, c: PurchasedComponent, m: MaterialMaster) {
+  const p = `components.${c.id}`
+  const name = c.name || 'Component'
+  out.nonNegative(`${p}.weightG`, `${name} weight`, c.weightG)
+  out.nonNegative(`${p}.ratePerKg`, `${name} rate`, c.ratePerKg)
+  out.nonNegative(`${p}.ratePerPc`, `${name} rate per pc`, c.ratePerPc)
+  if (c.weightG === 0) out.warn(`${p}.weightG`, `${name} weighs 0 g`)
+  if (c.basis === 'piece' && c.ratePerPc === undefined) out.warn(`${p}.ratePerPc`, `${name} has no rate per pc (costed at 0)`)
+  if (c.basis === 'weight' && c.grade && !m.kunda.some(g => g.key === c.grade)) out.warn(`${p}.grade`, `Unknown kunda grade "${c.grade}"`)
+}
+
+// Ids are the keys in field paths, so they must be unique; names label the reports
+function componentRules(out: Issues, item: Item, m: MaterialMaster) {
+  if (!item.components.length) out.error('components', 'Add at least one component')
+  else if (item.components.every(c => c.kind === 'purchased' && !(c.weightG > 0))) out.error('components', 'The components weigh nothing: pcs per bag cannot be worked out')
+  const ids = new Set<string>()
+  for (const c of item.components) {
+    const p = `components.${c.id}`
+    if (!c.id.trim()) out.error('components', 'Component id is required')
+    else if (ids.has(c.id)) out.error(`${p}.id`, `Component id "${c.id}" is used twice`)
+    ids.add(c.id)
+    if (!c.name.trim()) out.error(`${p}.name`, 'Component name is required')
+    if (c.kind === 'pressed') pressedRules(out, c, m)
+    else purchasedRules(out, c, m)
+  }
+}
+
+// Whether a whole piece fits the bag depends on its weight: calculate() checks that
+function packagingRules(out: Issues, p: Packaging) {
+  if (p.target === 'pcs') {
+    if (!(p.pcsPerBag !== undefined && p.pcsPerBag > 0)) out.error('packaging.pcsPerBag', 'PCS per bag must be above 0')
+    else if (!Number.isInteger(p.pcsPerBag)) out.warn('packaging.pcsPerBag', 'PCS per bag is not a whole number')
+  } else if (p.bagKg !== undefined) out.positive('packaging.bagKg', 'Bag weight', p.bagKg)
+  if (p.innerPcs !== undefined) {
+    if (!(p.innerPcs >= 1 && Number.isInteger(p.innerPcs))) out.error('packaging.innerPcs', 'PCS per inner pack must be a whole number, at least 1')
+    else if (p.target === 'pcs' && p.pcsPerBag && p.pcsPerBag % p.innerPcs) out.warn('packaging.innerPcs', `${p.pcsPerBag} pcs do not fill whole inner packs of ${p.innerPcs}`)
+  }
+  out.nonNegative('packaging.innerCostPerPack', 'Inner pack cost', p.innerCostPerPack)
+  out.nonNegative('packaging.bagCost', 'Bag / carton cost', p.bagCost)
+}
+
+function pricingRules(out: Issues, base: string, pricing: Partial<PricingSettings>) {
+  out.nonNegative(`${base}.overheadPct`, 'Overhead', pricing.overheadPct)
+  out.nonNegative(`${base}.transportPerKg`, 'Transport', pricing.transportPerKg)
+  out.nonNegative(`${base}.marginPct`, 'Margin', pricing.marginPct)
+  out.percent(`${base}.brokerPct`, 'Broker commission', pricing.brokerPct)
+  out.nonNegative(`${base}.gstPct`, 'GST', pricing.gstPct)
+}
+
+export function validateItem(item: Item, m: MaterialMaster): ValidationReport {
+  const out = collector()
+  if (!item.name.trim()) out.error('name', 'Item name is required')
+
+  componentRules(out, item, m)
+
+  const { polybag, pipe } = item.bagProfile
+  out.nonNegative('bagProfile.polybag.sizeIn', 'Polybag size', polybag.sizeIn)
+  out.nonNegative('bagProfile.polybag.gauge', 'Polybag gauge', polybag.gauge)
+  out.nonNegative('bagProfile.polybag.ratePerKg', 'Polybag rate', polybag.ratePerKg)
+  out.nonNegative('bagProfile.pipe.widthIn', 'Pipe width', pipe.widthIn)
+  out.nonNegative('bagProfile.pipe.lengthIn', 'Pipe length', pipe.lengthIn)
+  out.nonNegative('bagProfile.pipe.gauge', 'Pipe gauge', pipe.gauge)
+  out.nonNegative('bagProfile.pipe.ratePerKg', 'Pipe rate', pipe.ratePerKg)
+  if (!(pipe.pcsPerPipe >= 1)) out.error('bagProfile.pipe.pcsPerPipe', 'PCS per pipe must be at least 1')
+  else if (!Number.isInteger(pipe.pcsPerPipe)) out.warn('bagProfile.pipe.pcsPerPipe', 'PCS per pipe is not a whole number')
+  for (const [key, film] of [['polybag', polybag], ['pipe', pipe]] as const) {
+    if (film.material && !m.polythene.some(g => g.key === film.material)) {
+      out.warn(`bagProfile.${key}.material`, `Unknown polythene "${film.material}" (matched by gauge instead)`)
+    }
+  }
+
+  out.nonNegative('packing.packingRatePerKg', 'Packing rate', item.packing.packingRatePerKg)
+  if (item.packaging) packagingRules(out, item.packaging)
+  if (item.pricing) pricingRules(out, 'pricing', item.pricing)
+
+  return out.report()
+}
+
+function masterRules(out: Issues, m: MaterialMaster) {
+  const grades = new Set<string>()
+  m.grades.forEach((g, i) => {
+    const p = `materials.grades.${arrayKey(g, i)}`
+    if (!g.key.trim()) out.error(`${p}.key`, 'Metal grade key is required')
+    else if (grades.has(g.key)) out.error(`${p}.key`, `Metal grade key "${g.key}" is used twice`)
+    grades.add(g.key)
+    out.positive(`${p}.densityGcc`, `Metal grade ${g.name || g.key} density`, g.densityGcc)
+  })
+  const tables = [
+    ['circles', 'Circle', m.circles],
+    ['kunda', 'Kunda grade', m.kunda],
+    ['polythene', 'Polythene', m.polythene]
+  ] as const
+  for (const [table, label, rows] of tables) {
+    const seen = new Set<string>()
+    rows.forEach((row, i) => {
+      const p = `materials.${table}.${arrayKey(row, i)}`
+      if (!row.key.trim()) out.error(`${p}.key`, `${label} key is required`)
+      else if (seen.has(row.key)) out.error(`${p}.key`, `${label} key "${row.key}" is used twice`)
+      seen.add(row.key)
+      out.nonNegative(`${p}.ratePerKg`, `${label} ${row.name || row.key} rate`, row.ratePerKg)
+    })
+  }
+  m.circles.forEach((c, i) => {
+    const p = `materials.circles.${arrayKey(c, i)}`
+    out.positive(`${p}.thicknessMm`, `Circle ${c.name || c.key} thickness`, c.thicknessMm)
+    if (c.grade && !grades.has(c.grade)) out.warn(`${p}.grade`, `Circle ${c.name || c.key}: unknown metal grade "${c.grade}"`)
+  })
+  m.polythene.forEach((g, i) => out.positive(`materials.polythene.${arrayKey(g, i)}.gauge`, `Polythene ${g.name || g.key} gauge`, g.gauge))
+  out.nonNegative('materials.scrapRatePerKg', 'Scrap rate', m.scrapRatePerKg)
+}
+
+// Negative adders are allowed (a discount for one supplier)
+function adderRules(out: Issues, rules: CircleAdderRule[]) {
+  rules.forEach((a, i) => {
+    const p = `circleAdders.${arrayKey(a, i)}`
+    const name = a.name.trim() || 'Circle adder'
+    if (!a.name.trim()) out.error(`${p}.name`, 'Circle adder name is required')
+    if (!isFinite(a.addPerKg)) out.error(`${p}.addPerKg`, `${name}: ₹/kg must be a number`)
+    if (a.thicknessMm !== undefined) out.positive(`${p}.thicknessMm`, `${name} thickness`, a.thicknessMm)
+    out.nonNegative(`${p}.minCircleIn`, `${name} min circle`, a.minCircleIn)
+    out.nonNegative(`${p}.maxCircleIn`, `${name} max circle`, a.maxCircleIn)
+    if (a.minCircleIn !== undefined && a.maxCircleIn !== undefined && a.minCircleIn > a.maxCircleIn) {
+      out.error(`${p}.maxCircleIn`, `${name}: max circle is below min circle`)
+    }
+  })
+}
+
+function catalogRules(out: Issues, catalog: ProductFamily[]) {
+  const keys = new Set<string>()
+  catalog.forEach((f, i) => {
+    const p = `catalog.${arrayKey(f, i)}`
+    const name = f.name || f.key
+    if (!f.key.trim()) out.error(`${p}.key`, 'Family key is required')
+    else if (keys.has(f.key)) out.error(`${p}.key`, `Family key "${f.key}" is used twice`)
+    keys.add(f.key)
+    if (!f.name.trim()) out.error(`${p}.name`, 'Family name is required')
+    if (!f.sizes.length) out.warn(`${p}.sizes`, `${name} has no sizes`)
+    if (!f.bags.length) out.warn(`${p}.bags`, `${name} has no bag choices`)
+
+    const sizes = new Set<number>()
+    f.sizes.forEach((z, j) => {
+      const q = `${p}.sizes.${j}`
+      if (sizes.has(z.sizeIn)) out.error(`${q}.sizeIn`, `${name} ${z.sizeIn}" is listed twice`)
+      sizes.add(z.sizeIn)
+      out.positive(`${q}.sizeIn`, `${name} size`, z.sizeIn)
+      out.positive(`${q}.boxCircleIn`, `${name} ${z.sizeIn}" box circle`, z.boxCircleIn)
+      out.positive(`${q}.coverCircleIn`, `${name} ${z.sizeIn}" cover circle`, z.coverCircleIn)
+      out.nonNegative(`${q}.polybagIn`, `${name} ${z.sizeIn}" polybag`, z.polybagIn)
+      out.nonNegative(`${q}.pipeWidthIn`, `${name} ${z.sizeIn}" pipe`, z.pipeWidthIn)
+    })
+    f.bags.forEach((b, j) => {
+      const q = `${p}.bags.${j}`
+      out.nonNegative(`${q}.gauge`, `${name} ${b.name} bag gauge`, b.gauge)
+      if (!(b.pcsPerPipe >= 1)) out.error(`${q}.pcsPerPipe`, `${name} ${b.name} bag: PCS per pipe must be at least 1`)
+    })
+    out.positive(`${p}.box.thicknessMm`, `${name} box thickness`, f.box.thicknessMm)
+    out.positive(`${p}.cover.thicknessMm`, `${name} cover thickness`, f.cover.thicknessMm)
+    for (const s of f.box.stages) stageRules(out, `${p}.box.stages`, `${name} box`, s)
+    for (const s of f.cover.stages) stageRules(out, `${p}.cover.stages`, `${name} cover`, s)
+    out.nonNegative(`${p}.packingRatePerKg`, `${name} packing rate`, f.packingRatePerKg)
+  })
+}
+
+export function validateSettings(s: AppSettings): ValidationReport {
+  const out = collector()
+  out.nonNegative('circleBaseRate', 'Circle base rate', s.circleBaseRate)
+  out.positive('bagStandardKg', 'Bag weight', s.bagStandardKg)
+  pricingRules(out, 'pricing', s.pricing)
+  masterRules(out, s.materials)
+  adderRules(out, s.circleAdders)
+  catalogRules(out, s.catalog)
+  return out.report()
+}
+
+export function validateLedgerEntry(e: LedgerEntry): ValidationReport {
+  const out = collector()
+  if (!e.workerId) out.error('workerId', 'Pick a job worker')
+  if (!e.itemId || !e.stageId) out.error('stageId', 'Pick the item and stage')
+  if (!e.date) out.error('date', 'Date is required')
+  if (e.kind === 'issue') out.positive('kg', 'Issued kg', e.kg)
+  else {
+    out.nonNegative('kg', 'Received kg', e.kg)
+    out.nonNegative('scrapKg', 'Scrap kg', e.scrapKg)
+    if (!(e.kg > 0 || e.scrapKg > 0)) out.error('kg', 'Enter the goods or scrap received')
+    if (e.terms.chargeBasis === 'perPc' && e.kg > 0 && !e.pcs) out.warn('pcs', `${e.stageName} is paid per piece: enter pcs for the labour`)
+  }
+  return out.report()
+}
+
+// Everything calculate() needs to be sound: the item plus the settings it reads
+export function validateForCalc(item: Item, settings: AppSettings): ValidationReport {
+  const i = validateItem(item, settings.materials)
+  const s = validateSettings(settings)
+  return { errors: [...i.errors, ...s.errors.map(e => ({ ...e, path: `settings.${e.path}` }))], warnings: i.warnings }
+}
+
+export function issueText(what: string, errors: FieldIssue[]): string {
+  const [first, ...rest] = errors
+  return `${what}: ${first.message}${rest.length ? ` (+${rest.length} more)` : ''}`
+}
+
+// Save / import guard: throws with the first error so callers can show one message
+export function assertValid(what: string, report: ValidationReport): void {
+  if (report.errors.length) throw new Error(issueText(`Cannot save ${what}`, report.errors))
+}
+
+// Import guard: the whole file is checked before anything is written
+export function assertValidBackup(blob: BackupBlob): void {
+  assertValid('settings', validateSettings(blob.settings))
+  for (const it of blob.items) assertValid(`"${it.name}"`, validateItem(it, blob.settings.materials))
+}
+
+// The issue to show next to one input (errors win over warnings)
+export function issueAt(report: ValidationReport, path: string): FieldIssue | undefined {
+  return report.errors.find(i => i.path === path) ?? report.warnings.find(i => i.path === path)
+}
@@ -0,0 +1,73 @@
+// workers.test.ts
+import { describe, expect, it } from 'vitest'
+import type { LedgerEntry, StageTerms } from './types'
+import { entryCharge, workerBalance, workerStatement } from './workers'
+
+const press: StageTerms = { chargeBasis: 'outputKg', rate: 20, jobWastagePct: 8, tutPct: 3 }
+
+function entry(patch: Partial<LedgerEntry>): LedgerEntry {
+  return {
+    id: 'e',
+    workerId: 'w1',
+    date: '2026-04-01',
+    kind: 'issue',
+    material: 'circle',
+    itemId: 'i1',
+    itemName: 'Belly 8"',
+    part: 'box',
+    stageId: 's1',
+    stageName: 'Press',
+    terms: press,
+    kg: 0,
+    scrapKg: 0,
+    note: '',
+    ...patch
+  }
+}
+
+// 100 kg in at 3% tut, 8% job wastage => 3 kg tut, 7.76 kg kept, 89.24 kg good
+const issue = entry({ id: 'a', kg: 100 })
+const fullReceipt = entry({ id: 'b', kind: 'receipt', material: 'goods', date: '2026-04-05', kg: 89.24, scrapKg: 3 })
+
+describe('workerBalance', () => {
+  it('is zero when the worker returns exactly what the stage allows', () => {
+    const [lot] = workerBalance([issue, fullReceipt], 'w1').lots
+    expect(lot.consumedKg).toBeCloseTo(100, 2)
+    expect(lot.allowedKeptKg).toBeCloseTo(7.76, 2)
+    expect(lot.withWorkerKg).toBeCloseTo(0, 2)
+    expect(lot.tutShortKg).toBeCloseTo(0, 2)
+  })
+
+  it('shows kg still with the worker and tut not returned', () => {
+    const part = entry({ id: 'c', kind: 'receipt', material: 'goods', kg: 44.62, scrapKg: 1 })
+    const [lot] = workerBalance([issue, part], 'w1').lots
+    // half the issue was worked: 50 kg still out, 0.5 kg tut owed
+    expect(lot.withWorkerKg).toBeCloseTo(50.5, 2)
+    expect(lot.tutShortKg).toBeCloseTo(0.5, 2)
+  })
+
+  it('keeps lots per item stage and ignores other workers', () => {
+    const other = entry({ id: 'd', workerId: 'w2', kg: 40 })
+    const polish = entry({ id: 'e', stageId: 's2', stageName: 'Polish', material: 'kala', kg: 10 })
+    const b = workerBalance([issue, other, polish], 'w1')
+    expect(b.lots.map(l => l.stageName)).toEqual(['Press', 'Polish'])
+    expect(b.totals.issuedKg).toBe(110)
+  })
+})
+
+describe('labour', () => {
+  it('charges by the stage basis', () => {
+    expect(entryCharge(issue)).toBe(0)
+    expect(entryCharge(fullReceipt)).toBe(1784.8)
+    expect(entryCharge({ ...issue, terms: { ...press, chargeBasis: 'inputKg' } })).toBe(2000)
+    expect(entryCharge({ ...fullReceipt, terms: { ...press, chargeBasis: 'perPc', rate: 0.5 }, pcs: 900 })).toBe(450)
+  })
+
+  it('statement runs in date order and honours the period', () => {
+    const later = entry({ id: 'f', kind: 'receipt', material: 'goods', date: '2026-05-02', kg: 10 })
+    const s = workerStatement([later, fullReceipt, issue], 'w1')
+    expect(s.lines.map(l => l.entry.id)).toEqual(['a', 'b', 'f'])
+    expect(s.total).toBe(1984.8)
+    expect(workerStatement([later, fullReceipt, issue], 'w1', '2026-05-01').total).toBe(200)
+  })
+})
@@ -0,0 +1,149 @@
+// workers.ts
+// Job-worker (karigar) ledger: every issue of circles / kala and every receipt of goods and
+// tut. The balance per worker is checked against what the item's stage allows:
+// - a receipt of G good kg used up G / ((1 - tut) * (1 - job wastage)) kg of what was issued
+//   (same flow as calc.ts), of which tut comes back as scrap and job wastage is kept
+// - anything issued beyond that is still with the worker (in process, or short)
+import type { JobWorker, LedgerEntry, ProcessStage, StageTerms } from './types'
+
+function r2(n: number) { return Math.round(n * 100) / 100 }
+function r3(n: number) { return Math.round(n * 1000) / 1000 }
+function pct(x: number): number { return x / 100 }
+
+export function stageTerms(s: ProcessStage): StageTerms {
+  return { chargeBasis: s.chargeBasis, rate: s.rate, jobWastagePct: s.jobWastagePct, tutPct: s.tutPct }
+}
+
+// Labour owed for one entry: input-kg stages are charged on issue, the rest on receipt
+export function entryCharge(e: LedgerEntry): number {
+  const { chargeBasis, rate } = e.terms
+  if (e.kind === 'issue') return chargeBasis === 'inputKg' ? r2(e.kg * rate) : 0
+  if (chargeBasis === 'outputKg') return r2(e.kg * rate)
+  if (chargeBasis === 'perPc') return r2((e.pcs ?? 0) * rate)
+  return 0
+}
+
+// Issued kg a receipt accounts for
+function consumedKg(e: LedgerEntry): number {
+  return e.kg / ((1 - pct(e.terms.tutPct)) * (1 - pct(e.terms.jobWastagePct)))
+}
+
+// ---------- BALANCE ----------
+// One lot = one item stage at one worker
+export type WorkerLot = {
+  key: string
+  itemId: string
+  itemName: string
+  part: string
+  stageName: string
+  issuedKg: number
+  receivedKg: number
+  scrapKg: number
+  consumedKg: number            // issue used up by the goods received
+  allowedKeptKg: number         // job wastage on that
+  expectedTutKg: number
+  tutShortKg: number            // tut not returned as scrap (0 when more came back)
+  withWorkerKg: number          // issued - received - scrap - allowed kept (< 0: more back than issued)
+  labour: number
+}
+
+export type WorkerBalance = {
+  lots: WorkerLot[]
+  totals: Omit<WorkerLot, 'key' | 'itemId' | 'itemName' | 'part' | 'stageName'>
+}
+
+function lotKey(e: LedgerEntry) {
+  return `${e.itemId}.${e.part}.${e.stageId}`
+}
+
+export function workerBalance(entries: LedgerEntry[], workerId: string): WorkerBalance {
+  const lots = new Map<string, WorkerLot>()
+  for (const e of entries) {
+    if (e.workerId !== workerId) continue
+    const key = lotKey(e)
+    const lot = lots.get(key) ?? {
+      key,
+      itemId: e.itemId,
+      itemName: e.itemName,
+      part: e.part,
+      stageName: e.stageName,
+      issuedKg: 0,
+      receivedKg: 0,
+      scrapKg: 0,
+      consumedKg: 0,
+      allowedKeptKg: 0,
+      expectedTutKg: 0,
+      tutShortKg: 0,
+      withWorkerKg: 0,
+      labour: 0
+    }
+    lot.labour += entryCharge(e)
+    if (e.kind === 'issue') {
+      lot.issuedKg += e.kg
+    } else {
+      const used = consumedKg(e)
+      lot.receivedKg += e.kg
+      lot.scrapKg += e.scrapKg
+      lot.consumedKg += used
+      lot.expectedTutKg += used * pct(e.terms.tutPct)
+      lot.allowedKeptKg += used * (1 - pct(e.terms.tutPct)) * pct(e.terms.jobWastagePct)
+    }
+    lots.set(key, lot)
+  }
+
+  const list = [...lots.values()].map(l => ({
+    ...l,
+    issuedKg: r3(l.issuedKg),
+    receivedKg: r3(l.receivedKg),
+    scrapKg: r3(l.scrapKg),
+    consumedKg: r3(l.consumedKg),
+    allowedKeptKg: r3(l.allowedKeptKg),
+    expectedTutKg: r3(l.expectedTutKg),
+    tutShortKg: r3(Math.max(0, l.expectedTutKg - l.scrapKg)),
+    withWorkerKg: r3(l.issuedKg - l.receivedKg - l.scrapKg - l.allowedKeptKg),
+    labour: r2(l.labour)
+  }))
+
+  const sum = (f: (l: WorkerLot) => number) => list.reduce((a, l) => a + f(l), 0)
+  return {
+    lots: list,
+    totals: {
+      issuedKg: r3(sum(l => l.issuedKg)),
+      receivedKg: r3(sum(l => l.receivedKg)),
+      scrapKg: r3(sum(l => l.scrapKg)),
+      consumedKg: r3(sum(l => l.consumedKg)),
+      allowedKeptKg: r3(sum(l => l.allowedKeptKg)),
+      expectedTutKg: r3(sum(l => l.expectedTutKg)),
+      tutShortKg: r3(sum(l => l.tutShortKg)),
+      withWorkerKg: r3(sum(l => l.withWorkerKg)),
+      labour: r2(sum(l => l.labour))
+    }
+  }
+}
+
+// ---------- STATEMENT ----------
+export type StatementLine = { entry: LedgerEntry; charge: number; runningTotal: number }
+
+// Entries of one worker in date order (inclusive range, blank = open) with labour owed
+export function workerStatement(entries: LedgerEntry[], workerId: string, from = '', to = ''): { lines: StatementLine[]; total: number } {
+  const mine = entries
+    .filter(e => e.workerId === workerId && (!from || e.date >= from) && (!to || e.date <= to))
+    .sort((a, b) => a.date.localeCompare(b.date))
+  let running = 0
+  const lines = mine.map(entry => {
+    const charge = entryCharge(entry)
+    running = r2(running + charge)
+    return { entry, charge, runningTotal: running }
+  })
+  return { lines, total: running }
+}
+
+// Workers who do this stage come first in the entry form (blank stage list = does anything)
+export function doesStage(w: Pick<JobWorker, 'stageNames'>, stageName: string): boolean {
+  return !w.stageNames.length || w.stageNames.some(n => n.toLowerCase() === stageName.toLowerCase())
+}
+
+// Issued material by position in the process: the first stage gets circles
+export function issueMaterial(stages: Pick<ProcessStage, 'id'>[], stageId: string): LedgerEntry['material'] {
+  return stages[0]?.id === stageId ? 'circle' : 'kala'
+}
@@ -0,0 +1,50 @@
+// xlsx.ts
+// Excel side of tabular.ts. exceljs is large, so it is loaded only when a workbook is
+// written or read, never on app start.
+import type { Cell, Table } from './tabular'
+
+async function excel() {
+  const mod = await import('exceljs')
+  // CJS build: the classes sit on `default` under the bundler, on the module under Node
+  return (mod as unknown as { default?: typeof mod }).default ?? mod
+}
+
+export async function tableToXlsx(t: Table, sheetName = 'Items'): Promise<Blob> {
+  const { Workbook } = await excel()
+  const wb = new Workbook()
+  const ws = wb.addWorksheet(sheetName, { views: [{ state: 'frozen', xSplit: 2, ySplit: 1 }] })
+  ws.addRow(t.columns).font = { bold: true }
+  for (const r of t.rows) ws.addRow(r.map(v => v ?? undefined))
+  ws.columns.forEach((c, i) => (c.width = i === 1 ? 32 : Math.max(10, Math.min(28, t.columns[i].length + 2))))
+  const buf = await wb.xlsx.writeBuffer()
+  return new Blob([buf], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+}
+
+// Whatever Excel stored (rich text, formula results, links, dates) as the text a CSV would hold
+function cellText(v: unknown): string {
+  if (v === null || v === undefined) return ''
+  if (v instanceof Date) return v.toISOString().slice(0, 10)
+  if (typeof v !== 'object') return String(v as Cell)
+  const o = v as { richText?: { text: string }[]; result?: unknown; text?: unknown; error?: string }
+  if (o.richText) return o.richText.map(p => p.text).join('')
+  if ('result' in o) return cellText(o.result)
+  if (o.text !== undefined) return cellText(o.text)
+  if (o.error) return o.error
+  return ''
+}
+
+// First sheet as rows of strings, same shape as parseCsv
+export async function xlsxToRows(data: ArrayBuffer): Promise<string[][]> {
+  const { Workbook } = await excel()
+  const wb = new Workbook()
+  await wb.xlsx.load(data)
+  const ws = wb.worksheets[0]
+  if (!ws) throw new Error('The workbook has no sheets')
+
+  const rows: string[][] = []
+  ws.eachRow({ includeEmpty: true }, row => {
+    const values = Array.isArray(row.values) ? row.values.slice(1) : [] // exceljs is 1-based
+    rows.push(Array.from(values, cellText))
+  })
+  return rows.filter(r => r.some(c => c.trim() !== ''))
+}
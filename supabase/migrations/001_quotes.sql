@@ -0,0 +1,20 @@
+-- Saved quotations (Quotation tab). Full quote JSON lives in `data`.
+create table if not exists public.quotes (
+  id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  number text not null,
+  customer_name text not null default '',
+  data jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists quotes_user_created_idx on public.quotes (user_id, created_at desc);
+
+alter table public.quotes enable row level security;
+
+create policy "quotes: owner read" on public.quotes
+  for select using (auth.uid() = user_id);
+
+create policy "quotes: owner write" on public.quotes
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,22 @@
+-- Price history: append-only snapshots of items/settings with the rates they produced.
+-- kind = 'item' (ref_id = item id) or 'settings' (ref_id = 'settings'). Full snapshot JSON in `data`.
+create table if not exists public.snapshots (
+  id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('item', 'settings')),
+  ref_id text not null,
+  version integer not null,
+  data jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists snapshots_user_created_idx on public.snapshots (user_id, created_at);
+create index if not exists snapshots_ref_idx on public.snapshots (user_id, ref_id, created_at);
+
+alter table public.snapshots enable row level security;
+
+create policy "snapshots: owner read" on public.snapshots
+  for select using (auth.uid() = user_id);
+
+create policy "snapshots: owner insert" on public.snapshots
+  for insert with check (auth.uid() = user_id);
@@ -0,0 +1,21 @@
+-- Production jobs (Jobs tab): frozen plan + weighed actuals live in `data`.
+create table if not exists public.jobs (
+  id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  number text not null,
+  item_id text not null,
+  status text not null default 'open',
+  data jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists jobs_user_created_idx on public.jobs (user_id, created_at desc);
+
+alter table public.jobs enable row level security;
+
+create policy "jobs: owner read" on public.jobs
+  for select using (auth.uid() = user_id);
+
+create policy "jobs: owner write" on public.jobs
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,39 @@
+-- Job workers (karigar) and their material / labour ledger. Full JSON in `data`.
+create table if not exists public.job_workers (
+  id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  data jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.job_workers enable row level security;
+
+create policy "job_workers: owner read" on public.job_workers
+  for select using (auth.uid() = user_id);
+
+create policy "job_workers: owner write" on public.job_workers
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- kind = 'issue' (circles / kala out) or 'receipt' (goods + tut back)
+create table if not exists public.worker_ledger (
+  id text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  worker_id text not null references public.job_workers (id) on delete restrict,
+  kind text not null check (kind in ('issue', 'receipt')),
+  entry_date date not null,
+  job_id text,
+  data jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists worker_ledger_worker_date_idx on public.worker_ledger (user_id, worker_id, entry_date);
+
+alter table public.worker_ledger enable row level security;
+
+create policy "worker_ledger: owner read" on public.worker_ledger
+  for select using (auth.uid() = user_id);
+
+create policy "worker_ledger: owner write" on public.worker_ledger
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,187 @@
+-- Organizations: items, settings, quotes, jobs, price history and the job-worker ledger
+-- belong to an org instead of a single login. Members are owner / editor / viewer.
+--
+-- Every existing user gets a personal org whose id is their user id, so existing rows move
+-- over with org_id = user_id (and the app's offline store for that login keeps its name).
+-- `user_id` on data rows now means "last written by".
+--
+-- Viewers read the same item and settings rows as editors: prices are calculated in the
+-- browser from them. Raw material rates are hidden from viewers in the UI, not by RLS.
+
+create table if not exists public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.org_members (
+  org_id uuid not null references public.organizations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  email text not null default '',
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  created_at timestamptz not null default now(),
+  primary key (org_id, user_id)
+);
+
+create index if not exists org_members_user_idx on public.org_members (user_id);
+
+-- Pending until the invited email logs in (accept_org_invites)
+create table if not exists public.org_invites (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  invited_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  accepted_at timestamptz,
+  unique (org_id, email)
+);
+
+-- ---------- ROLE HELPERS ----------
+-- security definer: policies on org_members would otherwise recurse into themselves
+create or replace function public.org_role(org uuid) returns text
+language sql stable security definer set search_path = public as $$
+  select role from public.org_members where org_id = org and user_id = auth.uid()
+$$;
+
+create or replace function public.is_org_member(org uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select public.org_role(org) is not null
+$$;
+
+create or replace function public.can_edit_org(org uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select coalesce(public.org_role(org) in ('owner', 'editor'), false)
+$$;
+
+create or replace function public.is_org_owner(org uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select coalesce(public.org_role(org) = 'owner', false)
+$$;
+
+-- ---------- PERSONAL ORGS FOR EXISTING USERS ----------
+insert into public.organizations (id, name, created_by)
+select u.id, 'My workspace', u.id from auth.users u
+on conflict (id) do nothing;
+
+insert into public.org_members (org_id, user_id, email, role)
+select u.id, u.id, coalesce(u.email, ''), 'owner' from auth.users u
+on conflict (org_id, user_id) do nothing;
+
+-- ---------- DATA TABLES ----------
+do $$
+declare t text;
+begin
+  foreach t in array array['items', 'settings', 'quotes', 'snapshots', 'jobs', 'job_workers', 'worker_ledger'] loop
+    execute format('alter table public.%I add column if not exists org_id uuid references public.organizations (id) on delete cascade', t);
+    execute format('update public.%I set org_id = user_id where org_id is null', t);
+    execute format('alter table public.%I alter column org_id set not null', t);
+    execute format('create index if not exists %I on public.%I (org_id)', t || '_org_idx', t);
+  end loop;
+end $$;
+
+-- One settings row per org (was one per login)
+alter table public.settings drop constraint if exists settings_user_id_key;
+create unique index if not exists settings_org_key on public.settings (org_id);
+
+-- Replace the owner-only policies (items / settings policies from before migrations
+-- existed must be dropped by hand if they were named differently)
+drop policy if exists "items: owner read" on public.items;
+drop policy if exists "items: owner write" on public.items;
+drop policy if exists "settings: owner read" on public.settings;
+drop policy if exists "settings: owner write" on public.settings;
+drop policy if exists "quotes: owner read" on public.quotes;
+drop policy if exists "quotes: owner write" on public.quotes;
+drop policy if exists "snapshots: owner read" on public.snapshots;
+drop policy if exists "snapshots: owner insert" on public.snapshots;
+drop policy if exists "jobs: owner read" on public.jobs;
+drop policy if exists "jobs: owner write" on public.jobs;
+drop policy if exists "job_workers: owner read" on public.job_workers;
+drop policy if exists "job_workers: owner write" on public.job_workers;
+drop policy if exists "worker_ledger: owner read" on public.worker_ledger;
+drop policy if exists "worker_ledger: owner write" on public.worker_ledger;
+
+do $$
+declare t text;
+begin
+  foreach t in array array['items', 'settings', 'quotes', 'jobs', 'job_workers', 'worker_ledger'] loop
+    execute format('alter table public.%I enable row level security', t);
+    execute format('create policy %I on public.%I for select using (public.is_org_member(org_id))', t || ': members read', t);
+    execute format(
+      'create policy %I on public.%I for all using (public.can_edit_org(org_id)) with check (public.can_edit_org(org_id))',
+      t || ': editors write', t
+    );
+  end loop;
+end $$;
+
+-- Price history stays append-only
+create policy "snapshots: members read" on public.snapshots
+  for select using (public.is_org_member(org_id));
+
+create policy "snapshots: editors insert" on public.snapshots
+  for insert with check (public.can_edit_org(org_id));
+
+-- ---------- ORG TABLES ----------
+alter table public.organizations enable row level security;
+alter table public.org_members enable row level security;
+alter table public.org_invites enable row level security;
+
+create policy "organizations: members read" on public.organizations
+  for select using (public.is_org_member(id));
+
+create policy "organizations: owners rename" on public.organizations
+  for update using (public.is_org_owner(id)) with check (public.is_org_owner(id));
+
+create policy "org_members: members read" on public.org_members
+  for select using (public.is_org_member(org_id));
+
+create policy "org_members: owners manage" on public.org_members
+  for all using (public.is_org_owner(org_id)) with check (public.is_org_owner(org_id));
+
+-- Anyone may leave an org
+create policy "org_members: leave" on public.org_members
+  for delete using (user_id = auth.uid());
+
+create policy "org_invites: owners manage" on public.org_invites
+  for all using (public.is_org_owner(org_id)) with check (public.is_org_owner(org_id));
+
+-- ---------- RPC ----------
+-- New login: personal org with the user id as its id (no-op when it exists)
+create or replace function public.ensure_personal_org() returns uuid
+language plpgsql security definer set search_path = public as $$
+begin
+  insert into public.organizations (id, name, created_by) values (auth.uid(), 'My workspace', auth.uid())
+  on conflict (id) do nothing;
+  insert into public.org_members (org_id, user_id, email, role)
+  values (auth.uid(), auth.uid(), coalesce(auth.jwt() ->> 'email', ''), 'owner')
+  on conflict (org_id, user_id) do nothing;
+  return auth.uid();
+end $$;
+
+create or replace function public.create_org(org_name text) returns uuid
+language plpgsql security definer set search_path = public as $$
+declare new_id uuid;
+begin
+  insert into public.organizations (name, created_by) values (org_name, auth.uid()) returning id into new_id;
+  insert into public.org_members (org_id, user_id, email, role)
+  values (new_id, auth.uid(), coalesce(auth.jwt() ->> 'email', ''), 'owner');
+  return new_id;
+end $$;
+
+-- Joins every org that invited the logged-in email; returns how many were joined
+create or replace function public.accept_org_invites() returns integer
+language plpgsql security definer set search_path = public as $$
+declare
+  me text := lower(coalesce(auth.jwt() ->> 'email', ''));
+  joined integer;
+begin
+  if me = '' then return 0; end if;
+  insert into public.org_members (org_id, user_id, email, role)
+  select org_id, auth.uid(), me, role from public.org_invites
+  where lower(email) = me and accepted_at is null
+  on conflict (org_id, user_id) do nothing;
+  get diagnostics joined = row_count;
+  update public.org_invites set accepted_at = now() where lower(email) = me and accepted_at is null;
+  return joined;
+end $$;
@@ -0,0 +1,24 @@
+-- Audit log: one row per item / settings write with who made it and a field-level diff.
+-- kind = 'item' (ref_id = item id) or 'settings' (ref_id = 'settings'). Entry JSON in `data`
+-- (changes + the before/after blobs used to revert a single change).
+-- Append-only: rows are never updated or deleted, and each member can only log as themselves.
+create table if not exists public.audit_log (
+  id text primary key,
+  org_id uuid not null references public.organizations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('item', 'settings')),
+  ref_id text not null,
+  data jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_org_created_idx on public.audit_log (org_id, created_at);
+create index if not exists audit_log_ref_idx on public.audit_log (org_id, ref_id, created_at);
+
+alter table public.audit_log enable row level security;
+
+create policy "audit_log: members read" on public.audit_log
+  for select using (public.is_org_member(org_id));
+
+create policy "audit_log: editors insert" on public.audit_log
+  for insert with check (auth.uid() = user_id and public.can_edit_org(org_id));
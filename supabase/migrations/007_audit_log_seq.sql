@@ -0,0 +1,6 @@
+-- Pull watermark for the audit log. created_at is the member's clock when the change was made,
+-- so an entry made offline and pushed later sorted behind rows others had already pulled past
+-- and never reached them. seq is handed out by the server on insert: arrival order.
+alter table public.audit_log add column if not exists seq bigint generated always as identity;
+
+create index if not exists audit_log_org_seq_idx on public.audit_log (org_id, seq);
@@ -0,0 +1,5 @@
+-- Same watermark for price history: created_at is when the snapshot was taken on the member's
+-- device, so one taken offline and pushed later was skipped by everyone who had pulled past it.
+alter table public.snapshots add column if not exists seq bigint generated always as identity;
+
+create index if not exists snapshots_org_seq_idx on public.snapshots (org_id, seq);
@@ -0,0 +1,48 @@
+-- Viewers could read the raw items / settings rows over REST (and the snapshots, audit log and
+-- jobs that copy their rates): hiding rates in the UI kept nothing from them. Those tables are
+-- now editors only, and viewers read `price_list` instead: the catalog with every rate zeroed
+-- and the weights and prices each item calculates to (publish.ts). Prices are calculated in the
+-- browser, so editors publish the list on sync; it is empty until an editor syncs once.
+
+create table if not exists public.price_list (
+  org_id uuid primary key references public.organizations (id) on delete cascade,
+  user_id uuid references auth.users (id) on delete set null,
+  data jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.price_list enable row level security;
+
+create policy "price_list: members read" on public.price_list
+  for select using (public.is_org_member(org_id));
+
+create policy "price_list: editors write" on public.price_list
+  for all using (public.can_edit_org(org_id)) with check (public.can_edit_org(org_id));
+
+do $$
+declare t text;
+begin
+  foreach t in array array['items', 'settings', 'snapshots', 'audit_log', 'jobs', 'job_workers', 'worker_ledger'] loop
+    execute format('drop policy if exists %I on public.%I', t || ': members read', t);
+    execute format('create policy %I on public.%I for select using (public.can_edit_org(org_id))', t || ': editors read', t);
+  end loop;
+end $$;
+
+-- The JWT email is whatever was typed at sign-up until the address is confirmed, so anyone
+-- could sign up as an invited address and join. Only a confirmed address accepts invites.
+create or replace function public.accept_org_invites() returns integer
+language plpgsql security definer set search_path = public as $$
+declare
+  me text;
+  joined integer;
+begin
+  select lower(email) into me from auth.users where id = auth.uid() and email_confirmed_at is not null;
+  if coalesce(me, '') = '' then return 0; end if;
+  insert into public.org_members (org_id, user_id, email, role)
+  select org_id, auth.uid(), me, role from public.org_invites
+  where lower(email) = me and accepted_at is null
+  on conflict (org_id, user_id) do nothing;
+  get diagnostics joined = row_count;
+  update public.org_invites set accepted_at = now() where lower(email) = me and accepted_at is null;
+  return joined;
+end $$;